@@ -1,12 +1,14 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { AgentNetwork } from './components/AgentNetwork';
 import { ChatInterface } from './components/ChatInterface';
 import { DealDashboard } from './components/DealDashboard';
 import { PortCoDashboard } from './components/PortCoDashboard';
 import { PipelineDashboard } from './components/PipelineDashboard';
 import { AgentLog } from './components/AgentLog';
-import { Agent, AgentRole, AgentStatus, Message, DealData, LogEntry, DeliverableType, FileAttachment, PortfolioCompany, FirmProfile, DealRoom } from './types';
+import { TraceRecordings } from './components/TraceRecordings';
+import { SpendSummary } from './components/SpendSummary';
+import { Agent, AgentRole, AgentStatus, Message, DealData, LogEntry, DeliverableType, FileAttachment, PortfolioCompany, FirmProfile, DealRoom, TraceRecording, TokenUsage } from './types';
 import { 
     getMDStrategy, 
     scoutPotentialTargets, 
@@ -21,7 +23,16 @@ import {
     analyzeDocument,
     ingestPortfolioDocuments
 } from './services/geminiService';
-import { Terminal, LayoutDashboard, Settings, Activity, Briefcase, Trash2, List } from 'lucide-react';
+import { withModelHealth } from './services/modelIntegrity';
+import { applyComps, buildCompsAnalysis } from './services/compsEngine';
+import { resolveFxTable } from './services/fxEngine';
+import { diligenceAdjustedEbitda, mergeAddBacks } from './services/qoeEngine';
+import { configureProvider, getProvider, setProvider } from './services/llmProvider';
+import { classifyError, LLMError } from './services/requestLayer';
+import { collectValidationReports, takeValidationReports } from './services/schemaValidator';
+import { beginStep, createReplayProvider, endStep, finishTrace, MAX_SAVED_TRACES, missingAttachments, startTrace, toStoredTrace, withRecording } from './services/traceRecorder';
+import { addUsage, budgetStatus, configurePricing, formatCost, meterStep, takeUsage } from './services/usageMeter';
+import { Terminal, LayoutDashboard, Settings, Activity, Briefcase, Trash2, List, X } from 'lucide-react';
 
 // Default Profile
 const DEFAULT_PROFILE: FirmProfile = {
@@ -37,6 +48,11 @@ const DEFAULT_PROFILE: FirmProfile = {
     ebitdaRange: '> $3M',
     profitabilityStatus: 'Profitable',
     fundraisingStage: 'Deploying Fund III',
+    hurdleRate: 20,
+    fundTerms: { waterfall: 'european', preferredReturn: 8, carry: 20, catchUp: 100, managementFee: 2 },
+    reserveRatio: 30,
+    investmentPeriod: 5,
+    reportingCurrency: 'USD',
     strategicNotes: 'We prefer founder-led businesses. Avoid cyclical heavy industries. High retention is key.'
 };
 
@@ -142,17 +158,45 @@ function App() {
       } catch (e) { return []; }
   });
 
+  const [traces, setTraces] = useState<TraceRecording[]>(() => {
+      try {
+          const saved = localStorage.getItem('didi_traces');
+          return saved ? JSON.parse(saved) : [];
+      } catch (e) { return []; }
+  });
+
   const [isProcessing, setIsProcessing] = useState(false);
   const [activeEdge, setActiveEdge] = useState<string | null>(null);
 
+  // Deal each running trace bills to, and deal spend as of the latest step (state lags behind)
+  const traceDeals = useRef<Record<string, string>>({});
+  const dealSpend = useRef<Record<string, number>>({});
+  // Set synchronously so a second click cannot start a run before isProcessing re-renders
+  const runLock = useRef(false);
+
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
+
   // --- EFFECT: PERSISTENCE ---
-  useEffect(() => { try { localStorage.setItem('didi_agents', JSON.stringify(agents)); } catch(e) {} }, [agents]);
-  useEffect(() => { try { localStorage.setItem('didi_messages', JSON.stringify(messages)); } catch(e) {} }, [messages]);
-  useEffect(() => { try { localStorage.setItem('didi_logs', JSON.stringify(logs)); } catch(e) {} }, [logs]);
-  useEffect(() => { try { localStorage.setItem('didi_currentView', currentView); } catch(e) {} }, [currentView]);
-  useEffect(() => { try { localStorage.setItem('didi_deals', JSON.stringify(deals)); } catch(e) {} }, [deals]);
-  useEffect(() => { try { localStorage.setItem('didi_portfolio', JSON.stringify(portfolio)); } catch(e) {} }, [portfolio]);
-  useEffect(() => { try { localStorage.setItem('didi_firmProfile', JSON.stringify(firmProfile)); } catch(e) {} }, [firmProfile]);
+  // Browser storage is capped per origin; a rejected save is shown instead of being lost silently
+  const persist = (key: string, value: string) => {
+      try {
+          localStorage.setItem(key, value);
+      } catch (e) {
+          setStorageWarning(`Could not save ${key.replace('didi_', '')}: browser storage is full. Export and delete old trace recordings or deals to free space.`);
+      }
+  };
+  useEffect(() => { persist('didi_agents', JSON.stringify(agents)); }, [agents]);
+  useEffect(() => { persist('didi_messages', JSON.stringify(messages)); }, [messages]);
+  useEffect(() => { persist('didi_logs', JSON.stringify(logs)); }, [logs]);
+  useEffect(() => { persist('didi_currentView', currentView); }, [currentView]);
+  useEffect(() => { persist('didi_deals', JSON.stringify(deals)); }, [deals]);
+  useEffect(() => { persist('didi_portfolio', JSON.stringify(portfolio)); }, [portfolio]);
+  useEffect(() => { persist('didi_firmProfile', JSON.stringify(firmProfile)); }, [firmProfile]);
+  useEffect(() => { persist('didi_traces', JSON.stringify(traces.map(toStoredTrace))); }, [traces]);
+
+  // --- EFFECT: MODEL PROVIDER ---
+  useEffect(() => { configureProvider(firmProfile.llm); }, [firmProfile.llm]);
+  useEffect(() => { configurePricing(firmProfile.modelPrices); }, [firmProfile.modelPrices]);
 
   // --- HELPERS ---
 
@@ -177,6 +221,43 @@ function App() {
 
   const generateTraceId = () => Math.random().toString(36).substring(2, 9).toUpperCase();
 
+  // Keeps the trace's recording of agent calls so the run can be replayed or exported
+  const saveTrace = (traceId: string) => {
+    const recording = finishTrace(traceId);
+    if (recording) setTraces(prev => [...prev, recording].slice(-MAX_SAVED_TRACES));
+    delete traceDeals.current[traceId];
+  };
+
+  const spentOnDeal = (dealId: string): number =>
+    dealSpend.current[dealId] ?? deals.find(d => d.id === dealId)?.usage?.cost ?? 0;
+
+  // Replays answer from the recording and cost nothing, so they are never halted
+  const assertWithinBudget = (traceId: string) => {
+    const dealId = traceDeals.current[traceId];
+    const budget = firmProfile.spendBudget;
+    if (!dealId || !budget || getProvider().id === 'replay') return;
+    const spent = spentOnDeal(dealId);
+    if (budgetStatus(spent, budget) === 'halt') {
+        throw new LLMError('budget', `Deal spend ${formatCost(spent)} is over its ${formatCost(budget.dealCap)} cap; pipeline halted`);
+    }
+  };
+
+  const chargeDeal = (traceId: string, usage: TokenUsage) => {
+    const dealId = traceDeals.current[traceId];
+    if (!dealId) return;
+    const before = spentOnDeal(dealId);
+    const after = before + usage.cost;
+    dealSpend.current[dealId] = after;
+    setDeals(prev => prev.map(d => d.id === dealId ? { ...d, usage: addUsage(d.usage, usage) } : d));
+
+    const budget = firmProfile.spendBudget;
+    if (budget && budgetStatus(before, budget) === 'ok' && budgetStatus(after, budget) !== 'ok') {
+        addMessage('system', `Deal spend of ${formatCost(after)} has passed the ${formatCost(budget.dealCap)} cap. ${budget.action === 'halt'
+            ? 'Remaining agent steps are halted.'
+            : 'The pipeline continues; review spend in the System Log or raise the cap in the Firm Mandate.'}`, "SYSTEM");
+    }
+  };
+
   const updateAgent = (role: AgentRole, updates: Partial<Agent>) => {
     setAgents(prev => prev.map(a => a.role === role ? { ...a, ...updates } : a));
   };
@@ -202,14 +283,19 @@ function App() {
 
   // Helper to safely update deal data
   const updateActiveDeal = (updates: Partial<DealData>, titleOverride?: string) => {
-      if (!activeDealId) return;
+      if (activeDealId) updateDeal(activeDealId, updates, titleOverride);
+  };
+
+  const updateDeal = (dealId: string, updates: Partial<DealData>, titleOverride?: string) => {
       setDeals(prev => prev.map(d => {
-          if (d.id === activeDealId) {
+          if (d.id === dealId) {
+              const data = { ...d.data, ...updates };
               return {
                   ...d,
                   title: titleOverride || d.title,
                   lastUpdated: new Date(),
-                  data: { ...d.data, ...updates }
+                  // Every model entering a deal room is integrity-checked
+                  data: updates.financialModels ? withModelHealth(data) : data
               };
           }
           return d;
@@ -265,10 +351,18 @@ function App() {
     const agentName = INITIAL_AGENTS.find(a => a.role === agentRole)?.name || "Unknown";
     
     updateAgent(agentRole, { status: AgentStatus.WORKING, currentTask: description });
+    beginStep(traceId, description, agentRole);
+    collectValidationReports(traceId);
+    meterStep(traceId);
 
     try {
+        assertWithinBudget(traceId);
         const result = await fn();
         const duration = Math.round(performance.now() - startTime);
+        const validation = takeValidationReports(traceId);
+        const usage = takeUsage(traceId);
+        if (usage) chargeDeal(traceId, usage);
+        endStep(traceId);
         
         setLogs(prev => [...prev, {
             id: Date.now().toString() + Math.random(),
@@ -278,7 +372,9 @@ function App() {
             role: agentRole,
             message: `${description} - Completed`,
             status: AgentStatus.COMPLETED,
-            latency: duration
+            latency: duration,
+            ...(validation.length > 0 ? { validation } : {}),
+            ...(usage ? { usage } : {})
         }]);
 
         updateAgent(agentRole, { status: AgentStatus.IDLE, currentTask: "Standby" });
@@ -287,6 +383,10 @@ function App() {
     } catch (error: any) {
         const duration = Math.round(performance.now() - startTime);
         const errorMessage = error instanceof Error ? error.message : String(error);
+        const validation = takeValidationReports(traceId);
+        const usage = takeUsage(traceId);
+        if (usage) chargeDeal(traceId, usage);
+        endStep(traceId, true);
         
         setLogs(prev => [...prev, {
             id: Date.now().toString() + Math.random(),
@@ -297,10 +397,14 @@ function App() {
             message: `FAILED: ${description}`,
             status: AgentStatus.ERROR,
             latency: duration,
+            ...(validation.length > 0 ? { validation } : {}),
+            ...(usage ? { usage } : {}),
             errorDetails: {
                 message: errorMessage,
                 stack: error.stack,
-                context: description
+                code: classifyError(error).code,
+                context: description,
+                attempts: error.attempts
             }
         }]);
 
@@ -309,9 +413,23 @@ function App() {
     }
   };
 
-  const handlePortfolioIngest = async (files: FileAttachment[]) => {
+  // One run at a time: recorded calls, usage and validation reports are filed under the open step,
+  // and a replay swaps the global provider, so chat, portfolio, deliverable and replay runs exclude each other
+  const exclusiveRun = async (run: () => Promise<void>) => {
+    if (runLock.current) return;
+    runLock.current = true;
     setIsProcessing(true);
+    try {
+        await run();
+    } finally {
+        runLock.current = false;
+        setIsProcessing(false);
+    }
+  };
+
+  const runPortfolioIngest = async (files: FileAttachment[], replayOf?: string) => {
     const traceId = generateTraceId();
+    startTrace(traceId, { kind: 'portfolio', attachments: files }, getProvider().label, replayOf);
     addMessage('system', `Ingesting ${files.length} portfolio documents...`, "SYSTEM");
     
     try {
@@ -331,16 +449,18 @@ function App() {
         console.error("Portfolio ingestion error", e);
         addMessage('system', "Portfolio ingestion failed. See logs.", "SYSTEM");
     } finally {
-        setIsProcessing(false);
+        saveTrace(traceId);
         setActiveEdge(null);
     }
   };
 
-  const handleDeliverableGeneration = async (type: DeliverableType) => {
-    const currentDeal = deals.find(d => d.id === activeDealId);
+  const runDeliverableGeneration = async (type: DeliverableType, replayOf?: string, dealId: string | null = activeDealId) => {
+    const currentDeal = deals.find(d => d.id === dealId);
     if (!currentDeal) return;
     
     const traceId = generateTraceId();
+    startTrace(traceId, { kind: 'deliverable', deliverableType: type, dealTitle: currentDeal.title, dealId: currentDeal.id }, getProvider().label, replayOf);
+    traceDeals.current[traceId] = currentDeal.id;
     
     try {
         updateAgent(AgentRole.DESIGN, { status: AgentStatus.THINKING, currentTask: `Drafting content structure for ${type}...` });
@@ -362,7 +482,7 @@ function App() {
         };
 
         // Optimistic Update
-        updateActiveDeal({ 
+        updateDeal(currentDeal.id, { 
             deliverables: [...(currentDeal.data.deliverables || []), newDeliverable] 
         });
 
@@ -379,7 +499,7 @@ function App() {
                 updatedSlides[i] = { ...updatedSlides[i], imageUrl };
                 // Update specific deliverable in state
                 setDeals(prevDeals => prevDeals.map(d => {
-                    if (d.id === activeDealId) {
+                    if (d.id === currentDeal.id) {
                         return {
                             ...d,
                             data: {
@@ -397,7 +517,7 @@ function App() {
 
         // Final Status Update
         setDeals(prevDeals => prevDeals.map(d => {
-            if (d.id === activeDealId) {
+            if (d.id === currentDeal.id) {
                 return {
                     ...d,
                     data: {
@@ -416,14 +536,15 @@ function App() {
     } catch (e) {
         console.error("Deliverable gen failed", e);
     } finally {
+        saveTrace(traceId);
         setTimeout(() => updateAgent(AgentRole.DESIGN, { status: AgentStatus.IDLE }), 3000);
     }
   };
 
-  const handleUserMessage = async (text: string, attachments?: FileAttachment[]) => {
+  const runUserMessage = async (text: string, attachments?: FileAttachment[], replayOf?: string) => {
     addMessage('user', text, undefined, undefined, attachments);
-    setIsProcessing(true);
     const traceId = generateTraceId();
+    startTrace(traceId, { kind: 'message', text, attachments }, getProvider().label, replayOf);
     const currentMandate = getFormattedMandate();
 
     try {
@@ -436,6 +557,7 @@ function App() {
              dealContextId = createNewDealRoom("New Deal (Pending Analysis)");
              setActiveDealId(dealContextId);
          }
+         traceDeals.current[traceId] = dealContextId;
 
          setActiveEdge('MD-DILIGENCE');
          addMessage('system', "Documents detected. Activating Diligence Agent for analysis...", "SYSTEM");
@@ -454,6 +576,19 @@ function App() {
             () => generateDealStructure(analysisResult.companyName || "Target", JSON.stringify(analysisResult), [], portfolio),
             traceId
          );
+
+         setActiveEdge('ASSOCIATE-COMPS');
+         const comps = await runStep(
+            AgentRole.COMPS,
+            `Spreading Trading Comps (${structuredData.sector || 'Sector TBD'})`,
+            async () => buildCompsAnalysis(structuredData, undefined, resolveFxTable(firmProfile.fxRates)),
+            traceId
+         );
+         Object.assign(structuredData, applyComps(comps));
+         // Management add-backs land as proposals for the QoE tracker; none count until accepted
+         structuredData.addBacks = mergeAddBacks(structuredData.addBacks || [], analysisResult.addBacks || []);
+         structuredData.adjustedEbitda = diligenceAdjustedEbitda(structuredData.ebitda, structuredData.addBacks);
+         if (analysisResult.workingCapital) structuredData.workingCapital = analysisResult.workingCapital;
          
          updateActiveDeal({ ...structuredData }, analysisResult.companyName);
          setDeals(prev => prev.map(d => d.id === dealContextId ? { ...d, stage: 'Diligence' } : d));
@@ -464,7 +599,7 @@ function App() {
          const finalOpinion = await runStep(
             AgentRole.MD,
             "Formulating Investment Opinion",
-            () => getMDFinalOpinion(structuredData, currentMandate, text || "Analyze this deal"),
+            () => getMDFinalOpinion(structuredData, currentMandate, text || "Analyze this deal", firmProfile.hurdleRate),
             traceId
          );
          
@@ -474,11 +609,13 @@ function App() {
       } else {
           // --- SOURCING FLOW ---
           
-          if (!activeDealId) {
+          let dealContextId = activeDealId;
+          if (!dealContextId) {
               // Creating a new sourcing deal
-              const newDealId = createNewDealRoom("Sourcing Scan");
-              setActiveDealId(newDealId);
+              dealContextId = createNewDealRoom("Sourcing Scan");
+              setActiveDealId(dealContextId);
           }
+          traceDeals.current[traceId] = dealContextId;
 
           const mdStrategy = await runStep(
               AgentRole.MD,
@@ -525,35 +662,29 @@ function App() {
           );
 
           setActiveEdge('VP-SCOUT');
-          const deepDivePromise = runStep(
+          const deepDiveData = await runStep(
               AgentRole.SCOUT,
               `Triangulated Deep Dive: ${bestTarget} (Financials/News/Benchmarks)`,
               () => performDeepDive(bestTarget),
               traceId
           );
 
-          updateAgent(AgentRole.COMPS, { status: AgentStatus.WORKING, currentTask: "Spreading Multiples..." });
-          const deepDiveData = await deepDivePromise;
-          
-          setLogs(prev => [...prev, {
-              id: Date.now().toString(),
-              traceId,
-              timestamp: new Date(),
-              agentName: "Comps-Beta",
-              role: AgentRole.COMPS,
-              message: "Comparable Set Analysis (Simulated)",
-              status: AgentStatus.COMPLETED,
-              latency: 150 
-          }]);
-          updateAgent(AgentRole.COMPS, { status: AgentStatus.IDLE });
-
           setActiveEdge('VP-ASSOCIATE');
           const structuredData = await runStep(
               AgentRole.ASSOCIATE,
               "Constructing LBO & Financial Models (Gap Filling Active)",
-              () => generateDealStructure(bestTarget, deepDiveData.text, potentialTargets, portfolio),
+              () => generateDealStructure(bestTarget, `${deepDiveData.text}\n\nSOURCES:\n${deepDiveData.sources.join('\n') || 'None returned'}`, potentialTargets, portfolio),
+              traceId
+          );
+
+          setActiveEdge('ASSOCIATE-COMPS');
+          const comps = await runStep(
+              AgentRole.COMPS,
+              `Spreading Trading Comps (${structuredData.sector || 'Sector TBD'})`,
+              async () => buildCompsAnalysis(structuredData, undefined, resolveFxTable(firmProfile.fxRates)),
               traceId
           );
+          Object.assign(structuredData, applyComps(comps));
 
           let locationMaps: string[] = [];
           if (structuredData.companyName) {
@@ -587,7 +718,7 @@ function App() {
           const finalOpinion = await runStep(
               AgentRole.MD,
               "Formulating Investment Opinion",
-              () => getMDFinalOpinion(structuredData, currentMandate, text),
+              () => getMDFinalOpinion(structuredData, currentMandate, text, firmProfile.hurdleRate),
               traceId
           );
           
@@ -606,11 +737,43 @@ function App() {
       addMessage('system', `Pipeline Execution Failed: ${errMessage}. \n\nCheck the System Log for details.`, "SYSTEM");
       updateAllAgents({ status: AgentStatus.ERROR });
     } finally {
-      setIsProcessing(false);
+      saveTrace(traceId);
       setActiveEdge(null);
     }
   };
 
+  const handleUserMessage = (text: string, attachments?: FileAttachment[]) => exclusiveRun(() => runUserMessage(text, attachments));
+  const handlePortfolioIngest = (files: FileAttachment[]) => exclusiveRun(() => runPortfolioIngest(files));
+  const handleDeliverableGeneration = (type: DeliverableType) => exclusiveRun(() => runDeliverableGeneration(type));
+
+  // Re-runs a recorded trace through the same handler, answering every agent call from the recording
+  const replayTrace = (recording: TraceRecording) => exclusiveRun(async () => {
+    const missing = missingAttachments(recording);
+    if (missing.length > 0) {
+        addMessage('system', `Trace ${recording.traceId} needs its documents again to replay: ${missing.map(ref => ref.name).join(', ')}.`, "SYSTEM");
+        return;
+    }
+    // Deliverables replay against the deal they were recorded on, never whichever deal is open
+    const input = recording.input;
+    const recordedDeal = input.kind === 'deliverable'
+        ? deals.find(d => d.id === input.dealId) || deals.find(d => d.title === input.dealTitle)
+        : undefined;
+    if (input.kind === 'deliverable' && !recordedDeal) {
+        addMessage('system', `Cannot replay trace ${recording.traceId}: the deal "${input.dealTitle}" no longer exists.`, "SYSTEM");
+        return;
+    }
+
+    const live = setProvider(withRecording(createReplayProvider(recording)));
+    addMessage('system', `Replaying trace ${recording.traceId} from its recording (no network calls)...`, "SYSTEM");
+    try {
+        if (input.kind === 'message') await runUserMessage(input.text, input.attachments, recording.traceId);
+        else if (input.kind === 'portfolio') await runPortfolioIngest(input.attachments, recording.traceId);
+        else await runDeliverableGeneration(input.deliverableType, recording.traceId, recordedDeal!.id);
+    } finally {
+        setProvider(live);
+    }
+  });
+
   // Filter messages for current context
   const activeMessages = messages.filter(m => {
       // If we are in a deal room, show messages for that deal OR global system messages (if you want)
@@ -676,6 +839,15 @@ function App() {
                 </div>
              </div>
 
+             {storageWarning && (
+                <div className="flex items-center justify-between gap-3 px-3 py-2 rounded border border-red-900/50 bg-red-950/30 text-xs font-mono text-red-300">
+                    <span>{storageWarning}</span>
+                    <button onClick={() => setStorageWarning(null)} className="text-red-400 hover:text-white transition-colors" title="Dismiss">
+                        <X className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+             )}
+
              {/* Dynamic Content Area */}
              <div className="flex-1 flex flex-col min-h-0">
                  
@@ -692,6 +864,20 @@ function App() {
                         <section>
                             <AgentLog logs={logs} />
                         </section>
+
+                        <section>
+                            <TraceRecordings 
+                                traces={traces} 
+                                isProcessing={isProcessing}
+                                onReplay={replayTrace}
+                                onImport={(recording) => setTraces(prev => [...prev.filter(t => t.traceId !== recording.traceId), recording].slice(-MAX_SAVED_TRACES))}
+                                onDelete={(traceId) => setTraces(prev => prev.filter(t => t.traceId !== traceId))}
+                            />
+                        </section>
+
+                        <section>
+                            <SpendSummary logs={logs} deals={deals} budget={firmProfile.spendBudget} />
+                        </section>
                      </div>
                  )}
 
@@ -706,6 +892,8 @@ function App() {
                         {currentView === 'pipeline' && !activeDealId && (
                             <PipelineDashboard 
                                 deals={deals}
+                                firmProfile={firmProfile}
+                                portfolio={portfolio}
                                 onSelectDeal={(id) => setActiveDealId(id)}
                                 onCreateDeal={() => {
                                     const id = createNewDealRoom();
@@ -718,7 +906,10 @@ function App() {
                             <DealDashboard 
                                 data={activeDeal.data} 
                                 onGenerateDeliverable={handleDeliverableGeneration}
+                                isProcessing={isProcessing}
                                 onBackToPipeline={() => setActiveDealId(null)}
+                                onUpdateDeal={updateActiveDeal}
+                                firmProfile={firmProfile}
                             />
                         )}
 
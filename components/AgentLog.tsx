@@ -1,7 +1,9 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import { LogEntry, AgentRole, AgentStatus } from '../types';
-import { Terminal, ChevronDown, ChevronUp, Clock, AlertTriangle, Hash } from 'lucide-react';
+import { LogEntry, AgentRole, AgentStatus, ValidationReport } from '../types';
+import { Terminal, ChevronDown, ChevronUp, Clock, AlertTriangle, Hash, ShieldCheck, Coins } from 'lucide-react';
+import { ERROR_GUIDANCE } from '../services/requestLayer';
+import { formatCost, formatTokens, totalTokens } from '../services/usageMeter';
 
 interface AgentLogProps {
   logs: LogEntry[];
@@ -51,12 +53,14 @@ export const AgentLog: React.FC<AgentLogProps> = ({ logs }) => {
 const LogItem: React.FC<{ log: LogEntry }> = ({ log }) => {
     const [showDetails, setShowDetails] = useState(false);
     const hasError = log.status === AgentStatus.ERROR && log.errorDetails;
+    const issues = log.validation?.flatMap(report => report.issues) || [];
+    const hasValidation = !!log.validation?.length;
 
     return (
         <div className="flex flex-col border-l-2 border-transparent hover:border-apex-700 hover:bg-white/5 rounded transition-colors">
             <div 
                 className="flex gap-2 text-[10px] font-mono items-start p-1.5 cursor-pointer"
-                onClick={() => hasError && setShowDetails(!showDetails)}
+                onClick={() => (hasError || hasValidation) && setShowDetails(!showDetails)}
             >
                 <div className="flex flex-col items-end gap-1 min-w-[50px]">
                     <span className="text-gray-600 whitespace-nowrap">
@@ -86,8 +90,32 @@ const LogItem: React.FC<{ log: LogEntry }> = ({ log }) => {
                         
                         <StatusBadge status={log.status} />
 
+                        {log.errorDetails?.code && (
+                            <span className="px-1.5 py-0.5 rounded text-[8px] uppercase border font-bold tracking-wider border-orange-900/50 text-orange-400 bg-orange-900/10" title={ERROR_GUIDANCE[log.errorDetails.code]?.hint}>
+                                {ERROR_GUIDANCE[log.errorDetails.code]?.label ?? log.errorDetails.code}
+                            </span>
+                        )}
+
+                        {hasValidation && (
+                            <span className="px-1.5 py-0.5 rounded text-[8px] uppercase border font-bold tracking-wider border-yellow-900/50 text-yellow-400 bg-yellow-900/10" title="Output failed schema validation; click for the field report">
+                                {issues.length > 0
+                                    ? `${issues.filter(i => i.resolution === 'corrected').length}/${issues.length} FIELDS CORRECTED`
+                                    : 'REPAIRED JSON'}
+                            </span>
+                        )}
+
+                        {log.usage && (
+                            <span
+                                className="flex items-center gap-1 text-[9px] text-gray-600 ml-auto"
+                                title={`${log.usage.calls} calls · ${log.usage.inputTokens.toLocaleString()} in · ${log.usage.outputTokens.toLocaleString()} out · ${log.usage.thinkingTokens.toLocaleString()} thinking${log.usage.images ? ` · ${log.usage.images} images` : ''}`}
+                            >
+                                <Coins className="w-2.5 h-2.5" />
+                                {formatTokens(totalTokens(log.usage))} tok · {formatCost(log.usage.cost)}
+                            </span>
+                        )}
+
                         {log.latency && (
-                            <span className="flex items-center gap-1 text-[9px] text-gray-600 ml-auto">
+                            <span className={`flex items-center gap-1 text-[9px] text-gray-600 ${log.usage ? '' : 'ml-auto'}`}>
                                 <Clock className="w-2.5 h-2.5" />
                                 {log.latency}ms
                             </span>
@@ -107,6 +135,12 @@ const LogItem: React.FC<{ log: LogEntry }> = ({ log }) => {
                         Error Details
                     </div>
                     <div className="mb-1">{log.errorDetails?.message}</div>
+                    {log.errorDetails?.code && ERROR_GUIDANCE[log.errorDetails.code] && (
+                        <div className="mb-1 text-orange-300">
+                            {ERROR_GUIDANCE[log.errorDetails.code].hint}
+                            {log.errorDetails.attempts && log.errorDetails.attempts > 1 ? ` (${log.errorDetails.attempts} attempts)` : ''}
+                        </div>
+                    )}
                     {log.errorDetails?.stack && (
                         <div className="pl-2 border-l border-red-900/50 opacity-50 overflow-x-auto whitespace-pre">
                             {log.errorDetails.stack.split('\n')[0]} 
@@ -115,10 +149,42 @@ const LogItem: React.FC<{ log: LogEntry }> = ({ log }) => {
                     )}
                  </div>
             )}
+
+            {hasValidation && showDetails && <ValidationDetails reports={log.validation!} />}
         </div>
     );
 };
 
+const RESOLUTION_STYLES: Record<string, string> = {
+    corrected: 'text-emerald-400',
+    clamped: 'text-sky-400',
+    defaulted: 'text-orange-400',
+    dropped: 'text-yellow-400',
+    unresolved: 'text-red-400'
+};
+
+const ValidationDetails: React.FC<{ reports: ValidationReport[] }> = ({ reports }) => (
+    <div className="ml-14 mr-2 mb-2 p-2 bg-yellow-950/10 border border-yellow-900/30 rounded text-[10px] font-mono text-yellow-200 animate-fade-in space-y-2">
+        {reports.map((report, r) => (
+            <div key={r}>
+                <div className="flex items-center gap-2 mb-1 font-bold">
+                    <ShieldCheck className="w-3 h-3" />
+                    {report.agent} Output Validation
+                    {report.reasked && <span className="font-normal text-gray-500">(re-asked the model)</span>}
+                </div>
+                {report.repairedJson && <div className="mb-1 text-gray-400">Response was truncated or malformed and patched before parsing.</div>}
+                {report.issues.map((issue, i) => (
+                    <div key={i} className="flex gap-2">
+                        <span className={`uppercase min-w-[70px] ${RESOLUTION_STYLES[issue.resolution]}`}>{issue.resolution}</span>
+                        <span className="text-gray-300 break-all">{issue.path}</span>
+                        <span className="text-gray-500 break-words">{issue.problem}; got {issue.received}{issue.applied && `, used ${issue.applied}`}</span>
+                    </div>
+                ))}
+            </div>
+        ))}
+    </div>
+);
+
 const StatusBadge: React.FC<{ status: AgentStatus }> = ({ status }) => {
     let styles = "";
     switch (status) {
@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { DealData, FinancialSection, FinancialRow, Deliverable, DeliverableType } from '../types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { DealData, FinancialSection, FinancialRow, Deliverable, DeliverableType, LBOAssumptions, DealScenario, ScenarioOverrides, DebtTranche, DebtTrancheType, ModelHealth, ModelIntegrityIssue, FirmProfile, ValueCreationBridge, CovenantSet, DCFAssumptions, CompsStats, PrecedentDealType, PrecedentFilter, FundTerms, CellProvenance, ProvenanceSource, CurrencyCode, UnitScale, FxTable } from '../types';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell,
   ReferenceLine
@@ -9,20 +9,72 @@ import {
   AlertTriangle, CheckCircle, ExternalLink, MapPin, Search, 
   FileText, PieChart, Target, Filter, Table as TableIcon, Download, Grid, Calculator, Presentation,
   Palette, Image as ImageIcon, Loader2, ChevronLeft, ChevronRight, X, Maximize2, Printer, Layout, ShieldAlert, Trophy, Users, BarChart2,
-  ArrowLeft
+  ArrowLeft, Layers, TrendingUp, Upload, ListChecks
 } from 'lucide-react';
+import { computeDealLBO, toLBODetailed, toValueCreation, applyLBOEngine, extractOperatingProjection, LBOResult, resolveLBOAssumptions } from '../services/lboEngine';
+import { DEFAULT_BASE_RATE, TRANCHE_TYPES, createTranche, getEffectiveTranches, trancheCashRate } from '../services/debtEngine';
+import {
+  SensitivityMetric, SENSITIVITY_METRICS, SENSITIVITY_PRESETS, SENSITIVITY_VARIABLES,
+  buildAxisValues, computeSensitivityGrid, computeDefaultSensitivity, getBaseValue
+} from '../services/sensitivityEngine';
+import { checkModelIntegrity, getStatementIssues } from '../services/modelIntegrity';
+import { DCF_FIELDS, DCFResult, computeDCFSensitivity, runDCF, toDCFSection } from '../services/dcfEngine';
+import { COVENANT_KEYS, COVENANT_META, COVENANT_RISK_PREFIX, buildDefaultCovenants, formatCovenantValue, buildDownsideCovenantRisk, mergeCovenantRisk, resolveCovenants, testCovenants } from '../services/covenantEngine';
+import {
+  DistributionKind, MonteCarloConfig, MonteCarloResult, MonteCarloVariable, MONTE_CARLO_ITERATIONS, MONTE_CARLO_VARIABLES,
+  DEFAULT_HURDLE_RATE, buildDefaultMonteCarloConfig
+} from '../services/monteCarloEngine';
+import { MonteCarloRun, startMonteCarlo } from '../services/monteCarloClient';
+import {
+  CompsDataset, applyComps, buildCompsAnalysis, evEbitdaOf, evRevenueOf, getBundledDataset, impliedValueRange,
+  loadCompsDataset, parseCompsWorkbook, saveCompsDataset, setPeerIncluded
+} from '../services/compsEngine';
+import {
+  PrecedentStore, PRECEDENT_DEAL_TYPES, PRECEDENT_LOOKBACK_YEARS, computeDealPrecedents, computePrecedentStats, filterPrecedents,
+  getBundledPrecedents, loadPrecedents, parsePrecedentWorkbook, resolvePrecedentFilter, savePrecedents
+} from '../services/precedentEngine';
+import { ValuationRange, buildFootballField } from '../services/footballField';
+import { DEFAULT_MOIC_TARGET, FinancingMode, GoalSeekMetric, GoalSeekTarget, formatGoalSeekTarget, runGoalSeek } from '../services/goalSeekEngine';
+import { dealWaterfallInput, resolveFundTerms } from '../services/waterfallEngine';
+import { WaterfallPanel } from './WaterfallPanel';
+import { QoEPanel } from './QoEPanel';
+import { CURRENCIES, DEFAULT_CURRENCY, MoneyBasis, UNIT_SCALES, dealInReporting, formatMoney, moneyUnit, resolveFxTable, usdRate } from '../services/fxEngine';
+import { NwcPanel } from './NwcPanel';
+import { PROVENANCE_META, PROVENANCE_SOURCES, cellProvenance, describeProvenance, summarizeProvenance } from '../services/provenance';
+import { BASE_SCENARIO_ID, ScenarioSummary, applyScenario, baseScenarioValues, resolveScenarioOverrides, resolveScenarios, summarizeScenario, summarizeScenarios, findDownsideSummary, formatScenarioSummaries } from '../services/scenarioEngine';
 
 interface DealDashboardProps {
   data: DealData;
   isLoading?: boolean;
   onGenerateDeliverable?: (type: DeliverableType) => void;
+  isProcessing?: boolean; // another run or replay is active; deliverables wait for it
   onBackToPipeline: () => void;
+  onUpdateDeal?: (updates: Partial<DealData>) => void;
+  firmProfile?: FirmProfile;
 }
 
-type Tab = 'sourcing' | 'memo' | 'financials' | 'lbo' | 'valuation' | 'market' | 'deliverables';
+type Tab = 'sourcing' | 'memo' | 'financials' | 'qoe' | 'lbo' | 'dcf' | 'valuation' | 'market' | 'deliverables';
 
-export const DealDashboard: React.FC<DealDashboardProps> = ({ data, isLoading, onGenerateDeliverable, onBackToPipeline }) => {
+// Tabs that render the deal under the selected scenario
+const SCENARIO_TABS: Tab[] = ['financials', 'lbo', 'dcf', 'valuation'];
+
+export const DealDashboard: React.FC<DealDashboardProps> = ({ data, isLoading, onGenerateDeliverable, isProcessing, onBackToPipeline, onUpdateDeal, firmProfile }) => {
   const [activeTab, setActiveTab] = useState<Tab>('memo');
+  const [scenarioId, setScenarioId] = useState<string>(BASE_SCENARIO_ID);
+  const [compareScenarios, setCompareScenarios] = useState(false);
+  // One precedent store for the precedents table and both football fields, so an import reaches all three
+  const [precedents, setPrecedents] = useState<PrecedentStore>(() => loadPrecedents());
+
+  const scenarios = useMemo(() => resolveScenarios(data), [data]);
+  const activeScenario = scenarios.find(s => s.id === scenarioId) || scenarios[0];
+  // Financials, LBO and Valuation tabs render the deal as seen under the selected scenario
+  const scenarioData = useMemo(() => applyScenario(data, activeScenario), [data, activeScenario]);
+  const isBaseScenario = !activeScenario || activeScenario.kind === 'base';
+  // Deals saved before the checker existed have no stored report
+  const modelHealth = useMemo(
+      () => data.modelHealth || (data.financialModels ? checkModelIntegrity(data.financialModels) : undefined),
+      [data]
+  );
 
   if (isLoading) {
     return <div className="animate-pulse h-full w-full bg-apex-800/30 rounded-xl" />;
@@ -97,13 +149,18 @@ export const DealDashboard: React.FC<DealDashboardProps> = ({ data, isLoading, o
                 <TabButton active={activeTab === 'sourcing'} onClick={() => setActiveTab('sourcing')} icon={<Filter className="w-3 h-3" />} label="SOURCING" />
                 <TabButton active={activeTab === 'memo'} onClick={() => setActiveTab('memo')} icon={<FileText className="w-3 h-3" />} label="MEMO" />
                 <TabButton active={activeTab === 'financials'} onClick={() => setActiveTab('financials')} icon={<Grid className="w-3 h-3" />} label="FINANCIALS" />
+                <TabButton active={activeTab === 'qoe'} onClick={() => setActiveTab('qoe')} icon={<ListChecks className="w-3 h-3" />} label="QOE" />
                 <TabButton active={activeTab === 'lbo'} onClick={() => setActiveTab('lbo')} icon={<Calculator className="w-3 h-3" />} label="LBO" />
+                <TabButton active={activeTab === 'dcf'} onClick={() => setActiveTab('dcf')} icon={<TrendingUp className="w-3 h-3" />} label="DCF" />
                 <TabButton active={activeTab === 'valuation'} onClick={() => setActiveTab('valuation')} icon={<PieChart className="w-3 h-3" />} label="VALUATION" />
                 <TabButton active={activeTab === 'market'} onClick={() => setActiveTab('market')} icon={<Search className="w-3 h-3" />} label="MARKET" />
                 <TabButton active={activeTab === 'deliverables'} onClick={() => setActiveTab('deliverables')} icon={<Presentation className="w-3 h-3" />} label="DELIVERABLES" />
             </div>
         </div>
         
+        <div className="flex items-center gap-2">
+        <CurrencyControl data={data} firmProfile={firmProfile} onUpdate={onUpdateDeal} />
+        {modelHealth && <ModelHealthBadge health={modelHealth} onClick={() => setActiveTab('financials')} />}
         {data.financialModels && activeTab !== 'deliverables' && (
             <button 
                 onClick={exportToCSV}
@@ -114,16 +171,38 @@ export const DealDashboard: React.FC<DealDashboardProps> = ({ data, isLoading, o
                 EXPORT
             </button>
         )}
+        </div>
       </div>
 
       <div className="flex-1 overflow-y-auto scrollbar-thin pr-2 pt-4 relative">
+        {SCENARIO_TABS.includes(activeTab) && data.financialModels && (
+            <ScenarioBar
+                data={data}
+                scenarios={scenarios}
+                activeId={activeScenario?.id}
+                compare={compareScenarios}
+                onSelect={setScenarioId}
+                onToggleCompare={() => setCompareScenarios(!compareScenarios)}
+                onUpdate={onUpdateDeal}
+            />
+        )}
+        {compareScenarios && SCENARIO_TABS.includes(activeTab) && data.financialModels && (
+            <ScenarioComparison data={data} />
+        )}
         {activeTab === 'sourcing' && <SourcingView data={data} />}
         {activeTab === 'memo' && <MemoView data={data} />}
-        {activeTab === 'financials' && <FinancialsView data={data} />}
-        {activeTab === 'lbo' && <LBOView data={data} />}
-        {activeTab === 'valuation' && <ValuationView data={data} />}
-        {activeTab === 'market' && <MarketView data={data} />}
-        {activeTab === 'deliverables' && <DeliverablesView data={data} onGenerate={onGenerateDeliverable} />}
+        {activeTab === 'financials' && <FinancialsView data={scenarioData} health={modelHealth} />}
+        {activeTab === 'qoe' && (
+            <div className="space-y-6">
+                <QoEPanel data={data} onUpdate={onUpdateDeal} />
+                <NwcPanel data={data} onUpdate={onUpdateDeal} />
+            </div>
+        )}
+        {activeTab === 'lbo' && <LBOView data={scenarioData} onUpdate={isBaseScenario ? onUpdateDeal : undefined} />}
+        {activeTab === 'dcf' && <DCFView data={scenarioData} precedents={precedents} onUpdate={isBaseScenario ? onUpdateDeal : undefined} />}
+        {activeTab === 'valuation' && <ValuationView data={scenarioData} precedents={precedents} hurdleRate={firmProfile?.hurdleRate ?? DEFAULT_HURDLE_RATE} fundTerms={firmProfile?.fundTerms} />}
+        {activeTab === 'market' && <MarketView data={data} fxRates={firmProfile?.fxRates} precedents={precedents} onPrecedentsChange={setPrecedents} onUpdate={onUpdateDeal} />}
+        {activeTab === 'deliverables' && <DeliverablesView data={data} onGenerate={onGenerateDeliverable} isProcessing={isProcessing} />}
       </div>
     </div>
   );
@@ -143,7 +222,37 @@ const TabButton: React.FC<{ active: boolean; onClick: () => void; icon: React.Re
   </button>
 );
 
-const FinancialTable: React.FC<{ section: FinancialSection, years: string[] }> = ({ section, years }) => (
+const ENGINE_PROVENANCE: Record<'lbo' | 'dcf', CellProvenance> = {
+    lbo: { source: 'calculated', method: 'LBO engine from the 3-statement model and debt assumptions' },
+    dcf: { source: 'calculated', method: 'DCF engine from the 3-statement model and WACC assumptions' }
+};
+
+const PROVENANCE_STYLES: Record<ProvenanceSource, string> = {
+    reported: 'text-emerald-300',
+    extracted: 'text-sky-300',
+    estimated: 'text-amber-300 bg-amber-900/10',
+    assumed: 'text-purple-300 bg-purple-900/20',
+    calculated: 'text-gray-400'
+};
+
+const ProvenanceLegend: React.FC<{ sections: FinancialSection[] }> = ({ sections }) => {
+    const counts = summarizeProvenance(sections);
+    const total = Object.values(counts).reduce((acc, n) => acc + n, 0);
+    if (total === 0 || counts.untagged === total) return null;
+    return (
+        <div className="flex flex-wrap items-center gap-3 mb-4 text-[10px] font-mono">
+            <span className="text-gray-500 uppercase">Cell sources:</span>
+            {PROVENANCE_SOURCES.filter(source => counts[source] > 0).map(source => (
+                <span key={source} title={PROVENANCE_META[source].description} className={`px-1.5 py-0.5 rounded border border-apex-800 cursor-help ${PROVENANCE_STYLES[source]}`}>
+                    {PROVENANCE_META[source].label} {Math.round(counts[source] / total * 100)}%
+                </span>
+            ))}
+            {counts.untagged > 0 && <span className="text-gray-600">Untagged {Math.round(counts.untagged / total * 100)}%</span>}
+        </div>
+    );
+};
+
+const FinancialTable: React.FC<{ section: FinancialSection, years: string[], issues?: ModelIntegrityIssue[], defaultProvenance?: CellProvenance }> = ({ section, years, issues = [], defaultProvenance }) => (
     <div className="mb-8">
         <h4 className="text-xs font-bold text-apex-accent uppercase tracking-widest mb-3 border-l-2 border-apex-accent pl-2">
             {section.title}
@@ -159,29 +268,98 @@ const FinancialTable: React.FC<{ section: FinancialSection, years: string[] }> =
                     </tr>
                 </thead>
                 <tbody className="text-xs font-mono text-gray-300">
-                    {section.rows.map((row, idx) => (
-                        <tr key={idx} className="hover:bg-white/5 transition-colors border-b border-apex-800/50 last:border-0 group">
-                            <td className={`
-                                text-left p-2 pl-4 sticky left-0 bg-apex-900 group-hover:bg-apex-800 transition-colors border-r border-apex-800
-                                ${['Revenue', 'EBITDA', 'Net Income', 'Equity Value'].some(k => row.label.includes(k)) ? 'font-bold text-white' : 'text-gray-400'}
-                            `}>
-                                {row.label}
-                            </td>
-                            {row.values.map((val, vIdx) => (
-                                <td key={vIdx} className="p-2">
-                                    {val < 0 ? `(${Math.abs(val).toFixed(1)})` : val.toFixed(1)}
+                    {section.rows.map((row, idx) => {
+                        const rowIssues = issues.filter(i => i.rowLabel === row.label);
+                        const rowMessages = rowIssues.filter(i => i.yearIndex === undefined).map(i => i.message);
+                        return (
+                            <tr key={idx} className="hover:bg-white/5 transition-colors border-b border-apex-800/50 last:border-0 group">
+                                <td
+                                    title={rowMessages.length ? rowMessages.join('\n') : undefined}
+                                    className={`
+                                    text-left p-2 pl-4 sticky left-0 bg-apex-900 group-hover:bg-apex-800 transition-colors border-r border-apex-800
+                                    ${['Revenue', 'EBITDA', 'Net Income', 'Equity Value'].some(k => row.label.includes(k)) ? 'font-bold text-white' : 'text-gray-400'}
+                                `}>
+                                    <span className="flex items-center gap-1.5">
+                                        {rowMessages.length > 0 && <AlertTriangle className="w-3 h-3 text-red-400 shrink-0" />}
+                                        {row.label}
+                                    </span>
                                 </td>
-                            ))}
-                        </tr>
-                    ))}
+                                {row.values.map((val, vIdx) => {
+                                    const cellMessages = rowIssues.filter(i => i.yearIndex === vIdx).map(i => i.message);
+                                    const provenance = cellProvenance(row, vIdx) || defaultProvenance;
+                                    const tooltip = [...cellMessages, ...(provenance ? [describeProvenance(provenance)] : [])];
+                                    return (
+                                        <td
+                                            key={vIdx}
+                                            title={tooltip.length ? tooltip.join('\n') : undefined}
+                                            className={`p-2 ${cellMessages.length ? 'bg-red-900/30 text-red-300 ring-1 ring-inset ring-red-500/40 cursor-help' : provenance ? `${PROVENANCE_STYLES[provenance.source]} cursor-help` : ''}`}
+                                        >
+                                            {val < 0 ? `(${Math.abs(val).toFixed(1)})` : val.toFixed(1)}
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        );
+                    })}
                 </tbody>
             </table>
         </div>
     </div>
 );
 
+const HEALTH_STYLES: Record<ModelHealth['status'], { label: string; className: string }> = {
+    pass: { label: 'MODEL OK', className: 'text-emerald-400 bg-emerald-900/20 border-emerald-900/50' },
+    warn: { label: 'MODEL PARTIAL', className: 'text-amber-400 bg-amber-900/20 border-amber-900/50' },
+    fail: { label: 'MODEL ISSUES', className: 'text-red-400 bg-red-900/20 border-red-900/50' }
+};
+
+const ModelHealthBadge: React.FC<{ health: ModelHealth; onClick?: () => void }> = ({ health, onClick }) => {
+    const style = HEALTH_STYLES[health.status];
+    const failed = health.checks.filter(c => c.status === 'fail').length;
+    return (
+        <button
+            onClick={onClick}
+            title={health.checks.map(c => `${c.status.toUpperCase()} - ${c.label}: ${c.detail}`).join('\n')}
+            className={`flex items-center gap-1.5 text-[10px] font-mono px-2 py-1 rounded border transition-colors hover:brightness-125 ${style.className}`}
+        >
+            {health.status === 'pass' ? <CheckCircle className="w-3 h-3" /> : <ShieldAlert className="w-3 h-3" />}
+            {style.label}{failed > 0 && ` (${failed})`}
+        </button>
+    );
+};
+
+// Deal currency and scale, with the headline EV in the fund's reporting currency when they differ
+const CurrencyControl: React.FC<{ data: DealData; firmProfile?: FirmProfile; onUpdate?: (updates: Partial<DealData>) => void }> = ({ data, firmProfile, onUpdate }) => {
+    const reporting = firmProfile?.reportingCurrency || DEFAULT_CURRENCY;
+    const currency = data.currency || DEFAULT_CURRENCY;
+    const fx = useMemo(() => resolveFxTable(firmProfile?.fxRates), [firmProfile?.fxRates]);
+    const converted = currency !== reporting || (data.unitScale || 'millions') !== 'millions' ? dealInReporting(data, reporting, fx) : null;
+    const selectClass = "bg-apex-900 border border-apex-800 rounded px-1.5 py-1 text-[10px] font-mono text-gray-300 focus:border-apex-accent focus:outline-none disabled:opacity-60";
+
+    return (
+        <div className="flex items-center gap-1">
+            <select value={currency} disabled={!onUpdate} onChange={(e) => onUpdate?.({ currency: e.target.value as CurrencyCode })} className={selectClass} title="Currency the deal's figures are quoted in">
+                {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <select value={data.unitScale || 'millions'} disabled={!onUpdate} onChange={(e) => onUpdate?.({ unitScale: e.target.value as UnitScale })} className={selectClass} title="Scale the deal's figures are quoted in">
+                {UNIT_SCALES.map(u => <option key={u} value={u}>{u}</option>)}
+            </select>
+            {converted && (
+                <span
+                    className="text-[10px] font-mono text-gray-500 px-1"
+                    title={`1 ${currency} = ${(usdRate(fx, currency) / usdRate(fx, reporting)).toFixed(4)} ${reporting} spot. LTM revenue ${formatMoney(converted.revenue, { currency: reporting })} and EBITDA ${formatMoney(converted.ebitda, { currency: reporting })} at the ${data.ltmDate ? `${data.ltmDate} rate` : 'spot rate'}.`}
+                >
+                    EV ≈ {formatMoney(converted.impliedValue, { currency: reporting })}
+                </span>
+            )}
+        </div>
+    );
+};
+
 const MemoView: React.FC<{ data: DealData }> = ({ data }) => {
-    
+    const scenarioSummaries = useMemo(() => data.financialModels && data.ebitda ? summarizeScenarios(data) : [], [data]);
+    const downside = findDownsideSummary(scenarioSummaries);
+
     if (!data.memo) {
         return <div className="p-8 text-center text-gray-500">Memo data is currently unavailable. Please regenerate.</div>;
     }
@@ -211,6 +389,10 @@ const MemoView: React.FC<{ data: DealData }> = ({ data }) => {
             content += `\n`;
         }
 
+        if (scenarioSummaries.length > 0) {
+            content += `## SCENARIO RETURNS\n${formatScenarioSummaries(scenarioSummaries, data)}\n\n`;
+        }
+
         content += `## MARKET OVERVIEW\n${data.memo.marketOverview || "N/A"}\n\n`;
         
         if (data.memo.competitiveLandscape) content += `## COMPETITIVE LANDSCAPE\n${data.memo.competitiveLandscape}\n\n`;
@@ -340,6 +522,28 @@ const MemoView: React.FC<{ data: DealData }> = ({ data }) => {
                 </div>
             </section>
 
+            {scenarioSummaries.length > 0 && (
+                <section>
+                    <h3 className="text-sm font-bold text-gray-300 uppercase tracking-widest mb-3 border-l-2 border-gray-500 pl-3 flex items-center gap-2">
+                        Scenario Returns <Layers className="w-4 h-4" />
+                    </h3>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        {scenarioSummaries.map(s => (
+                            <div key={s.scenario.id} className={`p-3 rounded border ${s.scenario.kind === 'downside' ? 'border-red-900/50 bg-red-950/10' : 'border-apex-800 bg-apex-800/20'}`}>
+                                <div className="text-[10px] font-mono text-gray-500 uppercase mb-1">{s.scenario.name}</div>
+                                <div className="text-lg font-bold text-white">{s.irr.toFixed(1)}% <span className="text-sm text-gray-400">IRR</span></div>
+                                <div className="text-xs font-mono text-gray-400">{s.moic.toFixed(2)}x MOIC • Exit {s.exitMultiple.toFixed(1)}x</div>
+                            </div>
+                        ))}
+                    </div>
+                    {downside && (
+                        <p className="mt-3 text-xs text-gray-400 leading-relaxed">
+                            Downside case ({downside.revenueGrowth.toFixed(1)}% growth, {downside.ebitdaMargin.toFixed(1)}% margin, {downside.exitMultiple.toFixed(1)}x exit, {downside.interestRate.toFixed(1)}% cost of debt) returns <span className="text-red-400 font-bold">{downside.irr.toFixed(1)}% IRR / {downside.moic.toFixed(2)}x MOIC</span>.
+                        </p>
+                    )}
+                </section>
+            )}
+
             <section className="mt-12 p-6 bg-gradient-to-r from-apex-800/50 to-apex-900 border border-apex-700 rounded-xl">
                  <div className="flex items-center justify-between mb-4">
                      <h3 className="text-sm font-bold text-gray-400 uppercase tracking-widest">Investment Committee Recommendation</h3>
@@ -361,7 +565,7 @@ const MemoView: React.FC<{ data: DealData }> = ({ data }) => {
     );
 };
 
-const DeliverablesView: React.FC<{ data: DealData; onGenerate?: (type: DeliverableType) => void }> = ({ data, onGenerate }) => {
+const DeliverablesView: React.FC<{ data: DealData; onGenerate?: (type: DeliverableType) => void; isProcessing?: boolean }> = ({ data, onGenerate, isProcessing }) => {
     const [selectedDeckId, setSelectedDeckId] = useState<string | null>(null);
     const [slideIndex, setSlideIndex] = useState(0);
     const [showSidebar, setShowSidebar] = useState(true);
@@ -602,19 +806,22 @@ const DeliverablesView: React.FC<{ data: DealData; onGenerate?: (type: Deliverab
                 <div className="flex gap-2">
                     <button 
                         onClick={() => onGenerate?.('Teaser')} 
-                        className="px-3 py-1.5 text-xs font-mono bg-apex-900 border border-apex-700 rounded hover:border-pink-500 hover:text-pink-400 transition-colors"
+                        disabled={isProcessing}
+                        className="px-3 py-1.5 text-xs font-mono bg-apex-900 border border-apex-700 rounded hover:border-pink-500 hover:text-pink-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                         + TEASER (3PG)
                     </button>
                     <button 
                         onClick={() => onGenerate?.('Pitch Deck')} 
-                        className="px-3 py-1.5 text-xs font-mono bg-apex-900 border border-apex-700 rounded hover:border-pink-500 hover:text-pink-400 transition-colors"
+                        disabled={isProcessing}
+                        className="px-3 py-1.5 text-xs font-mono bg-apex-900 border border-apex-700 rounded hover:border-pink-500 hover:text-pink-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                         + PITCH DECK (10PG)
                     </button>
                     <button 
                         onClick={() => onGenerate?.('CIM')} 
-                        className="px-3 py-1.5 text-xs font-mono bg-apex-900 border border-apex-700 rounded hover:border-pink-500 hover:text-pink-400 transition-colors"
+                        disabled={isProcessing}
+                        className="px-3 py-1.5 text-xs font-mono bg-apex-900 border border-apex-700 rounded hover:border-pink-500 hover:text-pink-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                         + CIM (10-15PG)
                     </button>
@@ -675,7 +882,7 @@ const DeliverablesView: React.FC<{ data: DealData; onGenerate?: (type: Deliverab
     );
 };
 
-const FinancialsView: React.FC<{ data: DealData }> = ({ data }) => {
+const FinancialsView: React.FC<{ data: DealData; health?: ModelHealth }> = ({ data, health }) => {
     if (!data.financialModels) return <div className="text-center p-8 text-gray-500">Financial models not available.</div>;
     const { years, incomeStatement, balanceSheet, cashFlow } = data.financialModels;
 
@@ -687,30 +894,80 @@ const FinancialsView: React.FC<{ data: DealData }> = ({ data }) => {
                     Historical and projected financial statements.
                 </p>
             </div>
-            <FinancialTable section={incomeStatement} years={years} />
-            <FinancialTable section={balanceSheet} years={years} />
-            <FinancialTable section={cashFlow} years={years} />
+            {health && (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-2 mb-6">
+                    {health.checks.map(check => (
+                        <div key={check.id} className="flex items-start gap-2 p-2 bg-apex-800/20 rounded border border-apex-800">
+                            {check.status === 'pass' && <CheckCircle className="w-3.5 h-3.5 text-emerald-400 mt-0.5 shrink-0" />}
+                            {check.status === 'fail' && <AlertTriangle className="w-3.5 h-3.5 text-red-400 mt-0.5 shrink-0" />}
+                            {check.status === 'skipped' && <ShieldAlert className="w-3.5 h-3.5 text-amber-400 mt-0.5 shrink-0" />}
+                            <div>
+                                <div className="text-[11px] text-gray-200">{check.label}</div>
+                                <div className="text-[10px] text-gray-500 font-mono">{check.detail}</div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <ProvenanceLegend sections={[incomeStatement, balanceSheet, cashFlow]} />
+            <FinancialTable section={incomeStatement} years={years} issues={getStatementIssues(health, 'incomeStatement')} />
+            <FinancialTable section={balanceSheet} years={years} issues={getStatementIssues(health, 'balanceSheet')} />
+            <FinancialTable section={cashFlow} years={years} issues={getStatementIssues(health, 'cashFlow')} />
         </div>
     );
 };
 
-const LBOView: React.FC<{ data: DealData }> = ({ data }) => {
-    if (!data.lboDetailed || !data.financialModels) return <div className="text-center p-8 text-gray-500">LBO Model details not available.</div>;
-    const { assumptions, sources, uses, debtSchedule, projectedReturns } = data.lboDetailed;
-    const { years } = data.financialModels;
-    
-    const projectionYears = years.length > 1 ? years.slice(1) : years;
+const LBO_ASSUMPTION_FIELDS: { key: Exclude<keyof LBOAssumptions, 'baseRate' | 'tranches'>; label: string; suffix: string; step: number }[] = [
+    { key: 'entryMultiple', label: 'Entry Multiple', suffix: 'x', step: 0.25 },
+    { key: 'exitMultiple', label: 'Exit Multiple', suffix: 'x', step: 0.25 },
+    { key: 'leverageMultiple', label: 'Total Leverage', suffix: 'x', step: 0.25 },
+    { key: 'interestRate', label: 'Interest Rate', suffix: '%', step: 0.25 },
+    { key: 'amortizationRate', label: 'Annual Amortization', suffix: '%', step: 1 },
+    { key: 'cashSweepPct', label: 'Cash Sweep', suffix: '%', step: 5 },
+    { key: 'holdPeriod', label: 'Hold Period', suffix: 'yrs', step: 1 },
+    { key: 'transactionFeesPct', label: 'Transaction Fees', suffix: '%', step: 0.25 },
+    { key: 'taxRate', label: 'Tax Rate', suffix: '%', step: 1 },
+];
+
+// Driven by the tranche structure once one exists
+const TRANCHE_DERIVED_FIELDS: (keyof LBOAssumptions)[] = ['leverageMultiple', 'interestRate', 'amortizationRate'];
+
+const LBOView: React.FC<{ data: DealData; onUpdate?: (updates: Partial<DealData>) => void }> = ({ data, onUpdate }) => {
+    const lbo = useMemo(() => data.financialModels ? computeDealLBO(data) : null, [data]);
+    if (!lbo || !lbo.entryEbitda) return <div className="text-center p-8 text-gray-500">LBO Model details not available.</div>;
+    const { sources, uses, debtSchedule, projectedReturns } = toLBODetailed(lbo);
+    const projectionYears = lbo.schedule.map(y => y.year);
+    const structured = !!lbo.assumptions.tranches?.length;
+
+    // Recompute every LBO output and persist through the deal room
+    const commitAssumptions = (lboAssumptions: LBOAssumptions) => {
+        const next = applyLBOEngine({ ...data, lboAssumptions });
+        onUpdate?.({ lboAssumptions: next.lboAssumptions, lboDetailed: next.lboDetailed, lboModel: next.lboModel, valueCreation: next.valueCreation, sensitivityAnalysis: computeDefaultSensitivity(next) });
+    };
 
     return (
         <div className="animate-fade-in space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <MetricBox label="Sponsor Equity" value={formatMoney(lbo.entryEquity, data)} />
+                <MetricBox label="Exit Equity" value={formatMoney(lbo.exitEquity, data)} />
+                <MetricBox label={`IRR (${lbo.assumptions.holdPeriod}yr)`} value={`${(lbo.irr * 100).toFixed(1)}%`} highlight />
+                <MetricBox label="MOIC" value={`${lbo.moic.toFixed(2)}x`} />
+            </div>
+
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 <div className="lg:col-span-1 bg-apex-800/20 border border-apex-800 rounded-lg p-4">
                     <h4 className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-4 border-b border-apex-800 pb-2">Key Assumptions</h4>
                     <ul className="space-y-2">
-                        {assumptions.map((a, i) => (
-                            <li key={i} className="flex justify-between text-xs border-b border-apex-800/50 pb-1 last:border-0">
-                                <span className="text-gray-500">{a.label}</span>
-                                <span className="font-mono text-apex-accent">{a.value}</span>
+                        {LBO_ASSUMPTION_FIELDS.map(field => (
+                            <li key={field.key} className="flex justify-between items-center text-xs border-b border-apex-800/50 pb-1 last:border-0">
+                                <span className="text-gray-500">{field.label}</span>
+                                <AssumptionInput
+                                    value={lbo.assumptions[field.key]}
+                                    suffix={field.suffix}
+                                    step={field.step}
+                                    disabled={!onUpdate || (structured && TRANCHE_DERIVED_FIELDS.includes(field.key))}
+                                    onCommit={(value) => commitAssumptions({ ...lbo.assumptions, [field.key]: value })}
+                                />
                             </li>
                         ))}
                     </ul>
@@ -757,10 +1014,400 @@ const LBOView: React.FC<{ data: DealData }> = ({ data }) => {
                 </div>
             </div>
 
+            <DebtStructurePanel lbo={lbo} unit={moneyUnit(data)} onCommit={onUpdate ? commitAssumptions : undefined} />
+
+            <CovenantPanel data={data} lbo={lbo} onUpdate={onUpdate} />
+
             <div>
-                <FinancialTable section={debtSchedule} years={projectionYears} />
-                <FinancialTable section={projectedReturns} years={projectionYears} />
+                <FinancialTable section={debtSchedule} years={projectionYears} defaultProvenance={ENGINE_PROVENANCE.lbo} />
+                <FinancialTable section={projectedReturns} years={projectionYears} defaultProvenance={ENGINE_PROVENANCE.lbo} />
+            </div>
+        </div>
+    );
+};
+
+const CovenantPanel: React.FC<{ data: DealData; lbo: LBOResult; onUpdate?: (updates: Partial<DealData>) => void }> = ({ data, lbo, onUpdate }) => {
+    const covenants = resolveCovenants(data);
+    const years = useMemo(() => testCovenants(lbo, covenants), [lbo, covenants]);
+    const downsideRisk = useMemo(() => onUpdate ? buildDownsideCovenantRisk(data) : undefined, [data, onUpdate]);
+    const breachCount = years.reduce((acc, y) => acc + y.tests.filter(t => t.breached).length, 0);
+    const currentRisk = data.memo?.keyRisks?.find(r => r.startsWith(COVENANT_RISK_PREFIX));
+
+    const setCovenant = (key: keyof CovenantSet, value: number | undefined) =>
+        onUpdate?.({ covenants: { ...covenants, [key]: value } });
+
+
+    return (
+        <div className="bg-apex-800/20 border border-apex-800 rounded-lg p-4">
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-4 border-b border-apex-800 pb-2">
+                <h4 className="text-xs font-bold text-gray-400 uppercase tracking-widest">Covenant Compliance</h4>
+                <span className={`flex items-center gap-1 text-[10px] font-mono ${breachCount ? 'text-red-400' : 'text-emerald-400'}`}>
+                    {breachCount ? <AlertTriangle className="w-3 h-3" /> : <CheckCircle className="w-3 h-3" />}
+                    {breachCount ? `${breachCount} BREACH${breachCount > 1 ? 'ES' : ''}` : 'IN COMPLIANCE'}
+                </span>
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-xs text-right">
+                    <thead className="text-gray-500 font-mono uppercase bg-apex-900/50">
+                        <tr>
+                            <th className="px-3 py-2 text-left">Covenant</th>
+                            <th className="px-3 py-2">Threshold</th>
+                            {years.map(y => <th key={y.year} className="px-3 py-2 min-w-[80px]">{y.year}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-apex-800 font-mono">
+                        {COVENANT_KEYS.map(key => {
+                            const meta = COVENANT_META[key];
+                            const threshold = covenants[key];
+                            const active = typeof threshold === 'number' && threshold > 0;
+                            return (
+                                <tr key={key} className="hover:bg-apex-800/30">
+                                    <td className="px-3 py-2 text-left font-sans">
+                                        <label className="flex items-center gap-2 text-gray-300">
+                                            <input
+                                                type="checkbox"
+                                                checked={active}
+                                                disabled={!onUpdate}
+                                                onChange={(e) => setCovenant(key, e.target.checked ? buildDefaultCovenants(data)[key] ?? 1 : undefined)}
+                                                className="accent-emerald-500"
+                                            />
+                                            {meta.label}
+                                        </label>
+                                    </td>
+                                    <td className="px-3 py-2">
+                                        <div className="flex justify-end">
+                                            <AssumptionInput value={threshold ?? 0} suffix={meta.unit === 'money' ? moneyUnit(data) : 'x'} step={meta.step} disabled={!onUpdate || !active} onCommit={(v) => setCovenant(key, v)} />
+                                        </div>
+                                    </td>
+                                    {years.map(y => {
+                                        const test = y.tests.find(t => t.covenant === key);
+                                        if (!test) return <td key={y.year} className="px-3 py-2 text-gray-700">-</td>;
+                                        return (
+                                            <td
+                                                key={y.year}
+                                                title={`${meta.label}: ${formatCovenantValue(key, test.actual, data)} vs ${formatCovenantValue(key, test.threshold, data)}`}
+                                                className={`px-3 py-2 ${test.breached ? 'bg-red-900/30 text-red-300 ring-1 ring-inset ring-red-500/40' : test.headroomPct < 10 ? 'text-yellow-400' : 'text-gray-300'}`}
+                                            >
+                                                <div>{formatCovenantValue(key, test.actual, data)}</div>
+                                                <div className="text-[10px] opacity-70">{test.headroomPct.toFixed(1)}%</div>
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            <p className="text-[10px] text-gray-600 font-mono mt-3">
+                Second line is headroom: how far EBITDA (CapEx for the CapEx limit) can move before a breach.
+            </p>
+
+            {onUpdate && (
+                <div className={`mt-4 p-3 rounded border text-xs flex flex-wrap items-center justify-between gap-3 ${downsideRisk ? 'border-red-900/50 bg-red-900/10 text-red-300' : 'border-apex-800 text-gray-500'}`}>
+                    <span className="flex items-center gap-2">
+                        <ShieldAlert className="w-3.5 h-3.5 shrink-0" />
+                        {downsideRisk || 'Downside case holds all covenants.'}
+                    </span>
+                    {(downsideRisk || currentRisk) && downsideRisk !== currentRisk && (
+                        <button
+                            onClick={() => onUpdate({ memo: { ...data.memo, keyRisks: mergeCovenantRisk(data.memo?.keyRisks || [], downsideRisk) } })}
+                            className="px-2 py-1 border border-apex-700 rounded text-[10px] font-mono text-apex-accent hover:border-apex-accent transition-colors"
+                        >
+                            {downsideRisk ? 'SYNC TO KEY RISKS' : 'REMOVE FROM KEY RISKS'}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const DebtStructurePanel: React.FC<{ lbo: LBOResult; unit: string; onCommit?: (assumptions: LBOAssumptions) => void }> = ({ lbo, unit, onCommit }) => {
+    const [addType, setAddType] = useState<DebtTrancheType>('Term Loan B');
+    const assumptions = lbo.assumptions;
+    const baseRate = assumptions.baseRate ?? DEFAULT_BASE_RATE;
+    const tranches = getEffectiveTranches(assumptions);
+    const structured = !!assumptions.tranches?.length;
+    const firstYear = lbo.schedule[0];
+
+    // The implicit single senior loan becomes the first explicit tranche on first edit
+    const saveTranches = (next: DebtTranche[]) => onCommit?.({ ...assumptions, tranches: next });
+    const updateTranche = (id: string, updates: Partial<DebtTranche>) => saveTranches(tranches.map(t => t.id === id ? { ...t, ...updates } : t));
+
+    return (
+        <div className="bg-apex-800/20 border border-apex-800 rounded-lg p-4">
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-4 border-b border-apex-800 pb-2">
+                <h4 className="text-xs font-bold text-gray-400 uppercase tracking-widest">Debt Structure</h4>
+                <div className="flex items-center gap-3 text-xs">
+                    <span className="flex items-center gap-2 text-gray-500">
+                        Base Rate
+                        <AssumptionInput value={baseRate} suffix="%" step={0.25} disabled={!onCommit} onCommit={(value) => onCommit?.({ ...assumptions, baseRate: value })} />
+                    </span>
+                    {onCommit && (
+                        <span className="flex items-center gap-1">
+                            <select
+                                value={addType}
+                                onChange={(e) => setAddType(e.target.value as DebtTrancheType)}
+                                className="bg-apex-900 border border-apex-800 rounded px-2 py-1 text-gray-300 focus:border-apex-accent focus:outline-none"
+                            >
+                                {TRANCHE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                            </select>
+                            <button
+                                onClick={() => saveTranches([...tranches, createTranche(addType)])}
+                                className="px-2 py-1 border border-apex-700 rounded text-[10px] font-mono text-apex-accent hover:border-apex-accent transition-colors"
+                            >
+                                + TRANCHE
+                            </button>
+                        </span>
+                    )}
+                </div>
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-xs text-left">
+                    <thead className="text-gray-500 font-mono uppercase bg-apex-900/50">
+                        <tr>
+                            <th className="px-3 py-2">Tranche</th>
+                            <th className="px-3 py-2 text-right">x EBITDA</th>
+                            <th className="px-3 py-2 text-right">{unit}</th>
+                            <th className="px-3 py-2">Rate</th>
+                            <th className="px-3 py-2 text-right">Coupon / Spread</th>
+                            <th className="px-3 py-2 text-right">Floor</th>
+                            <th className="px-3 py-2 text-right">PIK</th>
+                            <th className="px-3 py-2 text-right">Amort.</th>
+                            <th className="px-3 py-2 text-right">Fee</th>
+                            <th className="px-3 py-2 text-right">Sweep #</th>
+                            <th className="px-3 py-2 text-right">Yr 1 Cash Rate</th>
+                            <th className="px-3 py-2"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-apex-800">
+                        {tranches.map((t, i) => {
+                            const disabled = !onCommit;
+                            const funded = firstYear?.tranches[i]?.openingBalance ?? lbo.entryEbitda * t.amountMultiple;
+                            return (
+                                <tr key={t.id} className="hover:bg-apex-800/30">
+                                    <td className="px-3 py-2">
+                                        <div className="text-gray-200 font-medium">{t.name}</div>
+                                        <div className="text-[10px] text-gray-600 font-mono">{structured ? t.type : 'From Key Assumptions'}</div>
+                                    </td>
+                                    <td className="px-3 py-2"><div className="flex justify-end"><AssumptionInput value={t.amountMultiple} suffix="x" step={0.25} disabled={disabled} onCommit={(v) => updateTranche(t.id, { amountMultiple: v })} /></div></td>
+                                    <td className="px-3 py-2 text-right font-mono text-gray-300">{funded.toFixed(1)}</td>
+                                    <td className="px-3 py-2">
+                                        <select
+                                            value={t.rateType}
+                                            disabled={disabled}
+                                            onChange={(e) => updateTranche(t.id, { rateType: e.target.value as DebtTranche['rateType'] })}
+                                            className="bg-apex-900 border border-apex-800 rounded px-1.5 py-0.5 text-gray-300 focus:border-apex-accent focus:outline-none disabled:opacity-60"
+                                        >
+                                            <option value="fixed">Fixed</option>
+                                            <option value="floating">Floating</option>
+                                        </select>
+                                    </td>
+                                    <td className="px-3 py-2"><div className="flex justify-end"><AssumptionInput value={t.rate} suffix="%" step={0.25} disabled={disabled} onCommit={(v) => updateTranche(t.id, { rate: v })} /></div></td>
+                                    <td className="px-3 py-2"><div className="flex justify-end"><AssumptionInput value={t.floor || 0} suffix="%" step={0.25} disabled={disabled || t.rateType !== 'floating'} onCommit={(v) => updateTranche(t.id, { floor: v })} /></div></td>
+                                    <td className="px-3 py-2">
+                                        <div className="flex justify-end items-center gap-1">
+                                            <input
+                                                type="checkbox"
+                                                checked={!!t.pikToggle}
+                                                disabled={disabled}
+                                                onChange={(e) => updateTranche(t.id, { pikToggle: e.target.checked })}
+                                                title="Pay PIK portion in kind"
+                                                className="accent-emerald-500"
+                                            />
+                                            <AssumptionInput value={t.pikRate || 0} suffix="%" step={0.25} disabled={disabled} onCommit={(v) => updateTranche(t.id, { pikRate: v })} />
+                                        </div>
+                                    </td>
+                                    <td className="px-3 py-2"><div className="flex justify-end"><AssumptionInput value={t.amortizationRate} suffix="%" step={1} disabled={disabled} onCommit={(v) => updateTranche(t.id, { amortizationRate: v })} /></div></td>
+                                    <td className="px-3 py-2"><div className="flex justify-end"><AssumptionInput value={t.upfrontFeePct} suffix="%" step={0.25} disabled={disabled} onCommit={(v) => updateTranche(t.id, { upfrontFeePct: v })} /></div></td>
+                                    <td className="px-3 py-2"><div className="flex justify-end"><AssumptionInput value={t.sweepPriority} suffix="" step={1} disabled={disabled} onCommit={(v) => updateTranche(t.id, { sweepPriority: Math.round(v) })} /></div></td>
+                                    <td className="px-3 py-2 text-right font-mono text-apex-accent">{trancheCashRate(t, baseRate).toFixed(2)}%</td>
+                                    <td className="px-3 py-2 text-right">
+                                        {onCommit && structured && (
+                                            <button onClick={() => saveTranches(tranches.filter(x => x.id !== t.id))} className="text-gray-600 hover:text-red-400 transition-colors" title="Remove tranche">
+                                                <X className="w-3.5 h-3.5" />
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            <p className="text-[10px] text-gray-600 font-mono mt-3">
+                Revolver funds cash shortfalls up to its commitment. Excess cash is swept in ascending priority (0 = not swept). Toggled PIK accrues to principal.
+            </p>
+        </div>
+    );
+};
+
+const AssumptionInput: React.FC<{ value: number; suffix: string; step: number; disabled?: boolean; allowNegative?: boolean; onCommit: (value: number) => void }> = ({ value, suffix, step, disabled, allowNegative, onCommit }) => {
+    // Draft string lets the user clear or partially type a number without snapping back
+    const [draft, setDraft] = useState(String(value));
+    useEffect(() => { setDraft(String(value)); }, [value]);
+
+    const handleChange = (raw: string) => {
+        setDraft(raw);
+        const parsed = parseFloat(raw);
+        if (!isNaN(parsed) && (allowNegative || parsed >= 0) && parsed !== value) onCommit(parsed);
+    };
+
+    return (
+        <span className="flex items-center gap-1">
+            <input
+                type="number"
+                value={draft}
+                step={step}
+                min={allowNegative ? undefined : 0}
+                disabled={disabled}
+                onChange={(e) => handleChange(e.target.value)}
+                onBlur={() => setDraft(String(value))}
+                className="w-16 bg-apex-900 border border-apex-800 rounded px-1.5 py-0.5 text-right font-mono text-apex-accent focus:border-apex-accent focus:outline-none transition-colors disabled:opacity-60"
+            />
+            <span className="w-6 text-[10px] text-gray-600 font-mono">{suffix}</span>
+        </span>
+    );
+};
+
+const SCENARIO_FIELDS: { key: keyof ScenarioOverrides; label: string; suffix: string; step: number }[] = [
+    { key: 'revenueGrowth', label: 'Rev Growth', suffix: '%', step: 0.5 },
+    { key: 'ebitdaMargin', label: 'EBITDA Margin', suffix: '%', step: 0.5 },
+    { key: 'exitMultiple', label: 'Exit Multiple', suffix: 'x', step: 0.25 },
+    { key: 'interestRate', label: 'Cost of Debt', suffix: '%', step: 0.25 },
+];
+
+const ScenarioBar: React.FC<{
+    data: DealData;
+    scenarios: DealScenario[];
+    activeId?: string;
+    compare: boolean;
+    onSelect: (id: string) => void;
+    onToggleCompare: () => void;
+    onUpdate?: (updates: Partial<DealData>) => void;
+}> = ({ data, scenarios, activeId, compare, onSelect, onToggleCompare, onUpdate }) => {
+    const active = scenarios.find(s => s.id === activeId);
+    const base = summarizeScenario(data, scenarios[0]);
+    const activeValues = active ? resolveScenarioOverrides(data, active) : {};
+
+    const saveScenarios = (next: DealScenario[]) => onUpdate?.({ scenarios: next });
+
+    const addScenario = () => {
+        const id = `custom-${Date.now()}`;
+        const source = active && active.kind !== 'base' ? active : undefined;
+        saveScenarios([...scenarios, { id, name: `Scenario ${scenarios.length + 1}`, kind: 'custom', overrides: { ...source?.overrides }, shifts: { ...source?.shifts } }]);
+        onSelect(id);
+    };
+
+    const removeScenario = (id: string) => {
+        saveScenarios(scenarios.filter(s => s.id !== id));
+        onSelect(BASE_SCENARIO_ID);
+    };
+
+    // Edits are kept as a shift from the base case so the scenario follows later base edits
+    const updateOverride = (key: keyof ScenarioOverrides, value: number) => {
+        if (!active) return;
+        const { [key]: _pinned, ...overrides } = active.overrides;
+        const shift = Math.round((value - baseScenarioValues(data)[key]) * 100) / 100;
+        saveScenarios(scenarios.map(s => s.id === active.id ? { ...s, overrides, shifts: { ...s.shifts, [key]: shift } } : s));
+    };
+
+    return (
+        <div className="mb-4 p-3 bg-apex-800/20 border border-apex-800 rounded-lg space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <Layers className="w-3 h-3 text-apex-accent" />
+                <span className="text-[10px] font-mono text-gray-500 uppercase mr-2">Scenario</span>
+                {scenarios.map(s => (
+                    <button
+                        key={s.id}
+                        onClick={() => onSelect(s.id)}
+                        className={`px-2 py-1 rounded text-[10px] font-mono uppercase border transition-colors ${
+                            s.id === activeId
+                                ? s.kind === 'downside' ? 'border-red-500 text-red-400 bg-red-900/20' : s.kind === 'upside' ? 'border-emerald-500 text-emerald-400 bg-emerald-900/20' : 'border-apex-accent text-apex-accent bg-apex-accent/10'
+                                : 'border-apex-800 text-gray-500 hover:text-white'
+                        }`}
+                    >
+                        {s.name}
+                    </button>
+                ))}
+                {onUpdate && (
+                    <button onClick={addScenario} className="px-2 py-1 rounded text-[10px] font-mono border border-dashed border-apex-700 text-gray-500 hover:text-white">
+                        + SCENARIO
+                    </button>
+                )}
+                <button
+                    onClick={onToggleCompare}
+                    className={`ml-auto px-2 py-1 rounded text-[10px] font-mono uppercase border transition-colors ${compare ? 'border-apex-accent text-apex-accent' : 'border-apex-800 text-gray-500 hover:text-white'}`}
+                >
+                    {compare ? 'Hide Comparison' : 'Side by Side'}
+                </button>
             </div>
+
+            {active && active.kind !== 'base' && (
+                <div className="flex flex-wrap items-center gap-4 pt-2 border-t border-apex-800/50">
+                    {SCENARIO_FIELDS.map(field => (
+                        <div key={field.key} className="flex items-center gap-2 text-xs">
+                            <span className="text-gray-500">{field.label}</span>
+                            <AssumptionInput
+                                value={activeValues[field.key] ?? base[field.key]}
+                                suffix={field.suffix}
+                                step={field.step}
+                                disabled={!onUpdate}
+                                onCommit={(value) => updateOverride(field.key, value)}
+                            />
+                        </div>
+                    ))}
+                    {onUpdate && active.kind === 'custom' && (
+                        <button onClick={() => removeScenario(active.id)} className="ml-auto text-[10px] font-mono text-red-400 hover:text-red-300">
+                            REMOVE
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const ScenarioComparison: React.FC<{ data: DealData }> = ({ data }) => {
+    const summaries = useMemo(() => summarizeScenarios(data), [data]);
+    const rows: { label: string; render: (s: ScenarioSummary) => string; highlight?: boolean }[] = [
+        { label: 'Revenue Growth', render: s => `${s.revenueGrowth.toFixed(1)}%` },
+        { label: 'EBITDA Margin', render: s => `${s.ebitdaMargin.toFixed(1)}%` },
+        { label: 'Exit Multiple', render: s => `${s.exitMultiple.toFixed(1)}x` },
+        { label: 'Cost of Debt', render: s => `${s.interestRate.toFixed(1)}%` },
+        { label: 'Exit EBITDA', render: s => formatMoney(s.exitEbitda, data) },
+        { label: 'Exit Equity', render: s => formatMoney(s.exitEquity, data) },
+        { label: 'IRR', render: s => `${s.irr.toFixed(1)}%`, highlight: true },
+        { label: 'MOIC', render: s => `${s.moic.toFixed(2)}x`, highlight: true },
+    ];
+
+    return (
+        <div className="mb-6 overflow-x-auto bg-apex-800/20 rounded border border-apex-800">
+            <table className="w-full text-right border-collapse">
+                <thead>
+                    <tr className="bg-apex-900/50 text-[10px] font-mono text-gray-500 border-b border-apex-800">
+                        <th className="text-left p-2 pl-4 font-medium w-48">Scenario Comparison</th>
+                        {summaries.map(s => (
+                            <th key={s.scenario.id} className={`p-2 min-w-[100px] ${s.scenario.kind === 'downside' ? 'text-red-400' : s.scenario.kind === 'upside' ? 'text-emerald-400' : 'text-apex-accent'}`}>
+                                {s.scenario.name}
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody className="text-xs font-mono text-gray-300">
+                    {rows.map(row => (
+                        <tr key={row.label} className="border-b border-apex-800/50 last:border-0 hover:bg-white/5">
+                            <td className={`text-left p-2 pl-4 ${row.highlight ? 'font-bold text-white' : 'text-gray-400'}`}>{row.label}</td>
+                            {summaries.map(s => (
+                                <td key={s.scenario.id} className={`p-2 ${row.highlight ? 'font-bold' : ''}`}>{row.render(s)}</td>
+                            ))}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
         </div>
     );
 };
@@ -815,87 +1462,229 @@ const SourcingView: React.FC<{ data: DealData }> = ({ data }) => (
        <div className="p-4 border border-apex-accent/30 rounded-lg bg-apex-accent/5">
           <h4 className="text-xs text-apex-accent uppercase font-mono mb-2">Why {data.companyName}?</h4>
           <p className="text-sm text-gray-300 leading-relaxed">
-             Selected for superior alignment with firm mandate, specifically in EBITDA generation ({data.ebitda}M) and defensive market position in {data.sector}.
+             Selected for superior alignment with firm mandate, specifically in EBITDA generation ({formatMoney(data.ebitda, data)} reported{data.adjustedEbitda !== undefined ? `, ${formatMoney(data.adjustedEbitda, data)} diligence-adjusted` : ''}) and defensive market position in {data.sector}.
           </p>
        </div>
     </div>
   </div>
 );
 
-const ValuationView: React.FC<{ data: DealData }> = ({ data }) => {
-  const compData = data.comparables?.map(c => ({
-    name: c.name,
-    multiple: c.multiple,
-    isTarget: false
-  })) || [];
+const DCFView: React.FC<{ data: DealData; precedents: PrecedentStore; onUpdate?: (updates: Partial<DealData>) => void }> = ({ data, precedents, onUpdate }) => {
+    const dcf = useMemo(() => data.financialModels ? runDCF(data) : null, [data]);
+    const grid = useMemo(() => data.financialModels ? computeDCFSensitivity(data) : null, [data]);
+    const lbo = useMemo(() => data.financialModels ? computeDealLBO(data) : null, [data]);
+    // Valuation summary: the same methodology ranges as the football field
+    const ranges = useMemo(() => data.financialModels ? buildFootballField(data, computeDealPrecedents(data, precedents).stats) : [], [data, precedents]);
+    if (!dcf || !grid || !lbo || !dcf.years.length) return <div className="text-center p-8 text-gray-500">DCF requires the 3-statement model.</div>;
+
+    const a = dcf.assumptions;
+    // Untouched fields stay unset so cost of debt, tax rate and exit multiple keep tracking the LBO
+    const commit = (updates: Partial<DCFAssumptions>) => onUpdate?.({ dcfAssumptions: { ...data.dcfAssumptions, ...updates } });
+    const fmtEV = (value: number) => isFinite(value) ? formatMoney(value, data) : 'n/m';
+
+    const scaleMax = Math.max(...ranges.map(r => r.high), 1) * 1.1;
+
+    return (
+        <div className="animate-fade-in space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <MetricBox label={`DCF EV (${a.terminalMethod === 'gordon' ? 'Gordon' : 'Exit Multiple'})`} value={fmtEV(dcf.enterpriseValue)} highlight />
+                <MetricBox label="Implied EV / LTM EBITDA" value={`${dcf.impliedEbitdaMultiple.toFixed(1)}x`} />
+                <MetricBox label="WACC" value={`${dcf.wacc.wacc.toFixed(2)}%`} />
+                <MetricBox label="LBO Entry EV" value={fmtEV(lbo.entryEnterpriseValue)} />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="lg:col-span-1 bg-apex-800/20 border border-apex-800 rounded-lg p-4">
+                    <h4 className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-4 border-b border-apex-800 pb-2">WACC Build-Up</h4>
+                    <ul className="space-y-2">
+                        {DCF_FIELDS.map(field => (
+                            <li key={field.key} className="flex justify-between items-center text-xs border-b border-apex-800/50 pb-1 last:border-0">
+                                <span className="text-gray-500">{field.label}</span>
+                                <AssumptionInput value={a[field.key]} suffix={field.suffix} step={field.step} disabled={!onUpdate} onCommit={(value) => commit({ [field.key]: value })} />
+                            </li>
+                        ))}
+                        <li className="flex justify-between items-center text-xs pt-1">
+                            <span className="text-gray-500">Terminal Method</span>
+                            <select
+                                value={a.terminalMethod}
+                                disabled={!onUpdate}
+                                onChange={(e) => commit({ terminalMethod: e.target.value as DCFAssumptions['terminalMethod'] })}
+                                className="bg-apex-900 border border-apex-800 rounded px-1.5 py-0.5 text-gray-300 focus:border-apex-accent focus:outline-none disabled:opacity-60"
+                            >
+                                <option value="gordon">Gordon Growth</option>
+                                <option value="exitMultiple">Exit Multiple</option>
+                            </select>
+                        </li>
+                    </ul>
+                    <div className="mt-4 pt-3 border-t border-apex-700 space-y-1 text-xs font-mono">
+                        <div className="flex justify-between text-gray-400"><span>Cost of Equity (CAPM)</span><span className="text-gray-200">{dcf.wacc.costOfEquity.toFixed(2)}%</span></div>
+                        <div className="flex justify-between text-gray-400"><span>After-Tax Cost of Debt</span><span className="text-gray-200">{dcf.wacc.afterTaxCostOfDebt.toFixed(2)}%</span></div>
+                        <div className="flex justify-between text-gray-400"><span>E / D Weights</span><span className="text-gray-200">{dcf.wacc.equityWeight.toFixed(0)}% / {dcf.wacc.debtWeight.toFixed(0)}%</span></div>
+                        <div className="flex justify-between font-bold"><span className="text-white">WACC</span><span className="text-apex-accent">{dcf.wacc.wacc.toFixed(2)}%</span></div>
+                    </div>
+                </div>
+
+                <div className="lg:col-span-2 space-y-6">
+                    <TerminalValueTable dcf={dcf} />
+
+                    <div className="bg-apex-800/20 border border-apex-800 rounded-lg p-4">
+                        <h4 className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-4 border-b border-apex-800 pb-2">Valuation Summary (EV, {moneyUnit(data)})</h4>
+                        <div className="space-y-3">
+                            {ranges.map(r => (
+                                <div key={r.label} className="grid grid-cols-[140px_1fr_120px] items-center gap-3 text-xs" title={r.basis}>
+                                    <span className="text-gray-400">{r.label}</span>
+                                    <div className="relative h-4 bg-apex-900 rounded">
+                                        <div
+                                            className="absolute h-full rounded bg-apex-accent/40 border border-apex-accent/60"
+                                            style={{ left: `${r.low / scaleMax * 100}%`, width: `${Math.max(0.8, (r.high - r.low) / scaleMax * 100)}%` }}
+                                        />
+                                        <div className="absolute h-full w-0.5 bg-white" style={{ left: `${r.point / scaleMax * 100}%` }} />
+                                    </div>
+                                    <span className="font-mono text-gray-300 text-right">
+                                        {r.low === r.high ? r.point.toFixed(1) : `${r.low.toFixed(1)} - ${r.high.toFixed(1)}`}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            <FinancialTable section={toDCFSection(dcf)} years={dcf.years.map(y => y.year)} defaultProvenance={ENGINE_PROVENANCE.dcf} />
+
+            <div className="bg-apex-900 border border-apex-800 rounded-lg p-4 overflow-x-auto">
+                <div className="flex items-center gap-2 mb-4">
+                    <TableIcon className="w-4 h-4 text-apex-accent" />
+                    <h3 className="text-xs font-mono text-gray-400 uppercase">Enterprise Value: WACC vs Terminal Growth (Gordon, {moneyUnit(data)})</h3>
+                </div>
+                <table className="w-full border-collapse text-center">
+                    <thead>
+                        <tr>
+                            <th className="w-24 text-[10px] font-mono text-gray-500 bg-apex-800/50 border border-apex-700 p-1 uppercase">WACC / g</th>
+                            {grid.growthValues.map(g => (
+                                <th key={g} className="text-xs font-mono text-gray-400 py-1 border border-apex-800 bg-apex-800/30">{g.toFixed(2)}%</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {grid.cells.map((row, i) => (
+                            <tr key={i}>
+                                <td className="text-xs font-mono text-gray-400 border border-apex-800 bg-apex-800/30">{grid.waccValues[i].toFixed(2)}%</td>
+                                {row.map((value, j) => (
+                                    <td
+                                        key={j}
+                                        className={`py-3 text-sm font-mono border border-apex-800 transition-colors hover:bg-white/5 ${
+                                            !isFinite(value) ? 'text-gray-600' : value >= lbo.entryEnterpriseValue ? 'text-emerald-400 bg-emerald-900/10' : 'text-red-400'
+                                        }`}
+                                    >
+                                        {isFinite(value) ? value.toFixed(1) : 'n/m'}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <p className="text-[10px] text-gray-600 font-mono mt-3">Green: DCF value at or above the LBO entry price.</p>
+            </div>
+        </div>
+    );
+};
+
+const TerminalValueTable: React.FC<{ dcf: DCFResult }> = ({ dcf }) => {
+    const rows = [
+        { label: 'Gordon Growth', tv: dcf.gordon, selected: dcf.assumptions.terminalMethod === 'gordon' },
+        { label: 'Exit Multiple', tv: dcf.exitMultiple, selected: dcf.assumptions.terminalMethod === 'exitMultiple' }
+    ];
+    const fmt = (value: number, suffix: string = '', decimals: number = 1) => isFinite(value) ? `${value.toFixed(decimals)}${suffix}` : 'n/m';
+    return (
+        <div className="bg-apex-800/20 border border-apex-800 rounded-lg p-4">
+            <h4 className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-4 border-b border-apex-800 pb-2">Terminal Value</h4>
+            <table className="w-full text-xs text-right">
+                <thead className="text-gray-500 font-mono uppercase">
+                    <tr>
+                        <th className="py-1 text-left">Method</th>
+                        <th className="py-1">Terminal Value</th>
+                        <th className="py-1">PV of TV</th>
+                        <th className="py-1">PV of UFCF</th>
+                        <th className="py-1">Enterprise Value</th>
+                        <th className="py-1">Implied Multiple</th>
+                        <th className="py-1">Implied g</th>
+                    </tr>
+                </thead>
+                <tbody className="font-mono divide-y divide-apex-800">
+                    {rows.map(r => (
+                        <tr key={r.label} className={r.selected ? 'text-apex-accent' : 'text-gray-300'}>
+                            <td className="py-2 text-left font-sans">{r.label}{r.selected && ' ●'}</td>
+                            <td className="py-2">{fmt(r.tv.terminalValue)}</td>
+                            <td className="py-2">{fmt(r.tv.presentValue)}</td>
+                            <td className="py-2">{fmt(dcf.sumOfPresentValues)}</td>
+                            <td className="py-2 font-bold">{fmt(r.tv.enterpriseValue)}</td>
+                            <td className="py-2">{fmt(r.tv.impliedMultiple, 'x')}</td>
+                            <td className="py-2">{fmt(r.tv.impliedGrowth, '%', 2)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const ValuationView: React.FC<{ data: DealData; precedents: PrecedentStore; hurdleRate: number; fundTerms?: FundTerms }> = ({ data, precedents, hurdleRate, fundTerms }) => {
+  // Included peers from the comps screen; older deals only carry the name / multiple list
+  const compData = data.comps
+    ? data.comps.peers.filter(p => p.included && isFinite(evEbitdaOf(p))).map(p => ({ name: p.name, multiple: Math.round(evEbitdaOf(p) * 10) / 10, isTarget: false }))
+    : data.comparables?.map(c => ({
+        name: c.name,
+        multiple: c.multiple,
+        isTarget: false
+      })) || [];
+  const compStats = data.comps && data.comps.evEbitda.count > 0 ? data.comps.evEbitda : null;
+  const footballField = useMemo(() => buildFootballField(data, computeDealPrecedents(data, precedents).stats), [data, precedents]);
+  const entryRange = footballField.find(r => r.label === 'LBO Entry Value');
+  const impliedRange = data.comps && compStats ? impliedValueRange(data.comps, extractOperatingProjection(data).ebitda[0]) : null;
 
   const chartData = [
     ...compData,
     { name: data.companyName, multiple: data.askingMultiple, isTarget: true }
   ];
-
-  const hasSensitivityData = data.sensitivityAnalysis && data.sensitivityAnalysis.length > 0 && data.sensitivityAnalysis[0].exits;
+  // Live from the engine so the bridge follows the selected scenario
+  const valueCreation = useMemo(
+      () => data.financialModels ? toValueCreation(computeDealLBO(data)) : data.valueCreation,
+      [data]
+  );
+  const terms = useMemo(() => resolveFundTerms(fundTerms), [fundTerms]);
+  const waterfallInputs = useMemo(() => data.financialModels ? [dealWaterfallInput(data)] : [], [data]);
 
   return (
     <div className="space-y-8 animate-fade-in">
         <div className="grid grid-cols-4 gap-4">
             <MetricBox label="Entry EV/EBITDA" value={`${data.lboModel.entryMultiple}x`} />
             <MetricBox label="Exit EV/EBITDA" value={`${data.lboModel.exitMultiple}x`} />
-            <MetricBox label="IRR (5yr)" value={`${data.lboModel.irr}%`} highlight />
+            <MetricBox label={`IRR (${resolveLBOAssumptions(data).holdPeriod}yr)`} value={`${data.lboModel.irr}%`} highlight />
             <MetricBox label="MOIC" value={`${data.lboModel.moic}x`} />
         </div>
 
-        {hasSensitivityData && (
-            <div className="bg-apex-900 border border-apex-800 rounded-lg p-4 overflow-x-auto">
-                <div className="flex items-center gap-2 mb-4">
-                    <TableIcon className="w-4 h-4 text-apex-accent" />
-                    <h3 className="text-xs font-mono text-gray-400 uppercase">Sensitivity Analysis (IRR %)</h3>
-                </div>
-                
-                <div className="w-full">
-                    <div className="flex">
-                         <div className="w-24 flex-shrink-0 flex flex-col justify-center text-xs font-mono text-gray-500 text-center font-bold bg-apex-800/50 rounded-l border-y border-l border-apex-700">
-                            ENTRY <br/> MULTIPLE
-                         </div>
-                         <div className="flex-1">
-                             <div className="text-center text-xs font-mono text-gray-500 py-1 bg-apex-800/50 border-t border-r border-apex-700 rounded-tr">EXIT MULTIPLE</div>
-                             <div className="grid grid-cols-3">
-                                 {data.sensitivityAnalysis && data.sensitivityAnalysis[0]?.exits.map((e, i) => (
-                                     <div key={i} className="text-center text-xs font-mono text-gray-400 py-1 border-b border-r border-apex-800 bg-apex-800/30">
-                                         {e.multiple}x
-                                     </div>
-                                 ))}
-                             </div>
-                             {data.sensitivityAnalysis?.map((row, rowIdx) => (
-                                 <div key={rowIdx} className="grid grid-cols-3">
-                                     {row.exits?.map((col, colIdx) => (
-                                        <div 
-                                            key={colIdx} 
-                                            className={`
-                                                text-center py-3 text-sm font-mono border-b border-r border-apex-800 transition-colors hover:bg-white/5
-                                                ${col.irr >= 25 ? 'text-emerald-400 bg-emerald-900/10' : col.irr >= 20 ? 'text-yellow-400' : 'text-red-400'}
-                                            `}
-                                        >
-                                            {col.irr}%
-                                        </div>
-                                     ))}
-                                 </div>
-                             ))}
-                         </div>
-                         <div className="w-24 flex-shrink-0 flex flex-col">
-                              {data.sensitivityAnalysis?.map((row, i) => (
-                                  <div key={i} className="flex-1 flex items-center justify-center text-xs font-mono text-gray-400 border-b border-r border-apex-800 bg-apex-800/30">
-                                      {row.entryMultiple}x
-                                  </div>
-                              ))}
-                         </div>
-                    </div>
-                </div>
-            </div>
-        )}
+        {footballField.length > 0 && <FootballFieldChart ranges={footballField} referenceValue={entryRange?.point} basis={data} />}
+
+        {data.financialModels && <GoalSeekPanel data={data} hurdleRate={hurdleRate} />}
+
+        {waterfallInputs.length > 0 && <WaterfallPanel title="Distribution Waterfall (this deal)" inputs={waterfallInputs} terms={terms} />}
+
+        {valueCreation && <ValueCreationChart bridge={valueCreation} basis={data} />}
+
+        {data.financialModels && <SensitivityPanel data={data} />}
+
+        {data.financialModels && <MonteCarloPanel data={data} hurdleRate={hurdleRate} />}
 
-        <div className="h-64 bg-apex-800/30 border border-apex-800 rounded-lg p-4">
-            <h3 className="text-xs font-mono text-gray-400 uppercase mb-2">Relative Valuation (EV/EBITDA)</h3>
+        <div className="h-64 bg-apex-800/30 border border-apex-800 rounded-lg p-4 pb-10">
+            <div className="flex justify-between items-baseline mb-2">
+                <h3 className="text-xs font-mono text-gray-400 uppercase">Relative Valuation (EV/EBITDA)</h3>
+                {compStats && impliedRange && (
+                    <span className="text-[10px] font-mono text-gray-500">
+                        Peer median <span className="text-apex-accent">{compStats.median.toFixed(1)}x</span> · IQR {compStats.p25.toFixed(1)}x – {compStats.p75.toFixed(1)}x · Implied EV {formatMoney(impliedRange.low, data)} – {formatMoney(impliedRange.high, data)}
+                    </span>
+                )}
+            </div>
             <ResponsiveContainer width="100%" height="100%">
               <BarChart data={chartData} layout="vertical" margin={{ left: 20 }}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#333" horizontal={false} />
@@ -911,6 +1700,9 @@ const ValuationView: React.FC<{ data: DealData }> = ({ data }) => {
                     <Cell key={`cell-${index}`} fill={entry.isTarget ? '#d4af37' : '#404040'} />
                   ))}
                 </Bar>
+                {compStats && <ReferenceLine x={compStats.p25} stroke="#666" strokeDasharray="3 3" />}
+                {compStats && <ReferenceLine x={compStats.median} stroke="#d4af37" strokeDasharray="4 2" />}
+                {compStats && <ReferenceLine x={compStats.p75} stroke="#666" strokeDasharray="3 3" />}
               </BarChart>
             </ResponsiveContainer>
         </div>
@@ -918,29 +1710,612 @@ const ValuationView: React.FC<{ data: DealData }> = ({ data }) => {
   );
 };
 
-const MarketView: React.FC<{ data: DealData }> = ({ data }) => (
-    <div className="space-y-6 animate-fade-in">
-        <div className="bg-apex-800/30 border border-apex-700 rounded-lg overflow-hidden">
-            <div className="p-3 bg-apex-800/50 border-b border-apex-700">
-                <h3 className="text-xs font-mono text-gray-400 uppercase">Public Comps Set</h3>
+const GoalSeekPanel: React.FC<{ data: DealData; hurdleRate: number }> = ({ data, hurdleRate }) => {
+    const [metric, setMetric] = useState<GoalSeekMetric>('irr');
+    const [irrTarget, setIrrTarget] = useState(hurdleRate);
+    const [moicTarget, setMoicTarget] = useState(DEFAULT_MOIC_TARGET);
+    const [financing, setFinancing] = useState<FinancingMode>('fixed');
+
+    const target: GoalSeekTarget = { metric, value: metric === 'irr' ? irrTarget : moicTarget };
+    const result = useMemo(() => runGoalSeek(data, target, financing), [data, metric, irrTarget, moicTarget, financing]);
+
+    const b = result.base;
+    const na = 'Not reachable';
+    const headroom = result.maxEnterpriseValue !== null ? result.maxEnterpriseValue - b.enterpriseValue : null;
+    const selectClass = "bg-apex-900 border border-apex-800 rounded px-2 py-1 text-[10px] font-mono text-gray-300 focus:border-apex-accent focus:outline-none";
+
+    return (
+        <div className="bg-apex-900 border border-apex-800 rounded-lg p-4">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div className="flex items-center gap-2">
+                    <Target className="w-4 h-4 text-apex-accent" />
+                    <h3 className="text-xs font-mono text-gray-400 uppercase">Goal Seek: Bid Capacity at {formatGoalSeekTarget(target)}</h3>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-[10px] font-mono text-gray-400">
+                    <select value={metric} onChange={(e) => setMetric(e.target.value as GoalSeekMetric)} className={selectClass}>
+                        <option value="irr">Target IRR</option>
+                        <option value="moic">Target MOIC</option>
+                    </select>
+                    {metric === 'irr'
+                        ? <AssumptionInput value={irrTarget} suffix="%" step={0.5} onCommit={setIrrTarget} />
+                        : <AssumptionInput value={moicTarget} suffix="x" step={0.1} onCommit={setMoicTarget} />}
+                    <select value={financing} onChange={(e) => setFinancing(e.target.value as FinancingMode)} className={selectClass}>
+                        <option value="fixed">Hold debt fixed</option>
+                        <option value="scaled">Scale debt with price</option>
+                    </select>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <MetricBox label="Max Entry Multiple" value={result.maxEntryMultiple !== null ? `${result.maxEntryMultiple.toFixed(2)}x` : na} highlight />
+                <MetricBox label="Max Enterprise Value" value={result.maxEnterpriseValue !== null ? formatMoney(result.maxEnterpriseValue, data) : na} />
+                <MetricBox label="Required Exit Multiple" value={result.requiredExitMultiple !== null ? `${result.requiredExitMultiple.toFixed(2)}x` : na} />
+                <MetricBox label="Required EBITDA CAGR" value={result.requiredEbitdaCagr !== null ? `${result.requiredEbitdaCagr.toFixed(1)}%` : na} />
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-2 text-[10px] font-mono text-gray-500">
+                <div>
+                    Current {b.entryMultiple.toFixed(2)}x
+                    {result.leverageAtMax !== null && <> · {result.leverageAtMax.toFixed(2)}x leverage at max</>}
+                </div>
+                <div>
+                    Current {formatMoney(b.enterpriseValue, data)}
+                    {headroom !== null && <span className={headroom >= 0 ? 'text-emerald-400' : 'text-red-400'}> ({headroom >= 0 ? '+' : ''}{formatMoney(headroom, data)})</span>}
+                    {result.equityAtMax !== null && <> · equity {formatMoney(result.equityAtMax, data)}</>}
+                </div>
+                <div>Plan {b.exitMultiple.toFixed(2)}x at current price</div>
+                <div>Plan {b.ebitdaCagr.toFixed(1)}% at current price</div>
+            </div>
+            <p className="text-[10px] text-gray-600 mt-3">
+                Base case returns {b.irr.toFixed(1)}% IRR / {b.moic.toFixed(2)}x MOIC. Exit multiple and EBITDA CAGR are solved at the current entry price with everything else held; the CAGR solve keeps EBITDA margin at LTM.
+            </p>
+        </div>
+    );
+};
+
+const FootballFieldChart: React.FC<{ ranges: ValuationRange[]; referenceValue?: number; basis?: MoneyBasis }> = ({ ranges, referenceValue, basis }) => {
+    const scaleMax = Math.max(...ranges.map(r => r.high), referenceValue || 0, 1);
+    // Floating bars: an invisible offset to the low end plus the range itself; point estimates get a sliver
+    const chartData = ranges.map(r => ({
+        ...r,
+        base: r.low,
+        span: Math.max(r.high - r.low, scaleMax * 0.006)
+    }));
+
+    return (
+        <div className="bg-apex-800/30 border border-apex-800 rounded-lg p-4">
+            <div className="flex justify-between items-center mb-2">
+                <h3 className="text-xs font-mono text-gray-400 uppercase">Football Field (Enterprise Value, {moneyUnit(basis)})</h3>
+                {referenceValue !== undefined && <span className="text-[10px] font-mono text-gray-500">Dashed line: LBO entry EV {formatMoney(referenceValue, basis)}</span>}
+            </div>
+            <div style={{ height: Math.max(160, chartData.length * 44) }}>
+                <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={chartData} layout="vertical" margin={{ left: 40, right: 20 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#333" horizontal={false} />
+                        <XAxis type="number" domain={[0, 'auto']} stroke="#666" fontSize={10} />
+                        <YAxis dataKey="label" type="category" width={140} stroke="#999" fontSize={10} />
+                        <Tooltip
+                            cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+                            contentStyle={{ backgroundColor: '#171717', borderColor: '#333' }}
+                            formatter={(_value: any, _name: any, item: any) => [
+                                item.payload.low === item.payload.high
+                                    ? formatMoney(item.payload.point, basis)
+                                    : `${formatMoney(item.payload.low, basis)} - ${formatMoney(item.payload.high, basis)} (mid ${formatMoney(item.payload.point, basis)})`,
+                                item.payload.basis
+                            ]}
+                        />
+                        <Bar dataKey="base" stackId="range" fill="transparent" isAnimationActive={false} legendType="none" tooltipType="none" />
+                        <Bar dataKey="span" stackId="range" barSize={18} radius={[2, 2, 2, 2]}>
+                            {chartData.map((entry, index) => (
+                                <Cell key={`ff-${index}`} fill={entry.label.startsWith('LBO') ? '#d4af37' : entry.label.startsWith('DCF') ? '#3b82f6' : '#10b981'} fillOpacity={0.7} />
+                            ))}
+                        </Bar>
+                        {referenceValue !== undefined && <ReferenceLine x={referenceValue} stroke="#d4af37" strokeDasharray="4 2" />}
+                    </BarChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+};
+
+const ValueCreationChart: React.FC<{ bridge: ValueCreationBridge; basis?: MoneyBasis }> = ({ bridge, basis }) => {
+    // Floating bars: an invisible base plus the visible step
+    const steps = [
+        { name: 'Entry Equity', value: bridge.entryEquity, total: true },
+        { name: 'EBITDA Growth', value: bridge.ebitdaGrowth },
+        { name: 'Multiple Exp.', value: bridge.multipleExpansion },
+        { name: 'Deleveraging', value: bridge.deleveraging },
+        { name: 'Fees', value: bridge.feesAndExpenses },
+        ...(Math.abs(bridge.other) >= 0.1 ? [{ name: 'Other', value: bridge.other }] : []),
+        { name: 'Exit Equity', value: bridge.exitEquity, total: true }
+    ];
+    let running = 0;
+    const chartData = steps.map(step => {
+        if (step.total) {
+            running = step.value;
+            return { name: step.name, base: 0, delta: step.value, value: step.value, color: '#d4af37' };
+        }
+        const base = step.value >= 0 ? running : running + step.value;
+        running += step.value;
+        return { name: step.name, base, delta: Math.abs(step.value), value: step.value, color: step.value >= 0 ? '#10b981' : '#ef4444' };
+    });
+    const created = bridge.exitEquity - bridge.entryEquity;
+
+    return (
+        <div className="bg-apex-800/30 border border-apex-800 rounded-lg p-4">
+            <div className="flex justify-between items-center mb-2">
+                <h3 className="text-xs font-mono text-gray-400 uppercase">Value Creation Bridge ({moneyUnit(basis)})</h3>
+                <span className={`text-xs font-mono ${created >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                    {created >= 0 ? '+' : ''}{created.toFixed(1)} equity value
+                </span>
+            </div>
+            <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={chartData} margin={{ top: 20, right: 10, bottom: 0, left: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+                        <XAxis dataKey="name" stroke="#999" fontSize={10} />
+                        <YAxis stroke="#666" fontSize={10} />
+                        <Tooltip
+                            cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+                            contentStyle={{ backgroundColor: '#171717', borderColor: '#333' }}
+                            formatter={(_value: any, _name: any, item: any) => [formatMoney(item.payload.value, basis), item.payload.name]}
+                        />
+                        <ReferenceLine y={0} stroke="#555" />
+                        <Bar dataKey="base" stackId="bridge" fill="transparent" isAnimationActive={false} legendType="none" tooltipType="none" />
+                        <Bar dataKey="delta" stackId="bridge" radius={[2, 2, 0, 0]}>
+                            {chartData.map((entry, index) => (
+                                <Cell key={`vc-${index}`} fill={entry.color} />
+                            ))}
+                        </Bar>
+                    </BarChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+};
+
+const SensitivityPanel: React.FC<{ data: DealData }> = ({ data }) => {
+    const [presetIdx, setPresetIdx] = useState(0);
+    const [metric, setMetric] = useState<SensitivityMetric>('irr');
+    const [rowCount, setRowCount] = useState(5);
+    const [colCount, setColCount] = useState(5);
+    const [rowStep, setRowStep] = useState(SENSITIVITY_VARIABLES[SENSITIVITY_PRESETS[0].row].step);
+    const [colStep, setColStep] = useState(SENSITIVITY_VARIABLES[SENSITIVITY_PRESETS[0].col].step);
+
+    const preset = SENSITIVITY_PRESETS[presetIdx];
+    const rowMeta = SENSITIVITY_VARIABLES[preset.row];
+    const colMeta = SENSITIVITY_VARIABLES[preset.col];
+    const metricMeta = SENSITIVITY_METRICS[metric];
+
+    const grid = useMemo(() => {
+        const rowValues = buildAxisValues(preset.row, getBaseValue(data, preset.row), rowStep, rowCount);
+        const colValues = buildAxisValues(preset.col, getBaseValue(data, preset.col), colStep, colCount);
+        return computeSensitivityGrid(data, { variable: preset.row, values: rowValues }, { variable: preset.col, values: colValues }, metric);
+    }, [data, preset, metric, rowCount, colCount, rowStep, colStep]);
+
+    const selectPreset = (idx: number) => {
+        setPresetIdx(idx);
+        setRowStep(SENSITIVITY_VARIABLES[SENSITIVITY_PRESETS[idx].row].step);
+        setColStep(SENSITIVITY_VARIABLES[SENSITIVITY_PRESETS[idx].col].step);
+    };
+
+    const cellColor = (value: number) => {
+        if (metric === 'irr') return value >= 25 ? 'text-emerald-400 bg-emerald-900/10' : value >= 20 ? 'text-yellow-400' : 'text-red-400';
+        if (metric === 'moic') return value >= 3 ? 'text-emerald-400 bg-emerald-900/10' : value >= 2 ? 'text-yellow-400' : 'text-red-400';
+        return value >= grid.baseValue ? 'text-emerald-400 bg-emerald-900/10' : value >= grid.baseValue * 0.9 ? 'text-yellow-400' : 'text-red-400';
+    };
+
+    const formatCell = (value: number) => metric === 'equityValue' ? formatMoney(value, data) : `${metric === 'moic' ? value.toFixed(2) : value.toFixed(1)}${metricMeta.suffix}`;
+    const selectClass = "bg-apex-900 border border-apex-800 rounded px-2 py-1 text-[10px] font-mono text-gray-300 focus:border-apex-accent focus:outline-none";
+
+    return (
+        <div className="bg-apex-900 border border-apex-800 rounded-lg p-4 overflow-x-auto">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div className="flex items-center gap-2">
+                    <TableIcon className="w-4 h-4 text-apex-accent" />
+                    <h3 className="text-xs font-mono text-gray-400 uppercase">Sensitivity Analysis ({metricMeta.label})</h3>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <select value={presetIdx} onChange={(e) => selectPreset(Number(e.target.value))} className={selectClass}>
+                        {SENSITIVITY_PRESETS.map((p, i) => <option key={p.label} value={i}>{p.label}</option>)}
+                    </select>
+                    <select value={metric} onChange={(e) => setMetric(e.target.value as SensitivityMetric)} className={selectClass}>
+                        {(Object.keys(SENSITIVITY_METRICS) as SensitivityMetric[]).map(m => <option key={m} value={m}>{SENSITIVITY_METRICS[m].label}</option>)}
+                    </select>
+                    <GridControl label="Rows" value={rowCount} onChange={setRowCount} min={1} max={15} step={1} />
+                    <GridControl label={`Δ ${rowMeta.suffix}`} value={rowStep} onChange={setRowStep} min={rowMeta.integer ? 1 : 0.1} max={20} step={rowMeta.integer ? 1 : 0.25} />
+                    <GridControl label="Cols" value={colCount} onChange={setColCount} min={1} max={15} step={1} />
+                    <GridControl label={`Δ ${colMeta.suffix}`} value={colStep} onChange={setColStep} min={colMeta.integer ? 1 : 0.1} max={20} step={colMeta.integer ? 1 : 0.25} />
+                </div>
             </div>
-            <table className="w-full text-left text-sm text-gray-400">
-                <thead className="text-xs text-gray-500 uppercase bg-apex-900/50 font-mono">
+
+            <table className="w-full border-collapse text-center">
+                <thead>
                     <tr>
-                        <th className="px-4 py-2 font-medium">Company</th>
-                        <th className="px-4 py-2 font-medium text-right">EV/EBITDA</th>
+                        <th className="w-24 text-[10px] font-mono text-gray-500 bg-apex-800/50 border border-apex-700 p-1 uppercase">
+                            {rowMeta.label} / {colMeta.label}
+                        </th>
+                        {grid.colAxis.values.map((v, i) => (
+                            <th key={i} className="text-xs font-mono text-gray-400 py-1 border border-apex-800 bg-apex-800/30">
+                                {v}{colMeta.suffix}
+                            </th>
+                        ))}
                     </tr>
                 </thead>
                 <tbody>
-                    {data.comparables?.map((comp, i) => (
-                        <tr key={i} className="border-b border-apex-800 hover:bg-apex-800/30">
-                            <td className="px-4 py-2">{comp.name}</td>
-                            <td className="px-4 py-2 text-right font-mono text-apex-accentDim">{comp.multiple}x</td>
+                    {grid.cells.map((row, rowIdx) => (
+                        <tr key={rowIdx}>
+                            <td className="text-xs font-mono text-gray-400 border border-apex-800 bg-apex-800/30">
+                                {grid.rowAxis.values[rowIdx]}{rowMeta.suffix}
+                            </td>
+                            {row.map((value, colIdx) => (
+                                <td
+                                    key={colIdx}
+                                    className={`py-3 text-sm font-mono border border-apex-800 transition-colors hover:bg-white/5 ${cellColor(value)}`}
+                                >
+                                    {formatCell(value)}
+                                </td>
+                            ))}
                         </tr>
                     ))}
                 </tbody>
             </table>
         </div>
+    );
+};
+
+const DISTRIBUTION_KINDS: DistributionKind[] = ['normal', 'triangular', 'uniform'];
+
+const MonteCarloPanel: React.FC<{ data: DealData; hurdleRate: number }> = ({ data, hurdleRate }) => {
+    const [config, setConfig] = useState<MonteCarloConfig>(() => buildDefaultMonteCarloConfig(data, hurdleRate));
+    const [result, setResult] = useState<MonteCarloResult | null>(null);
+    const [progress, setProgress] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [metric, setMetric] = useState<'irr' | 'moic'>('irr');
+    const runRef = useRef<MonteCarloRun | null>(null);
+
+    // A different deal, scenario or hurdle invalidates the last run
+    useEffect(() => {
+        const stale = runRef.current;
+        runRef.current = null;
+        stale?.cancel();
+        setConfig(buildDefaultMonteCarloConfig(data, hurdleRate));
+        setResult(null);
+        setProgress(null);
+        setError(null);
+    }, [data, hurdleRate]);
+
+    useEffect(() => () => runRef.current?.cancel(), []);
+
+    const runSimulation = () => {
+        runRef.current?.cancel();
+        setError(null);
+        setProgress(0);
+        const run = startMonteCarlo(data, config, setProgress);
+        runRef.current = run;
+        run.promise
+            .then(res => { if (runRef.current === run) setResult(res); })
+            .catch(e => { if (runRef.current === run) setError(e instanceof Error ? e.message : String(e)); })
+            .finally(() => { if (runRef.current === run) { setProgress(null); runRef.current = null; } });
+    };
+
+    const updateDistribution = (variable: MonteCarloVariable, updates: Partial<MonteCarloConfig['distributions'][MonteCarloVariable]>) =>
+        setConfig(prev => ({ ...prev, distributions: { ...prev.distributions, [variable]: { ...prev.distributions[variable], ...updates } } }));
+
+    const histogram = result ? (metric === 'irr' ? result.irrHistogram : result.moicHistogram) : [];
+    const threshold = metric === 'irr' ? config.hurdleRate : 1;
+    const chartData = histogram.map(bin => ({
+        label: metric === 'irr' ? `${bin.start.toFixed(0)}%` : `${bin.start.toFixed(1)}x`,
+        count: bin.count,
+        belowHurdle: bin.belowHurdle
+    }));
+    const thresholdBin = histogram.find(bin => threshold >= bin.start && threshold < bin.end);
+    const selectClass = "bg-apex-900 border border-apex-800 rounded px-2 py-1 text-[10px] font-mono text-gray-300 focus:border-apex-accent focus:outline-none";
+
+    return (
+        <div className="bg-apex-900 border border-apex-800 rounded-lg p-4">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div className="flex items-center gap-2">
+                    <BarChart2 className="w-4 h-4 text-apex-accent" />
+                    <h3 className="text-xs font-mono text-gray-400 uppercase">Monte Carlo Returns</h3>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <select value={config.iterations} onChange={(e) => setConfig({ ...config, iterations: Number(e.target.value) })} className={selectClass}>
+                        {MONTE_CARLO_ITERATIONS.map(n => <option key={n} value={n}>{n.toLocaleString()} runs</option>)}
+                    </select>
+                    <GridControl label="Hurdle %" value={config.hurdleRate} onChange={(v) => setConfig({ ...config, hurdleRate: v })} min={0} max={100} step={1} />
+                    <GridControl label="Seed" value={config.seed} onChange={(v) => setConfig({ ...config, seed: Math.round(v) })} min={1} max={99999} step={1} />
+                    <button
+                        onClick={progress === null ? runSimulation : () => { runRef.current?.cancel(); }}
+                        className="px-3 py-1 border border-apex-accent rounded text-[10px] font-mono text-apex-accent hover:bg-apex-accent/10 transition-colors flex items-center gap-1"
+                    >
+                        {progress !== null && <Loader2 className="w-3 h-3 animate-spin" />}
+                        {progress === null ? 'RUN SIMULATION' : `CANCEL ${(progress * 100).toFixed(0)}%`}
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3 mb-4">
+                {(Object.keys(MONTE_CARLO_VARIABLES) as MonteCarloVariable[]).map(variable => {
+                    const meta = MONTE_CARLO_VARIABLES[variable];
+                    const dist = config.distributions[variable];
+                    return (
+                        <div key={variable} className="p-2 bg-apex-800/20 border border-apex-800 rounded space-y-1.5 text-xs">
+                            <div className="flex justify-between items-center">
+                                <span className="text-gray-300">{meta.label}</span>
+                                <select value={dist.kind} onChange={(e) => updateDistribution(variable, { kind: e.target.value as DistributionKind })} className={selectClass}>
+                                    {DISTRIBUTION_KINDS.map(k => <option key={k} value={k}>{k}</option>)}
+                                </select>
+                            </div>
+                            <div className="flex justify-between items-center text-gray-500">
+                                <span>Mean</span>
+                                <AssumptionInput value={dist.mean} suffix={meta.suffix} step={meta.step} allowNegative onCommit={(v) => updateDistribution(variable, { mean: v })} />
+                            </div>
+                            <div className="flex justify-between items-center text-gray-500">
+                                <span>{dist.kind === 'normal' ? 'Std Dev' : '± Range'}</span>
+                                <AssumptionInput value={dist.spread} suffix={meta.suffix} step={meta.step} onCommit={(v) => updateDistribution(variable, { spread: v })} />
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {error && <div className="text-xs text-red-400 font-mono mb-3">{error}</div>}
+
+            {result ? (
+                <div className="space-y-4">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <MetricBox label="Median IRR" value={`${result.bands.find(b => b.percentile === 50)?.irr.toFixed(1)}%`} highlight />
+                        <MetricBox label="Mean IRR / MOIC" value={`${result.meanIrr.toFixed(1)}% / ${result.meanMoic.toFixed(2)}x`} />
+                        <MetricBox label={`P(IRR < ${result.hurdleRate}% Hurdle)`} value={`${(result.probBelowHurdle * 100).toFixed(1)}%`} />
+                        <MetricBox label="P(MOIC < 1.0x)" value={`${(result.probCapitalLoss * 100).toFixed(1)}%`} />
+                    </div>
+
+                    <div className="h-56">
+                        <div className="flex justify-between items-center mb-1">
+                            <span className="text-[10px] font-mono text-gray-500 uppercase">{result.iterations.toLocaleString()} simulated outcomes</span>
+                            <select value={metric} onChange={(e) => setMetric(e.target.value as 'irr' | 'moic')} className={selectClass}>
+                                <option value="irr">IRR</option>
+                                <option value="moic">MOIC</option>
+                            </select>
+                        </div>
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={chartData} margin={{ top: 5, right: 10, bottom: 20, left: 0 }}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+                                <XAxis dataKey="label" stroke="#666" fontSize={9} interval={2} />
+                                <YAxis stroke="#666" fontSize={9} />
+                                <Tooltip
+                                    cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+                                    contentStyle={{ backgroundColor: '#171717', borderColor: '#333' }}
+                                    itemStyle={{ color: '#d4af37' }}
+                                />
+                                {thresholdBin && (
+                                    <ReferenceLine
+                                        x={metric === 'irr' ? `${thresholdBin.start.toFixed(0)}%` : `${thresholdBin.start.toFixed(1)}x`}
+                                        stroke="#ef4444"
+                                        strokeDasharray="4 4"
+                                        label={{ value: metric === 'irr' ? 'Hurdle' : '1.0x', fill: '#ef4444', fontSize: 10, position: 'top' }}
+                                    />
+                                )}
+                                <Bar dataKey="count" radius={[2, 2, 0, 0]}>
+                                    {chartData.map((entry, index) => (
+                                        <Cell key={`mc-${index}`} fill={entry.belowHurdle ? '#7f1d1d' : '#d4af37'} />
+                                    ))}
+                                </Bar>
+                            </BarChart>
+                        </ResponsiveContainer>
+                    </div>
+
+                    <table className="w-full border-collapse text-center mt-6">
+                        <thead>
+                            <tr>
+                                <th className="w-24 text-[10px] font-mono text-gray-500 bg-apex-800/50 border border-apex-700 p-1 uppercase">Percentile</th>
+                                {result.bands.map(b => (
+                                    <th key={b.percentile} className="text-xs font-mono text-gray-400 py-1 border border-apex-800 bg-apex-800/30">P{b.percentile}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            <tr>
+                                <td className="text-xs font-mono text-gray-400 border border-apex-800 bg-apex-800/30">IRR</td>
+                                {result.bands.map(b => (
+                                    <td key={b.percentile} className={`py-2 text-sm font-mono border border-apex-800 ${b.irr >= result.hurdleRate ? 'text-emerald-400' : 'text-red-400'}`}>{b.irr.toFixed(1)}%</td>
+                                ))}
+                            </tr>
+                            <tr>
+                                <td className="text-xs font-mono text-gray-400 border border-apex-800 bg-apex-800/30">MOIC</td>
+                                {result.bands.map(b => (
+                                    <td key={b.percentile} className={`py-2 text-sm font-mono border border-apex-800 ${b.moic >= 1 ? 'text-gray-200' : 'text-red-400'}`}>{b.moic.toFixed(2)}x</td>
+                                ))}
+                            </tr>
+                        </tbody>
+                    </table>
+                </div>
+            ) : (
+                <div className="text-center py-8 text-xs text-gray-600 font-mono">
+                    {progress !== null ? `Simulating... ${(progress * 100).toFixed(0)}%` : 'Set distributions and run the simulation to see the returns distribution.'}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const GridControl: React.FC<{ label: string; value: number; onChange: (v: number) => void; min: number; max: number; step: number }> = ({ label, value, onChange, min, max, step }) => (
+    <label className="flex items-center gap-1 text-[10px] font-mono text-gray-500 uppercase">
+        {label}
+        <input
+            type="number"
+            value={value}
+            min={min}
+            max={max}
+            step={step}
+            onChange={(e) => {
+                const parsed = parseFloat(e.target.value);
+                if (!isNaN(parsed)) onChange(Math.min(max, Math.max(min, parsed)));
+            }}
+            className="w-12 bg-apex-900 border border-apex-800 rounded px-1 py-0.5 text-right text-gray-300 focus:border-apex-accent focus:outline-none"
+        />
+    </label>
+);
+
+const MarketView: React.FC<{
+    data: DealData;
+    fxRates?: FxTable;
+    precedents: PrecedentStore;
+    onPrecedentsChange: (store: PrecedentStore) => void;
+    onUpdate?: (updates: Partial<DealData>) => void;
+}> = ({ data, fxRates, precedents, onPrecedentsChange, onUpdate }) => {
+    const [importError, setImportError] = useState<string | null>(null);
+    const [datasetAsOf, setDatasetAsOf] = useState(() => loadCompsDataset().asOf);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const comps = data.comps;
+
+    const rescreen = (dataset: CompsDataset = loadCompsDataset()) => onUpdate?.(applyComps(buildCompsAnalysis(data, dataset, resolveFxTable(fxRates))));
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const dataset = parseCompsWorkbook(await file.arrayBuffer(), file.name);
+            saveCompsDataset(dataset);
+            setDatasetAsOf(dataset.asOf);
+            setImportError(null);
+            rescreen(dataset);
+        } catch (err) {
+            setImportError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const resetDataset = () => {
+        saveCompsDataset(null);
+        const dataset = getBundledDataset();
+        setDatasetAsOf(dataset.asOf);
+        rescreen(dataset);
+    };
+
+    const fmtMultiple = (value: number) => isFinite(value) ? `${value.toFixed(1)}x` : 'n/m';
+    const statRows: { label: string; key: keyof CompsStats }[] = [
+        { label: 'Mean', key: 'mean' },
+        { label: 'Median', key: 'median' },
+        { label: '25th Percentile', key: 'p25' },
+        { label: '75th Percentile', key: 'p75' }
+    ];
+
+    return (
+    <div className="space-y-6 animate-fade-in">
+        <div className="bg-apex-800/30 border border-apex-700 rounded-lg overflow-hidden">
+            <div className="p-3 bg-apex-800/50 border-b border-apex-700 flex flex-wrap justify-between items-center gap-2">
+                <div>
+                    <h3 className="text-xs font-mono text-gray-400 uppercase">Public Comps Set</h3>
+                    <div className="text-[10px] text-gray-600 font-mono mt-0.5">Dataset: {comps?.datasetAsOf || datasetAsOf}</div>
+                </div>
+                {onUpdate && (
+                    <div className="flex items-center gap-2">
+                        <input ref={fileInputRef} type="file" accept=".csv,.xlsx,.xls" className="hidden" onChange={handleImport} />
+                        <button onClick={() => fileInputRef.current?.click()} className="text-[10px] font-mono text-gray-400 hover:text-white border border-apex-700 px-2 py-1 rounded flex items-center gap-1">
+                            <Upload className="w-3 h-3" /> IMPORT DATASET
+                        </button>
+                        {datasetAsOf !== getBundledDataset().asOf && (
+                            <button onClick={resetDataset} className="text-[10px] font-mono text-gray-400 hover:text-white border border-apex-700 px-2 py-1 rounded">
+                                USE BUNDLED
+                            </button>
+                        )}
+                        <button onClick={() => rescreen()} className="text-[10px] font-mono text-apex-accent hover:text-white border border-apex-accent/50 px-2 py-1 rounded flex items-center gap-1">
+                            <Filter className="w-3 h-3" /> {comps ? 'RE-SCREEN' : 'SPREAD COMPS'}
+                        </button>
+                    </div>
+                )}
+            </div>
+            {importError && (
+                <div className="px-3 py-2 text-xs text-red-400 bg-red-900/10 border-b border-red-900/40 flex items-center gap-2">
+                    <AlertTriangle className="w-3 h-3" /> {importError}
+                </div>
+            )}
+            {comps ? (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-xs text-gray-400">
+                        <thead className="text-[10px] text-gray-500 uppercase bg-apex-900/50 font-mono">
+                            <tr>
+                                <th className="px-3 py-2 font-medium w-8"></th>
+                                <th className="px-3 py-2 font-medium">Company</th>
+                                <th className="px-3 py-2 font-medium">Sector</th>
+                                <th className="px-3 py-2 font-medium text-right">EV ($M)</th>
+                                <th className="px-3 py-2 font-medium text-right">Revenue</th>
+                                <th className="px-3 py-2 font-medium text-right">EBITDA</th>
+                                <th className="px-3 py-2 font-medium text-right">Growth</th>
+                                <th className="px-3 py-2 font-medium text-right">Margin</th>
+                                <th className="px-3 py-2 font-medium text-right">EV/Rev</th>
+                                <th className="px-3 py-2 font-medium text-right">EV/EBITDA</th>
+                                <th className="px-3 py-2 font-medium text-right">Fit</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {comps.peers.map((peer, i) => (
+                                <tr key={`${i}-${peer.ticker || peer.name}`} className={`border-b border-apex-800 hover:bg-apex-800/30 ${peer.included ? '' : 'opacity-40'}`}>
+                                    <td className="px-3 py-2">
+                                        <input
+                                            type="checkbox"
+                                            checked={peer.included}
+                                            disabled={!onUpdate}
+                                            onChange={(e) => onUpdate?.(applyComps(setPeerIncluded(comps, i, e.target.checked)))}
+                                            className="accent-[#d4af37]"
+                                        />
+                                    </td>
+                                    <td className="px-3 py-2">
+                                        <span className="font-mono text-gray-500 mr-2">{peer.ticker}</span>
+                                        <span className="text-gray-300">{peer.name}</span>
+                                    </td>
+                                    <td className="px-3 py-2 text-gray-500">{peer.sector}</td>
+                                    <td className="px-3 py-2 text-right font-mono">{peer.enterpriseValue.toLocaleString()}</td>
+                                    <td className="px-3 py-2 text-right font-mono">{peer.revenue.toLocaleString()}</td>
+                                    <td className="px-3 py-2 text-right font-mono">{peer.ebitda.toLocaleString()}</td>
+                                    <td className="px-3 py-2 text-right font-mono">{peer.revenueGrowth.toFixed(1)}%</td>
+                                    <td className="px-3 py-2 text-right font-mono">{peer.ebitdaMargin.toFixed(1)}%</td>
+                                    <td className="px-3 py-2 text-right font-mono">{fmtMultiple(evRevenueOf(peer))}</td>
+                                    <td className="px-3 py-2 text-right font-mono text-apex-accentDim">{fmtMultiple(evEbitdaOf(peer))}</td>
+                                    <td className="px-3 py-2 text-right font-mono text-gray-500">{Math.round(peer.similarity * 100)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                        <tfoot className="font-mono">
+                            {statRows.map(row => (
+                                <tr key={row.key} className="border-b border-apex-800/50 bg-apex-900/40">
+                                    <td className="px-3 py-1.5" colSpan={8}><span className="text-[10px] uppercase text-gray-500">{row.label}</span></td>
+                                    <td className="px-3 py-1.5 text-right text-gray-300">{fmtMultiple(comps.evRevenue[row.key])}</td>
+                                    <td className="px-3 py-1.5 text-right text-apex-accent">{fmtMultiple(comps.evEbitda[row.key])}</td>
+                                    <td></td>
+                                </tr>
+                            ))}
+                            <tr className="bg-apex-900/40">
+                                <td className="px-3 py-1.5 text-[10px] uppercase text-gray-600" colSpan={11}>
+                                    {comps.evEbitda.count} of {comps.peers.length} peers included · range {fmtMultiple(comps.evEbitda.min)} – {fmtMultiple(comps.evEbitda.max)} EV/EBITDA
+                                </td>
+                            </tr>
+                        </tfoot>
+                    </table>
+                </div>
+            ) : (
+                <table className="w-full text-left text-sm text-gray-400">
+                    <thead className="text-xs text-gray-500 uppercase bg-apex-900/50 font-mono">
+                        <tr>
+                            <th className="px-4 py-2 font-medium">Company</th>
+                            <th className="px-4 py-2 font-medium text-right">EV/EBITDA</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {data.comparables?.map((comp, i) => (
+                            <tr key={i} className="border-b border-apex-800 hover:bg-apex-800/30">
+                                <td className="px-4 py-2">{comp.name}</td>
+                                <td className="px-4 py-2 text-right font-mono text-apex-accentDim">{comp.multiple}x</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+
+        <PrecedentsPanel data={data} store={precedents} onStoreChange={onPrecedentsChange} onUpdate={onUpdate} />
 
         <div className="grid grid-cols-1 gap-4">
              <h3 className="text-xs font-mono text-gray-400 uppercase">Research Sources</h3>
@@ -960,7 +2335,162 @@ const MarketView: React.FC<{ data: DealData }> = ({ data }) => (
              )}
         </div>
     </div>
-);
+    );
+};
+
+const PrecedentsPanel: React.FC<{
+    data: DealData;
+    store: PrecedentStore;
+    onStoreChange: (store: PrecedentStore) => void;
+    onUpdate?: (updates: Partial<DealData>) => void;
+}> = ({ data, store, onStoreChange, onUpdate }) => {
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const filter = useMemo(() => resolvePrecedentFilter(data), [data.sector, data.precedentFilter]);
+    const transactions = useMemo(() => filterPrecedents(store.transactions, filter), [store, filter]);
+    const stats = useMemo(() => computePrecedentStats(transactions), [transactions]);
+    const sectors = useMemo(
+        () => Array.from(new Set([...store.transactions.map(t => t.sector), ...(filter.sector ? [filter.sector] : [])])).sort(),
+        [store, filter.sector]
+    );
+    const isBundled = store.asOf === getBundledPrecedents().asOf;
+
+    const setFilter = (updates: Partial<PrecedentFilter>) => onUpdate?.({ precedentFilter: { ...filter, ...updates } });
+    const toggleDealType = (type: PrecedentDealType) => setFilter({
+        dealTypes: filter.dealTypes.includes(type) ? filter.dealTypes.filter(t => t !== type) : [...filter.dealTypes, type]
+    });
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parsePrecedentWorkbook(await file.arrayBuffer(), file.name);
+            savePrecedents(imported);
+            onStoreChange(imported);
+            setImportError(null);
+        } catch (err) {
+            setImportError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const resetStore = () => {
+        savePrecedents(null);
+        onStoreChange(getBundledPrecedents());
+    };
+
+    const fmtStat = (value: number, count: number, suffix: string) => count > 0 ? `${value.toFixed(1)}${suffix}` : 'n/a';
+
+    return (
+        <div className="bg-apex-800/30 border border-apex-700 rounded-lg overflow-hidden">
+            <div className="p-3 bg-apex-800/50 border-b border-apex-700 flex flex-wrap justify-between items-center gap-2">
+                <div>
+                    <h3 className="text-xs font-mono text-gray-400 uppercase">Precedent Transactions</h3>
+                    <div className="text-[10px] text-gray-600 font-mono mt-0.5">Dataset: {store.asOf} · {store.transactions.length} deals</div>
+                </div>
+                <div className="flex items-center gap-2">
+                    <input ref={fileInputRef} type="file" accept=".csv,.xlsx,.xls" className="hidden" onChange={handleImport} />
+                    <button onClick={() => fileInputRef.current?.click()} className="text-[10px] font-mono text-gray-400 hover:text-white border border-apex-700 px-2 py-1 rounded flex items-center gap-1">
+                        <Upload className="w-3 h-3" /> IMPORT DEALS
+                    </button>
+                    {!isBundled && (
+                        <button onClick={resetStore} className="text-[10px] font-mono text-gray-400 hover:text-white border border-apex-700 px-2 py-1 rounded">
+                            USE BUNDLED
+                        </button>
+                    )}
+                </div>
+            </div>
+            {importError && (
+                <div className="px-3 py-2 text-xs text-red-400 bg-red-900/10 border-b border-red-900/40 flex items-center gap-2">
+                    <AlertTriangle className="w-3 h-3" /> {importError}
+                </div>
+            )}
+
+            <div className="p-3 border-b border-apex-800 flex flex-wrap items-center gap-4 text-[10px] font-mono text-gray-400">
+                <label className="flex items-center gap-2">
+                    SECTOR
+                    <select
+                        value={filter.sector}
+                        disabled={!onUpdate}
+                        onChange={(e) => setFilter({ sector: e.target.value })}
+                        className="bg-apex-900 border border-apex-800 rounded px-1 py-0.5 text-gray-300 focus:border-apex-accent focus:outline-none"
+                    >
+                        <option value="">All sectors</option>
+                        {sectors.map(sector => <option key={sector} value={sector}>{sector}</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center gap-2">
+                    LOOK-BACK
+                    <select
+                        value={filter.years}
+                        disabled={!onUpdate}
+                        onChange={(e) => setFilter({ years: parseInt(e.target.value, 10) })}
+                        className="bg-apex-900 border border-apex-800 rounded px-1 py-0.5 text-gray-300 focus:border-apex-accent focus:outline-none"
+                    >
+                        {PRECEDENT_LOOKBACK_YEARS.map(years => <option key={years} value={years}>{years > 0 ? `${years} years` : 'All dates'}</option>)}
+                    </select>
+                </label>
+                <div className="flex items-center gap-1">
+                    {PRECEDENT_DEAL_TYPES.map(type => {
+                        const active = filter.dealTypes.length === 0 || filter.dealTypes.includes(type);
+                        return (
+                            <button
+                                key={type}
+                                disabled={!onUpdate}
+                                onClick={() => toggleDealType(type)}
+                                className={`px-2 py-0.5 rounded border ${active ? 'border-apex-accent/60 text-apex-accent' : 'border-apex-800 text-gray-600'}`}
+                            >
+                                {type}
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 p-3 border-b border-apex-800">
+                <MetricBox label="Median EV/EBITDA" value={fmtStat(stats.evEbitda.median, stats.evEbitda.count, 'x')} highlight />
+                <MetricBox label="EV/EBITDA IQR" value={stats.evEbitda.count > 0 ? `${stats.evEbitda.p25.toFixed(1)}x - ${stats.evEbitda.p75.toFixed(1)}x` : 'n/a'} />
+                <MetricBox label={`Median Control Premium (n=${stats.controlPremium.count})`} value={fmtStat(stats.controlPremium.median, stats.controlPremium.count, '%')} />
+                <MetricBox label="Premium IQR" value={stats.controlPremium.count > 0 ? `${stats.controlPremium.p25.toFixed(0)}% - ${stats.controlPremium.p75.toFixed(0)}%` : 'n/a'} />
+            </div>
+
+            <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                <table className="w-full text-left text-xs text-gray-400">
+                    <thead className="text-[10px] text-gray-500 uppercase bg-apex-900/50 font-mono sticky top-0">
+                        <tr>
+                            <th className="px-3 py-2 font-medium">Date</th>
+                            <th className="px-3 py-2 font-medium">Target</th>
+                            <th className="px-3 py-2 font-medium">Acquirer</th>
+                            <th className="px-3 py-2 font-medium">Sector</th>
+                            <th className="px-3 py-2 font-medium">Type</th>
+                            <th className="px-3 py-2 font-medium text-right">EV ($M)</th>
+                            <th className="px-3 py-2 font-medium text-right">EV/EBITDA</th>
+                            <th className="px-3 py-2 font-medium text-right">Premium</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {transactions.map(t => (
+                            <tr key={t.id} className="border-b border-apex-800 hover:bg-apex-800/30">
+                                <td className="px-3 py-2 font-mono text-gray-500">{t.date}</td>
+                                <td className="px-3 py-2 text-gray-300">{t.target}</td>
+                                <td className="px-3 py-2">{t.acquirer}</td>
+                                <td className="px-3 py-2 text-gray-500">{t.sector}</td>
+                                <td className="px-3 py-2">{t.dealType}</td>
+                                <td className="px-3 py-2 text-right font-mono">{t.enterpriseValue ? t.enterpriseValue.toLocaleString() : '-'}</td>
+                                <td className="px-3 py-2 text-right font-mono text-apex-accentDim">{t.evEbitda.toFixed(1)}x</td>
+                                <td className="px-3 py-2 text-right font-mono">{typeof t.controlPremium === 'number' ? `${t.controlPremium.toFixed(0)}%` : '-'}</td>
+                            </tr>
+                        ))}
+                        {transactions.length === 0 && (
+                            <tr><td colSpan={8} className="px-3 py-6 text-center text-gray-600">No precedents match the current filter.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
 
 const MetricBox: React.FC<{ label: string; value: string; highlight?: boolean }> = ({ label, value, highlight }) => (
     <div className={`p-3 rounded border ${highlight ? 'bg-apex-accent/10 border-apex-accent' : 'bg-apex-800/40 border-apex-700'}`}>
@@ -1,7 +1,35 @@
 
 import React, { useState } from 'react';
-import { FirmProfile } from '../types';
-import { Save, Building, DollarSign, Globe, Target, MapPin, FileText } from 'lucide-react';
+import { CurrencyCode, FirmProfile, FundTerms, FxRate, FxTable, LLMProviderId, LLMSettings, ModelPrice, ModelTier, SpendBudget } from '../types';
+import { Save, Building, DollarSign, Globe, Target, MapPin, FileText, Percent, Repeat, X, Cpu, Coins } from 'lucide-react';
+import { resolveFundTerms } from '../services/waterfallEngine';
+import { CURRENCIES, DEFAULT_CURRENCY, resolveFxTable } from '../services/fxEngine';
+import { LLM_PROVIDERS, resolveLLMSettings } from '../services/llmProvider';
+import { GEMINI_MODELS } from '../services/geminiProvider';
+import { OPENAI_MODELS } from '../services/openAIProvider';
+import { DEFAULT_MODEL_PRICES } from '../services/usageMeter';
+
+const DEFAULT_MODELS: Record<LLMProviderId, Record<ModelTier, string> | null> = {
+  gemini: GEMINI_MODELS,
+  openai: OPENAI_MODELS,
+  mock: null
+};
+
+const BUDGET_ACTIONS: Record<string, SpendBudget['action']> = {
+  'Warn and continue': 'warn',
+  'Halt the pipeline': 'halt'
+};
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'input', label: '$/1M in' },
+  { key: 'output', label: '$/1M out' },
+  { key: 'image', label: '$/image' }
+];
+
+const WATERFALL_OPTIONS: Record<string, FundTerms['waterfall']> = {
+  'European (whole fund)': 'european',
+  'American (deal by deal)': 'american'
+};
 
 interface FirmProfileProps {
   profile: FirmProfile;
@@ -24,6 +52,37 @@ export const FirmProfileEditor: React.FC<FirmProfileProps> = ({ profile, onSave
     setIsSaved(false);
   };
 
+  // Blank inputs stay blank while editing; the waterfall engine falls back to defaults
+  const terms = formData.fundTerms || resolveFundTerms();
+  const handleTermsChange = (field: keyof FundTerms, value: any) => {
+    handleChange('fundTerms', { ...terms, [field]: value });
+  };
+
+  const fx = formData.fxRates || resolveFxTable();
+  const handleFxChange = (updates: Partial<FxTable>) => {
+    handleChange('fxRates', { ...fx, ...updates });
+  };
+  const updateHistoric = (index: number, updates: Partial<FxRate>) => {
+    handleFxChange({ historic: fx.historic.map((r, i) => i === index ? { ...r, ...updates } : r) });
+  };
+
+  const llm = formData.llm || resolveLLMSettings();
+  const handleLLMChange = (updates: Partial<LLMSettings>) => {
+    handleChange('llm', { ...llm, ...updates });
+  };
+  const defaultModels = DEFAULT_MODELS[llm.provider];
+
+  const [newModel, setNewModel] = useState('');
+  const prices = { ...DEFAULT_MODEL_PRICES, ...formData.modelPrices };
+  const handlePriceChange = (model: string, updates: Partial<ModelPrice>) => {
+    handleChange('modelPrices', { ...formData.modelPrices, [model]: { ...prices[model], ...updates } });
+  };
+  const removePrice = (model: string) => {
+    const { [model]: _, ...rest } = formData.modelPrices || {};
+    handleChange('modelPrices', rest);
+  };
+  const budget: SpendBudget = formData.spendBudget || { dealCap: 0, action: 'warn' };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onSave(formData);
@@ -113,6 +172,242 @@ export const FirmProfileEditor: React.FC<FirmProfileProps> = ({ profile, onSave
                     options={['Profitable', 'Path to Profitability', 'Growth at all costs']}
                 />
              </div>
+             <NumberInput 
+                label="Hurdle IRR (%)" 
+                value={formData.hurdleRate} 
+                onChange={(v) => handleChange('hurdleRate', v)} 
+                placeholder="e.g. 20"
+             />
+         </Section>
+
+         {/* Fund Economics */}
+         <Section title="Fund Economics" icon={<Percent className="w-4 h-4" />}>
+             <Select 
+                label="Distribution Waterfall" 
+                value={Object.keys(WATERFALL_OPTIONS).find(k => WATERFALL_OPTIONS[k] === terms.waterfall) || ''} 
+                onChange={(v) => handleTermsChange('waterfall', WATERFALL_OPTIONS[v])} 
+                options={Object.keys(WATERFALL_OPTIONS)}
+             />
+             <div className="grid grid-cols-2 gap-4">
+                <NumberInput 
+                    label="Preferred Return (%)" 
+                    value={terms.preferredReturn} 
+                    onChange={(v) => handleTermsChange('preferredReturn', v)} 
+                    placeholder="e.g. 8"
+                />
+                <NumberInput 
+                    label="GP Catch-Up (%)" 
+                    value={terms.catchUp} 
+                    onChange={(v) => handleTermsChange('catchUp', v)} 
+                    placeholder="e.g. 100"
+                />
+                <NumberInput 
+                    label="Carried Interest (%)" 
+                    value={terms.carry} 
+                    onChange={(v) => handleTermsChange('carry', v)} 
+                    placeholder="e.g. 20"
+                />
+                <NumberInput 
+                    label="Management Fee (%)" 
+                    value={terms.managementFee} 
+                    onChange={(v) => handleTermsChange('managementFee', v)} 
+                    placeholder="e.g. 2"
+                />
+             </div>
+             <div className="grid grid-cols-2 gap-4">
+                <NumberInput 
+                    label="Follow-On Reserve (% of check)" 
+                    value={formData.reserveRatio} 
+                    onChange={(v) => handleChange('reserveRatio', v)} 
+                    placeholder="e.g. 30"
+                />
+                <NumberInput 
+                    label="Investment Period (yrs)" 
+                    value={formData.investmentPeriod} 
+                    onChange={(v) => handleChange('investmentPeriod', v)} 
+                    placeholder="e.g. 5"
+                />
+             </div>
+         </Section>
+
+         {/* Currency & FX */}
+         <Section title="Currency & FX" icon={<Repeat className="w-4 h-4" />}>
+             <Select 
+                label="Reporting Currency (fund size and check sizes are quoted in it)" 
+                value={formData.reportingCurrency || DEFAULT_CURRENCY} 
+                onChange={(v) => handleChange('reportingCurrency', v as CurrencyCode)} 
+                options={CURRENCIES}
+             />
+             <div className="space-y-1">
+                <label className="text-xs font-mono text-gray-500 uppercase">Spot Rates (USD per unit)</label>
+                <div className="grid grid-cols-3 md:grid-cols-5 gap-2">
+                    {CURRENCIES.filter(c => c !== 'USD').map(c => (
+                        <div key={c} className="flex items-center gap-1">
+                            <span className="text-[10px] font-mono text-gray-500 w-8">{c}</span>
+                            <input 
+                                type="number" 
+                                step="0.0001"
+                                value={fx.spot[c] ?? ''} 
+                                onChange={(e) => handleFxChange({ spot: { ...fx.spot, [c]: e.target.value === '' ? undefined : parseFloat(e.target.value) } })} 
+                                className="w-full bg-apex-900 border border-apex-800 rounded p-1.5 text-xs font-mono text-gray-200 focus:border-apex-accent focus:outline-none transition-colors"
+                            />
+                        </div>
+                    ))}
+                </div>
+             </div>
+             <div className="space-y-1">
+                <div className="flex justify-between items-center">
+                    <label className="text-xs font-mono text-gray-500 uppercase">Historic Rates (LTM figures and cost bases convert at the rate in effect on their date)</label>
+                    <button 
+                        type="button"
+                        onClick={() => handleFxChange({ historic: [...fx.historic, { currency: 'EUR', date: new Date().toISOString().slice(0, 10), rate: fx.spot.EUR || 1 }] })}
+                        className="text-[10px] font-mono text-apex-accent border border-apex-700 hover:border-apex-accent px-2 py-0.5 rounded transition-colors"
+                    >
+                        + RATE
+                    </button>
+                </div>
+                <div className="space-y-1 max-h-48 overflow-y-auto scrollbar-thin">
+                    {fx.historic.map((r, i) => (
+                        <div key={i} className="flex items-center gap-2">
+                            <select 
+                                value={r.currency} 
+                                onChange={(e) => updateHistoric(i, { currency: e.target.value as CurrencyCode })}
+                                className="bg-apex-900 border border-apex-800 rounded p-1.5 text-xs font-mono text-gray-200 focus:border-apex-accent focus:outline-none"
+                            >
+                                {CURRENCIES.filter(c => c !== 'USD').map(c => <option key={c} value={c}>{c}</option>)}
+                            </select>
+                            <input 
+                                type="date" 
+                                value={r.date} 
+                                onChange={(e) => updateHistoric(i, { date: e.target.value })}
+                                className="bg-apex-900 border border-apex-800 rounded p-1.5 text-xs font-mono text-gray-200 focus:border-apex-accent focus:outline-none"
+                            />
+                            <input 
+                                type="number" 
+                                step="0.0001"
+                                value={isFinite(r.rate) ? r.rate : ''} 
+                                onChange={(e) => updateHistoric(i, { rate: parseFloat(e.target.value) })}
+                                className="w-28 bg-apex-900 border border-apex-800 rounded p-1.5 text-xs font-mono text-gray-200 focus:border-apex-accent focus:outline-none"
+                            />
+                            <button type="button" onClick={() => handleFxChange({ historic: fx.historic.filter((_, j) => j !== i) })} className="text-gray-600 hover:text-red-400 transition-colors" title="Remove rate">
+                                <X className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+             </div>
+         </Section>
+
+         {/* Model Provider */}
+         <Section title="Model Provider" icon={<Cpu className="w-4 h-4" />}>
+             <div className="space-y-1">
+                <label className="text-xs font-mono text-gray-500 uppercase">Provider (every agent runs on it)</label>
+                <select 
+                    value={llm.provider}
+                    onChange={(e) => handleLLMChange({ provider: e.target.value as LLMProviderId, models: {} })}
+                    className="w-full bg-apex-900 border border-apex-800 rounded p-2 text-sm text-gray-200 focus:border-apex-accent focus:outline-none transition-colors"
+                >
+                    {(Object.keys(LLM_PROVIDERS) as LLMProviderId[]).map(id => <option key={id} value={id}>{LLM_PROVIDERS[id]}</option>)}
+                </select>
+             </div>
+             {llm.provider === 'openai' && (
+                <Input 
+                    label="Base URL (OpenAI, a proxy or a local server)" 
+                    value={llm.baseUrl || ''} 
+                    onChange={(v) => handleLLMChange({ baseUrl: v || undefined })} 
+                    placeholder="https://api.openai.com/v1 or http://localhost:11434/v1"
+                />
+             )}
+             {llm.provider !== 'mock' && (
+                <div className="space-y-1">
+                    <label className="text-xs font-mono text-gray-500 uppercase">API Key (blank uses the key from the environment; stored in this browser)</label>
+                    <input 
+                        type="password" 
+                        value={llm.apiKey || ''} 
+                        onChange={(e) => handleLLMChange({ apiKey: e.target.value || undefined })} 
+                        className="w-full bg-apex-900 border border-apex-800 rounded p-2 text-sm text-gray-200 focus:border-apex-accent focus:outline-none transition-colors"
+                    />
+                </div>
+             )}
+             {defaultModels ? (
+                <div className="grid grid-cols-3 gap-4">
+                    {(['reasoning', 'fast', 'image'] as ModelTier[]).map(tier => (
+                        <Input 
+                            key={tier}
+                            label={`${tier} model`} 
+                            value={llm.models?.[tier] || ''} 
+                            onChange={(v) => handleLLMChange({ models: { ...llm.models, [tier]: v || undefined } })} 
+                            placeholder={defaultModels[tier]}
+                        />
+                    ))}
+                </div>
+             ) : (
+                <p className="text-[10px] font-mono text-gray-500">
+                    No network calls: answers are generated from each agent's output schema, seeded by the prompt, so the same request always returns the same deal. For demos and tests.
+                </p>
+             )}
+         </Section>
+
+         {/* Spend Controls */}
+         <Section title="Spend Controls" icon={<Coins className="w-4 h-4" />}>
+             <div className="grid grid-cols-2 gap-4">
+                <NumberInput 
+                    label="Spend Cap per Deal (USD)" 
+                    value={formData.spendBudget?.dealCap} 
+                    onChange={(v) => handleChange('spendBudget', v ? { ...budget, dealCap: v } : undefined)} 
+                    placeholder="No cap"
+                />
+                <Select 
+                    label="When a Deal Passes It" 
+                    value={Object.keys(BUDGET_ACTIONS).find(k => BUDGET_ACTIONS[k] === budget.action) || ''} 
+                    onChange={(v) => handleChange('spendBudget', { ...budget, action: BUDGET_ACTIONS[v] })} 
+                    options={Object.keys(BUDGET_ACTIONS)}
+                />
+             </div>
+             <div className="space-y-1">
+                <label className="text-xs font-mono text-gray-500 uppercase">Model Prices (USD; thinking tokens bill as output, unlisted models as free)</label>
+                <div className="space-y-1 max-h-56 overflow-y-auto scrollbar-thin">
+                    {Object.keys(prices).map(model => (
+                        <div key={model} className="flex items-center gap-2">
+                            <span className="flex-1 min-w-0 truncate text-[10px] font-mono text-gray-400" title={model}>{model}</span>
+                            {PRICE_FIELDS.map(field => (
+                                <input 
+                                    key={field.key}
+                                    type="number" 
+                                    step="0.001"
+                                    title={field.label}
+                                    placeholder={field.label}
+                                    value={isFinite(prices[model][field.key]) ? prices[model][field.key] : ''} 
+                                    onChange={(e) => handlePriceChange(model, { [field.key]: e.target.value === '' ? 0 : parseFloat(e.target.value) })} 
+                                    className="w-20 bg-apex-900 border border-apex-800 rounded p-1.5 text-xs font-mono text-gray-200 focus:border-apex-accent focus:outline-none transition-colors"
+                                />
+                            ))}
+                            {formData.modelPrices?.[model] ? (
+                                <button type="button" onClick={() => removePrice(model)} className="text-gray-600 hover:text-red-400 transition-colors" title={DEFAULT_MODEL_PRICES[model] ? 'Reset to list price' : 'Remove model'}>
+                                    <X className="w-3.5 h-3.5" />
+                                </button>
+                            ) : <span className="w-3.5" />}
+                        </div>
+                    ))}
+                </div>
+                <div className="flex items-center gap-2 pt-1">
+                    <input 
+                        type="text" 
+                        value={newModel} 
+                        onChange={(e) => setNewModel(e.target.value)} 
+                        placeholder="Model name, e.g. llama3.1:70b"
+                        className="flex-1 bg-apex-900 border border-apex-800 rounded p-1.5 text-xs font-mono text-gray-200 focus:border-apex-accent focus:outline-none transition-colors"
+                    />
+                    <button 
+                        type="button"
+                        disabled={!newModel.trim() || !!prices[newModel.trim()]}
+                        onClick={() => { handlePriceChange(newModel.trim(), { input: 0, output: 0, image: 0 }); setNewModel(''); }}
+                        className="text-[10px] font-mono text-apex-accent border border-apex-700 hover:border-apex-accent disabled:opacity-30 px-2 py-0.5 rounded transition-colors"
+                    >
+                        + MODEL
+                    </button>
+                </div>
+             </div>
          </Section>
 
          {/* Strategic Focus */}
@@ -179,6 +474,19 @@ const Input: React.FC<{ label: string; value: string; onChange: (val: string) =>
     </div>
 );
 
+const NumberInput: React.FC<{ label: string; value?: number; onChange: (val: number | undefined) => void; placeholder?: string }> = ({ label, value, onChange, placeholder }) => (
+    <div className="space-y-1">
+        <label className="text-xs font-mono text-gray-500 uppercase">{label}</label>
+        <input 
+            type="number" 
+            value={value ?? ''} 
+            onChange={(e) => onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))} 
+            placeholder={placeholder}
+            className="w-full bg-apex-900 border border-apex-800 rounded p-2 text-sm text-gray-200 focus:border-apex-accent focus:outline-none transition-colors"
+        />
+    </div>
+);
+
 const Select: React.FC<{ label: string; value: string; onChange: (val: string) => void; options: string[] }> = ({ label, value, onChange, options }) => (
     <div className="space-y-1">
         <label className="text-xs font-mono text-gray-500 uppercase">{label}</label>
@@ -0,0 +1,120 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CurrencyCode, FundTerms, PortfolioCompany } from '../types';
+import { AlertTriangle, LineChart, Upload } from 'lucide-react';
+import { IndexSeries, computePortfolioFundMetrics, loadIndexSeries, parseIndexWorkbook, saveIndexSeries } from '../services/fundMetricsEngine';
+import { formatMoney, moneyUnit } from '../services/fxEngine';
+
+interface FundPerformancePanelProps {
+    portfolio: PortfolioCompany[];
+    terms: FundTerms;
+    currency?: CurrencyCode;
+}
+
+export const FundPerformancePanel: React.FC<FundPerformancePanelProps> = ({ portfolio, terms, currency }) => {
+    const [index, setIndex] = useState<IndexSeries | null>(() => loadIndexSeries());
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const funds = useMemo(() => computePortfolioFundMetrics(portfolio, terms, index), [portfolio, terms, index]);
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parseIndexWorkbook(await file.arrayBuffer(), file.name);
+            saveIndexSeries(imported);
+            setIndex(imported);
+            setImportError(null);
+        } catch (err) {
+            setImportError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const clearIndex = () => {
+        saveIndexSeries(null);
+        setIndex(null);
+    };
+
+    const fmtPct = (value: number | null) => value !== null ? `${value.toFixed(1)}%` : '-';
+    const fmtX = (value: number) => `${value.toFixed(2)}x`;
+    const unit = moneyUnit({ currency });
+
+    return (
+        <div className="bg-apex-800/30 border border-apex-800 rounded-xl overflow-hidden">
+            <div className="p-4 border-b border-apex-800 bg-apex-900/50 flex flex-wrap justify-between items-center gap-2">
+                <div>
+                    <h3 className="text-xs font-mono text-gray-400 uppercase flex items-center gap-2">
+                        <LineChart className="w-4 h-4 text-apex-accent" /> Fund Performance
+                    </h3>
+                    <div className="text-[10px] text-gray-600 font-mono mt-0.5">
+                        Net of {terms.managementFee}% fee and {terms.carry}% carry · PME vs {index ? `${index.name} (${index.points[0].date} – ${index.points[index.points.length - 1].date})` : 'no index loaded'}
+                    </div>
+                </div>
+                <div className="flex items-center gap-2">
+                    <input ref={fileInputRef} type="file" accept=".csv,.xlsx,.xls" className="hidden" onChange={handleImport} />
+                    <button onClick={() => fileInputRef.current?.click()} className="text-[10px] font-mono text-gray-400 hover:text-white border border-apex-700 px-2 py-1 rounded flex items-center gap-1">
+                        <Upload className="w-3 h-3" /> IMPORT INDEX
+                    </button>
+                    {index && (
+                        <button onClick={clearIndex} className="text-[10px] font-mono text-gray-400 hover:text-white border border-apex-700 px-2 py-1 rounded">
+                            CLEAR INDEX
+                        </button>
+                    )}
+                </div>
+            </div>
+            {importError && (
+                <div className="px-4 py-2 text-xs text-red-400 bg-red-900/10 border-b border-red-900/40 flex items-center gap-2">
+                    <AlertTriangle className="w-3 h-3" /> {importError}
+                </div>
+            )}
+
+            {funds.length === 0 ? (
+                <p className="p-4 text-xs text-gray-500 font-mono">
+                    Ingest holdings with dated capital calls and distributions (or cost and entry date) to compute fund returns.
+                </p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-xs text-gray-400 whitespace-nowrap">
+                        <thead className="text-[10px] text-gray-500 uppercase bg-apex-900 font-mono">
+                            <tr>
+                                <th className="px-4 py-2 font-medium">Fund</th>
+                                <th className="px-4 py-2 font-medium text-right">Paid-In ({unit})</th>
+                                <th className="px-4 py-2 font-medium text-right">Distributed ({unit})</th>
+                                <th className="px-4 py-2 font-medium text-right">NAV ({unit})</th>
+                                <th className="px-4 py-2 font-medium text-right">Gross IRR</th>
+                                <th className="px-4 py-2 font-medium text-right">Net IRR</th>
+                                <th className="px-4 py-2 font-medium text-right">Gross TVPI</th>
+                                <th className="px-4 py-2 font-medium text-right">Net TVPI</th>
+                                <th className="px-4 py-2 font-medium text-right">DPI</th>
+                                <th className="px-4 py-2 font-medium text-right">RVPI</th>
+                                <th className="px-4 py-2 font-medium text-right" title="Kaplan-Schoar PME on net LP cash flows; above 1.0x beats the index">KS-PME</th>
+                            </tr>
+                        </thead>
+                        <tbody className="font-mono">
+                            {funds.map(f => (
+                                <tr key={f.fund} className="border-b border-apex-800/50 hover:bg-white/5 transition-colors">
+                                    <td className="px-4 py-2 font-sans font-bold text-white">
+                                        {f.fund}
+                                        <span className="block text-[9px] font-normal text-gray-500">{f.companies} cos · fees {formatMoney(f.fees, { currency })} · carry {formatMoney(f.carry, { currency })}</span>
+                                    </td>
+                                    <td className="px-4 py-2 text-right">{f.paidIn.toFixed(1)}</td>
+                                    <td className="px-4 py-2 text-right">{f.distributed.toFixed(1)}</td>
+                                    <td className="px-4 py-2 text-right">{f.nav.toFixed(1)}</td>
+                                    <td className="px-4 py-2 text-right text-gray-300">{fmtPct(f.grossIrr)}</td>
+                                    <td className="px-4 py-2 text-right text-apex-accent font-bold">{fmtPct(f.netIrr)}</td>
+                                    <td className="px-4 py-2 text-right text-gray-300">{fmtX(f.grossTvpi)}</td>
+                                    <td className="px-4 py-2 text-right text-apex-accent">{fmtX(f.tvpi)}</td>
+                                    <td className="px-4 py-2 text-right">{fmtX(f.dpi)}</td>
+                                    <td className="px-4 py-2 text-right">{fmtX(f.rvpi)}</td>
+                                    <td className={`px-4 py-2 text-right ${f.pme === null ? '' : f.pme >= 1 ? 'text-emerald-400' : 'text-red-400'}`}>
+                                        {f.pme !== null ? fmtX(f.pme) : '-'}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,181 @@
+import React, { useMemo } from 'react';
+import { DealData, UnitScale, WorkingCapitalData } from '../types';
+import { ComposedChart, Line, Bar, BarChart, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell } from 'recharts';
+import { Scale } from 'lucide-react';
+import { analyzeWorkingCapital, rescaleWorkingCapital } from '../services/nwcEngine';
+import { formatMoney, moneyUnit, UNIT_SCALES } from '../services/fxEngine';
+
+interface NwcPanelProps {
+    data: DealData;
+    onUpdate?: (updates: Partial<DealData>) => void;
+}
+
+export const NwcPanel: React.FC<NwcPanelProps> = ({ data, onUpdate }) => {
+    const workingCapital = data.workingCapital;
+    const analysis = useMemo(() => workingCapital ? analyzeWorkingCapital(workingCapital, data.revenue) : null, [workingCapital, data.revenue]);
+
+    if (!workingCapital || !analysis) {
+        return (
+            <div className="bg-apex-800/20 border border-apex-800 rounded-lg p-4 text-xs text-gray-500 font-mono">
+                Upload monthly balance sheets (CSV/XLSX with receivables, inventory, payables and accruals by month) in the chat to compute the NWC peg.
+            </div>
+        );
+    }
+
+    const save = (patch: Partial<WorkingCapitalData>) => onUpdate?.({ workingCapital: { ...workingCapital, ...patch } });
+    const commitNumber = (raw: string, key: 'closingNwc' | 'collar') => {
+        const value = raw.trim() === '' ? undefined : parseFloat(raw);
+        if (value === undefined || isFinite(value)) save({ [key]: value });
+    };
+
+    // Parsed balance sheets are always in millions, whatever scale the deal is quoted in
+    const basis = { currency: data.currency };
+    const fmt = (value: number) => formatMoney(value, basis);
+    const { peg, priceImpact } = analysis;
+    const recent = analysis.monthly.slice(-12);
+
+    return (
+        <div className="bg-apex-800/20 border border-apex-800 rounded-lg p-4 space-y-5">
+            <div className="flex flex-wrap justify-between items-center gap-2 border-b border-apex-800 pb-2">
+                <h4 className="text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">
+                    <Scale className="w-4 h-4 text-apex-accent" /> Net Working Capital Peg
+                </h4>
+                <div className="flex items-center gap-2 text-[10px] font-mono text-gray-500">
+                    <span>{workingCapital.source} · {analysis.monthly.length} months · sheet in</span>
+                    <select
+                        value={workingCapital.sheetScale || 'millions'}
+                        disabled={!onUpdate}
+                        onChange={(e) => onUpdate?.({ workingCapital: rescaleWorkingCapital(workingCapital, e.target.value as UnitScale) })}
+                        className="bg-apex-900 border border-apex-800 rounded px-1.5 py-0.5 text-gray-300 focus:border-apex-accent focus:outline-none disabled:opacity-60"
+                        title={workingCapital.sheetScaleSource === 'note' ? "Read from the sheet's units note" : 'Scale the balance sheet figures are quoted in'}
+                    >
+                        {UNIT_SCALES.map(u => <option key={u} value={u}>{u}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            {workingCapital.sheetScaleSource === 'assumed' && (
+                <div className="text-[10px] font-mono text-yellow-400 bg-yellow-900/20 border border-yellow-800 rounded px-2 py-1">
+                    No units note found in the sheet, so the figures are read as millions. Pick the scale the balance sheets are quoted in.
+                </div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <Stat label="Proposed Peg" value={fmt(peg.peg)} sub={`TTM avg ${peg.basis}`} highlight />
+                <Stat label="Collar" value={`±${fmt(peg.collar)}`} sub={`${fmt(peg.low)} – ${fmt(peg.high)}`} />
+                <Stat label="TTM Range" value={`${fmt(analysis.min.nwc)} – ${fmt(analysis.max.nwc)}`} sub={`low ${analysis.min.period} · high ${analysis.max.period}`} />
+                <Stat
+                    label="Trailing Averages"
+                    value={analysis.trailing.map(t => `${t.months}M ${t.average.toFixed(1)}`).join(' · ')}
+                    sub={analysis.pegPctRevenue !== null ? `peg ${analysis.pegPctRevenue}% of LTM revenue` : undefined}
+                />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                <div className="h-56 lg:col-span-2">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart data={analysis.monthly} margin={{ top: 5, right: 20, bottom: 0, left: 0 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+                            <XAxis dataKey="period" stroke="#666" fontSize={10} />
+                            <YAxis stroke="#666" fontSize={10} />
+                            <Tooltip contentStyle={{ backgroundColor: '#171717', borderColor: '#333' }} formatter={(value: any) => fmt(Number(value))} />
+                            <ReferenceLine y={peg.high} stroke="#525252" strokeDasharray="2 4" />
+                            <ReferenceLine y={peg.low} stroke="#525252" strokeDasharray="2 4" />
+                            <ReferenceLine y={peg.peg} stroke="#d4af37" strokeDasharray="4 4" label={{ value: 'Peg', fill: '#d4af37', fontSize: 10, position: 'right' }} />
+                            <Line type="monotone" dataKey="nwc" name="NWC" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                        </ComposedChart>
+                    </ResponsiveContainer>
+                </div>
+                <div className="h-56">
+                    <div className="text-[10px] font-mono text-gray-500 uppercase mb-1">Seasonality (index to average month)</div>
+                    <ResponsiveContainer width="100%" height="90%">
+                        <BarChart data={analysis.seasonality} margin={{ top: 5, right: 10, bottom: 0, left: -20 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+                            <XAxis dataKey="label" stroke="#666" fontSize={10} />
+                            <YAxis stroke="#666" fontSize={10} domain={['auto', 'auto']} />
+                            <Tooltip contentStyle={{ backgroundColor: '#171717', borderColor: '#333' }} formatter={(value: any) => `${Number(value).toFixed(2)}x`} />
+                            <ReferenceLine y={1} stroke="#666" />
+                            <Bar dataKey="index" name="Index">
+                                {analysis.seasonality.map(s => <Cell key={s.month} fill={s.index >= 1 ? '#10b981' : '#ef4444'} />)}
+                            </Bar>
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-xs text-left">
+                    <thead className="text-gray-500 font-mono uppercase bg-apex-900/50">
+                        <tr>
+                            <th className="px-3 py-2">Month</th>
+                            <th className="px-3 py-2 text-right">Receivables</th>
+                            <th className="px-3 py-2 text-right">Inventory</th>
+                            <th className="px-3 py-2 text-right">Payables</th>
+                            <th className="px-3 py-2 text-right">Accruals</th>
+                            <th className="px-3 py-2 text-right">NWC</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-apex-800 font-mono text-gray-400">
+                        {recent.map(m => (
+                            <tr key={m.period} className="hover:bg-apex-800/30">
+                                <td className="px-3 py-1.5 text-gray-300">{m.period}</td>
+                                <td className="px-3 py-1.5 text-right">{m.receivables.toFixed(1)}</td>
+                                <td className="px-3 py-1.5 text-right">{m.inventory.toFixed(1)}</td>
+                                <td className="px-3 py-1.5 text-right">({m.payables.toFixed(1)})</td>
+                                <td className="px-3 py-1.5 text-right">({m.accruedLiabilities.toFixed(1)})</td>
+                                <td className="px-3 py-1.5 text-right text-apex-accent">{m.nwc.toFixed(1)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="border-t border-apex-800 pt-4 flex flex-wrap items-center gap-4 text-xs">
+                <label className="flex items-center gap-2 text-gray-500">
+                    Closing NWC ({moneyUnit(basis)})
+                    <input
+                        key={`closing-${workingCapital.closingNwc}`}
+                        type="number"
+                        step={0.1}
+                        defaultValue={workingCapital.closingNwc ?? ''}
+                        placeholder={peg.peg.toFixed(1)}
+                        disabled={!onUpdate}
+                        onBlur={(e) => commitNumber(e.target.value, 'closingNwc')}
+                        className="w-24 bg-apex-900 border border-apex-800 rounded px-2 py-1 text-right font-mono text-gray-300 focus:border-apex-accent focus:outline-none disabled:opacity-60"
+                    />
+                </label>
+                <label className="flex items-center gap-2 text-gray-500">
+                    Collar ({moneyUnit(basis)})
+                    <input
+                        key={`collar-${workingCapital.collar}`}
+                        type="number"
+                        step={0.1}
+                        min={0}
+                        defaultValue={workingCapital.collar ?? ''}
+                        placeholder={peg.collar.toFixed(1)}
+                        disabled={!onUpdate}
+                        onBlur={(e) => commitNumber(e.target.value, 'collar')}
+                        className="w-24 bg-apex-900 border border-apex-800 rounded px-2 py-1 text-right font-mono text-gray-300 focus:border-apex-accent focus:outline-none disabled:opacity-60"
+                    />
+                </label>
+                {priceImpact ? (
+                    <span className={`font-mono ${priceImpact.withinCollar ? 'text-gray-400' : priceImpact.adjustment > 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                        {priceImpact.withinCollar
+                            ? `Within the collar (${priceImpact.delta >= 0 ? '+' : ''}${fmt(priceImpact.delta)} vs peg): no price adjustment.`
+                            : `Price ${priceImpact.adjustment > 0 ? 'increases' : 'decreases'} by ${fmt(Math.abs(priceImpact.adjustment))} (excess beyond the collar).`}
+                    </span>
+                ) : (
+                    <span className="text-[10px] font-mono text-gray-600">Enter the estimated closing NWC to size the purchase price adjustment. Leave the collar blank for one standard deviation of TTM NWC.</span>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const Stat: React.FC<{ label: string; value: string; sub?: string; highlight?: boolean }> = ({ label, value, sub, highlight }) => (
+    <div className={`p-3 rounded border ${highlight ? 'bg-apex-accent/10 border-apex-accent' : 'bg-apex-800/40 border-apex-700'}`}>
+        <div className="text-[10px] text-gray-500 uppercase tracking-widest font-mono mb-1">{label}</div>
+        <div className={`text-sm font-bold font-sans ${highlight ? 'text-apex-accent' : 'text-gray-200'}`}>{value}</div>
+        {sub && <div className="text-[10px] text-gray-500 font-mono mt-0.5">{sub}</div>}
+    </div>
+);
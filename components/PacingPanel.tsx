@@ -0,0 +1,121 @@
+import React, { useMemo } from 'react';
+import { DealRoom, FirmProfile, PortfolioCompany } from '../types';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { AlertTriangle, Gauge } from 'lucide-react';
+import { computePacing } from '../services/pacingEngine';
+import { formatMoney } from '../services/fxEngine';
+
+interface PacingPanelProps {
+    firmProfile: FirmProfile;
+    portfolio: PortfolioCompany[];
+    deals: DealRoom[];
+}
+
+export const PacingPanel: React.FC<PacingPanelProps> = ({ firmProfile, portfolio, deals }) => {
+    const pacing = useMemo(() => computePacing(firmProfile, portfolio, deals), [firmProfile, portfolio, deals]);
+
+    const fmt = (value: number) => formatMoney(value, { currency: firmProfile.reportingCurrency });
+    const chartData = [
+        { name: 'Today', Deployed: pacing.current.deployed, Reserved: pacing.current.reserved, Available: pacing.current.available, Fees: pacing.feeReserve },
+        { name: 'IC Closes', Deployed: pacing.proForma.deployed, Reserved: pacing.proForma.reserved, Available: pacing.proForma.available, Fees: pacing.feeReserve }
+    ];
+    const overCommitted = pacing.proForma.deployed + pacing.proForma.reserved > pacing.investable;
+
+    if (pacing.committed <= 0) {
+        return (
+            <div className="bg-apex-800/30 border border-apex-800 rounded-xl p-4 mb-8 text-xs text-gray-500 font-mono">
+                Set a fund size in the Firm Mandate (e.g. "$500M") to see deployment pacing.
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-apex-800/30 border border-apex-800 rounded-xl p-4 mb-8 space-y-4">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+                <h3 className="text-xs font-mono text-gray-400 uppercase flex items-center gap-2">
+                    <Gauge className="w-4 h-4 text-apex-accent" /> Deployment Pacing · {pacing.fund}
+                </h3>
+                <span className="text-[10px] font-mono text-gray-500">
+                    {fmt(pacing.committed)} committed · {fmt(pacing.checkSize.low)}–{fmt(pacing.checkSize.high)} checks · {pacing.reserveRatio}% follow-on reserve
+                    {pacing.investmentPeriodEnd && ` · investment period to ${pacing.investmentPeriodEnd}`}
+                </span>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                <div className="grid grid-cols-2 gap-3 content-start">
+                    <Stat label="Deployed" value={fmt(pacing.current.deployed)} sub={`${pacing.holdings.length} platforms`} />
+                    <Stat label="Reserved" value={fmt(pacing.current.reserved)} sub="follow-ons" />
+                    <Stat label="Available" value={fmt(pacing.current.available)} sub={`of ${fmt(pacing.investable)} investable`} highlight />
+                    <Stat
+                        label="Platforms Left"
+                        value={`${pacing.current.remainingPlatforms}`}
+                        sub={`${pacing.remainingPlatformsRange.low}–${pacing.remainingPlatformsRange.high} across the range${pacing.dealsPerYear !== null ? ` · ${pacing.dealsPerYear}/yr` : ''}`}
+                    />
+                </div>
+
+                <div className="h-48 lg:col-span-2">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={chartData} layout="vertical" margin={{ top: 5, right: 20, bottom: 0, left: 10 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#333" horizontal={false} />
+                            <XAxis type="number" stroke="#666" fontSize={10} />
+                            <YAxis type="category" dataKey="name" stroke="#999" fontSize={10} width={70} />
+                            <Tooltip
+                                cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+                                contentStyle={{ backgroundColor: '#171717', borderColor: '#333' }}
+                                formatter={(value: any) => fmt(Number(value))}
+                            />
+                            <Legend wrapperStyle={{ fontSize: 10 }} />
+                            <Bar dataKey="Deployed" stackId="fund" fill="#d4af37" />
+                            <Bar dataKey="Reserved" stackId="fund" fill="#3b82f6" />
+                            <Bar dataKey="Available" stackId="fund" fill="#10b981" />
+                            <Bar dataKey="Fees" stackId="fund" fill="#525252" />
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+            </div>
+
+            {pacing.pipeline.length > 0 ? (
+                <div className="border-t border-apex-800 pt-3 space-y-2">
+                    <div className="text-[10px] font-mono text-gray-500 uppercase">If IC Review deals close</div>
+                    <table className="w-full text-xs text-gray-400">
+                        <thead className="text-[10px] text-gray-500 uppercase font-mono">
+                            <tr className="border-b border-apex-800">
+                                <th className="py-1.5 text-left font-medium">Deal</th>
+                                <th className="py-1.5 text-right font-medium">Equity Check</th>
+                                <th className="py-1.5 text-right font-medium">Reserve</th>
+                                <th className="py-1.5 text-right font-medium">Mandate</th>
+                            </tr>
+                        </thead>
+                        <tbody className="font-mono">
+                            {pacing.pipeline.map(p => (
+                                <tr key={p.dealId} className="border-b border-apex-800/50">
+                                    <td className="py-1.5 font-sans text-gray-300">{p.name}</td>
+                                    <td className="py-1.5 text-right">{fmt(p.equityCheck)}</td>
+                                    <td className="py-1.5 text-right">{fmt(p.reserve)}</td>
+                                    <td className={`py-1.5 text-right ${p.withinCheckSize ? 'text-emerald-400' : 'text-orange-400'}`}>
+                                        {p.withinCheckSize ? 'In range' : 'Outside check size'}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className={`text-[10px] font-mono flex items-center gap-1 ${overCommitted ? 'text-red-400' : 'text-gray-500'}`}>
+                        {overCommitted && <AlertTriangle className="w-3 h-3" />}
+                        Pro forma: {fmt(pacing.proForma.deployed)} deployed, {fmt(pacing.proForma.reserved)} reserved, {fmt(pacing.proForma.available)} available ({pacing.proForma.remainingPlatforms} platforms left).
+                        {overCommitted && ' Closing all of them would overcommit the fund.'}
+                    </p>
+                </div>
+            ) : (
+                <p className="text-[10px] font-mono text-gray-500 border-t border-apex-800 pt-3">No deals in IC Review.</p>
+            )}
+        </div>
+    );
+};
+
+const Stat: React.FC<{ label: string; value: string; sub?: string; highlight?: boolean }> = ({ label, value, sub, highlight }) => (
+    <div className={`p-3 rounded border ${highlight ? 'bg-apex-accent/10 border-apex-accent' : 'bg-apex-800/40 border-apex-700'}`}>
+        <div className="text-[10px] text-gray-500 uppercase tracking-widest font-mono mb-1">{label}</div>
+        <div className={`text-sm font-bold font-sans ${highlight ? 'text-apex-accent' : 'text-gray-200'}`}>{value}</div>
+        {sub && <div className="text-[10px] text-gray-500 font-mono mt-0.5">{sub}</div>}
+    </div>
+);
@@ -1,6 +1,8 @@
 
-import React from 'react';
-import { DealRoom, DealStage } from '../types';
+import React, { useMemo } from 'react';
+import { DealRoom, DealStage, FirmProfile, PortfolioCompany } from '../types';
+import { PacingPanel } from './PacingPanel';
+import { DEFAULT_CURRENCY, dealInReporting, foreignCurrencies, formatMoney, resolveFxTable } from '../services/fxEngine';
 import { 
     Plus, Search, ArrowRight, LayoutGrid, List, MoreHorizontal, 
     TrendingUp, DollarSign, PieChart, Clock, Building2, Filter
@@ -8,13 +10,18 @@ import {
 
 interface PipelineDashboardProps {
     deals: DealRoom[];
+    firmProfile: FirmProfile;
+    portfolio: PortfolioCompany[];
     onSelectDeal: (dealId: string) => void;
     onCreateDeal: () => void;
 }
 
-export const PipelineDashboard: React.FC<PipelineDashboardProps> = ({ deals, onSelectDeal, onCreateDeal }) => {
-    // Analytics
-    const totalPipelineValue = deals.reduce((acc, deal) => acc + (deal.data.impliedValue || 0), 0);
+export const PipelineDashboard: React.FC<PipelineDashboardProps> = ({ deals, firmProfile, portfolio, onSelectDeal, onCreateDeal }) => {
+    // Analytics (deals quoted in other currencies are converted before they are summed)
+    const reporting = firmProfile.reportingCurrency || DEFAULT_CURRENCY;
+    const fx = useMemo(() => resolveFxTable(firmProfile.fxRates), [firmProfile.fxRates]);
+    const totalPipelineValue = deals.reduce((acc, deal) => acc + dealInReporting(deal.data, reporting, fx).impliedValue, 0);
+    const convertedFrom = foreignCurrencies(deals.map(d => d.data), reporting);
     const activeDeals = deals.filter(d => d.stage !== 'Closed' && d.stage !== 'Passed').length;
     
     const dealsByStage = {
@@ -36,8 +43,9 @@ export const PipelineDashboard: React.FC<PipelineDashboardProps> = ({ deals, onS
                 />
                 <MetricCard 
                     label="Pipeline EV (Implied)" 
-                    value={`$${(totalPipelineValue).toLocaleString()}M`} 
+                    value={formatMoney(totalPipelineValue, { currency: reporting })} 
                     icon={<DollarSign className="w-5 h-5 text-emerald-400" />}
+                    note={convertedFrom.length > 0 ? `incl. ${convertedFrom.join(', ')} at spot` : undefined}
                 />
                 <MetricCard 
                     label="Diligence Phase" 
@@ -55,6 +63,9 @@ export const PipelineDashboard: React.FC<PipelineDashboardProps> = ({ deals, onS
                 </button>
             </div>
 
+            {/* Fund Pacing */}
+            <PacingPanel firmProfile={firmProfile} portfolio={portfolio} deals={deals} />
+
             {/* Main Content Area */}
             <div className="flex-1 bg-apex-800/20 border border-apex-800 rounded-2xl overflow-hidden flex flex-col">
                 <div className="p-4 border-b border-apex-800 flex justify-between items-center bg-apex-900/50">
@@ -87,7 +98,7 @@ export const PipelineDashboard: React.FC<PipelineDashboardProps> = ({ deals, onS
     );
 };
 
-const MetricCard: React.FC<{ label: string; value: string; icon: React.ReactNode; trend?: string }> = ({ label, value, icon, trend }) => (
+const MetricCard: React.FC<{ label: string; value: string; icon: React.ReactNode; trend?: string; note?: string }> = ({ label, value, icon, trend, note }) => (
     <div className="bg-apex-800/30 border border-apex-800 rounded-xl p-4 flex flex-col justify-between">
         <div className="flex justify-between items-start mb-2">
             <span className="text-xs text-gray-500 font-mono uppercase">{label}</span>
@@ -98,6 +109,7 @@ const MetricCard: React.FC<{ label: string; value: string; icon: React.ReactNode
         <div>
             <span className="text-2xl font-bold text-white block">{value}</span>
             {trend && <span className="text-[10px] text-emerald-500 font-mono">{trend}</span>}
+            {note && <span className="text-[10px] text-gray-500 font-mono">{note}</span>}
         </div>
     </div>
 );
@@ -136,12 +148,15 @@ const DealCard: React.FC<{ deal: DealRoom; onClick: () => void }> = ({ deal, onC
 
             <div className="grid grid-cols-2 gap-4 mb-4 border-t border-b border-apex-800/50 py-3">
                 <div>
-                    <p className="text-[10px] text-gray-500 uppercase mb-0.5">EBITDA (LTM)</p>
-                    <p className="text-sm font-mono text-gray-200">${(deal.data.ebitda || 0).toFixed(1)}M</p>
+                    <p className="text-[10px] text-gray-500 uppercase mb-0.5">{deal.data.adjustedEbitda !== undefined ? 'Adj. EBITDA (LTM)' : 'Reported EBITDA (LTM)'}</p>
+                    <p className="text-sm font-mono text-gray-200">{formatMoney(deal.data.adjustedEbitda ?? deal.data.ebitda ?? 0, deal.data)}</p>
+                    {deal.data.adjustedEbitda !== undefined && (
+                        <p className="text-[10px] font-mono text-gray-600">{formatMoney(deal.data.ebitda || 0, deal.data)} reported</p>
+                    )}
                 </div>
                 <div className="text-right">
                     <p className="text-[10px] text-gray-500 uppercase mb-0.5">Implied EV</p>
-                    <p className="text-sm font-mono text-gray-200">${(deal.data.impliedValue || 0).toFixed(1)}M</p>
+                    <p className="text-sm font-mono text-gray-200">{formatMoney(deal.data.impliedValue || 0, deal.data)}</p>
                 </div>
             </div>
 
@@ -1,7 +1,11 @@
 
-import React, { useRef, useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { PortfolioCompany, FileAttachment, FirmProfile } from '../types';
 import { FirmProfileEditor } from './FirmProfile';
+import { WaterfallPanel } from './WaterfallPanel';
+import { FundPerformancePanel } from './FundPerformancePanel';
+import { portfolioWaterfallInputs, resolveFundTerms } from '../services/waterfallEngine';
+import { DEFAULT_CURRENCY, foreignCurrencies, formatMoney, moneyUnit, portfolioInReporting, resolveFxTable } from '../services/fxEngine';
 import { 
     PieChart, Pie, Cell, ResponsiveContainer, Tooltip 
 } from 'recharts';
@@ -25,9 +29,19 @@ export const PortCoDashboard: React.FC<PortCoDashboardProps> = ({ portfolio, fir
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     // --- Analytics ---
-    const totalEbitda = portfolio.reduce((acc, curr) => acc + curr.ebitda, 0);
-    const totalRevenue = portfolio.reduce((acc, curr) => acc + curr.revenue, 0);
+    // Holdings are restated in the fund's reporting currency before anything is summed
+    const reporting = firmProfile.reportingCurrency || DEFAULT_CURRENCY;
+    const holdings = useMemo(
+        () => portfolioInReporting(portfolio, reporting, resolveFxTable(firmProfile.fxRates)),
+        [portfolio, reporting, firmProfile.fxRates]
+    );
+    const convertedFrom = foreignCurrencies(portfolio, reporting);
+    const unit = moneyUnit({ currency: reporting });
+    const totalEbitda = holdings.reduce((acc, curr) => acc + curr.ebitda, 0);
+    const totalRevenue = holdings.reduce((acc, curr) => acc + curr.revenue, 0);
     const activeCount = portfolio.filter(p => p.investmentStatus === 'Active').length;
+    const waterfallInputs = useMemo(() => portfolioWaterfallInputs(holdings), [holdings]);
+    const fundTerms = useMemo(() => resolveFundTerms(firmProfile.fundTerms), [firmProfile.fundTerms]);
 
     // Sector Chart Data
     const sectorMap = new Map<string, number>();
@@ -140,12 +154,12 @@ export const PortCoDashboard: React.FC<PortCoDashboardProps> = ({ portfolio, fir
                                     />
                                     <StatCard 
                                         label="Aggregate Revenue (LTM)" 
-                                        value={`$${totalRevenue.toLocaleString()}M`} 
+                                        value={formatMoney(totalRevenue, { currency: reporting })} 
                                         icon={<TrendingUp className="w-5 h-5 text-emerald-400" />} 
                                     />
                                     <StatCard 
                                         label="Aggregate EBITDA (LTM)" 
-                                        value={`$${totalEbitda.toLocaleString()}M`} 
+                                        value={formatMoney(totalEbitda, { currency: reporting })} 
                                         icon={<DollarSign className="w-5 h-5 text-apex-accent" />} 
                                     />
                                 </div>
@@ -191,7 +205,9 @@ export const PortCoDashboard: React.FC<PortCoDashboardProps> = ({ portfolio, fir
                                     <div className="lg:col-span-2 bg-apex-800/30 border border-apex-800 rounded-xl overflow-hidden flex flex-col">
                                         <div className="p-4 border-b border-apex-800 bg-apex-900/50 flex justify-between items-center">
                                             <h3 className="text-xs font-mono text-gray-400 uppercase">Portfolio Companies</h3>
-                                            <span className="text-[10px] text-gray-600 font-mono">{portfolio.length} RECORDS</span>
+                                            <span className="text-[10px] text-gray-600 font-mono">
+                                                {portfolio.length} RECORDS{convertedFrom.length > 0 && ` · ${convertedFrom.join(', ')} CONVERTED TO ${reporting}`}
+                                            </span>
                                         </div>
                                         <div className="flex-1 overflow-auto scrollbar-thin">
                                             <table className="w-full text-left text-sm text-gray-400 whitespace-nowrap">
@@ -201,13 +217,15 @@ export const PortCoDashboard: React.FC<PortCoDashboardProps> = ({ portfolio, fir
                                                         <th className="px-4 py-3 font-medium">Sector</th>
                                                         <th className="px-4 py-3 font-medium">Fund</th>
                                                         <th className="px-4 py-3 font-medium">Own %</th>
-                                                        <th className="px-4 py-3 font-medium text-right">Rev ($M)</th>
-                                                        <th className="px-4 py-3 font-medium text-right">EBITDA ($M)</th>
+                                                        <th className="px-4 py-3 font-medium text-right">Rev ({unit})</th>
+                                                        <th className="px-4 py-3 font-medium text-right">EBITDA ({unit})</th>
+                                                        <th className="px-4 py-3 font-medium text-right">Cost ({unit})</th>
+                                                        <th className="px-4 py-3 font-medium text-right">Value ({unit})</th>
                                                         <th className="px-4 py-3 font-medium">Status</th>
                                                     </tr>
                                                 </thead>
                                                 <tbody>
-                                                    {portfolio.map((p) => (
+                                                    {holdings.map((p) => (
                                                         <tr key={p.id} className="border-b border-apex-800/50 hover:bg-white/5 transition-colors">
                                                             <td className="px-4 py-3 font-bold text-white">
                                                                 {p.name}
@@ -223,6 +241,8 @@ export const PortCoDashboard: React.FC<PortCoDashboardProps> = ({ portfolio, fir
                                                             </td>
                                                             <td className="px-4 py-3 text-right font-mono text-gray-300">{p.revenue.toLocaleString()}</td>
                                                             <td className="px-4 py-3 text-right font-mono text-apex-accent">{p.ebitda.toLocaleString()}</td>
+                                                            <td className="px-4 py-3 text-right font-mono text-gray-300">{p.investedCapital ? p.investedCapital.toLocaleString() : '-'}</td>
+                                                            <td className="px-4 py-3 text-right font-mono text-gray-300">{p.currentValue !== undefined ? p.currentValue.toLocaleString() : '-'}</td>
                                                             <td className="px-4 py-3">
                                                                 <span className={`
                                                                     text-[10px] uppercase px-2 py-0.5 rounded font-bold
@@ -240,6 +260,18 @@ export const PortCoDashboard: React.FC<PortCoDashboardProps> = ({ portfolio, fir
                                         </div>
                                     </div>
                                 </div>
+
+                                {/* Fund Performance */}
+                                <FundPerformancePanel portfolio={holdings} terms={fundTerms} currency={reporting} />
+
+                                {/* Fund Waterfall */}
+                                {waterfallInputs.length > 0 ? (
+                                    <WaterfallPanel title="Fund Distribution Waterfall" inputs={waterfallInputs} terms={fundTerms} currency={reporting} />
+                                ) : (
+                                    <p className="text-xs text-gray-500 font-mono">
+                                        Ingest holdings with invested capital and current value to run the fund waterfall.
+                                    </p>
+                                )}
                             </>
                         )}
                     </div>
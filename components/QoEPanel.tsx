@@ -0,0 +1,183 @@
+import React, { useMemo } from 'react';
+import { AddBackCategory, AddBackStatus, DealData, EbitdaAddBack } from '../types';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { ListChecks, X } from 'lucide-react';
+import { ADD_BACK_CATEGORIES, ADD_BACK_STATUSES, computeQoE, createAddBack, defaultRunRate } from '../services/qoeEngine';
+import { applyLBOEngine, extractOperatingProjection, reportedEbitda } from '../services/lboEngine';
+import { computeDefaultSensitivity } from '../services/sensitivityEngine';
+import { formatMoney, moneyUnit } from '../services/fxEngine';
+
+interface QoEPanelProps {
+    data: DealData;
+    onUpdate?: (updates: Partial<DealData>) => void;
+}
+
+const STATUS_STYLES: Record<AddBackStatus, string> = {
+    proposed: 'text-gray-300 border-apex-700',
+    accepted: 'text-emerald-400 border-emerald-800',
+    challenged: 'text-orange-400 border-orange-800',
+    rejected: 'text-red-400 border-red-900'
+};
+
+const inputClass = 'bg-apex-900 border border-apex-800 rounded px-1.5 py-0.5 text-gray-300 focus:border-apex-accent focus:outline-none disabled:opacity-60';
+
+export const QoEPanel: React.FC<QoEPanelProps> = ({ data, onUpdate }) => {
+    const addBacks = data.addBacks || [];
+    const reported = useMemo(() => reportedEbitda(extractOperatingProjection(data), 0), [data]);
+    const summary = useMemo(() => computeQoE(reported, addBacks), [reported, addBacks]);
+    const disabled = !onUpdate;
+
+    // Accepted add-backs move entry EBITDA, so the LBO outputs are rebuilt on every change
+    const save = (next: EbitdaAddBack[]) => {
+        const model = applyLBOEngine({ ...data, addBacks: next });
+        onUpdate?.({
+            addBacks: next,
+            adjustedEbitda: model.adjustedEbitda,
+            lboDetailed: model.lboDetailed,
+            lboModel: model.lboModel,
+            valueCreation: model.valueCreation,
+            sensitivityAnalysis: computeDefaultSensitivity(model)
+        });
+    };
+
+    const update = (id: string, patch: Partial<EbitdaAddBack>) => save(addBacks.map(a => a.id === id ? { ...a, ...patch } : a));
+
+    const changeCategory = (a: EbitdaAddBack, category: AddBackCategory) =>
+        // Follow the category's default unless the user already departed from it
+        update(a.id, { category, runRate: a.runRate === defaultRunRate(a.category) ? defaultRunRate(category) : a.runRate });
+
+    const fmt = (value: number) => formatMoney(value, data);
+    const chartData = summary.byCategory.map(c => ({ name: c.category, Claimed: c.claimed, Accepted: c.accepted }));
+
+    return (
+        <div className="animate-fade-in space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <Stat label="Reported LTM EBITDA" value={fmt(summary.reported)} />
+                <Stat label="Management Adjusted" value={fmt(summary.managementAdjusted)} sub={`${fmt(summary.managementAdjusted - summary.reported)} claimed`} />
+                <Stat label="Diligence Adjusted" value={fmt(summary.diligenceAdjusted)} sub="drives valuation and LBO" highlight />
+                <Stat label="Haircut" value={fmt(summary.haircut)} sub={`challenged ${fmt(summary.byStatus.challenged)} · rejected ${fmt(summary.byStatus.rejected)}`} />
+            </div>
+
+            <div className="bg-apex-800/20 border border-apex-800 rounded-lg p-4">
+                <div className="flex flex-wrap justify-between items-center gap-3 mb-4 border-b border-apex-800 pb-2">
+                    <h4 className="text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">
+                        <ListChecks className="w-4 h-4 text-apex-accent" /> EBITDA Add-Backs
+                    </h4>
+                    {onUpdate && (
+                        <button
+                            onClick={() => save([...addBacks, createAddBack()])}
+                            className="px-2 py-1 border border-apex-700 rounded text-[10px] font-mono text-apex-accent hover:border-apex-accent transition-colors"
+                        >
+                            + ADD-BACK
+                        </button>
+                    )}
+                </div>
+
+                {addBacks.length === 0 ? (
+                    <p className="text-xs text-gray-500 font-mono">
+                        No add-backs tracked. Ingest a CIM to pull management's adjustments, or add them by hand.
+                    </p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-xs text-left">
+                            <thead className="text-gray-500 font-mono uppercase bg-apex-900/50">
+                                <tr>
+                                    <th className="px-3 py-2">Adjustment</th>
+                                    <th className="px-3 py-2">Category</th>
+                                    <th className="px-3 py-2 text-right">{moneyUnit(data)}</th>
+                                    <th className="px-3 py-2 text-center" title="Persists into projection years; one-offs only adjust the LTM">Run-Rate</th>
+                                    <th className="px-3 py-2">Support</th>
+                                    <th className="px-3 py-2">Status</th>
+                                    <th className="px-3 py-2">Diligence Note</th>
+                                    <th className="px-3 py-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-apex-800">
+                                {addBacks.map(a => (
+                                    <tr key={a.id} className="hover:bg-apex-800/30">
+                                        <td className="px-3 py-2">
+                                            <input defaultValue={a.description} disabled={disabled} onBlur={(e) => e.target.value !== a.description && update(a.id, { description: e.target.value })} className={`${inputClass} w-48`} />
+                                        </td>
+                                        <td className="px-3 py-2">
+                                            <select value={a.category} disabled={disabled} onChange={(e) => changeCategory(a, e.target.value as AddBackCategory)} className={inputClass}>
+                                                {ADD_BACK_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                                            </select>
+                                        </td>
+                                        <td className="px-3 py-2 text-right">
+                                            <input
+                                                type="number"
+                                                step={0.1}
+                                                defaultValue={a.amount}
+                                                disabled={disabled}
+                                                onBlur={(e) => {
+                                                    const amount = parseFloat(e.target.value);
+                                                    if (isFinite(amount) && amount !== a.amount) update(a.id, { amount });
+                                                }}
+                                                className={`${inputClass} w-20 text-right font-mono`}
+                                            />
+                                        </td>
+                                        <td className="px-3 py-2 text-center">
+                                            <input type="checkbox" checked={a.runRate} disabled={disabled} onChange={(e) => update(a.id, { runRate: e.target.checked })} className="accent-emerald-500" />
+                                        </td>
+                                        <td className="px-3 py-2">
+                                            <input defaultValue={a.supportDocument || ''} placeholder="CIM p.42" disabled={disabled} onBlur={(e) => e.target.value !== (a.supportDocument || '') && update(a.id, { supportDocument: e.target.value || undefined })} className={`${inputClass} w-28`} />
+                                        </td>
+                                        <td className="px-3 py-2">
+                                            <select value={a.status} disabled={disabled} onChange={(e) => update(a.id, { status: e.target.value as AddBackStatus })} className={`${inputClass} uppercase font-mono text-[10px] ${STATUS_STYLES[a.status]}`}>
+                                                {ADD_BACK_STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+                                            </select>
+                                        </td>
+                                        <td className="px-3 py-2">
+                                            <input defaultValue={a.note || ''} disabled={disabled} onBlur={(e) => e.target.value !== (a.note || '') && update(a.id, { note: e.target.value || undefined })} className={`${inputClass} w-48`} />
+                                        </td>
+                                        <td className="px-3 py-2 text-right">
+                                            {onUpdate && (
+                                                <button onClick={() => save(addBacks.filter(x => x.id !== a.id))} className="text-gray-600 hover:text-red-400 transition-colors" title="Remove add-back">
+                                                    <X className="w-3.5 h-3.5" />
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+                <p className="text-[10px] text-gray-600 font-mono mt-3">
+                    Only accepted add-backs reach the model: all of them adjust LTM entry EBITDA, run-rate ones also lift every projection year.
+                </p>
+            </div>
+
+            {chartData.length > 0 && (
+                <div className="bg-apex-800/20 border border-apex-800 rounded-lg p-4">
+                    <h4 className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-4">Claimed vs Accepted by Category</h4>
+                    <div className="h-56">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={chartData} margin={{ top: 5, right: 20, bottom: 0, left: 0 }}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+                                <XAxis dataKey="name" stroke="#666" fontSize={10} />
+                                <YAxis stroke="#666" fontSize={10} />
+                                <Tooltip
+                                    cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+                                    contentStyle={{ backgroundColor: '#171717', borderColor: '#333' }}
+                                    formatter={(value: any) => fmt(Number(value))}
+                                />
+                                <Legend wrapperStyle={{ fontSize: 10 }} />
+                                <Bar dataKey="Claimed" fill="#525252" />
+                                <Bar dataKey="Accepted" fill="#d4af37" />
+                            </BarChart>
+                        </ResponsiveContainer>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const Stat: React.FC<{ label: string; value: string; sub?: string; highlight?: boolean }> = ({ label, value, sub, highlight }) => (
+    <div className={`p-3 rounded border ${highlight ? 'bg-apex-accent/10 border-apex-accent' : 'bg-apex-800/40 border-apex-700'}`}>
+        <div className="text-[10px] text-gray-500 uppercase tracking-widest font-mono mb-1">{label}</div>
+        <div className={`text-sm font-bold font-sans ${highlight ? 'text-apex-accent' : 'text-gray-200'}`}>{value}</div>
+        {sub && <div className="text-[10px] text-gray-500 font-mono mt-0.5">{sub}</div>}
+    </div>
+);
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { DealRoom, LogEntry, SpendBudget, TokenUsage } from '../types';
+import { Coins, ChevronDown, ChevronUp, Hash } from 'lucide-react';
+import { budgetStatus, formatCost, formatTokens, rollUpUsage, totalTokens } from '../services/usageMeter';
+
+interface SpendSummaryProps {
+  logs: LogEntry[];
+  deals: DealRoom[];
+  budget?: SpendBudget;
+}
+
+const RECENT_TRACES = 8;
+
+const UsageRow: React.FC<{ label: React.ReactNode; usage: TokenUsage; extra?: React.ReactNode }> = ({ label, usage, extra }) => (
+    <div className="flex items-center gap-3 text-[10px] font-mono p-1 rounded hover:bg-white/5">
+        <span className="text-gray-300 truncate flex-1 min-w-0">{label}</span>
+        {extra}
+        <span className="text-gray-600 w-12 text-right">{usage.calls} calls</span>
+        <span
+            className="text-gray-500 w-14 text-right"
+            title={`${usage.inputTokens.toLocaleString()} in · ${usage.outputTokens.toLocaleString()} out · ${usage.thinkingTokens.toLocaleString()} thinking`}
+        >
+            {formatTokens(totalTokens(usage))} tok
+        </span>
+        <span className="text-gray-600 w-10 text-right">{usage.images > 0 ? `${usage.images} img` : ''}</span>
+        <span className="text-apex-accent w-16 text-right">{formatCost(usage.cost)}</span>
+    </div>
+);
+
+const Group: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <div>
+        <div className="text-[9px] font-mono text-gray-600 uppercase tracking-wider px-1 mb-0.5">{title}</div>
+        {children}
+    </div>
+);
+
+export const SpendSummary: React.FC<SpendSummaryProps> = ({ logs, deals, budget }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const byAgent = rollUpUsage<LogEntry>(logs, log => log.agentName, log => log.usage);
+  const byTrace = rollUpUsage<LogEntry>(logs, log => log.traceId, log => log.usage);
+  const recentTraces = Object.keys(byTrace).slice(-RECENT_TRACES).reverse();
+  const dealsWithSpend = deals.filter(d => d.usage && d.usage.calls > 0);
+  const total = Object.values(byAgent).reduce((sum, usage) => sum + usage.cost, 0);
+
+  return (
+    <div className="border border-apex-800 rounded-xl overflow-hidden bg-apex-900/50 flex flex-col">
+        <div
+            className="flex items-center justify-between p-3 bg-apex-800/30 cursor-pointer hover:bg-apex-800/50 transition-colors select-none"
+            onClick={() => setIsOpen(!isOpen)}
+        >
+            <div className="flex items-center gap-2 text-xs font-mono text-gray-400 uppercase tracking-wider">
+                <Coins className="w-3 h-3" />
+                Agent Spend
+            </div>
+            <div className="flex items-center gap-3">
+                <span className="text-[10px] text-gray-600 font-mono">{formatCost(total)} Logged</span>
+                {isOpen ? <ChevronUp className="w-3 h-3 text-gray-500" /> : <ChevronDown className="w-3 h-3 text-gray-500" />}
+            </div>
+        </div>
+
+        {isOpen && (
+            <div className="max-h-[280px] overflow-y-auto p-2 space-y-3 scrollbar-thin">
+                {Object.keys(byAgent).length === 0 && dealsWithSpend.length === 0 && (
+                    <div className="text-xs text-gray-600 font-mono p-2 italic">Token counts and cost appear here once agents have run. Prices are set in the Firm Mandate.</div>
+                )}
+                {Object.keys(byAgent).length > 0 && (
+                    <Group title="By Agent">
+                        {Object.entries(byAgent).sort((a, b) => b[1].cost - a[1].cost).map(([agent, usage]) => (
+                            <UsageRow key={agent} label={agent} usage={usage} />
+                        ))}
+                    </Group>
+                )}
+                {recentTraces.length > 0 && (
+                    <Group title="By Trace (latest)">
+                        {recentTraces.map(traceId => (
+                            <UsageRow
+                                key={traceId}
+                                label={<span className="flex items-center gap-0.5"><Hash className="w-2.5 h-2.5 text-gray-600" />{traceId}</span>}
+                                usage={byTrace[traceId]}
+                            />
+                        ))}
+                    </Group>
+                )}
+                {dealsWithSpend.length > 0 && (
+                    <Group title={budget?.dealCap ? `By Deal (cap ${formatCost(budget.dealCap)}, ${budget.action})` : 'By Deal'}>
+                        {dealsWithSpend.map(deal => {
+                            const status = budgetStatus(deal.usage!.cost, budget);
+                            return (
+                                <UsageRow
+                                    key={deal.id}
+                                    label={deal.title}
+                                    usage={deal.usage!}
+                                    extra={status !== 'ok' && (
+                                        <span className={`px-1.5 py-0.5 rounded border ${status === 'halt' ? 'bg-red-900/30 text-red-400 border-red-800' : 'bg-yellow-900/20 text-yellow-400 border-yellow-800'}`}>
+                                            OVER CAP
+                                        </span>
+                                    )}
+                                />
+                            );
+                        })}
+                    </Group>
+                )}
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useRef, useState } from 'react';
+import { FileAttachment, TraceRecording } from '../types';
+import { Disc, ChevronDown, ChevronUp, Play, Download, Upload, X, Hash } from 'lucide-react';
+import { missingAttachments, parseTraceRecording, restoreAttachments, traceFileName } from '../services/traceRecorder';
+
+interface TraceRecordingsProps {
+  traces: TraceRecording[];
+  isProcessing: boolean;
+  onReplay: (recording: TraceRecording) => void;
+  onImport: (recording: TraceRecording) => void;
+  onDelete: (traceId: string) => void;
+}
+
+const describeInput = (recording: TraceRecording): string => {
+    const input = recording.input;
+    if (input.kind === 'message') {
+        const files = input.attachments?.length ? ` (+${input.attachments.length} docs)` : '';
+        return `"${input.text.length > 60 ? input.text.slice(0, 60) + '…' : input.text}"${files}`;
+    }
+    if (input.kind === 'deliverable') return `${input.deliverableType} for ${input.dealTitle}`;
+    return `Portfolio ingest (${input.attachments.length} docs)`;
+};
+
+const readAttachment = (file: File) => new Promise<FileAttachment>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => resolve({ name: file.name, type: file.type, data: event.target?.result as string });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+export const TraceRecordings: React.FC<TraceRecordingsProps> = ({ traces, isProcessing, onReplay, onImport, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const replayFileRef = useRef<HTMLInputElement>(null);
+  const [pendingReplay, setPendingReplay] = useState<TraceRecording | null>(null);
+
+  // Saved recordings keep only fingerprints of their documents, so replay asks for the files again
+  const startReplay = (recording: TraceRecording) => {
+      if (missingAttachments(recording).length === 0) return onReplay(recording);
+      setPendingReplay(recording);
+      replayFileRef.current?.click();
+  };
+
+  const replayWithFiles = async (files: FileList | null) => {
+      const recording = pendingReplay;
+      setPendingReplay(null);
+      if (!recording || !files?.length) return;
+      try {
+          onReplay(restoreAttachments(recording, await Promise.all(Array.from(files).map(readAttachment))));
+          setImportError(null);
+      } catch (e) {
+          setImportError(`Replay of ${recording.traceId}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      if (replayFileRef.current) replayFileRef.current.value = '';
+  };
+
+  const exportTrace = (recording: TraceRecording) => {
+      const blob = new Blob([JSON.stringify(recording, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = traceFileName(recording);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+  };
+
+  const importTrace = async (file?: File) => {
+      if (!file) return;
+      try {
+          onImport(parseTraceRecording(await file.text()));
+          setImportError(null);
+          setIsOpen(true);
+      } catch (e) {
+          setImportError(`Import failed: ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      if (fileRef.current) fileRef.current.value = '';
+  };
+
+  return (
+    <div className="border border-apex-800 rounded-xl overflow-hidden bg-apex-900/50 flex flex-col">
+        <div
+            className="flex items-center justify-between p-3 bg-apex-800/30 cursor-pointer hover:bg-apex-800/50 transition-colors select-none"
+            onClick={() => setIsOpen(!isOpen)}
+        >
+            <div className="flex items-center gap-2 text-xs font-mono text-gray-400 uppercase tracking-wider">
+                <Disc className="w-3 h-3" />
+                Trace Recordings
+            </div>
+            <div className="flex items-center gap-3">
+                <button
+                    onClick={(e) => { e.stopPropagation(); fileRef.current?.click(); }}
+                    className="flex items-center gap-1 text-[10px] font-mono text-apex-accent hover:text-white transition-colors"
+                    title="Import a shared trace file"
+                >
+                    <Upload className="w-3 h-3" /> IMPORT
+                </button>
+                <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={(e) => importTrace(e.target.files?.[0])} />
+                <input ref={replayFileRef} type="file" multiple className="hidden" onChange={(e) => replayWithFiles(e.target.files)} />
+                <span className="text-[10px] text-gray-600 font-mono">{traces.length} Saved</span>
+                {isOpen ? <ChevronUp className="w-3 h-3 text-gray-500" /> : <ChevronDown className="w-3 h-3 text-gray-500" />}
+            </div>
+        </div>
+
+        {importError && (
+            <div className="px-3 py-1.5 text-[10px] font-mono text-red-400 border-t border-red-900/30 bg-red-950/20">{importError}</div>
+        )}
+
+        {isOpen && (
+            <div className="max-h-[240px] overflow-y-auto p-2 space-y-1 scrollbar-thin">
+                {traces.length === 0 && (
+                    <div className="text-xs text-gray-600 font-mono p-2 italic">Every pipeline run is recorded here. Replay one to reproduce it with no network calls.</div>
+                )}
+                {[...traces].reverse().map(trace => {
+                    const errors = trace.steps.filter(s => s.status === 'error').length;
+                    const needed = missingAttachments(trace);
+                    return (
+                        <div key={trace.traceId} className="flex items-center gap-3 text-[10px] font-mono p-1.5 rounded hover:bg-white/5">
+                            <span className="flex items-center gap-0.5 text-gray-500 min-w-[70px]" title={`Trace ID: ${trace.traceId}`}>
+                                <Hash className="w-2.5 h-2.5" />{trace.traceId}
+                            </span>
+                            <div className="flex flex-col min-w-0 flex-1">
+                                <span className="text-gray-300 truncate">{describeInput(trace)}</span>
+                                <span className="text-gray-600 truncate">
+                                    {new Date(trace.createdAt).toLocaleString()} · {trace.provider} · {trace.steps.length} steps · {trace.calls.length} calls
+                                    {trace.replayOf && ` · replay of ${trace.replayOf}`}
+                                    {needed.length > 0 && ` · replay asks for ${needed.length} docs`}
+                                    {trace.imagesOmitted ? ` · ${trace.imagesOmitted} images not kept` : ''}
+                                </span>
+                            </div>
+                            {errors > 0 && <span className="px-1.5 py-0.5 rounded bg-red-900/30 text-red-400 border border-red-800">{errors} FAILED</span>}
+                            <button
+                                onClick={() => startReplay(trace)}
+                                disabled={isProcessing}
+                                className="text-gray-500 hover:text-apex-accent disabled:opacity-30 transition-colors"
+                                title="Replay from the recording (no network)"
+                            >
+                                <Play className="w-3.5 h-3.5" />
+                            </button>
+                            <button onClick={() => exportTrace(trace)} className="text-gray-500 hover:text-apex-accent transition-colors" title="Export trace file">
+                                <Download className="w-3.5 h-3.5" />
+                            </button>
+                            <button onClick={() => onDelete(trace.traceId)} className="text-gray-600 hover:text-red-400 transition-colors" title="Delete recording">
+                                <X className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useMemo } from 'react';
+import { CurrencyCode, FundTerms } from '../types';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Layers } from 'lucide-react';
+import { WaterfallInput, runWaterfall } from '../services/waterfallEngine';
+import { formatMoney } from '../services/fxEngine';
+
+interface WaterfallPanelProps {
+    title: string;
+    inputs: WaterfallInput[];
+    terms: FundTerms;
+    currency?: CurrencyCode;
+}
+
+const MODE_LABELS: Record<FundTerms['waterfall'], string> = {
+    european: 'European (whole fund)',
+    american: 'American (deal by deal)'
+};
+
+export const WaterfallPanel: React.FC<WaterfallPanelProps> = ({ title, inputs, terms, currency }) => {
+    const result = useMemo(() => runWaterfall(inputs, terms), [inputs, terms]);
+    // The other mode, to show what the choice of waterfall is worth to the GP
+    const alternate = useMemo(
+        () => inputs.length > 1 ? runWaterfall(inputs, { ...terms, waterfall: terms.waterfall === 'european' ? 'american' : 'european' }) : null,
+        [inputs, terms]
+    );
+
+    const fmt = (value: number) => formatMoney(value, { currency });
+    const chartData = result.tiers.map(t => ({ name: t.tier, LP: t.lp, GP: t.gp }));
+
+    return (
+        <div className="bg-apex-800/30 border border-apex-800 rounded-lg p-4 space-y-4">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+                <div className="flex items-center gap-2">
+                    <Layers className="w-4 h-4 text-apex-accent" />
+                    <h3 className="text-xs font-mono text-gray-400 uppercase">{title}</h3>
+                </div>
+                <span className="text-[10px] font-mono text-gray-500">
+                    {MODE_LABELS[terms.waterfall]} · {terms.preferredReturn}% pref · {terms.catchUp}% catch-up · {terms.carry}% carry
+                </span>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <Stat label="Contributed / Distributed" value={`${fmt(result.contributed)} / ${fmt(result.distributions)}`} />
+                <Stat label="LP Net" value={`${fmt(result.lpTotal)} · ${result.lpNetMultiple.toFixed(2)}x`} sub={`${result.lpNetIrr.toFixed(1)}% net IRR vs ${result.grossIrr.toFixed(1)}% gross`} highlight />
+                <Stat label="GP Carry" value={fmt(result.gpCarry)} sub={`${result.effectiveCarry.toFixed(1)}% of profit`} />
+                <Stat label="Gross Multiple" value={`${result.grossMultiple.toFixed(2)}x`} sub={`${fmt(result.profit)} profit`} />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <table className="w-full text-xs text-gray-400">
+                    <thead className="text-[10px] text-gray-500 uppercase font-mono">
+                        <tr className="border-b border-apex-800">
+                            <th className="py-1.5 text-left font-medium">Tier</th>
+                            <th className="py-1.5 text-right font-medium">LP</th>
+                            <th className="py-1.5 text-right font-medium">GP</th>
+                            <th className="py-1.5 text-right font-medium">Total</th>
+                        </tr>
+                    </thead>
+                    <tbody className="font-mono">
+                        {result.tiers.map(t => (
+                            <tr key={t.tier} className="border-b border-apex-800/50">
+                                <td className="py-1.5 font-sans text-gray-300">{t.tier}</td>
+                                <td className="py-1.5 text-right">{t.lp.toFixed(1)}</td>
+                                <td className="py-1.5 text-right text-apex-accent">{t.gp.toFixed(1)}</td>
+                                <td className="py-1.5 text-right">{(t.lp + t.gp).toFixed(1)}</td>
+                            </tr>
+                        ))}
+                        <tr className="text-gray-200 font-bold">
+                            <td className="py-1.5 font-sans">Total</td>
+                            <td className="py-1.5 text-right">{result.lpTotal.toFixed(1)}</td>
+                            <td className="py-1.5 text-right text-apex-accent">{result.gpCarry.toFixed(1)}</td>
+                            <td className="py-1.5 text-right">{(result.lpTotal + result.gpCarry).toFixed(1)}</td>
+                        </tr>
+                    </tbody>
+                </table>
+                <div className="h-48">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={chartData} margin={{ top: 5, right: 10, bottom: 0, left: 0 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+                            <XAxis dataKey="name" stroke="#999" fontSize={9} />
+                            <YAxis stroke="#666" fontSize={10} />
+                            <Tooltip
+                                cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+                                contentStyle={{ backgroundColor: '#171717', borderColor: '#333' }}
+                                formatter={(value: any) => fmt(Number(value))}
+                            />
+                            <Legend wrapperStyle={{ fontSize: 10 }} />
+                            <Bar dataKey="LP" stackId="tier" fill="#3b82f6" />
+                            <Bar dataKey="GP" stackId="tier" fill="#d4af37" radius={[2, 2, 0, 0]} />
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+            </div>
+
+            {result.deals.length > 1 && (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-xs text-gray-400">
+                        <thead className="text-[10px] text-gray-500 uppercase font-mono">
+                            <tr className="border-b border-apex-800">
+                                <th className="py-1.5 text-left font-medium">Investment</th>
+                                <th className="py-1.5 text-right font-medium">Invested</th>
+                                <th className="py-1.5 text-right font-medium">Proceeds</th>
+                                <th className="py-1.5 text-right font-medium">Years</th>
+                                <th className="py-1.5 text-right font-medium">LP</th>
+                                <th className="py-1.5 text-right font-medium">GP Carry</th>
+                            </tr>
+                        </thead>
+                        <tbody className="font-mono">
+                            {result.deals.map(d => (
+                                <tr key={d.name} className="border-b border-apex-800/50">
+                                    <td className="py-1.5 font-sans text-gray-300">{d.name}</td>
+                                    <td className="py-1.5 text-right">{d.invested.toFixed(1)}</td>
+                                    <td className="py-1.5 text-right">{d.proceeds.toFixed(1)}</td>
+                                    <td className="py-1.5 text-right">{d.years.toFixed(1)}</td>
+                                    <td className="py-1.5 text-right">{d.lp.toFixed(1)}</td>
+                                    <td className="py-1.5 text-right text-apex-accent">{d.gp.toFixed(1)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {alternate && (
+                <p className="text-[10px] text-gray-500 font-mono">
+                    Under {MODE_LABELS[alternate.mode]} terms the GP would earn {fmt(alternate.gpCarry)} ({alternate.gpCarry >= result.gpCarry ? '+' : ''}{(alternate.gpCarry - result.gpCarry).toFixed(1)}M).
+                    {terms.waterfall === 'american' && ' Deal-by-deal carry is shown before any clawback.'}
+                </p>
+            )}
+        </div>
+    );
+};
+
+const Stat: React.FC<{ label: string; value: string; sub?: string; highlight?: boolean }> = ({ label, value, sub, highlight }) => (
+    <div className={`p-3 rounded border ${highlight ? 'bg-apex-accent/10 border-apex-accent' : 'bg-apex-800/40 border-apex-700'}`}>
+        <div className="text-[10px] text-gray-500 uppercase tracking-widest font-mono mb-1">{label}</div>
+        <div className={`text-sm font-bold font-sans ${highlight ? 'text-apex-accent' : 'text-gray-200'}`}>{value}</div>
+        {sub && <div className="text-[10px] text-gray-500 font-mono mt-0.5">{sub}</div>}
+    </div>
+);
@@ -0,0 +1,254 @@
+import { AddBackCategory, CurrencyCode, FinancialSection, InvestmentMemo, LBOAssumptions, PortfolioCompany, SourcedMetric } from "../types";
+import { CURRENCIES } from "./fxEngine";
+import { JsonSchema, SchemaType } from "./llmProvider";
+
+// Response schemas of the extraction agents, each next to the type the validated answer has.
+// Optional fields may be missing or dropped by the validator; sanitizing fills them in.
+
+// One entry per value (or a single entry for the whole row)
+const PROVENANCE_SCHEMA: JsonSchema = {
+    type: SchemaType.ARRAY,
+    items: {
+        type: SchemaType.OBJECT,
+        properties: {
+            source: { type: SchemaType.STRING, enum: ["reported", "extracted", "estimated", "assumed", "calculated"] },
+            reference: { type: SchemaType.STRING },
+            method: { type: SchemaType.STRING }
+        },
+        required: ["source"]
+    }
+};
+
+// One statement of the three-statement model (FinancialSection)
+const FINANCIAL_SECTION_SCHEMA: JsonSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        title: { type: SchemaType.STRING },
+        rows: {
+            type: SchemaType.ARRAY,
+            items: {
+                type: SchemaType.OBJECT,
+                properties: {
+                    label: { type: SchemaType.STRING },
+                    values: { type: SchemaType.ARRAY, items: { type: SchemaType.NUMBER } },
+                    provenance: PROVENANCE_SCHEMA
+                }
+            }
+        }
+    }
+};
+
+// Management add-back as claimed in a CIM; qoeEngine turns it into a proposal for diligence
+export interface ProposedAddBack {
+    description: string;
+    category: AddBackCategory;
+    amount: number; // $M, negative for deductions
+    runRate?: boolean;
+    supportDocument?: string;
+}
+
+// Diligence Agent: what it reads out of uploaded documents, in millions of their currency
+export interface DocumentAnalysis {
+    companyName: string;
+    sector?: string;
+    currency?: CurrencyCode;
+    ltmDate?: string;
+    ebitda?: number;
+    revenue?: number;
+    askingMultiple?: number;
+    summary: string;
+    addBacks?: ProposedAddBack[];
+    metricSources?: SourcedMetric[];
+    memo: Partial<InvestmentMemo>;
+}
+
+export const DOCUMENT_ANALYSIS_SCHEMA: JsonSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        companyName: { type: SchemaType.STRING },
+        sector: { type: SchemaType.STRING },
+        currency: { type: SchemaType.STRING, enum: CURRENCIES },
+        ltmDate: { type: SchemaType.STRING },
+        ebitda: { type: SchemaType.NUMBER },
+        revenue: { type: SchemaType.NUMBER, minimum: 0 },
+        askingMultiple: { type: SchemaType.NUMBER, minimum: 0, maximum: 100 },
+        summary: { type: SchemaType.STRING },
+        addBacks: {
+            type: SchemaType.ARRAY,
+            items: {
+                type: SchemaType.OBJECT,
+                properties: {
+                    description: { type: SchemaType.STRING },
+                    category: { type: SchemaType.STRING, enum: ["Owner Compensation", "One-Time / Non-Recurring", "Run-Rate Synergies", "Pro Forma Acquisition", "Pricing / Run-Rate Revenue", "Other"] },
+                    amount: { type: SchemaType.NUMBER },
+                    runRate: { type: SchemaType.BOOLEAN },
+                    supportDocument: { type: SchemaType.STRING }
+                },
+                required: ["description", "category", "amount"]
+            }
+        },
+        metricSources: {
+            type: SchemaType.ARRAY,
+            items: {
+                type: SchemaType.OBJECT,
+                properties: {
+                    metric: { type: SchemaType.STRING },
+                    period: { type: SchemaType.STRING },
+                    value: { type: SchemaType.NUMBER },
+                    source: { type: SchemaType.STRING, enum: ["extracted", "estimated"] },
+                    reference: { type: SchemaType.STRING },
+                    method: { type: SchemaType.STRING }
+                },
+                required: ["metric", "value", "source"]
+            }
+        },
+        memo: {
+            type: SchemaType.OBJECT,
+            properties: {
+                executiveSummary: { type: SchemaType.STRING },
+                investmentThesis: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+                keyRisks: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+                marketOverview: { type: SchemaType.STRING },
+                operationalUpside: { type: SchemaType.STRING }
+            }
+        }
+    },
+    required: ["companyName", "summary", "memo"]
+};
+
+// Diligence Agent: one holding read from portfolio sheets; ids and status are filled in when missing
+export type ExtractedPortfolioCompany = Omit<PortfolioCompany, 'id' | 'investmentStatus'> & Partial<Pick<PortfolioCompany, 'id' | 'investmentStatus'>>;
+
+export const PORTFOLIO_COMPANIES_SCHEMA: JsonSchema = {
+    type: SchemaType.ARRAY,
+    items: {
+        type: SchemaType.OBJECT,
+        properties: {
+            id: { type: SchemaType.STRING },
+            name: { type: SchemaType.STRING },
+            sector: { type: SchemaType.STRING },
+            subsector: { type: SchemaType.STRING },
+            location: { type: SchemaType.STRING },
+            fund: { type: SchemaType.STRING },
+            investmentStatus: { type: SchemaType.STRING, enum: ['Active', 'Exited', 'Watchlist'] },
+            entryDate: { type: SchemaType.STRING },
+            exitDate: { type: SchemaType.STRING },
+            ownershipPercentage: { type: SchemaType.NUMBER, minimum: 0, maximum: 100 },
+            boardSeats: { type: SchemaType.NUMBER, minimum: 0 },
+            currency: { type: SchemaType.STRING, enum: CURRENCIES },
+            ltmDate: { type: SchemaType.STRING },
+            revenue: { type: SchemaType.NUMBER, minimum: 0 },
+            ebitda: { type: SchemaType.NUMBER },
+            investedCapital: { type: SchemaType.NUMBER, minimum: 0 },
+            currentValue: { type: SchemaType.NUMBER, minimum: 0 },
+            fairValue: { type: SchemaType.NUMBER, minimum: 0 },
+            cashFlows: {
+                type: SchemaType.ARRAY,
+                items: {
+                    type: SchemaType.OBJECT,
+                    properties: {
+                        date: { type: SchemaType.STRING },
+                        type: { type: SchemaType.STRING, enum: ['call', 'distribution'] },
+                        amount: { type: SchemaType.NUMBER, minimum: 0 }
+                    },
+                    required: ["date", "type", "amount"]
+                }
+            },
+            description: { type: SchemaType.STRING }
+        },
+        required: ["name", "sector", "revenue", "ebitda"]
+    }
+};
+
+// Associate Agent: statements and LBO assumptions only; the engines derive returns, scenarios and covenants.
+// A subtree still invalid after the re-ask is defaulted to undefined and rebuilt by sanitizing.
+export interface DealStructureDraft {
+    companyName: string;
+    sector?: string;
+    currency?: CurrencyCode;
+    ltmDate?: string;
+    ebitda: number;
+    revenue?: number;
+    askingMultiple?: number;
+    impliedValue?: number;
+    financialModels?: { years?: string[]; incomeStatement?: FinancialSection; balanceSheet?: FinancialSection; cashFlow?: FinancialSection };
+    lboAssumptions?: LBOAssumptions;
+    memo?: Partial<InvestmentMemo>;
+}
+
+export const DEAL_STRUCTURE_SCHEMA: JsonSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        companyName: { type: SchemaType.STRING },
+        sector: { type: SchemaType.STRING },
+        currency: { type: SchemaType.STRING, enum: CURRENCIES },
+        ltmDate: { type: SchemaType.STRING },
+        ebitda: { type: SchemaType.NUMBER },
+        revenue: { type: SchemaType.NUMBER, minimum: 0 },
+        askingMultiple: { type: SchemaType.NUMBER, minimum: 0, maximum: 100 },
+        impliedValue: { type: SchemaType.NUMBER, minimum: 0 },
+        financialModels: {
+            type: SchemaType.OBJECT,
+            properties: {
+                years: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+                incomeStatement: FINANCIAL_SECTION_SCHEMA,
+                balanceSheet: FINANCIAL_SECTION_SCHEMA,
+                cashFlow: FINANCIAL_SECTION_SCHEMA
+            }
+        },
+        lboAssumptions: {
+            type: SchemaType.OBJECT,
+            properties: {
+                entryMultiple: { type: SchemaType.NUMBER, minimum: 0, maximum: 100 },
+                exitMultiple: { type: SchemaType.NUMBER, minimum: 0, maximum: 100 },
+                leverageMultiple: { type: SchemaType.NUMBER, minimum: 0, maximum: 15 },
+                interestRate: { type: SchemaType.NUMBER, minimum: 0, maximum: 30 },
+                amortizationRate: { type: SchemaType.NUMBER, minimum: 0, maximum: 100 },
+                cashSweepPct: { type: SchemaType.NUMBER, minimum: 0, maximum: 100 },
+                holdPeriod: { type: SchemaType.NUMBER, minimum: 1, maximum: 15 },
+                transactionFeesPct: { type: SchemaType.NUMBER, minimum: 0, maximum: 20 },
+                taxRate: { type: SchemaType.NUMBER, minimum: 0, maximum: 60 },
+                baseRate: { type: SchemaType.NUMBER, minimum: 0, maximum: 20 },
+                tranches: {
+                    type: SchemaType.ARRAY,
+                    items: {
+                        type: SchemaType.OBJECT,
+                        properties: {
+                            name: { type: SchemaType.STRING },
+                            type: { type: SchemaType.STRING, enum: ["Revolver", "Term Loan A", "Term Loan B", "Second Lien", "Mezzanine", "Seller Note"] },
+                            amountMultiple: { type: SchemaType.NUMBER, minimum: 0, maximum: 15 },
+                            commitmentMultiple: { type: SchemaType.NUMBER, minimum: 0, maximum: 15 },
+                            rateType: { type: SchemaType.STRING, enum: ["fixed", "floating"] },
+                            rate: { type: SchemaType.NUMBER, minimum: 0, maximum: 30 },
+                            floor: { type: SchemaType.NUMBER, minimum: 0, maximum: 20 },
+                            pikRate: { type: SchemaType.NUMBER, minimum: 0, maximum: 30 },
+                            pikToggle: { type: SchemaType.BOOLEAN },
+                            amortizationRate: { type: SchemaType.NUMBER, minimum: 0, maximum: 100 },
+                            upfrontFeePct: { type: SchemaType.NUMBER, minimum: 0, maximum: 20 },
+                            sweepPriority: { type: SchemaType.NUMBER, minimum: 0 }
+                        },
+                        required: ["type", "amountMultiple", "rateType", "rate"]
+                    }
+                }
+            },
+            required: ["entryMultiple", "exitMultiple", "leverageMultiple", "interestRate", "holdPeriod"]
+        },
+        memo: {
+            type: SchemaType.OBJECT,
+            properties: {
+                executiveSummary: { type: SchemaType.STRING },
+                investmentRecommendation: { type: SchemaType.STRING, enum: ["GO", "NO-GO", "HOLD"] },
+                recommendationRationale: { type: SchemaType.STRING },
+                dealMerits: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+                investmentThesis: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+                keyRisks: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+                riskMitigation: { type: SchemaType.STRING },
+                marketOverview: { type: SchemaType.STRING },
+                competitiveLandscape: { type: SchemaType.STRING },
+                customerAnalysis: { type: SchemaType.STRING },
+                operationalUpside: { type: SchemaType.STRING }
+            }
+        }
+    },
+    required: ["companyName", "ebitda", "lboAssumptions", "memo", "financialModels"]
+};
@@ -0,0 +1,66 @@
+
+import { CompanyComp } from "../types";
+
+// Illustrative public comps snapshot bundled with the app ($M, LTM). Values are rounded
+// approximations for screening only - import a current dataset from the Market tab for live work.
+export const BUNDLED_COMPS_AS_OF = "Bundled snapshot (illustrative)";
+
+const comp = (ticker: string, name: string, sector: string, enterpriseValue: number, revenue: number, ebitda: number, revenueGrowth: number): CompanyComp => ({
+    ticker,
+    name,
+    sector,
+    enterpriseValue,
+    revenue,
+    ebitda,
+    revenueGrowth,
+    ebitdaMargin: Math.round(ebitda / revenue * 1000) / 10
+});
+
+export const BUNDLED_COMPS: CompanyComp[] = [
+    // Healthcare Services
+    comp("EHC", "Encompass Health", "Healthcare Services", 13500, 5200, 1050, 10),
+    comp("AMN", "AMN Healthcare", "Healthcare Services", 3200, 3000, 330, -20),
+    comp("ENSG", "Ensign Group", "Healthcare Services", 8600, 4100, 420, 14),
+    comp("USPH", "U.S. Physical Therapy", "Healthcare Services", 1600, 640, 85, 9),
+    comp("ADUS", "Addus HomeCare", "Healthcare Services", 2200, 1150, 120, 8),
+    comp("OPCH", "Option Care Health", "Healthcare Services", 6500, 4900, 440, 14),
+    comp("CCRN", "Cross Country Healthcare", "Healthcare Services", 500, 1400, 45, -30),
+    comp("PNTG", "Pennant Group", "Healthcare Services", 950, 640, 50, 20),
+
+    // Industrials
+    comp("WSO", "Watsco", "Industrials", 19000, 7300, 800, 2),
+    comp("FAST", "Fastenal", "Industrials", 44000, 7500, 1650, 3),
+    comp("MSM", "MSC Industrial", "Industrials", 5200, 3800, 460, -5),
+    comp("DXPE", "DXP Enterprises", "Industrials", 1300, 1750, 180, 5),
+    comp("TRNS", "Transcat", "Industrials", 850, 270, 45, 7),
+    comp("ALG", "Alamo Group", "Industrials", 2400, 1650, 240, -2),
+    comp("EPAC", "Enerpac Tool Group", "Industrials", 2600, 600, 150, 2),
+    comp("CIR", "CIRCOR International", "Industrials", 1250, 820, 120, 4),
+
+    // B2B Software
+    comp("TYL", "Tyler Technologies", "B2B Software", 24000, 2100, 560, 9),
+    comp("MANH", "Manhattan Associates", "B2B Software", 16000, 1040, 300, 12),
+    comp("APPF", "AppFolio", "B2B Software", 8000, 790, 180, 28),
+    comp("QLYS", "Qualys", "B2B Software", 4700, 600, 260, 9),
+    comp("AMSWA", "American Software", "B2B Software", 300, 110, 18, 2),
+    comp("AGYS", "Agilysys", "B2B Software", 2500, 260, 45, 19),
+    comp("PRGS", "Progress Software", "B2B Software", 4100, 750, 300, 14),
+    comp("EVCM", "EverCommerce", "B2B Software", 2500, 690, 170, 3),
+
+    // Business Services
+    comp("FCN", "FTI Consulting", "Business Services", 7200, 3700, 420, 6),
+    comp("EXPO", "Exponent", "Business Services", 4600, 540, 150, 4),
+    comp("CRAI", "CRA International", "Business Services", 1300, 680, 80, 9),
+    comp("HURN", "Huron Consulting", "Business Services", 2400, 1450, 180, 9),
+    comp("BCO", "Brink's", "Business Services", 7500, 5000, 950, 3),
+    comp("ABM", "ABM Industries", "Business Services", 4600, 8300, 530, 2),
+    comp("HCKT", "Hackett Group", "Business Services", 700, 310, 55, 3),
+
+    // Consumer
+    comp("BOOT", "Boot Barn", "Consumer", 4300, 1850, 300, 11),
+    comp("YETI", "YETI Holdings", "Consumer", 3100, 1800, 330, 9),
+    comp("PLNT", "Planet Fitness", "Consumer", 9000, 1150, 480, 8),
+    comp("FWRG", "First Watch Restaurant Group", "Consumer", 1600, 1000, 110, 15),
+    comp("LOVE", "Lovesac", "Consumer", 350, 700, 40, 0),
+    comp("XPEL", "XPEL", "Consumer", 1100, 420, 85, 6)
+];
@@ -0,0 +1,230 @@
+
+import * as XLSX from "xlsx";
+import { CompanyComp, CompsAnalysis, CompsPeer, CompsStats, DealData, FxTable } from "../types";
+import { BUNDLED_COMPS, BUNDLED_COMPS_AS_OF } from "./compsDataset";
+import { convertMoney, resolveFxTable } from "./fxEngine";
+
+export interface CompsDataset {
+    asOf: string;
+    companies: CompanyComp[];
+}
+
+const STORAGE_KEY = 'didi_compsDataset';
+
+// Peers kept by the automatic screen
+export const DEFAULT_PEER_COUNT = 8;
+
+// Keywords that map a free-text deal sector onto the dataset's sector buckets
+const SECTOR_KEYWORDS: Record<string, string[]> = {
+    'Healthcare Services': ['health', 'healthcare', 'medical', 'dental', 'clinic', 'physician', 'hospital', 'care', 'therapy', 'pharmacy', 'veterinary'],
+    'Industrials': ['industrial', 'industrials', 'manufacturing', 'distribution', 'equipment', 'hvac', 'engineering', 'aerospace', 'machinery', 'tools'],
+    'B2B Software': ['software', 'saas', 'tech', 'technology', 'platform', 'cloud', 'data', 'cyber', 'analytics'],
+    'Business Services': ['consulting', 'outsourcing', 'staffing', 'facilities', 'testing', 'compliance', 'advisory'],
+    'Consumer': ['consumer', 'retail', 'restaurant', 'brand', 'fitness', 'apparel', 'food', 'beverage', 'ecommerce', 'franchise']
+};
+
+// Header aliases accepted when importing a comps sheet
+const COLUMN_ALIASES: Record<keyof CompanyComp, string[]> = {
+    ticker: ['ticker', 'symbol'],
+    name: ['name', 'company', 'company name'],
+    sector: ['sector', 'industry'],
+    enterpriseValue: ['ev', 'enterprise value', 'enterprisevalue', 'tev'],
+    revenue: ['revenue', 'sales', 'ltm revenue'],
+    ebitda: ['ebitda', 'ltm ebitda'],
+    revenueGrowth: ['growth', 'revenue growth', 'rev growth', 'revenuegrowth'],
+    ebitdaMargin: ['margin', 'ebitda margin', 'ebitdamargin']
+};
+
+const round = (value: number, decimals: number = 1): number => {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+};
+
+// Words too generic to signal a sector match ("Healthcare Services" vs "Business Services")
+const STOP_WORDS = ['services', 'service', 'and', 'the', 'group', 'other', 'solutions'];
+
+const tokenize = (text: string): string[] =>
+    (text || '').toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 2 && !STOP_WORDS.includes(t));
+
+export const getBundledDataset = (): CompsDataset => ({ asOf: BUNDLED_COMPS_AS_OF, companies: BUNDLED_COMPS });
+
+/**
+ * The imported dataset if one was saved, otherwise the bundled snapshot.
+ */
+export const loadCompsDataset = (): CompsDataset => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (saved) {
+            const parsed = JSON.parse(saved);
+            if (Array.isArray(parsed?.companies) && parsed.companies.length > 0) return parsed;
+        }
+    } catch (e) { }
+    return getBundledDataset();
+};
+
+export const saveCompsDataset = (dataset: CompsDataset | null) => {
+    try {
+        if (dataset) localStorage.setItem(STORAGE_KEY, JSON.stringify(dataset));
+        else localStorage.removeItem(STORAGE_KEY);
+    } catch (e) { }
+};
+
+// Spreadsheet cell to number; "$1,200", "12.5x" and "35%" all parse, blanks are NaN
+export const toNumber = (value: any): number => {
+    if (typeof value === 'number') return value;
+    const parsed = parseFloat(String(value ?? '').replace(/[$,%x\s]/gi, ''));
+    return isFinite(parsed) ? parsed : NaN;
+};
+
+/**
+ * Reads the first sheet of a CSV/XLSX comps file. Rows without EV or revenue are dropped;
+ * a missing margin is derived from EBITDA / revenue.
+ */
+export const parseCompsWorkbook = (buffer: ArrayBuffer, sourceName: string): CompsDataset => {
+    const workbook = XLSX.read(buffer, { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const rows = XLSX.utils.sheet_to_json<Record<string, any>>(sheet, { defval: '' });
+
+    const companies = rows.map(row => {
+        const normalized: Record<string, any> = {};
+        // "EV ($M)" and "ebitda_margin" both normalize to their plain alias
+        Object.keys(row).forEach(key => { normalized[key.toLowerCase().replace(/\(.*?\)/g, '').replace(/[_$%]/g, ' ').replace(/\s+/g, ' ').trim()] = row[key]; });
+        const read = (field: keyof CompanyComp) => {
+            const alias = COLUMN_ALIASES[field].find(a => normalized[a] !== undefined && normalized[a] !== '');
+            return alias ? normalized[alias] : undefined;
+        };
+
+        const revenue = toNumber(read('revenue'));
+        const ebitda = toNumber(read('ebitda'));
+        const margin = toNumber(read('ebitdaMargin'));
+        return {
+            ticker: String(read('ticker') ?? '').trim().toUpperCase(),
+            name: String(read('name') ?? read('ticker') ?? '').trim(),
+            sector: String(read('sector') ?? 'Other').trim() || 'Other',
+            enterpriseValue: toNumber(read('enterpriseValue')),
+            revenue,
+            ebitda,
+            revenueGrowth: toNumber(read('revenueGrowth')) || 0,
+            ebitdaMargin: isFinite(margin) ? margin : revenue > 0 && isFinite(ebitda) ? round(ebitda / revenue * 100) : 0
+        } as CompanyComp;
+    }).filter(c => c.name && isFinite(c.enterpriseValue) && c.enterpriseValue > 0 && isFinite(c.revenue) && c.revenue > 0);
+
+    if (companies.length === 0) throw new Error("No comparable companies found. Expected columns: Ticker, Name, Sector, EV, Revenue, EBITDA, Growth, Margin.");
+    return { asOf: `Imported: ${sourceName}`, companies };
+};
+
+/**
+ * 0-1 overlap between a deal sector and a dataset sector, via direct tokens and keyword buckets.
+ */
+export const sectorFit = (dealSector: string, compSector: string): number => {
+    if (dealSector.trim().toLowerCase() === compSector.trim().toLowerCase()) return 1;
+    const dealTokens = tokenize(dealSector);
+    const compTokens = tokenize(compSector);
+    if (dealTokens.length === 0) return 0;
+    if (dealTokens.some(t => compTokens.includes(t))) return 0.8;
+    const keywords = SECTOR_KEYWORDS[compSector] || [];
+    return dealTokens.some(t => keywords.some(k => t.startsWith(k) || k.startsWith(t))) ? 0.6 : 0;
+};
+
+type PeerScreenInput = Pick<DealData, 'sector' | 'revenue' | 'currency' | 'unitScale' | 'ltmDate'>;
+
+/**
+ * 1 at equal revenue, falling by half for every ~10x difference in scale. Both figures in USD $M.
+ */
+const sizeFit = (dealRevenue: number, compRevenue: number): number => {
+    if (!(dealRevenue > 0) || !(compRevenue > 0)) return 0.5;
+    return 1 / (1 + Math.abs(Math.log10(compRevenue / dealRevenue)));
+};
+
+/**
+ * Screens the dataset by sector first and size second. If too few sector peers exist the
+ * remainder is filled by size alone so the stats still have a sample. Deal revenue is restated
+ * in USD millions at the LTM-date rate to match the dataset.
+ */
+export const selectPeers = (data: PeerScreenInput, companies: CompanyComp[], fx: FxTable = resolveFxTable(), count: number = DEFAULT_PEER_COUNT): CompsPeer[] => {
+    const dealRevenue = convertMoney(data.revenue || 0, data, 'USD', fx, data.ltmDate);
+    const scored = companies.map(c => {
+        const sector = sectorFit(data.sector || '', c.sector);
+        return { comp: c, sector, similarity: round(sector * 0.6 + sizeFit(dealRevenue, c.revenue) * 0.4, 2) };
+    });
+
+    // Closer sector matches always rank ahead, so a shared generic token like "services" can't crowd out exact peers
+    const inSector = scored.filter(s => s.sector > 0).sort((a, b) => b.sector - a.sector || b.similarity - a.similarity);
+    const fill = inSector.length >= count
+        ? []
+        : scored.filter(s => s.sector === 0).sort((a, b) => b.similarity - a.similarity).slice(0, count - inSector.length);
+
+    return [...inSector.slice(0, count), ...fill].map(s => ({ ...s.comp, included: true, similarity: s.similarity }));
+};
+
+const quantile = (sorted: number[], p: number): number => {
+    if (sorted.length === 0) return 0;
+    const index = p * (sorted.length - 1);
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+export const computeStats = (values: number[]): CompsStats => {
+    const sorted = values.filter(v => isFinite(v)).sort((a, b) => a - b);
+    if (sorted.length === 0) return { count: 0, mean: 0, median: 0, p25: 0, p75: 0, min: 0, max: 0 };
+    return {
+        count: sorted.length,
+        mean: round(sorted.reduce((a, b) => a + b, 0) / sorted.length, 2),
+        median: round(quantile(sorted, 0.5), 2),
+        p25: round(quantile(sorted, 0.25), 2),
+        p75: round(quantile(sorted, 0.75), 2),
+        min: round(sorted[0], 2),
+        max: round(sorted[sorted.length - 1], 2)
+    };
+};
+
+export const evRevenueOf = (c: CompanyComp) => c.revenue > 0 ? c.enterpriseValue / c.revenue : NaN;
+
+// Negative or negligible EBITDA makes the multiple meaningless, so those peers are left out of the EBITDA stats
+export const evEbitdaOf = (c: CompanyComp) => c.ebitda > 0 ? c.enterpriseValue / c.ebitda : NaN;
+
+/**
+ * Recomputes statistics over the included peers only.
+ */
+export const summarizePeers = (peers: CompsPeer[], datasetAsOf: string): CompsAnalysis => {
+    const included = peers.filter(p => p.included);
+    return {
+        peers,
+        evRevenue: computeStats(included.map(evRevenueOf)),
+        evEbitda: computeStats(included.map(evEbitdaOf)),
+        datasetAsOf
+    };
+};
+
+export const buildCompsAnalysis = (data: PeerScreenInput, dataset: CompsDataset = loadCompsDataset(), fx?: FxTable): CompsAnalysis =>
+    summarizePeers(selectPeers(data, dataset.companies, fx), dataset.asOf);
+
+// By position: imported sheets may leave tickers blank, so they can't identify a peer
+export const setPeerIncluded = (analysis: CompsAnalysis, index: number, included: boolean): CompsAnalysis =>
+    summarizePeers(analysis.peers.map((p, i) => i === index ? { ...p, included } : p), analysis.datasetAsOf);
+
+/**
+ * Legacy name / EV-EBITDA list still read by charts and deliverable prompts.
+ */
+export const toComparables = (analysis: CompsAnalysis): { name: string; multiple: number }[] =>
+    analysis.peers
+        .filter(p => p.included && isFinite(evEbitdaOf(p)))
+        .map(p => ({ name: p.name, multiple: round(evEbitdaOf(p)) }));
+
+/**
+ * Deal fields to merge after a comps refresh.
+ */
+export const applyComps = (analysis: CompsAnalysis): Pick<DealData, 'comps' | 'comparables'> => ({
+    comps: analysis,
+    comparables: toComparables(analysis)
+});
+
+/**
+ * Implied enterprise value range at the peer interquartile EV/EBITDA.
+ */
+export const impliedValueRange = (analysis: CompsAnalysis, ebitda: number): { low: number; mid: number; high: number } => ({
+    low: round(analysis.evEbitda.p25 * ebitda),
+    mid: round(analysis.evEbitda.median * ebitda),
+    high: round(analysis.evEbitda.p75 * ebitda)
+});
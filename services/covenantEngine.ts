@@ -0,0 +1,136 @@
+
+import { CovenantSet, DealData } from "../types";
+import { formatMoney, MoneyBasis } from "./fxEngine";
+import { computeDealLBO, LBOResult, resolveLBOAssumptions } from "./lboEngine";
+import { computeScenarioLBO, resolveScenarios } from "./scenarioEngine";
+
+export type CovenantKey = keyof CovenantSet;
+
+export interface CovenantTest {
+    covenant: CovenantKey;
+    actual: number;
+    threshold: number;
+    headroomPct: number; // EBITDA (or CapEx) cushion before breach; negative = breached
+    breached: boolean;
+}
+
+export interface CovenantTestYear {
+    year: string;
+    tests: CovenantTest[];
+}
+
+// unit 'money' thresholds are in the deal's currency and scale
+export const COVENANT_META: Record<CovenantKey, { label: string; unit: 'x' | 'money'; step: number; bound: 'max' | 'min' }> = {
+    maxTotalLeverage: { label: 'Max Total Leverage', unit: 'x', step: 0.25, bound: 'max' },
+    minInterestCoverage: { label: 'Min Interest Coverage', unit: 'x', step: 0.25, bound: 'min' },
+    minFixedChargeCoverage: { label: 'Min Fixed Charge Coverage', unit: 'x', step: 0.05, bound: 'min' },
+    maxCapex: { label: 'Max CapEx', unit: 'money', step: 0.5, bound: 'max' }
+};
+
+export const COVENANT_KEYS = Object.keys(COVENANT_META) as CovenantKey[];
+
+// Prefix lets a recomputed risk line replace the previous one in memo.keyRisks
+export const COVENANT_RISK_PREFIX = 'Covenant breach (downside case):';
+
+const round = (value: number, decimals: number = 2): number => {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+};
+
+const roundUpTo = (value: number, increment: number) => Math.ceil(value / increment) * increment;
+
+/**
+ * Lender-style opening package: roughly 25-30% cushion to the base case.
+ */
+export const buildDefaultCovenants = (data: DealData): CovenantSet => {
+    const assumptions = resolveLBOAssumptions(data);
+    const result = computeDealLBO(data);
+    const peakCapex = Math.max(0, ...result.schedule.map(y => y.capex));
+    return {
+        maxTotalLeverage: roundUpTo(Math.max(1, assumptions.leverageMultiple) * 1.3, 0.25),
+        minInterestCoverage: 2.0,
+        minFixedChargeCoverage: 1.1,
+        maxCapex: peakCapex > 0 ? roundUpTo(peakCapex * 1.25, 0.5) : undefined
+    };
+};
+
+export const resolveCovenants = (data: DealData): CovenantSet => data.covenants || buildDefaultCovenants(data);
+
+/**
+ * Tests every projected year of an LBO result. Coverage ratios with no charge to cover pass
+ * with full headroom.
+ */
+export const testCovenants = (result: LBOResult, covenants: CovenantSet): CovenantTestYear[] =>
+    result.schedule.map(y => {
+        const fixedCharges = y.interest + y.mandatoryRepayment;
+        const actuals: Record<CovenantKey, number> = {
+            maxTotalLeverage: y.ebitda > 0 ? y.closingDebt / y.ebitda : Infinity,
+            minInterestCoverage: y.interest > 0 ? y.ebitda / y.interest : Infinity,
+            minFixedChargeCoverage: fixedCharges > 0 ? (y.ebitda - y.capex - y.taxes) / fixedCharges : Infinity,
+            maxCapex: y.capex
+        };
+
+        const tests = COVENANT_KEYS
+            .filter(key => typeof covenants[key] === 'number' && covenants[key]! > 0)
+            .map(key => {
+                const threshold = covenants[key]!;
+                const actual = actuals[key];
+                const bound = COVENANT_META[key].bound;
+                const headroom = !isFinite(actual)
+                    ? (bound === 'min' ? 1 : -1)
+                    : bound === 'max'
+                        ? 1 - actual / threshold
+                        : actual > 0 ? 1 - threshold / actual : -1;
+                return {
+                    covenant: key,
+                    actual: isFinite(actual) ? round(actual) : actual,
+                    threshold,
+                    headroomPct: round(headroom * 100, 1),
+                    breached: bound === 'max' ? actual > threshold : actual < threshold
+                };
+            });
+
+        return { year: y.year, tests };
+    });
+
+export const computeDealCovenantTests = (data: DealData): CovenantTestYear[] =>
+    testCovenants(computeDealLBO(data), resolveCovenants(data));
+
+export const formatCovenantValue = (covenant: CovenantKey, value: number, basis: MoneyBasis = {}): string => {
+    if (!isFinite(value)) return 'n/m';
+    return COVENANT_META[covenant].unit === 'money' ? formatMoney(value, basis) : `${value.toFixed(2)}x`;
+};
+
+/**
+ * First breach of each covenant, in the order they occur.
+ */
+export const describeBreaches = (years: CovenantTestYear[], basis: MoneyBasis = {}): string[] => {
+    const seen = new Set<CovenantKey>();
+    const lines: string[] = [];
+    years.forEach(y => y.tests.forEach(test => {
+        if (!test.breached || seen.has(test.covenant)) return;
+        seen.add(test.covenant);
+        lines.push(`${COVENANT_META[test.covenant].label} ${formatCovenantValue(test.covenant, test.threshold, basis)} breached in ${y.year} (${formatCovenantValue(test.covenant, test.actual, basis)}, ${test.headroomPct}% headroom)`);
+    }));
+    return lines;
+};
+
+/**
+ * Risk line for memo.keyRisks when the downside scenario trips a covenant; undefined if it holds.
+ */
+export const buildDownsideCovenantRisk = (data: DealData): string | undefined => {
+    if (!data.financialModels) return undefined;
+    const downside = resolveScenarios(data).find(s => s.kind === 'downside');
+    if (!downside) return undefined;
+    const breaches = describeBreaches(testCovenants(computeScenarioLBO(data, downside), resolveCovenants(data)), data);
+    if (breaches.length === 0) return undefined;
+    return `${COVENANT_RISK_PREFIX} ${breaches.join('; ')}.`;
+};
+
+/**
+ * Replaces any previous covenant risk line with the current one (or drops it if the downside now holds).
+ */
+export const mergeCovenantRisk = (keyRisks: string[], risk: string | undefined): string[] => [
+    ...keyRisks.filter(r => !r.startsWith(COVENANT_RISK_PREFIX)),
+    ...(risk ? [risk] : [])
+];
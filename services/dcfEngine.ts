@@ -0,0 +1,239 @@
+
+import { DCFAssumptions, DealData, FinancialSection } from "../types";
+import { extendProjection, extractOperatingProjection, resolveLBOAssumptions } from "./lboEngine";
+import { DEFAULT_BASE_RATE } from "./debtEngine";
+
+export interface WACCBuild {
+    costOfEquity: number; // %
+    afterTaxCostOfDebt: number; // %
+    equityWeight: number; // %
+    debtWeight: number; // %
+    wacc: number; // %
+}
+
+export interface DCFYear {
+    year: string;
+    revenue: number;
+    ebitda: number;
+    depreciation: number;
+    ebit: number;
+    taxes: number;
+    nopat: number;
+    capex: number;
+    nwcChange: number;
+    unleveredFcf: number;
+    discountFactor: number;
+    presentValue: number;
+}
+
+export interface TerminalValue {
+    terminalValue: number;
+    presentValue: number;
+    enterpriseValue: number;
+    impliedMultiple: number; // x terminal-year EBITDA
+    impliedGrowth: number; // % perpetual growth
+}
+
+export interface DCFResult {
+    assumptions: DCFAssumptions;
+    wacc: WACCBuild;
+    years: DCFYear[];
+    sumOfPresentValues: number;
+    gordon: TerminalValue;
+    exitMultiple: TerminalValue;
+    enterpriseValue: number; // using the selected terminal method
+    impliedEbitdaMultiple: number; // EV / LTM EBITDA
+}
+
+export interface DCFSensitivity {
+    waccValues: number[];
+    growthValues: number[];
+    cells: number[][]; // [wacc][growth] enterprise value, NaN where WACC <= g
+}
+
+export const DCF_FIELDS: { key: Exclude<keyof DCFAssumptions, 'terminalMethod'>; label: string; suffix: string; step: number }[] = [
+    { key: 'riskFreeRate', label: 'Risk-Free Rate', suffix: '%', step: 0.25 },
+    { key: 'beta', label: 'Levered Beta', suffix: 'β', step: 0.05 },
+    { key: 'equityRiskPremium', label: 'Equity Risk Premium', suffix: '%', step: 0.25 },
+    { key: 'sizePremium', label: 'Size Premium', suffix: '%', step: 0.25 },
+    { key: 'preTaxCostOfDebt', label: 'Pre-Tax Cost of Debt', suffix: '%', step: 0.25 },
+    { key: 'taxRate', label: 'Tax Rate', suffix: '%', step: 1 },
+    { key: 'debtWeight', label: 'Target Debt / Cap', suffix: '%', step: 5 },
+    { key: 'terminalGrowth', label: 'Terminal Growth', suffix: '%', step: 0.25 },
+    { key: 'terminalMultiple', label: 'Terminal Multiple', suffix: 'x', step: 0.25 }
+];
+
+// Projection horizon used when the 3-statement model only carries LTM
+const DEFAULT_DCF_YEARS = 5;
+
+const round = (value: number, decimals: number = 1): number => {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+};
+
+/**
+ * DCF inputs, defaulting the cost of debt, tax rate and exit multiple to the deal's LBO.
+ */
+export const resolveDCFAssumptions = (data: DealData): DCFAssumptions => {
+    const lbo = resolveLBOAssumptions(data);
+    const proposed = data.dcfAssumptions || {};
+    const pick = (value: any, fallback: number) => (typeof value === 'number' && isFinite(value) ? value : fallback);
+    return {
+        riskFreeRate: pick(proposed.riskFreeRate, DEFAULT_BASE_RATE),
+        beta: pick(proposed.beta, 1.1),
+        equityRiskPremium: pick(proposed.equityRiskPremium, 5.5),
+        sizePremium: pick(proposed.sizePremium, 2.0),
+        preTaxCostOfDebt: pick(proposed.preTaxCostOfDebt, lbo.interestRate),
+        taxRate: pick(proposed.taxRate, lbo.taxRate),
+        debtWeight: pick(proposed.debtWeight, 30),
+        terminalMethod: proposed.terminalMethod === 'exitMultiple' ? 'exitMultiple' : 'gordon',
+        terminalGrowth: pick(proposed.terminalGrowth, 2.5),
+        terminalMultiple: pick(proposed.terminalMultiple, lbo.exitMultiple)
+    };
+};
+
+/**
+ * CAPM cost of equity blended with after-tax cost of debt at the target capital structure.
+ */
+export const computeWACC = (a: DCFAssumptions): WACCBuild => {
+    const debtWeight = Math.min(100, Math.max(0, a.debtWeight));
+    const equityWeight = 100 - debtWeight;
+    const costOfEquity = a.riskFreeRate + a.beta * a.equityRiskPremium + a.sizePremium;
+    const afterTaxCostOfDebt = a.preTaxCostOfDebt * (1 - a.taxRate / 100);
+    return {
+        costOfEquity,
+        afterTaxCostOfDebt,
+        equityWeight,
+        debtWeight,
+        wacc: (equityWeight * costOfEquity + debtWeight * afterTaxCostOfDebt) / 100
+    };
+};
+
+/**
+ * Unlevered free cash flow for each projected year, discounted at end of year.
+ */
+const buildDCFYears = (data: DealData, a: DCFAssumptions, wacc: number): DCFYear[] => {
+    const base = extractOperatingProjection(data);
+    const projection = base.years.length > 1 ? base : extendProjection(base, DEFAULT_DCF_YEARS);
+
+    return projection.years.slice(1).map((year, idx) => {
+        const t = idx + 1;
+        const ebitda = projection.ebitda[t];
+        const depreciation = projection.depreciation[t];
+        const ebit = ebitda - depreciation;
+        const taxes = Math.max(0, ebit * a.taxRate / 100);
+        const nopat = ebit - taxes;
+        const capex = projection.capex[t];
+        const nwcChange = projection.nwcChange[t];
+        const unleveredFcf = nopat + depreciation - capex + nwcChange;
+        const discountFactor = 1 / Math.pow(1 + wacc / 100, t);
+        return {
+            year,
+            revenue: projection.revenue[t],
+            ebitda,
+            depreciation,
+            ebit,
+            taxes,
+            nopat,
+            capex,
+            nwcChange,
+            unleveredFcf,
+            discountFactor,
+            presentValue: unleveredFcf * discountFactor
+        };
+    });
+};
+
+/**
+ * Full DCF. Both terminal methods are always computed so each can cross-check the other.
+ */
+export const runDCF = (data: DealData, overrides?: Partial<DCFAssumptions>, waccOverride?: number): DCFResult => {
+    const assumptions = { ...resolveDCFAssumptions(data), ...(overrides || {}) };
+    const build = computeWACC(assumptions);
+    const wacc = waccOverride !== undefined ? { ...build, wacc: waccOverride } : build;
+    const r = wacc.wacc / 100;
+    const g = assumptions.terminalGrowth / 100;
+
+    const years = buildDCFYears(data, assumptions, wacc.wacc);
+    const sumOfPresentValues = years.reduce((acc, y) => acc + y.presentValue, 0);
+    const last = years[years.length - 1];
+    const finalDiscount = last?.discountFactor ?? 1;
+    const finalFcf = last?.unleveredFcf ?? 0;
+    const finalEbitda = last?.ebitda ?? 0;
+
+    // Gordon growth is undefined when WACC <= g
+    const gordonTV = r > g ? finalFcf * (1 + g) / (r - g) : NaN;
+    const exitTV = finalEbitda * assumptions.terminalMultiple;
+    // Growth implied by the exit multiple: TV = FCF(1+g)/(r-g) solved for g
+    const impliedGrowth = exitTV + finalFcf !== 0 ? (exitTV * r - finalFcf) / (exitTV + finalFcf) : NaN;
+
+    const gordon: TerminalValue = {
+        terminalValue: gordonTV,
+        presentValue: gordonTV * finalDiscount,
+        enterpriseValue: sumOfPresentValues + gordonTV * finalDiscount,
+        impliedMultiple: finalEbitda ? gordonTV / finalEbitda : NaN,
+        impliedGrowth: assumptions.terminalGrowth
+    };
+    const exitMultiple: TerminalValue = {
+        terminalValue: exitTV,
+        presentValue: exitTV * finalDiscount,
+        enterpriseValue: sumOfPresentValues + exitTV * finalDiscount,
+        impliedMultiple: assumptions.terminalMultiple,
+        impliedGrowth: impliedGrowth * 100
+    };
+
+    const enterpriseValue = assumptions.terminalMethod === 'exitMultiple' ? exitMultiple.enterpriseValue : gordon.enterpriseValue;
+    const ltmEbitda = extractOperatingProjection(data).ebitda[0];
+
+    return {
+        assumptions,
+        wacc,
+        years,
+        sumOfPresentValues,
+        gordon,
+        exitMultiple,
+        enterpriseValue,
+        impliedEbitdaMultiple: ltmEbitda ? enterpriseValue / ltmEbitda : 0
+    };
+};
+
+/**
+ * Enterprise value across WACC x terminal growth, always on the Gordon method.
+ */
+export const computeDCFSensitivity = (data: DealData, waccStep: number = 1, growthStep: number = 0.5, count: number = 5): DCFSensitivity => {
+    const base = runDCF(data);
+    const half = Math.floor((count - 1) / 2);
+    const axis = (center: number, step: number) => Array.from({ length: count }, (_, i) => round(center + (i - half) * step, 2));
+    const waccValues = axis(base.wacc.wacc, waccStep);
+    const growthValues = axis(base.assumptions.terminalGrowth, growthStep);
+
+    const cells = waccValues.map(w => growthValues.map(g =>
+        runDCF(data, { terminalGrowth: g, terminalMethod: 'gordon' }, w).gordon.enterpriseValue
+    ));
+
+    return { waccValues, growthValues, cells };
+};
+
+/**
+ * UFCF build in the FinancialTable shape.
+ */
+export const toDCFSection = (result: DCFResult): FinancialSection => {
+    const y = result.years;
+    return {
+        title: "Unlevered Free Cash Flow",
+        rows: [
+            { label: "Revenue", values: y.map(v => round(v.revenue)) },
+            { label: "EBITDA", values: y.map(v => round(v.ebitda)) },
+            { label: "Less: D&A", values: y.map(v => round(-v.depreciation)) },
+            { label: "EBIT", values: y.map(v => round(v.ebit)) },
+            { label: "Less: Taxes on EBIT", values: y.map(v => round(-v.taxes)) },
+            { label: "NOPAT", values: y.map(v => round(v.nopat)) },
+            { label: "Plus: D&A", values: y.map(v => round(v.depreciation)) },
+            { label: "Less: CapEx", values: y.map(v => round(-v.capex)) },
+            { label: "Change in NWC", values: y.map(v => round(v.nwcChange)) },
+            { label: "Unlevered FCF", values: y.map(v => round(v.unleveredFcf)) },
+            { label: "Discount Factor", values: y.map(v => round(v.discountFactor, 3)) },
+            { label: "PV of UFCF", values: y.map(v => round(v.presentValue)) }
+        ]
+    };
+};
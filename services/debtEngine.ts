@@ -0,0 +1,115 @@
+
+import { DebtTranche, DebtTrancheType, LBOAssumptions } from "../types";
+
+export const DEFAULT_BASE_RATE = 4.25;
+
+// Market-standard starting points when a tranche is added in the deal room
+export const TRANCHE_PRESETS: Record<DebtTrancheType, Omit<DebtTranche, 'id'>> = {
+    'Revolver': { name: 'Revolver', type: 'Revolver', amountMultiple: 0, commitmentMultiple: 1.0, rateType: 'floating', rate: 3.0, floor: 0.5, amortizationRate: 0, upfrontFeePct: 0.5, sweepPriority: 1 },
+    'Term Loan A': { name: 'Term Loan A', type: 'Term Loan A', amountMultiple: 1.5, rateType: 'floating', rate: 3.0, floor: 0.5, amortizationRate: 10, upfrontFeePct: 1.0, sweepPriority: 2 },
+    'Term Loan B': { name: 'Term Loan B', type: 'Term Loan B', amountMultiple: 3.0, rateType: 'floating', rate: 4.0, floor: 0.5, amortizationRate: 1, upfrontFeePct: 2.0, sweepPriority: 3 },
+    'Second Lien': { name: 'Second Lien', type: 'Second Lien', amountMultiple: 1.0, rateType: 'floating', rate: 7.0, floor: 0.5, amortizationRate: 0, upfrontFeePct: 2.0, sweepPriority: 4 },
+    'Mezzanine': { name: 'Mezzanine', type: 'Mezzanine', amountMultiple: 1.0, rateType: 'fixed', rate: 10.0, pikRate: 2.0, pikToggle: true, amortizationRate: 0, upfrontFeePct: 2.5, sweepPriority: 0 },
+    'Seller Note': { name: 'Seller Note', type: 'Seller Note', amountMultiple: 0.5, rateType: 'fixed', rate: 6.0, pikRate: 0, pikToggle: false, amortizationRate: 0, upfrontFeePct: 0, sweepPriority: 0 }
+};
+
+export const TRANCHE_TYPES = Object.keys(TRANCHE_PRESETS) as DebtTrancheType[];
+
+export const createTranche = (type: DebtTrancheType): DebtTranche => ({
+    id: `${type.replace(/\s+/g, '-').toLowerCase()}-${Date.now().toString(36)}`,
+    ...TRANCHE_PRESETS[type]
+});
+
+/**
+ * Cleans agent-proposed tranches: unknown types fall back to Term Loan B, numbers default to the preset.
+ */
+export const sanitizeTranches = (raw: any[] | undefined): DebtTranche[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw.map((t, i) => {
+        const type: DebtTrancheType = TRANCHE_TYPES.includes(t?.type) ? t.type : 'Term Loan B';
+        const preset = TRANCHE_PRESETS[type];
+        const num = (value: any, fallback: number) => (typeof value === 'number' && isFinite(value) ? value : fallback);
+        return {
+            id: t?.id || `${type.replace(/\s+/g, '-').toLowerCase()}-${i}`,
+            name: t?.name || preset.name,
+            type,
+            amountMultiple: Math.max(0, num(t?.amountMultiple, preset.amountMultiple)),
+            commitmentMultiple: t?.commitmentMultiple !== undefined ? num(t.commitmentMultiple, 0) : preset.commitmentMultiple,
+            rateType: t?.rateType === 'fixed' || t?.rateType === 'floating' ? t.rateType : preset.rateType,
+            rate: num(t?.rate, preset.rate),
+            floor: t?.floor !== undefined ? num(t.floor, 0) : preset.floor,
+            pikRate: t?.pikRate !== undefined ? num(t.pikRate, 0) : preset.pikRate,
+            pikToggle: typeof t?.pikToggle === 'boolean' ? t.pikToggle : preset.pikToggle,
+            amortizationRate: num(t?.amortizationRate, preset.amortizationRate),
+            upfrontFeePct: num(t?.upfrontFeePct, preset.upfrontFeePct),
+            sweepPriority: Math.max(0, Math.round(num(t?.sweepPriority, preset.sweepPriority)))
+        };
+    });
+};
+
+/**
+ * Annual cash coupon % for a tranche (excludes any PIK component).
+ */
+export const trancheCashRate = (tranche: DebtTranche, baseRate: number): number =>
+    tranche.rateType === 'floating' ? Math.max(baseRate, tranche.floor || 0) + tranche.rate : tranche.rate;
+
+/**
+ * All-in coupon including PIK, used for blended cost of debt.
+ */
+export const trancheAllInRate = (tranche: DebtTranche, baseRate: number): number =>
+    trancheCashRate(tranche, baseRate) + (tranche.pikRate || 0);
+
+/**
+ * The tranches the engine actually runs. Deals without a structure get a single senior
+ * term loan built from the flat leverage / rate / amortization assumptions.
+ */
+export const getEffectiveTranches = (assumptions: LBOAssumptions): DebtTranche[] => {
+    if (assumptions.tranches && assumptions.tranches.length > 0) return assumptions.tranches;
+    return [{
+        id: 'senior',
+        name: 'Senior Debt',
+        type: 'Term Loan B',
+        amountMultiple: assumptions.leverageMultiple,
+        rateType: 'fixed',
+        rate: assumptions.interestRate,
+        amortizationRate: assumptions.amortizationRate,
+        upfrontFeePct: 0,
+        sweepPriority: 1
+    }];
+};
+
+/**
+ * Leverage, blended all-in rate and weighted amortization implied by a tranche structure.
+ */
+export const deriveDebtTotals = (tranches: DebtTranche[], baseRate: number): Pick<LBOAssumptions, 'leverageMultiple' | 'interestRate' | 'amortizationRate'> => {
+    const total = tranches.reduce((acc, t) => acc + t.amountMultiple, 0);
+    if (total <= 0) return { leverageMultiple: 0, interestRate: 0, amortizationRate: 0 };
+    const weighted = (fn: (t: DebtTranche) => number) => tranches.reduce((acc, t) => acc + fn(t) * t.amountMultiple, 0) / total;
+    return {
+        leverageMultiple: Math.round(total * 100) / 100,
+        interestRate: Math.round(weighted(t => trancheAllInRate(t, baseRate)) * 100) / 100,
+        amortizationRate: Math.round(weighted(t => t.amortizationRate) * 100) / 100
+    };
+};
+
+/**
+ * Applies flat leverage / cost-of-debt overrides (sensitivities, scenarios, goal-seek) to a
+ * tranche structure: leverage scales every funded tranche, rate shifts every coupon.
+ */
+export const applyDebtOverrides = (assumptions: LBOAssumptions, overrides: Partial<LBOAssumptions>): LBOAssumptions => {
+    const merged = { ...assumptions, ...overrides };
+    if (!assumptions.tranches || assumptions.tranches.length === 0 || overrides.tranches) return merged;
+
+    const baseRate = merged.baseRate ?? DEFAULT_BASE_RATE;
+    let tranches = assumptions.tranches;
+
+    if (overrides.leverageMultiple !== undefined && assumptions.leverageMultiple > 0) {
+        const scale = overrides.leverageMultiple / assumptions.leverageMultiple;
+        tranches = tranches.map(t => ({ ...t, amountMultiple: t.amountMultiple * scale }));
+    }
+    if (overrides.interestRate !== undefined) {
+        const shift = overrides.interestRate - assumptions.interestRate;
+        tranches = tranches.map(t => ({ ...t, rate: t.rate + shift }));
+    }
+    return { ...merged, tranches, ...deriveDebtTotals(tranches, baseRate) };
+};
@@ -0,0 +1,91 @@
+
+import { DealData } from "../types";
+import { computeDealLBO } from "./lboEngine";
+import { computeDCFSensitivity, runDCF } from "./dcfEngine";
+import { PrecedentStats } from "./precedentEngine";
+
+export interface ValuationRange {
+    label: string;
+    low: number; // EV $M
+    high: number;
+    point: number;
+    basis: string; // how the range was derived, for tooltips
+}
+
+/**
+ * Enterprise value ranges by methodology, all on LTM EBITDA. Multiples-based rows use the
+ * interquartile range with the median as the point estimate.
+ */
+export const buildFootballField = (data: DealData, precedents?: PrecedentStats): ValuationRange[] => {
+    const lbo = data.financialModels ? computeDealLBO(data) : null;
+    const ltmEbitda = lbo ? lbo.entryEbitda : data.ebitda;
+    const ranges: ValuationRange[] = [];
+
+    if (precedents && precedents.evEbitda.count > 0) {
+        const s = precedents.evEbitda;
+        ranges.push({
+            label: 'Precedent Transactions',
+            low: s.p25 * ltmEbitda,
+            high: s.p75 * ltmEbitda,
+            point: s.median * ltmEbitda,
+            basis: `${s.count} deals, ${s.p25.toFixed(1)}x - ${s.p75.toFixed(1)}x EV/EBITDA`
+        });
+    }
+
+    if (data.comps && data.comps.evEbitda.count > 0) {
+        const s = data.comps.evEbitda;
+        ranges.push({
+            label: 'Trading Comps',
+            low: s.p25 * ltmEbitda,
+            high: s.p75 * ltmEbitda,
+            point: s.median * ltmEbitda,
+            basis: `${s.count} peers, ${s.p25.toFixed(1)}x - ${s.p75.toFixed(1)}x EV/EBITDA`
+        });
+    } else {
+        // Deals spread before the comps engine only carry a name / multiple list
+        const multiples = (data.comparables || []).map(c => c.multiple).filter(m => m > 0).sort((x, y) => x - y);
+        if (multiples.length) {
+            ranges.push({
+                label: 'Trading Comps',
+                low: multiples[0] * ltmEbitda,
+                high: multiples[multiples.length - 1] * ltmEbitda,
+                point: multiples[Math.floor(multiples.length / 2)] * ltmEbitda,
+                basis: `${multiples.length} peers, ${multiples[0].toFixed(1)}x - ${multiples[multiples.length - 1].toFixed(1)}x EV/EBITDA`
+            });
+        }
+    }
+
+    if (data.financialModels) {
+        const dcf = runDCF(data);
+        const grid = computeDCFSensitivity(data);
+        const gridValues = grid.cells.flat().filter(v => isFinite(v));
+        if (gridValues.length) {
+            ranges.push({
+                label: 'DCF (WACC × g)',
+                low: Math.min(...gridValues),
+                high: Math.max(...gridValues),
+                point: dcf.gordon.enterpriseValue,
+                basis: `WACC ${grid.waccValues[0].toFixed(1)}% - ${grid.waccValues[grid.waccValues.length - 1].toFixed(1)}%, g ${grid.growthValues[0].toFixed(1)}% - ${grid.growthValues[grid.growthValues.length - 1].toFixed(1)}%`
+            });
+        }
+        ranges.push({
+            label: 'DCF (Exit Multiple)',
+            low: dcf.exitMultiple.enterpriseValue,
+            high: dcf.exitMultiple.enterpriseValue,
+            point: dcf.exitMultiple.enterpriseValue,
+            basis: `${dcf.assumptions.terminalMultiple.toFixed(1)}x terminal EBITDA at ${dcf.wacc.wacc.toFixed(1)}% WACC`
+        });
+    }
+
+    if (lbo) {
+        ranges.push({
+            label: 'LBO Entry Value',
+            low: lbo.entryEnterpriseValue,
+            high: lbo.entryEnterpriseValue,
+            point: lbo.entryEnterpriseValue,
+            basis: `${lbo.assumptions.entryMultiple.toFixed(1)}x LTM EBITDA`
+        });
+    }
+
+    return ranges.filter(r => isFinite(r.low) && isFinite(r.high) && isFinite(r.point));
+};
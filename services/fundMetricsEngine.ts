@@ -0,0 +1,285 @@
+
+import * as XLSX from "xlsx";
+import { FundTerms, IndexPoint, PortfolioCashFlow, PortfolioCompany } from "../types";
+import { toIsoDate } from "./precedentEngine";
+import { WaterfallInput, holdingYears, runWaterfall } from "./waterfallEngine";
+
+export interface IndexSeries {
+    name: string;
+    points: IndexPoint[]; // sorted by date
+}
+
+export interface DatedFlow {
+    date: Date;
+    amount: number; // $M, negative = paid in, positive = received
+}
+
+export interface FundMetrics {
+    fund: string;
+    companies: number;
+    paidIn: number; // $M capital called
+    distributed: number; // $M
+    nav: number; // $M unrealized value
+    fees: number; // $M management fees
+    carry: number; // $M GP carry from the fund waterfall, realized and accrued
+    grossIrr: number | null; // %
+    netIrr: number | null; // %
+    grossTvpi: number;
+    tvpi: number; // net to LPs
+    dpi: number;
+    rvpi: number;
+    pme: number | null; // Kaplan-Schoar, on net LP flows
+}
+
+const STORAGE_KEY = 'didi_pmeIndex';
+const UNASSIGNED_FUND = 'Unassigned';
+const YEAR_MS = 365.25 * 24 * 3600 * 1000;
+
+const round = (value: number, decimals: number = 1): number => {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+};
+
+export const loadIndexSeries = (): IndexSeries | null => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (saved) {
+            const parsed = JSON.parse(saved);
+            if (Array.isArray(parsed?.points) && parsed.points.length > 1) return parsed;
+        }
+    } catch (e) { }
+    return null;
+};
+
+export const saveIndexSeries = (series: IndexSeries | null) => {
+    try {
+        if (series) localStorage.setItem(STORAGE_KEY, JSON.stringify(series));
+        else localStorage.removeItem(STORAGE_KEY);
+    } catch (e) { }
+};
+
+/**
+ * Reads a two-column index file (date, level) from the first sheet of a CSV/XLSX. Headers are
+ * matched loosely; without recognised headers the first two columns are used.
+ */
+export const parseIndexWorkbook = (buffer: ArrayBuffer, sourceName: string): IndexSeries => {
+    const workbook = XLSX.read(buffer, { type: 'array', cellDates: true });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const rows = XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1, defval: '' });
+    if (rows.length === 0) throw new Error("Index file is empty.");
+
+    const header = rows[0].map((h: any) => String(h).toLowerCase().trim());
+    const dateCol = header.findIndex((h: string) => h.includes('date') || h === 'as of');
+    const valueCol = header.findIndex((h: string, i: number) => i !== dateCol && ['value', 'close', 'level', 'index', 'price'].some(a => h.includes(a)));
+    const hasHeader = dateCol >= 0 || valueCol >= 0;
+
+    const points: IndexPoint[] = [];
+    rows.slice(hasHeader ? 1 : 0).forEach(row => {
+        const date = toIsoDate(row[dateCol >= 0 ? dateCol : 0]);
+        const raw = row[valueCol >= 0 ? valueCol : 1];
+        const value = typeof raw === 'number' ? raw : parseFloat(String(raw).replace(/[$,\s]/g, ''));
+        if (date && value > 0) points.push({ date, value });
+    });
+
+    if (points.length < 2) throw new Error("No index levels found. Expected columns: Date, Value.");
+    return { name: sourceName.replace(/\.[^.]+$/, ''), points: points.sort((a, b) => a.date.localeCompare(b.date)) };
+};
+
+/**
+ * Index level on a date, interpolated linearly between points and held flat outside the series.
+ */
+export const indexLevelAt = (series: IndexSeries, date: Date): number => {
+    const points = series.points;
+    const t = date.getTime();
+    const time = (p: IndexPoint) => new Date(p.date).getTime();
+    if (t <= time(points[0])) return points[0].value;
+    for (let i = 1; i < points.length; i++) {
+        const t1 = time(points[i]);
+        if (t <= t1) {
+            const t0 = time(points[i - 1]);
+            const w = t1 > t0 ? (t - t0) / (t1 - t0) : 1;
+            return points[i - 1].value + w * (points[i].value - points[i - 1].value);
+        }
+    }
+    return points[points.length - 1].value;
+};
+
+/**
+ * Annualised IRR on irregular dates (XIRR). Newton from 10% with a bisection fallback; null when
+ * the flows never change sign.
+ */
+export const xirr = (flows: DatedFlow[]): number | null => {
+    const valid = flows.filter(f => f.amount !== 0 && !isNaN(f.date.getTime()));
+    if (!valid.some(f => f.amount < 0) || !valid.some(f => f.amount > 0)) return null;
+    const t0 = Math.min(...valid.map(f => f.date.getTime()));
+    const terms = valid.map(f => ({ years: (f.date.getTime() - t0) / YEAR_MS, amount: f.amount }));
+    const npv = (r: number) => terms.reduce((acc, f) => acc + f.amount / Math.pow(1 + r, f.years), 0);
+
+    let rate = 0.1;
+    for (let i = 0; i < 50; i++) {
+        const value = npv(rate);
+        const slope = terms.reduce((acc, f) => acc - f.years * f.amount / Math.pow(1 + rate, f.years + 1), 0);
+        if (!isFinite(value) || !isFinite(slope) || slope === 0) break;
+        const next = rate - value / slope;
+        if (!isFinite(next) || next <= -0.9999) break;
+        if (Math.abs(next - rate) < 1e-7) return next * 100;
+        rate = next;
+    }
+
+    // NPV falls as the rate rises when money goes in first
+    let lo = -0.9999;
+    let hi = 10;
+    if (npv(lo) * npv(hi) > 0) return null;
+    for (let i = 0; i < 200 && hi - lo > 1e-7; i++) {
+        const mid = (lo + hi) / 2;
+        if (npv(mid) * npv(lo) > 0) lo = mid;
+        else hi = mid;
+    }
+    return (lo + hi) / 2 * 100;
+};
+
+const parseFlowDate = (value?: string): Date | null => {
+    if (!value) return null;
+    // Bare years ("2019") count from mid-year, as in the holding period
+    const date = /^\d{4}$/.test(value.trim()) ? new Date(Number(value.trim()), 6, 1) : new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * A company's dated calls and distributions. Without ingested cash flows, the cost basis is
+ * called at entry and an exited company's total value is distributed at exit.
+ */
+export const companyCashFlows = (company: PortfolioCompany): PortfolioCashFlow[] => {
+    if (company.cashFlows && company.cashFlows.length > 0) {
+        return company.cashFlows.filter(f => f.amount > 0 && parseFlowDate(f.date));
+    }
+    const flows: PortfolioCashFlow[] = [];
+    if ((company.investedCapital || 0) > 0 && parseFlowDate(company.entryDate)) {
+        flows.push({ date: company.entryDate!, type: 'call', amount: company.investedCapital! });
+    }
+    if (company.investmentStatus === 'Exited' && (company.currentValue || 0) > 0 && parseFlowDate(company.exitDate)) {
+        flows.push({ date: company.exitDate!, type: 'distribution', amount: company.currentValue! });
+    }
+    return flows;
+};
+
+/**
+ * Unrealized value: the fair value mark if given, otherwise total value less what has been
+ * distributed, otherwise held at cost while the company is still owned.
+ */
+export const companyNav = (company: PortfolioCompany, flows: PortfolioCashFlow[] = companyCashFlows(company)): number => {
+    if (typeof company.fairValue === 'number') return Math.max(0, company.fairValue);
+    if (company.investmentStatus === 'Exited') return 0;
+    const sum = (type: PortfolioCashFlow['type']) => flows.filter(f => f.type === type).reduce((acc, f) => acc + f.amount, 0);
+    if (typeof company.currentValue === 'number') return Math.max(0, company.currentValue - sum('distribution'));
+    return sum('call');
+};
+
+/**
+ * Annual management fees on capital called to date, charged in arrears on each anniversary of
+ * the first call with a pro-rated stub to the valuation date.
+ */
+const managementFees = (calls: DatedFlow[], rate: number, asOf: Date): DatedFlow[] => {
+    if (rate <= 0 || calls.length === 0) return [];
+    const start = Math.min(...calls.map(c => c.date.getTime()));
+    const calledBy = (t: number) => calls.filter(c => c.date.getTime() <= t).reduce((acc, c) => acc - c.amount, 0);
+    const fees: DatedFlow[] = [];
+    for (let t = start + YEAR_MS; t - YEAR_MS < asOf.getTime(); t += YEAR_MS) {
+        const end = Math.min(t, asOf.getTime());
+        const fraction = (end - (t - YEAR_MS)) / YEAR_MS;
+        const fee = calledBy(end) * rate / 100 * fraction;
+        if (fee > 0) fees.push({ date: new Date(end), amount: -fee });
+    }
+    return fees;
+};
+
+/**
+ * Kaplan-Schoar PME: index-compounded distributions plus NAV over index-compounded calls.
+ * Above 1.0 the fund beat the index.
+ */
+const kaplanSchoarPme = (flows: DatedFlow[], nav: number, series: IndexSeries, asOf: Date): number | null => {
+    const end = indexLevelAt(series, asOf);
+    const grow = (f: DatedFlow) => Math.abs(f.amount) * end / indexLevelAt(series, f.date);
+    const paid = flows.filter(f => f.amount < 0).reduce((acc, f) => acc + grow(f), 0);
+    const received = flows.filter(f => f.amount > 0).reduce((acc, f) => acc + grow(f), 0);
+    return paid > 0 ? (received + nav) / paid : null;
+};
+
+/**
+ * Gross and net performance for one fund's companies. Net deducts management fees (as extra
+ * calls) and the GP carry from the fund waterfall, shared pro rata across distributions and NAV.
+ */
+export const computeFundMetrics = (fund: string, companies: PortfolioCompany[], terms: FundTerms, index: IndexSeries | null = null, asOf: Date = new Date()): FundMetrics => {
+    const gross: DatedFlow[] = [];
+    const waterfallInputs: WaterfallInput[] = [];
+    let nav = 0;
+
+    companies.forEach(company => {
+        const flows = companyCashFlows(company);
+        const companyNavValue = companyNav(company, flows);
+        const dated = flows.map(f => ({ date: parseFlowDate(f.date)!, amount: f.type === 'call' ? -f.amount : f.amount }));
+        gross.push(...dated);
+        nav += companyNavValue;
+
+        const calls = dated.filter(f => f.amount < 0);
+        if (calls.length === 0) return;
+        const firstCall = new Date(Math.min(...calls.map(f => f.date.getTime())));
+        waterfallInputs.push({
+            name: company.name,
+            invested: calls.reduce((acc, f) => acc - f.amount, 0),
+            proceeds: dated.filter(f => f.amount > 0).reduce((acc, f) => acc + f.amount, 0) + companyNavValue,
+            years: holdingYears(toIsoDate(firstCall) || undefined, undefined, asOf)
+        });
+    });
+
+    const paidIn = -gross.filter(f => f.amount < 0).reduce((acc, f) => acc + f.amount, 0);
+    const distributed = gross.filter(f => f.amount > 0).reduce((acc, f) => acc + f.amount, 0);
+    const totalValue = distributed + nav;
+
+    const fees = managementFees(gross.filter(f => f.amount < 0), terms.managementFee, asOf);
+    const feeTotal = -fees.reduce((acc, f) => acc + f.amount, 0);
+    const carry = waterfallInputs.length > 0 ? runWaterfall(waterfallInputs, terms).gpCarry : 0;
+    const netShare = totalValue > 0 ? Math.max(0, 1 - carry / totalValue) : 1;
+
+    const net: DatedFlow[] = [
+        ...gross.map(f => f.amount > 0 ? { ...f, amount: f.amount * netShare } : f),
+        ...fees
+    ];
+    const lpPaidIn = paidIn + feeTotal;
+    const multiple = (value: number) => lpPaidIn > 0 ? round(value / lpPaidIn, 2) : 0;
+    const withNav = (flows: DatedFlow[], value: number) => value > 0 ? [...flows, { date: asOf, amount: value }] : flows;
+    const irr = (flows: DatedFlow[]) => { const r = xirr(flows); return r !== null ? round(r) : null; };
+    const pme = index && index.points.length > 1 ? kaplanSchoarPme(net, nav * netShare, index, asOf) : null;
+
+    return {
+        fund,
+        companies: companies.length,
+        paidIn: round(paidIn, 2),
+        distributed: round(distributed, 2),
+        nav: round(nav, 2),
+        fees: round(feeTotal, 2),
+        carry: round(carry, 2),
+        grossIrr: irr(withNav(gross, nav)),
+        netIrr: irr(withNav(net, nav * netShare)),
+        grossTvpi: paidIn > 0 ? round(totalValue / paidIn, 2) : 0,
+        tvpi: multiple(totalValue * netShare),
+        dpi: multiple(distributed * netShare),
+        rvpi: multiple(nav * netShare),
+        pme: pme !== null ? round(pme, 2) : null
+    };
+};
+
+/**
+ * One row per fund (the company's `fund` field), skipping funds with no capital called.
+ */
+export const computePortfolioFundMetrics = (portfolio: PortfolioCompany[], terms: FundTerms, index: IndexSeries | null = null, asOf: Date = new Date()): FundMetrics[] => {
+    const byFund = new Map<string, PortfolioCompany[]>();
+    portfolio.forEach(p => {
+        const fund = p.fund?.trim() || UNASSIGNED_FUND;
+        byFund.set(fund, [...(byFund.get(fund) || []), p]);
+    });
+    return Array.from(byFund.entries())
+        .map(([fund, companies]) => computeFundMetrics(fund, companies, terms, index, asOf))
+        .filter(m => m.paidIn > 0)
+        .sort((a, b) => a.fund.localeCompare(b.fund));
+};
@@ -0,0 +1,138 @@
+
+import { CurrencyCode, DealData, FxRate, FxTable, PortfolioCompany, UnitScale } from "../types";
+import { toIsoDate } from "./precedentEngine";
+
+// Anything that quotes money: a deal, a portfolio company or a bare figure
+export interface MoneyBasis {
+    currency?: CurrencyCode;
+    unitScale?: UnitScale;
+}
+
+export const CURRENCIES: CurrencyCode[] = ['USD', 'EUR', 'GBP', 'CHF', 'CAD', 'AUD', 'JPY', 'SEK', 'NOK', 'DKK'];
+export const UNIT_SCALES: UnitScale[] = ['units', 'thousands', 'millions', 'billions'];
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+const SYMBOLS: Partial<Record<CurrencyCode, string>> = { USD: '$', EUR: '€', GBP: '£', JPY: '¥' };
+const SCALE_SUFFIX: Record<UnitScale, string> = { units: '', thousands: 'K', millions: 'M', billions: 'B' };
+const TO_MILLIONS: Record<UnitScale, number> = { units: 1e-6, thousands: 1e-3, millions: 1, billions: 1000 };
+
+// Multiplier taking a figure quoted in one scale to another
+export const scaleFactor = (from: UnitScale, to: UnitScale): number => TO_MILLIONS[from] / TO_MILLIONS[to];
+
+/**
+ * Indicative USD rates so conversion works out of the box: recent spot plus year-end fixings
+ * for the major currencies. Edited in the Firm Mandate.
+ */
+export const DEFAULT_FX_TABLE: FxTable = {
+    spot: { USD: 1, EUR: 1.08, GBP: 1.27, CHF: 1.13, CAD: 0.73, AUD: 0.66, JPY: 0.0067, SEK: 0.095, NOK: 0.093, DKK: 0.145 },
+    historic: [
+        { currency: 'EUR', date: '2021-12-31', rate: 1.137 },
+        { currency: 'EUR', date: '2022-12-31', rate: 1.070 },
+        { currency: 'EUR', date: '2023-12-31', rate: 1.104 },
+        { currency: 'EUR', date: '2024-12-31', rate: 1.035 },
+        { currency: 'GBP', date: '2021-12-31', rate: 1.353 },
+        { currency: 'GBP', date: '2022-12-31', rate: 1.209 },
+        { currency: 'GBP', date: '2023-12-31', rate: 1.273 },
+        { currency: 'GBP', date: '2024-12-31', rate: 1.252 }
+    ]
+};
+
+const round = (value: number, decimals: number = 2): number => {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+};
+
+const isCurrency = (value: any): value is CurrencyCode => CURRENCIES.includes(value);
+
+/**
+ * Fills a saved table from the defaults. Rates that are missing or not positive are dropped
+ * rather than converting at zero.
+ */
+export const resolveFxTable = (table?: Partial<FxTable>): FxTable => {
+    const spot = { ...DEFAULT_FX_TABLE.spot };
+    Object.entries(table?.spot || {}).forEach(([currency, rate]) => {
+        if (isCurrency(currency) && typeof rate === 'number' && rate > 0) spot[currency] = rate;
+    });
+    const historic = Array.isArray(table?.historic)
+        ? table!.historic
+            .filter((r): r is FxRate => !!r && isCurrency(r.currency) && !!toIsoDate(r.date) && r.rate > 0)
+            .map(r => ({ ...r, date: toIsoDate(r.date)! }))
+        : DEFAULT_FX_TABLE.historic;
+    return { spot: { ...spot, USD: 1 }, historic };
+};
+
+/**
+ * USD per unit of the currency. With a date, the historic rate in effect then (the latest one
+ * dated on or before it); spot when there is none or no date.
+ */
+export const usdRate = (table: FxTable, currency: CurrencyCode, date?: string): number => {
+    if (currency === 'USD') return 1;
+    const spot = table.spot[currency] ?? DEFAULT_FX_TABLE.spot[currency] ?? 1;
+    const on = date ? toIsoDate(date) : null;
+    if (!on) return spot;
+    const prior = table.historic
+        .filter(r => r.currency === currency && r.date <= on)
+        .sort((a, b) => b.date.localeCompare(a.date))[0];
+    return prior ? prior.rate : spot;
+};
+
+/**
+ * A figure quoted on the basis, in millions of the target currency.
+ */
+export const convertMoney = (value: number, from: MoneyBasis, to: CurrencyCode, table: FxTable, date?: string): number => {
+    const currency = from.currency || DEFAULT_CURRENCY;
+    const millions = value * TO_MILLIONS[from.unitScale || 'millions'];
+    return currency === to ? millions : millions * usdRate(table, currency, date) / usdRate(table, to, date);
+};
+
+export const currencySymbol = (currency: CurrencyCode = DEFAULT_CURRENCY): string => SYMBOLS[currency] ?? `${currency} `;
+
+/**
+ * "$12.3M", "€450.0K", "CHF 1.2B".
+ */
+export const formatMoney = (value: number, basis: MoneyBasis = {}, decimals: number = 1): string =>
+    `${value < 0 ? '-' : ''}${currencySymbol(basis.currency)}${Math.abs(value).toFixed(decimals)}${SCALE_SUFFIX[basis.unitScale || 'millions']}`;
+
+/**
+ * Column-header unit, e.g. "$M" or "CHF K".
+ */
+export const moneyUnit = (basis: MoneyBasis = {}): string => `${currencySymbol(basis.currency)}${SCALE_SUFFIX[basis.unitScale || 'millions']}`;
+
+/**
+ * Headline deal figures in reporting-currency millions. LTM revenue and EBITDA convert at the
+ * rate at the LTM date; enterprise value is a price today and converts at spot.
+ */
+export const dealInReporting = (data: DealData, reporting: CurrencyCode, table: FxTable) => ({
+    revenue: round(convertMoney(data.revenue || 0, data, reporting, table, data.ltmDate)),
+    ebitda: round(convertMoney(data.ebitda || 0, data, reporting, table, data.ltmDate)),
+    impliedValue: round(convertMoney(data.impliedValue || 0, data, reporting, table))
+});
+
+/**
+ * A holding restated in reporting-currency millions: cost at the entry date, cash flows on
+ * their own dates, realized value at exit and unrealized marks at spot.
+ */
+export const companyInReporting = (company: PortfolioCompany, reporting: CurrencyCode, table: FxTable): PortfolioCompany => {
+    if ((company.currency || DEFAULT_CURRENCY) === reporting && (company.unitScale || 'millions') === 'millions') return company;
+    const at = (value: number | undefined, date?: string) => value === undefined ? undefined : round(convertMoney(value, company, reporting, table, date));
+    return {
+        ...company,
+        currency: reporting,
+        unitScale: 'millions',
+        revenue: at(company.revenue, company.ltmDate) ?? 0,
+        ebitda: at(company.ebitda, company.ltmDate) ?? 0,
+        investedCapital: at(company.investedCapital, company.entryDate),
+        currentValue: at(company.currentValue, company.investmentStatus === 'Exited' ? company.exitDate : undefined),
+        fairValue: at(company.fairValue),
+        cashFlows: company.cashFlows?.map(f => ({ ...f, amount: at(f.amount, f.date) ?? 0 }))
+    };
+};
+
+export const portfolioInReporting = (portfolio: PortfolioCompany[], reporting: CurrencyCode, table: FxTable): PortfolioCompany[] =>
+    portfolio.map(p => companyInReporting(p, reporting, table));
+
+/**
+ * Currencies other than the reporting one that appear in the list, for "converted from" notes.
+ */
+export const foreignCurrencies = (items: MoneyBasis[], reporting: CurrencyCode): CurrencyCode[] =>
+    Array.from(new Set(items.map(i => i.currency || DEFAULT_CURRENCY))).filter(c => c !== reporting);
@@ -0,0 +1,147 @@
+
+import { GoogleGenAI, Schema } from "@google/genai";
+import { LLMSettings, ModelTier } from "../types";
+import { GroundedRequest, ImageRequest, JsonRequest, LLMPart, LLMProvider, TextRequest } from "./llmProvider";
+import { classifyError, LLMError } from "./requestLayer";
+import { recordUsage } from "./usageMeter";
+
+export const GEMINI_MODELS: Record<ModelTier, string> = {
+    reasoning: 'gemini-3-pro-preview',
+    fast: 'gemini-2.5-flash',
+    image: 'gemini-3-pro-image-preview'
+};
+
+// Flash image model for keys without Pro image access; it does not accept imageSize
+const FALLBACK_IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+const toContents = (prompt: string | LLMPart[]) => typeof prompt === 'string'
+    ? prompt
+    : { parts: prompt.map(({ text, inlineData }) => inlineData ? { inlineData } : { text }) };
+
+const groundingUris = (response: any, kind: 'web' | 'maps'): string[] =>
+    response.candidates?.[0]?.groundingMetadata?.groundingChunks
+        ?.map((chunk: any) => chunk[kind]?.uri)
+        .filter((uri: string) => !!uri) || [];
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+/**
+ * A blocked prompt or answer comes back as an empty response; surface it as a safety error
+ * rather than letting it fail later as malformed output.
+ */
+const checkBlocked = <T,>(response: any, value: T): T => {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) throw new LLMError('safety', `Prompt blocked by Gemini (${blockReason})`);
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (SAFETY_FINISH_REASONS.includes(finishReason) && !value) throw new LLMError('safety', `Response blocked by Gemini (${finishReason})`);
+    return value;
+};
+
+// Image output tokens are what the per-image price covers, so image calls count the image instead
+const meter = (modelName: string, response: any, images: number = 0) => {
+    const usage = response.usageMetadata || {};
+    recordUsage(modelName, {
+        inputTokens: usage.promptTokenCount || 0,
+        outputTokens: images > 0 ? 0 : usage.candidatesTokenCount || 0,
+        thinkingTokens: usage.thoughtsTokenCount || 0,
+        images
+    });
+};
+
+const firstImage = (response: any): string | null => {
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData) {
+            return `data:image/png;base64,${part.inlineData.data}`;
+        }
+    }
+    return null;
+};
+
+export const createGeminiProvider = (settings: LLMSettings): LLMProvider => {
+    const ai = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+    const model = (tier: ModelTier) => settings.models?.[tier] || GEMINI_MODELS[tier];
+
+    const baseConfig = (request: TextRequest): any => ({
+        ...(request.signal ? { abortSignal: request.signal } : {}),
+        ...(request.thinkingBudget ? { thinkingConfig: { thinkingBudget: request.thinkingBudget } } : {}),
+        ...(request.maxOutputTokens ? { maxOutputTokens: request.maxOutputTokens } : {})
+    });
+
+    const generateText = async (request: TextRequest): Promise<string> => {
+        const response = await ai.models.generateContent({
+            model: model(request.tier),
+            contents: toContents(request.prompt),
+            config: baseConfig(request)
+        });
+        meter(model(request.tier), response);
+        return checkBlocked(response, response.text || "");
+    };
+
+    const generateJSON = async (request: JsonRequest): Promise<string> => {
+        const response = await ai.models.generateContent({
+            model: model(request.tier),
+            contents: toContents(request.prompt),
+            config: {
+                ...baseConfig(request),
+                responseMimeType: "application/json",
+                responseSchema: request.schema as Schema
+            }
+        });
+        meter(model(request.tier), response);
+        return checkBlocked(response, response.text || "");
+    };
+
+    // Search grounding cannot be combined with a response schema, so the shape comes from the prompt
+    const searchGrounded = async (request: GroundedRequest) => {
+        const response = await ai.models.generateContent({
+            model: model(request.tier),
+            contents: toContents(request.prompt),
+            config: { ...baseConfig(request), tools: [{ googleSearch: {} }] }
+        });
+        meter(model(request.tier), response);
+        return { text: checkBlocked(response, response.text || ""), sources: groundingUris(response, 'web') };
+    };
+
+    const generateImage = async (request: ImageRequest): Promise<string | null> => {
+        const generateWithModel = async (imageModel: string, useAdvancedConfig: boolean) => {
+            const config: any = {
+                imageConfig: { aspectRatio: request.aspectRatio },
+                ...(request.signal ? { abortSignal: request.signal } : {})
+            };
+            // imageSize is only supported by gemini-3-pro-image-preview
+            if (useAdvancedConfig) {
+                config.imageConfig.imageSize = "1K";
+            }
+            const response = await ai.models.generateContent({
+                model: imageModel,
+                contents: { parts: [{ text: request.prompt }] },
+                config
+            });
+            meter(imageModel, response, firstImage(response) ? 1 : 0);
+            return response;
+        };
+
+        try {
+            const response = await generateWithModel(model('image'), true);
+            return checkBlocked(response, firstImage(response));
+        } catch (error: any) {
+            // Keys without Pro image access or quota fall back to Flash; anything else is the request layer's to retry
+            if (!['auth', 'quota'].includes(classifyError(error).code)) throw error;
+            console.warn(`Primary image model failed: ${error.message}`);
+            const response = await generateWithModel(FALLBACK_IMAGE_MODEL, false);
+            return checkBlocked(response, firstImage(response));
+        }
+    };
+
+    const searchMaps = async (query: string, signal?: AbortSignal): Promise<string[]> => {
+        const response = await ai.models.generateContent({
+            model: model('fast'),
+            contents: query,
+            config: { tools: [{ googleMaps: {} }], ...(signal ? { abortSignal: signal } : {}) }
+        });
+        meter(model('fast'), response);
+        return groundingUris(response, 'maps');
+    };
+
+    return { id: 'gemini', label: 'Google Gemini', generateText, generateJSON, searchGrounded, generateImage, searchMaps };
+};
@@ -1,100 +1,32 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { DealData, DeliverableType, Slide, FileAttachment, PortfolioCompany, InvestmentMemo } from "../types";
+import { DealData, DeliverableType, Slide, FileAttachment, PortfolioCompany, InvestmentMemo, EbitdaAddBack, WorkingCapitalData } from "../types";
 import * as XLSX from "xlsx";
-
-// Helper to get client
-const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-// Robust JSON Repair for Truncated Responses
-const repairJSON = (jsonString: string): string => {
-    let repaired = jsonString.trim();
-    
-    // 1. Check if it ends with a dangling comma (common before a truncation)
-    if (repaired.endsWith(',')) {
-        repaired = repaired.slice(0, -1);
-    }
-
-    // 2. Check for unclosed strings
-    // Count quotes that aren't escaped
-    let quoteCount = 0;
-    for (let i = 0; i < repaired.length; i++) {
-        if (repaired[i] === '"' && (i === 0 || repaired[i-1] !== '\\')) {
-            quoteCount++;
-        }
-    }
-    if (quoteCount % 2 !== 0) {
-        repaired += '"';
-    }
-
-    // 3. Balance Braces/Brackets using a stack
-    const stack: string[] = [];
-    // We only care about structural characters outside of strings, but complex parsing is hard.
-    // Simple approach: Iterate chars. If inside string, ignore structure.
-    
-    let insideString = false;
-    for (let i = 0; i < repaired.length; i++) {
-        const char = repaired[i];
-        if (char === '"' && (i === 0 || repaired[i-1] !== '\\')) {
-            insideString = !insideString;
-            continue;
-        }
-        
-        if (!insideString) {
-            if (char === '{') stack.push('}');
-            else if (char === '[') stack.push(']');
-            else if (char === '}' || char === ']') {
-                // If we encounter a closer, pop the expected closer from stack to verify
-                // If stack is empty or mismatch, it's just malformed, but we continue
-                if (stack.length > 0 && stack[stack.length - 1] === char) {
-                    stack.pop();
-                }
-            }
-        }
-    }
-
-    // Append all missing closers in reverse order
-    while (stack.length > 0) {
-        repaired += stack.pop();
-    }
-
-    return repaired;
-};
-
-// Helper to clean and parse JSON that might contain markdown blocks or extra whitespace
-const cleanAndParseJSON = (text: string): any => {
-    if (!text) return {};
-    // Remove markdown code blocks if present (e.g. ```json ... ```)
-    let cleanText = text.replace(/```json/g, '').replace(/```/g, '').trim();
-    
-    // Attempt to find the first '{' and last '}' (or '[' and ']') to handle preamble/postscript text
-    const firstCurly = cleanText.indexOf('{');
-    const firstSquare = cleanText.indexOf('[');
-
-    let start = -1;
-    if (firstCurly !== -1 && (firstSquare === -1 || firstCurly < firstSquare)) {
-        start = firstCurly;
-    } else if (firstSquare !== -1) {
-        start = firstSquare;
-    }
-
-    if (start !== -1) {
-        cleanText = cleanText.substring(start);
-    }
-    
-    try {
-        return JSON.parse(cleanText);
-    } catch (e) {
-        // First failure: Try simple repair (trimming trailing chars)
-        try {
-            const repaired = repairJSON(cleanText);
-            return JSON.parse(repaired);
-        } catch (repairError) {
-             console.error("JSON Parse Error on text:", text);
-             console.error("Repaired Attempt:", repairJSON(cleanText));
-             throw new Error(`JSON Parse Failed: ${e instanceof Error ? e.message : String(e)}`);
-        }
-    }
+import { applyLBOEngine, computeDealLBO, extractOperatingProjection, formatValueCreation, reportedEbitda, toValueCreation } from "./lboEngine";
+import { sanitizeTranches } from "./debtEngine";
+import { buildDefaultCovenants, buildDownsideCovenantRisk, mergeCovenantRisk } from "./covenantEngine";
+import { computeDefaultSensitivity } from "./sensitivityEngine";
+import { DEFAULT_MOIC_TARGET, formatGoalSeek, runGoalSeek } from "./goalSeekEngine";
+import { DEFAULT_HURDLE_RATE } from "./monteCarloEngine";
+import { buildDefaultScenarios, findDownsideSummary, formatScenarioSummaries, summarizeScenarios } from "./scenarioEngine";
+import { normalizeSectionProvenance } from "./provenance";
+import { computeQoE, formatQoE, sanitizeAddBacks } from "./qoeEngine";
+import { analyzeWorkingCapital, formatNwcAnalysis, parseMonthlyBalanceSheet } from "./nwcEngine";
+import { CURRENCIES, formatMoney, UNIT_SCALES } from "./fxEngine";
+import { toIsoDate } from "./precedentEngine";
+import { getProvider, JsonRequest, LLMPart, SchemaType } from "./llmProvider";
+import { DEAL_STRUCTURE_SCHEMA, DealStructureDraft, DOCUMENT_ANALYSIS_SCHEMA, DocumentAnalysis, ExtractedPortfolioCompany, PORTFOLIO_COMPANIES_SCHEMA } from "./agentSchemas";
+import { agentError, LLMError } from "./requestLayer";
+import { ensureValid, generateValidated, parseJSON } from "./schemaValidator";
+
+// Headline fallbacks. sanitizeDealData fills them into saved or partial deals; the validator
+// applies them when the model's value is still invalid after the re-ask and reports it as defaulted.
+const DEAL_DEFAULTS = {
+    sector: "Unknown Sector",
+    location: "N/A",
+    ebitda: 0,
+    revenue: 0,
+    askingMultiple: 0,
+    impliedValue: 0
 };
 
 // Data Sanitizer to prevent UI crashes
@@ -115,13 +47,21 @@ const sanitizeDealData = (data: any, companyName: string): DealData => {
 
     return {
         companyName: data.companyName || companyName || "Target Company",
-        sector: data.sector || "Unknown Sector",
-        location: data.location || "N/A",
-        ebitda: data.ebitda || 0,
-        revenue: data.revenue || 0,
-        askingMultiple: data.askingMultiple || 0,
-        impliedValue: data.impliedValue || 0,
-        financialModels: data.financialModels || {
+        sector: data.sector || DEAL_DEFAULTS.sector,
+        location: data.location || DEAL_DEFAULTS.location,
+        currency: CURRENCIES.includes(data.currency) ? data.currency : undefined,
+        unitScale: UNIT_SCALES.includes(data.unitScale) ? data.unitScale : undefined,
+        ltmDate: toIsoDate(data.ltmDate) || undefined,
+        ebitda: data.ebitda || DEAL_DEFAULTS.ebitda,
+        revenue: data.revenue || DEAL_DEFAULTS.revenue,
+        askingMultiple: data.askingMultiple || DEAL_DEFAULTS.askingMultiple,
+        impliedValue: data.impliedValue || DEAL_DEFAULTS.impliedValue,
+        financialModels: data.financialModels ? {
+            ...data.financialModels,
+            incomeStatement: normalizeSectionProvenance(data.financialModels.incomeStatement || { title: "Income Statement", rows: [] }),
+            balanceSheet: normalizeSectionProvenance(data.financialModels.balanceSheet || { title: "Balance Sheet", rows: [] }),
+            cashFlow: normalizeSectionProvenance(data.financialModels.cashFlow || { title: "Cash Flow", rows: [] })
+        } : {
             years: ["LTM"],
             incomeStatement: { title: "Income Statement", rows: [] },
             balanceSheet: { title: "Balance Sheet", rows: [] },
@@ -134,6 +74,11 @@ const sanitizeDealData = (data: any, companyName: string): DealData => {
             moic: 0,
             debttoEquity: 0
         },
+        lboAssumptions: data.lboAssumptions
+            ? { ...data.lboAssumptions, tranches: sanitizeTranches(data.lboAssumptions.tranches) }
+            : undefined,
+        scenarios: data.scenarios,
+        covenants: data.covenants,
         lboDetailed: data.lboDetailed || {
             assumptions: [],
             sources: [],
@@ -144,6 +89,10 @@ const sanitizeDealData = (data: any, companyName: string): DealData => {
         memo: { ...defaultMemo, ...(data.memo || {}) },
         sensitivityAnalysis: data.sensitivityAnalysis || [],
         comparables: data.comparables || [],
+        comps: data.comps,
+        precedentFilter: data.precedentFilter,
+        addBacks: data.addBacks ? sanitizeAddBacks(data.addBacks) : undefined,
+        workingCapital: data.workingCapital,
         candidatesAnalyzed: data.candidatesAnalyzed || [],
         groundingUrls: data.groundingUrls || [],
         deliverables: data.deliverables || []
@@ -155,10 +104,9 @@ const sanitizeDealData = (data: any, companyName: string): DealData => {
  */
 export const getMDStrategy = async (userPrompt: string, mandate: string): Promise<string> => {
   try {
-    const ai = getClient();
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: `User Prompt: "${userPrompt}"
+    const text = await getProvider().generateText({
+      tier: 'reasoning',
+      prompt: `User Prompt: "${userPrompt}"
       
       FIRM HISTORICAL MANDATE: "${mandate}"
       
@@ -179,15 +127,13 @@ export const getMDStrategy = async (userPrompt: string, mandate: string): Promis
       - Use ### for Section Headers.
       - Use - for bullet points.
       - Keep it brief and authoritative.`,
-      config: {
-        thinkingConfig: { thinkingBudget: 1024 }
-      }
+      thinkingBudget: 1024
     });
 
-    if (!response.text) throw new Error("Empty response from MD Agent");
-    return response.text;
+    if (!text) throw new LLMError('malformed_output', "Empty response from MD Agent");
+    return text;
   } catch (error) {
-    throw new Error(`MD Strategy Generation Failed: ${error instanceof Error ? error.message : String(error)}`);
+    throw agentError("MD Strategy Generation Failed", error);
   }
 };
 
@@ -196,10 +142,9 @@ export const getMDStrategy = async (userPrompt: string, mandate: string): Promis
  */
 export const scoutPotentialTargets = async (strategyDirective: string): Promise<string[]> => {
   try {
-    const ai = getClient();
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `You are the Scout Agent for DiDi AI.
+    const request: JsonRequest = {
+      tier: 'fast',
+      prompt: `You are the Scout Agent for DiDi AI.
       MD Directive: ${strategyDirective}.
       
       Task: Search the LIVE WEB for 5 real, existing private or public companies that fit this criteria.
@@ -210,10 +155,9 @@ export const scoutPotentialTargets = async (strategyDirective: string): Promise<
       Just the array.
       
       Example: ["Company A", "Company B", "Company C"]`,
-      config: {
-        tools: [{ googleSearch: {} }],
-      }
-    });
+      schema: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } }
+    };
+    const response = await getProvider().searchGrounded(request);
 
     let text = response.text || "[]";
     const jsonMatch = text.match(/\[.*?\]/s);
@@ -221,11 +165,10 @@ export const scoutPotentialTargets = async (strategyDirective: string): Promise<
         text = jsonMatch[0];
     }
 
-    const json = cleanAndParseJSON(text);
-    if (!Array.isArray(json)) throw new Error("Parsed output is not an array");
-    return json;
+    const { value, repaired } = parseJSON(text);
+    return await ensureValid<string[]>("Scouting", value, request, repaired);
   } catch (error) {
-    throw new Error(`Scouting Failed: ${error instanceof Error ? error.message : String(error)}`);
+    throw agentError("Scouting Failed", error);
   }
 };
 
@@ -236,21 +179,25 @@ export const selectBestTarget = async (targets: string[], mandate: string): Prom
     try {
         if (targets.length === 0) throw new Error("No targets provided for selection");
         
-        const ai = getClient();
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: `Candidates: ${targets.join(", ")}.
+        const response = await getProvider().generateText({
+            tier: 'fast',
+            prompt: `Candidates: ${targets.join(", ")}.
             User Context/Mandate: ${mandate}.
             
             Task: Pick the SINGLE best candidate that fits the user's current request.
             Return ONLY the company name.`
         });
         
-        const text = response.text?.trim();
-        if (!text) throw new Error("Empty selection response");
-        return text;
+        const text = response.trim();
+        if (!text) throw new LLMError('malformed_output', "Empty selection response");
+        // Models sometimes wrap the name in formatting or a sentence; prefer the candidate it names first
+        const named = targets
+            .map(t => ({ target: t, at: text.toLowerCase().indexOf(t.toLowerCase()) }))
+            .filter(t => t.at !== -1)
+            .sort((a, b) => a.at - b.at)[0];
+        return named ? named.target : text;
     } catch (e) {
-        throw new Error(`Target Selection Failed: ${e instanceof Error ? e.message : String(e)}`);
+        throw agentError("Target Selection Failed", e);
     }
 }
 
@@ -259,11 +206,10 @@ export const selectBestTarget = async (targets: string[], mandate: string): Prom
  */
 export const performDeepDive = async (companyName: string): Promise<{ text: string, sources: string[] }> => {
   try {
-    const ai = getClient();
-    // Use Pro for deep dive to ensure better reasoning when filling gaps
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: `Perform a deep-dive investigation on: "${companyName}".
+    // Use the reasoning tier for deep dive to ensure better reasoning when filling gaps
+    const response = await getProvider().searchGrounded({
+      tier: 'reasoning',
+      prompt: `Perform a deep-dive investigation on: "${companyName}".
       
       SEARCH STRATEGY (Triangulation):
       1. Search for official financials (Revenue, EBITDA). 
@@ -274,32 +220,25 @@ export const performDeepDive = async (companyName: string): Promise<{ text: stri
       OUTPUT REQUIREMENT:
       - Synthesize a comprehensive profile.
       - If you Estimated numbers, explicitly state: "Estimated based on [Proxy]..."
-      - Do not simply say "Data not found". Be an intelligent analyst and FILL THE GAPS with sector benchmarks.`,
-      config: {
-        tools: [{ googleSearch: {} }],
-      }
+      - For every number you found, tag it as [REPORTED: <url>] or [ESTIMATED: <proxy>] so the modeling team can trace it.
+      - Do not simply say "Data not found". Be an intelligent analyst and FILL THE GAPS with sector benchmarks.`
     });
 
-    const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks
-      ?.map((chunk: any) => chunk.web?.uri)
-      .filter((uri: string) => !!uri) || [];
-
     return {
       text: response.text || "No specific data found.",
-      sources: sources
+      sources: response.sources
     };
   } catch (error) {
-     throw new Error(`Deep Dive Failed: ${error instanceof Error ? error.message : String(error)}`);
+     throw agentError("Deep Dive Failed", error);
   }
 };
 
 /**
  * Diligence Agent: Document Analysis
  */
-export const analyzeDocument = async (files: FileAttachment[], prompt: string): Promise<Partial<DealData> & { summary: string }> => {
+export const analyzeDocument = async (files: FileAttachment[], prompt: string): Promise<Omit<DocumentAnalysis, 'addBacks'> & { addBacks: EbitdaAddBack[]; workingCapital?: WorkingCapitalData }> => {
     try {
-        const ai = getClient();
-        const parts: any[] = [
+        const parts: LLMPart[] = [
             { text: `
                 Act as a Senior Private Equity Diligence Agent for DiDi AI.
                 Analyze the provided document(s) in extreme detail.
@@ -310,23 +249,30 @@ export const analyzeDocument = async (files: FileAttachment[], prompt: string):
                 2. If specific metrics are missing, infer them using logical accounting deductions (e.g. Revenue - OpEx = EBITDA proxy).
                 3. **Identify Risks**: Look for fine print about customer concentration, litigation, or declining growth.
                 4. **Thesis Building**: Why is this a good deal based *strictly* on this document?
+                5. **Cite Sources**: List every figure you extracted or inferred in metricSources with the document name and page (or sheet), marking inferred figures as "estimated" with the deduction used.
+                6. **Proposed Add-Backs**: List every EBITDA adjustment management claims (owner compensation normalization, one-time legal/severance, run-rate synergies, pro-forma acquisitions, pricing) in addBacks with description, category, amount in millions (negative for deductions), runRate (false for one-offs), and supportDocument (document name and page). Do not judge them; diligence will.
+                7. **Currency**: Report every figure in millions of the document's own currency (ISO code in currency), rescaling tables quoted in thousands. Give the LTM period end as ltmDate (YYYY-MM-DD). Do not convert to USD.
 
                 Return a structured JSON object suitable for a deal model.
             ` }
         ];
 
         // Client-side Excel parsing for better accuracy (similar to ingestPortfolioDocuments)
+        let workingCapital: WorkingCapitalData | null = null;
         for (const file of files) {
             if (file.type.includes('spreadsheet') || file.type.includes('excel') || file.name.endsWith('.xlsx') || file.name.endsWith('.csv')) {
                 const base64Data = file.data.split(',')[1];
-                const workbook = XLSX.read(base64Data, { type: 'base64' });
+                const workbook = XLSX.read(base64Data, { type: 'base64', cellDates: true });
+                // Monthly balance sheets feed the NWC peg directly rather than through the model
+                const monthly = parseMonthlyBalanceSheet(workbook, file.name);
+                if (monthly && monthly.months.length > (workingCapital?.months.length || 0)) workingCapital = monthly;
                 let fileSummary = `FILE: ${file.name}\n`;
                 workbook.SheetNames.forEach(sheetName => {
                     const sheet = workbook.Sheets[sheetName];
                     const csv = XLSX.utils.sheet_to_csv(sheet);
                     fileSummary += `\n--- SHEET: ${sheetName} ---\n${csv}\n`;
                 });
-                parts.push({ text: fileSummary });
+                parts.push({ text: fileSummary, document: file.name });
             } else {
                  const base64Data = file.data.split(',')[1]; 
                  parts.push({
@@ -338,43 +284,18 @@ export const analyzeDocument = async (files: FileAttachment[], prompt: string):
             }
         }
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-pro-preview', // Upgraded for high fidelity document reasoning
-            contents: { parts },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        companyName: { type: Type.STRING },
-                        sector: { type: Type.STRING },
-                        ebitda: { type: Type.NUMBER },
-                        revenue: { type: Type.NUMBER },
-                        askingMultiple: { type: Type.NUMBER },
-                        summary: { type: Type.STRING },
-                        memo: {
-                            type: Type.OBJECT,
-                            properties: {
-                                executiveSummary: { type: Type.STRING },
-                                investmentThesis: { type: Type.ARRAY, items: { type: Type.STRING } },
-                                keyRisks: { type: Type.ARRAY, items: { type: Type.STRING } },
-                                marketOverview: { type: Type.STRING },
-                                operationalUpside: { type: Type.STRING }
-                            }
-                        }
-                    },
-                    required: ["companyName", "summary", "memo"]
-                }
-            }
-        });
+        const json = await generateValidated<DocumentAnalysis>("Document Analysis", {
+            tier: 'reasoning', // Upgraded for high fidelity document reasoning
+            prompt: parts,
+            schema: DOCUMENT_ANALYSIS_SCHEMA
+        }, { summary: "", memo: {} });
 
-        const json = cleanAndParseJSON(response.text || "{}");
-        if (!json.companyName) throw new Error("Failed to extract company name from document");
+        if (!json.companyName) throw new LLMError('malformed_output', "Failed to extract company name from document");
         
-        return json;
+        return { ...json, addBacks: sanitizeAddBacks(json.addBacks), workingCapital: workingCapital || undefined };
 
     } catch (e) {
-        throw new Error(`Document Analysis Failed: ${e instanceof Error ? e.message : String(e)}`);
+        throw agentError("Document Analysis Failed", e);
     }
 };
 
@@ -383,8 +304,7 @@ export const analyzeDocument = async (files: FileAttachment[], prompt: string):
  */
 export const ingestPortfolioDocuments = async (files: FileAttachment[]): Promise<PortfolioCompany[]> => {
     try {
-        const ai = getClient();
-        const spreadsheetContents: string[] = [];
+        const spreadsheetParts: LLMPart[] = [];
 
         // --- Client-Side Excel/CSV Parsing ---
         for (const file of files) {
@@ -398,17 +318,16 @@ export const ingestPortfolioDocuments = async (files: FileAttachment[]): Promise
                     const csv = XLSX.utils.sheet_to_csv(sheet);
                     fileSummary += `\n--- SHEET: ${sheetName} ---\n${csv}\n`;
                 });
-                spreadsheetContents.push(fileSummary);
+                spreadsheetParts.push({ text: fileSummary, document: file.name });
             }
         }
 
-        const parts: any[] = [
+        const parts: LLMPart[] = [
             { text: `
                 Act as a Senior Private Equity Operations Analyst.
                 Your task is to ingest portfolio data and extract a master list of portfolio companies.
                 
-                INPUT DATA:
-                ${spreadsheetContents.join('\n\n')}
+                INPUT DATA: the spreadsheets and documents attached after these instructions.
                 
                 TASK:
                 1. **Master Record**: Look for the tab that lists Company Name, Sector, Fund, etc. (often named 'PortCos' or 'Holdings').
@@ -422,9 +341,13 @@ export const ingestPortfolioDocuments = async (files: FileAttachment[]): Promise
                    - 'BoardSeats': Extract integer.
                 5. **Subsector**: If available, extract it.
                 6. **Dates**: Standardize dates to YYYY-MM-DD.
+                7. **Capital**: 'Cost' / 'Invested' -> investedCapital; 'Total Value' / realized plus unrealized -> currentValue; 'Fair Value' / 'Unrealized Value' / 'NAV' -> fairValue. All in millions.
+                8. **Cash Flows**: If a ledger of capital calls / contributions and distributions exists, attach each company's rows as cashFlows with date (YYYY-MM-DD), type ('call' or 'distribution') and a positive amount in millions.
+                9. **Currency**: Keep each company's figures in millions of the currency they are reported in (ISO code in currency) and give the LTM period end as ltmDate (YYYY-MM-DD). Do not convert to USD.
                 
                 Output a clean JSON array of PortfolioCompany objects.
-            ` }
+            ` },
+            ...spreadsheetParts
         ];
 
         files.forEach(file => {
@@ -439,246 +362,99 @@ export const ingestPortfolioDocuments = async (files: FileAttachment[]): Promise
             }
         });
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-pro-preview',
-            contents: { parts },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            id: { type: Type.STRING },
-                            name: { type: Type.STRING },
-                            sector: { type: Type.STRING },
-                            subsector: { type: Type.STRING },
-                            location: { type: Type.STRING },
-                            fund: { type: Type.STRING },
-                            investmentStatus: { type: Type.STRING, enum: ['Active', 'Exited', 'Watchlist'] },
-                            entryDate: { type: Type.STRING },
-                            exitDate: { type: Type.STRING },
-                            ownershipPercentage: { type: Type.NUMBER },
-                            boardSeats: { type: Type.NUMBER },
-                            revenue: { type: Type.NUMBER },
-                            ebitda: { type: Type.NUMBER },
-                            description: { type: Type.STRING }
-                        },
-                        required: ["name", "sector", "revenue", "ebitda"]
-                    }
-                }
-            }
+        const json = await generateValidated<ExtractedPortfolioCompany[]>("Portfolio Ingestion", {
+            tier: 'reasoning',
+            prompt: parts,
+            schema: PORTFOLIO_COMPANIES_SCHEMA
         });
 
-        const json = cleanAndParseJSON(response.text || "[]");
-        if (!Array.isArray(json)) throw new Error("Failed to parse portfolio array.");
-        
-        return json.map((company: any) => ({
+        return json.map(company => ({
             ...company,
-            id: company.id || Math.random().toString(36).substring(7)
+            id: company.id || Math.random().toString(36).substring(7),
+            investmentStatus: company.investmentStatus || 'Active',
+            currency: CURRENCIES.includes(company.currency) ? company.currency : undefined,
+            ltmDate: toIsoDate(company.ltmDate) || undefined
         }));
 
     } catch (e) {
-        throw new Error(`Portfolio Ingestion Failed: ${e instanceof Error ? e.message : String(e)}`);
+        throw agentError("Portfolio Ingestion Failed", e);
     }
 };
 
+const formatDealEbitda = (dealData: DealData): string =>
+    dealData.adjustedEbitda !== undefined
+        ? `Reported EBITDA ${formatMoney(dealData.ebitda, dealData)}, diligence-adjusted EBITDA ${formatMoney(dealData.adjustedEbitda, dealData)}`
+        : `Reported EBITDA ${formatMoney(dealData.ebitda, dealData)} (no add-backs accepted)`;
+
+const formatDealQoE = (dealData: DealData): string =>
+    dealData.addBacks && dealData.addBacks.length > 0
+        ? formatQoE(computeQoE(reportedEbitda(extractOperatingProjection(dealData), 0), dealData.addBacks), dealData)
+        : "No add-backs tracked; EBITDA is as reported.";
+
+const formatDealNwc = (dealData: DealData): string => {
+    const analysis = dealData.workingCapital ? analyzeWorkingCapital(dealData.workingCapital, dealData.revenue) : null;
+    if (!analysis) return "No monthly balance sheets loaded.";
+    return dealData.workingCapital!.sheetScaleSource === 'assumed'
+        ? `${formatNwcAnalysis(analysis, dealData)} (units unconfirmed: the sheet has no units note)`
+        : formatNwcAnalysis(analysis, dealData);
+};
+
 /**
  * Associate Agent: Financial Modeling & Memo (Intelligent Gap Filling)
  */
 export const generateDealStructure = async (companyName: string, rawData: string, candidates: string[], portfolioContext?: PortfolioCompany[]): Promise<DealData> => {
   try {
-    const ai = getClient();
-    
     let contextPrompt = "";
     if (portfolioContext && portfolioContext.length > 0) {
-        const similarPortcos = portfolioContext.slice(0, 3).map(p => `${p.name} (${p.sector}, ${p.ebitda}M EBITDA)`);
+        const similarPortcos = portfolioContext.slice(0, 3).map(p => `${p.name} (${p.sector}, ${formatMoney(p.ebitda, p)} EBITDA)`);
         contextPrompt = `\nCONTEXT - PORTFOLIO BENCHMARKS: ${similarPortcos.join(", ")}.`;
     }
 
-    // Using Pro model for the massive context generation to prevent truncation and ensure quality
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: `Create a detailed DiDi AI deal package for "${companyName}" based on: ${rawData}
+    // Using the reasoning tier for the massive context generation to prevent truncation and ensure quality
+    const rawJSON = await generateValidated<DealStructureDraft>("Deal Structure", {
+      tier: 'reasoning',
+      prompt: `Create a detailed DiDi AI deal package for "${companyName}" based on: ${rawData}
       ${contextPrompt}
       
       INTELLIGENT MODELING INSTRUCTIONS:
       1. **FILL THE GAPS**: Private company data is often missing. You must ESTIMATE missing metrics (Margins, CapEx, Growth) based on Sector Benchmarks.
       2. **DO NOT RETURN ZEROS**: A model with all zeros is useless. Use industry standard assumptions if necessary and note them in the memo.
       3. **3-Statement Model**: Construct LTM + 5 Year Projections. EBITDA must mathematically flow from Revenue * Margin.
-      4. **LBO Model**: Assume standard PE leverage (e.g. 4.0x-5.0x Senior, 1.0x Mezz). Calculate 5-year returns.
+      4. **LBO Assumptions**: Propose assumptions only (entry/exit multiple, total leverage turns, interest rate %, annual amortization % of principal, cash sweep %, hold period in years, fees %, tax rate %). Standard PE leverage is 4.0x-6.0x total. Structure the debt as tranches (Revolver, Term Loan A, Term Loan B, Second Lien, Mezzanine, Seller Note) sized in turns of LTM EBITDA, with fixed coupon or floating spread over baseRate (SOFR %), optional PIK, annual amortization %, upfront fee % and cash sweep priority (1 = repaid first, 0 = not swept). Do NOT calculate returns or a debt schedule - the LBO engine computes them from your assumptions and the 3-statement model.
       5. **Investment Memo**: Professional, decisive, and explain *why* you made certain estimates.
+      6. **Reported EBITDA**: Model EBITDA as reported. Do not bake management add-backs into the statements; they are diligenced separately in the QoE bridge.
+      7. **Currency**: Keep every figure in the target's reporting currency (ISO code in currency), in millions, with the LTM period end as ltmDate (YYYY-MM-DD). Do not convert to USD.
+      8. **Provenance**: For every financial row give a provenance entry per value (or one entry if the whole row shares it):
+         - "reported": stated by the company, a filing or the press; reference = the URL.
+         - "extracted": read from an uploaded document; reference = document name and page/sheet.
+         - "estimated": derived from a proxy or sector benchmark; method = the proxy (e.g. "Headcount x $200k revenue/employee").
+         - "assumed": a projection assumption with no source; method = the assumption (e.g. "8% growth, sector median").
+         - "calculated": arithmetic from other rows; method = the formula (e.g. "Revenue x EBITDA margin").
+         Never label a number "reported" or "extracted" unless the input data states it with a source.
       `,
-      config: {
-        // High token limit to allow full JSON generation without truncation
-        maxOutputTokens: 8192,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            companyName: { type: Type.STRING },
-            sector: { type: Type.STRING },
-            ebitda: { type: Type.NUMBER },
-            revenue: { type: Type.NUMBER },
-            askingMultiple: { type: Type.NUMBER },
-            impliedValue: { type: Type.NUMBER },
-            
-            financialModels: {
-                type: Type.OBJECT,
-                properties: {
-                    years: { type: Type.ARRAY, items: { type: Type.STRING } },
-                    incomeStatement: {
-                        type: Type.OBJECT,
-                        properties: {
-                            title: { type: Type.STRING },
-                            rows: { 
-                                type: Type.ARRAY, 
-                                items: { 
-                                    type: Type.OBJECT, 
-                                    properties: {
-                                        label: { type: Type.STRING },
-                                        values: { type: Type.ARRAY, items: { type: Type.NUMBER } }
-                                    }
-                                } 
-                            }
-                        }
-                    },
-                    balanceSheet: {
-                         type: Type.OBJECT,
-                         properties: {
-                            title: { type: Type.STRING },
-                            rows: { 
-                                type: Type.ARRAY, 
-                                items: { 
-                                    type: Type.OBJECT, 
-                                    properties: {
-                                        label: { type: Type.STRING },
-                                        values: { type: Type.ARRAY, items: { type: Type.NUMBER } }
-                                    }
-                                } 
-                            }
-                        }
-                    },
-                    cashFlow: {
-                         type: Type.OBJECT,
-                         properties: {
-                            title: { type: Type.STRING },
-                            rows: { 
-                                type: Type.ARRAY, 
-                                items: { 
-                                    type: Type.OBJECT, 
-                                    properties: {
-                                        label: { type: Type.STRING },
-                                        values: { type: Type.ARRAY, items: { type: Type.NUMBER } }
-                                    }
-                                } 
-                            }
-                        }
-                    }
-                }
-            },
-
-            lboModel: {
-              type: Type.OBJECT,
-              properties: {
-                entryMultiple: { type: Type.NUMBER },
-                exitMultiple: { type: Type.NUMBER },
-                irr: { type: Type.NUMBER },
-                moic: { type: Type.NUMBER },
-                debttoEquity: { type: Type.NUMBER }
-              }
-            },
-            
-            lboDetailed: {
-                type: Type.OBJECT,
-                properties: {
-                    assumptions: {
-                        type: Type.ARRAY,
-                        items: { type: Type.OBJECT, properties: { label: { type: Type.STRING }, value: { type: Type.STRING } } }
-                    },
-                    sources: {
-                        type: Type.ARRAY,
-                        items: { type: Type.OBJECT, properties: { label: { type: Type.STRING }, value: { type: Type.NUMBER } } }
-                    },
-                    uses: {
-                        type: Type.ARRAY,
-                        items: { type: Type.OBJECT, properties: { label: { type: Type.STRING }, value: { type: Type.NUMBER } } }
-                    },
-                    debtSchedule: {
-                         type: Type.OBJECT,
-                         properties: {
-                            title: { type: Type.STRING },
-                            rows: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { label: { type: Type.STRING }, values: { type: Type.ARRAY, items: { type: Type.NUMBER } } } } }
-                        }
-                    },
-                    projectedReturns: {
-                         type: Type.OBJECT,
-                         properties: {
-                            title: { type: Type.STRING },
-                            rows: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { label: { type: Type.STRING }, values: { type: Type.ARRAY, items: { type: Type.NUMBER } } } } }
-                        }
-                    }
-                }
-            },
-
-            memo: {
-                type: Type.OBJECT,
-                properties: {
-                    executiveSummary: { type: Type.STRING },
-                    investmentRecommendation: { type: Type.STRING, enum: ["GO", "NO-GO", "HOLD"] },
-                    recommendationRationale: { type: Type.STRING },
-                    dealMerits: { type: Type.ARRAY, items: { type: Type.STRING } },
-                    investmentThesis: { type: Type.ARRAY, items: { type: Type.STRING } },
-                    keyRisks: { type: Type.ARRAY, items: { type: Type.STRING } },
-                    riskMitigation: { type: Type.STRING },
-                    marketOverview: { type: Type.STRING },
-                    competitiveLandscape: { type: Type.STRING },
-                    customerAnalysis: { type: Type.STRING },
-                    operationalUpside: { type: Type.STRING }
-                }
-            },
-            sensitivityAnalysis: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        entryMultiple: { type: Type.NUMBER },
-                        exits: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    multiple: { type: Type.NUMBER },
-                                    irr: { type: Type.NUMBER }
-                                }
-                            }
-                        }
-                    }
-                }
-            },
-            comparables: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  name: { type: Type.STRING },
-                  multiple: { type: Type.NUMBER }
-                }
-              }
-            }
-          },
-          required: ["companyName", "ebitda", "lboModel", "lboDetailed", "memo", "financialModels"]
-        }
-      }
+      // High token limit to allow full JSON generation without truncation
+      maxOutputTokens: 8192,
+      schema: DEAL_STRUCTURE_SCHEMA
+    }, {
+        ...DEAL_DEFAULTS,
+        companyName,
+        // Sanitizing and the LBO engine rebuild these from their own defaults
+        lboAssumptions: undefined,
+        financialModels: undefined,
+        memo: undefined
     });
 
-    const rawJSON = cleanAndParseJSON(response.text || "{}");
-    const data = sanitizeDealData(rawJSON, companyName);
+    // Returns are computed deterministically from the proposed assumptions
+    const data = applyLBOEngine(sanitizeDealData(rawJSON, companyName));
+    data.sensitivityAnalysis = computeDefaultSensitivity(data);
+    data.scenarios = buildDefaultScenarios();
+    data.covenants = buildDefaultCovenants(data);
+    data.memo.keyRisks = mergeCovenantRisk(data.memo.keyRisks || [], buildDownsideCovenantRisk(data));
     
     data.candidatesAnalyzed = candidates;
     return data;
   } catch (error) {
-    throw new Error(`Structure Generation Failed: ${error instanceof Error ? error.message : String(error)}`);
+    throw agentError("Structure Generation Failed", error);
   }
 };
 
@@ -686,47 +462,14 @@ export const generateDealStructure = async (companyName: string, rawData: string
  * VP Agent (Image Gen)
  */
 export const generateConceptImage = async (prompt: string): Promise<string | null> => {
-  const ai = getClient();
-  const parts = [{ text: `A professional, modern, corporate logo for: ${prompt}. Minimalist, high fidelity, 4k, white on dark background. Brand palette: Black and Gold.` }];
-  
-  const generateWithModel = async (model: string, useAdvancedConfig: boolean) => {
-    const config: any = {
-        imageConfig: { aspectRatio: "1:1" }
-    };
-    if (useAdvancedConfig) {
-        config.imageConfig.imageSize = "1K";
-    }
-
-    return await ai.models.generateContent({
-        model,
-        contents: { parts },
-        config
-    });
-  };
-
   try {
-    const response = await generateWithModel('gemini-3-pro-image-preview', true);
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
-    }
-    return null;
-  } catch (error: any) {
-    console.warn(`Primary image model failed: ${error.message}`);
-    // Fallback logic
-    if (error.message?.includes('403') || error.message?.includes('PERMISSION_DENIED') || error.message?.includes('Quota')) {
-        try {
-            const fallbackResponse = await generateWithModel('gemini-2.5-flash-image', false);
-            for (const part of fallbackResponse.candidates?.[0]?.content?.parts || []) {
-                if (part.inlineData) {
-                    return `data:image/png;base64,${part.inlineData.data}`;
-                }
-            }
-        } catch (fallbackError) {
-            console.error("Fallback image model also failed", fallbackError);
-        }
-    }
+    return await getProvider().generateImage({
+      prompt: `A professional, modern, corporate logo for: ${prompt}. Minimalist, high fidelity, 4k, white on dark background. Brand palette: Black and Gold.`,
+      aspectRatio: "1:1"
+    });
+  } catch (error) {
+    // A missing logo should not stop the pipeline
+    console.error("Concept image generation failed", error);
     return null;
   }
 };
@@ -736,50 +479,48 @@ export const generateConceptImage = async (prompt: string): Promise<string | nul
  */
 export const verifyLocation = async (locationQuery: string): Promise<string[]> => {
     try {
-        const ai = getClient();
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: `Where is the headquarters of ${locationQuery}? provide exact address if possible.`,
-            config: {
-                tools: [{ googleMaps: {} }]
-            }
-        });
-        
-        const mapLinks = response.candidates?.[0]?.groundingMetadata?.groundingChunks
-            ?.map((chunk: any) => chunk.maps?.uri)
-            .filter((uri: string) => !!uri) || [];
-
-        return mapLinks;
+        return await getProvider().searchMaps(`Where is the headquarters of ${locationQuery}? provide exact address if possible.`);
     } catch (e) {
-        throw new Error(`Location Verification Failed: ${e instanceof Error ? e.message : String(e)}`);
+        throw agentError("Location Verification Failed", e);
     }
 }
 
 /**
  * MD Agent: Final Opinion
  */
-export const getMDFinalOpinion = async (dealData: DealData, mandate: string, originalPrompt: string): Promise<string> => {
+export const getMDFinalOpinion = async (dealData: DealData, mandate: string, originalPrompt: string, hurdleRate: number = DEFAULT_HURDLE_RATE): Promise<string> => {
     try {
-        const ai = getClient();
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-pro-preview',
-            contents: `
+        // Bid capacity solved backwards from the LBO at the fund hurdle and a 3.0x MOIC
+        const bidCapacity = dealData.financialModels
+            ? [
+                runGoalSeek(dealData, { metric: 'irr', value: hurdleRate }, 'fixed'),
+                runGoalSeek(dealData, { metric: 'irr', value: hurdleRate }, 'scaled'),
+                runGoalSeek(dealData, { metric: 'moic', value: DEFAULT_MOIC_TARGET }, 'fixed')
+            ].map(r => `- ${formatGoalSeek(r, dealData)}`).join('\n')
+            : "N/A";
+        const text = await getProvider().generateText({
+            tier: 'reasoning',
+            prompt: `
             Original Request: "${originalPrompt}"
             Firm Mandate: "${mandate}"
             Target Selected: "${dealData.companyName}" 
-            Financials: EBITDA $${dealData.ebitda}M, IRR ${dealData.lboModel?.irr}%.
+            Financials: ${formatDealEbitda(dealData)}, IRR ${dealData.lboModel?.irr}%.
+            Quality of Earnings: ${formatDealQoE(dealData)}
+            Working Capital: ${formatDealNwc(dealData)}
+            
+            BID CAPACITY (solved by the LBO engine):
+            ${bidCapacity}
             
             Write a final Investment Committee opinion for DiDi AI.
+            State the maximum price you would support and what has to be true at the current price.
             Be decisive. Use bold formatting.
             `,
-            config: {
-               thinkingConfig: { thinkingBudget: 1024 }
-            }
+            thinkingBudget: 1024
         });
-        if (!response.text) throw new Error("No opinion generated");
-        return response.text;
+        if (!text) throw new LLMError('malformed_output', "No opinion generated");
+        return text;
     } catch (e) {
-        throw new Error(`Opinion Generation Failed: ${e instanceof Error ? e.message : String(e)}`);
+        throw agentError("Opinion Generation Failed", e);
     }
 }
 
@@ -788,17 +529,28 @@ export const getMDFinalOpinion = async (dealData: DealData, mandate: string, ori
  */
 export const generateDeliverableContent = async (dealData: DealData, type: DeliverableType): Promise<Slide[]> => {
     try {
-        const ai = getClient();
         const pageLimit = type === 'Teaser' || type === 'One Pager' ? 3 : 10;
+        const scenarioSummaries = dealData.financialModels ? summarizeScenarios(dealData) : [];
+        const downside = findDownsideSummary(scenarioSummaries);
+        const valueCreation = dealData.financialModels ? toValueCreation(computeDealLBO(dealData)) : dealData.valueCreation;
         
         // Contextual Injection to force the model to use real data
         const dealContext = `
         FINANCIAL HIGHLIGHTS:
-        - Revenue: $${dealData.revenue.toLocaleString()}M
-        - EBITDA: $${dealData.ebitda.toLocaleString()}M
-        - Implied EV: $${dealData.impliedValue.toLocaleString()}M
+        - Revenue: ${formatMoney(dealData.revenue, dealData)}
+        - EBITDA: ${formatDealEbitda(dealData)}
+        - Implied EV: ${formatMoney(dealData.impliedValue, dealData)}
         - LBO IRR: ${dealData.lboModel?.irr}%
         - Asking Multiple: ${dealData.askingMultiple}x
+        - Quality of Earnings: ${formatDealQoE(dealData)}
+        - Working Capital: ${formatDealNwc(dealData)}
+        
+        SCENARIO ANALYSIS (computed by the LBO engine):
+        ${scenarioSummaries.length > 0 ? formatScenarioSummaries(scenarioSummaries, dealData) : "N/A"}
+        ${downside ? `Downside protection: ${downside.irr}% IRR / ${downside.moic}x MOIC in the downside case.` : ""}
+        
+        VALUE CREATION BRIDGE (entry to exit sponsor equity, computed by the LBO engine):
+        ${valueCreation ? formatValueCreation(valueCreation, dealData) : "N/A"}
         
         KEY INVESTMENT THESIS:
         ${dealData.memo?.investmentThesis?.map(t => `- ${t}`).join('\n') || "N/A"}
@@ -810,9 +562,9 @@ export const generateDeliverableContent = async (dealData: DealData, type: Deliv
         ${dealData.memo?.marketOverview || "N/A"}
         `;
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-pro-preview',
-            contents: `
+        return await generateValidated<Slide[]>("Deliverable Content", {
+            tier: 'reasoning',
+            prompt: `
                 Act as a DiDi AI Investment Banking Associate.
                 Create a slide outline for a "${type}" document for "${dealData.companyName}".
                 
@@ -823,31 +575,27 @@ export const generateDeliverableContent = async (dealData: DealData, type: Deliv
                 - Max ${pageLimit} slides.
                 - Slide 1 must be the Title Slide.
                 - **CRITICAL**: The contentPoints MUST include the real numbers (Revenue, EBITDA, IRR) provided in the context above. Do not use generic placeholders like "$XXM".
+                - When discussing returns or risk, quote the downside case from the scenario analysis verbatim.
+                - When a slide covers returns, attribute them using the value creation bridge numbers (EBITDA growth, multiple expansion, deleveraging) and direct a waterfall chart of that bridge.
                 - Visual Directive: Describe specific charts (e.g. "Waterfall chart of synergies", "Bar chart of Revenue Growth").
                 
                 Return JSON.
             `,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            title: { type: Type.STRING },
-                            contentPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
-                            visualDirective: { type: Type.STRING }
-                        },
-                        required: ["title", "contentPoints", "visualDirective"]
-                    }
+            schema: {
+                type: SchemaType.ARRAY,
+                items: {
+                    type: SchemaType.OBJECT,
+                    properties: {
+                        title: { type: SchemaType.STRING },
+                        contentPoints: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+                        visualDirective: { type: SchemaType.STRING }
+                    },
+                    required: ["title", "contentPoints", "visualDirective"]
                 }
             }
         });
-
-        const json = cleanAndParseJSON(response.text || "[]");
-        return json as Slide[];
     } catch (e) {
-        throw new Error(`Deliverable Content Failed: ${e instanceof Error ? e.message : String(e)}`);
+        throw agentError("Deliverable Content Failed", e);
     }
 };
 
@@ -855,8 +603,9 @@ export const generateDeliverableContent = async (dealData: DealData, type: Deliv
  * Design Agent: Render Slide Visual
  */
 export const generateSlideDesign = async (slide: Slide, companyName: string): Promise<string | null> => {
-    const ai = getClient();
-    const parts = [{ text: `
+    try {
+        return await getProvider().generateImage({
+            prompt: `
         ROLE: Expert Presentation Designer for DiDi AI.
         TASK: Create a high-fidelity 16:9 DIGITAL SLIDE EXPORT.
         
@@ -868,47 +617,11 @@ export const generateSlideDesign = async (slide: Slide, companyName: string): Pr
         - Format: Digital Slide (NOT a photo of a screen).
         - No competitor names (Goldman, McKinsey).
         - Use clean, professional charts.
-    `}];
-
-    const generateWithModel = async (model: string, useAdvancedConfig: boolean) => {
-        const config: any = {
-            imageConfig: { aspectRatio: "16:9" }
-        };
-        // imageSize is only supported by gemini-3-pro-image-preview
-        if (useAdvancedConfig) {
-            config.imageConfig.imageSize = "1K";
-        }
-
-        return await ai.models.generateContent({
-            model,
-            contents: { parts },
-            config
+    `,
+            aspectRatio: "16:9"
         });
-    };
-
-    try {
-        const response = await generateWithModel('gemini-3-pro-image-preview', true);
-        for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) {
-                return `data:image/png;base64,${part.inlineData.data}`;
-            }
-        }
+    } catch (e) {
+        console.error("Slide design generation failed", e);
         return null;
-    } catch (e: any) {
-        console.warn(`Primary image model failed: ${e.message}`);
-        if (e.message?.includes('403') || e.message?.includes('PERMISSION_DENIED') || e.message?.includes('Quota')) {
-            try {
-                // Use Flash model WITHOUT imageSize parameter
-                const fallbackResponse = await generateWithModel('gemini-2.5-flash-image', false);
-                for (const part of fallbackResponse.candidates?.[0]?.content?.parts || []) {
-                    if (part.inlineData) {
-                        return `data:image/png;base64,${part.inlineData.data}`;
-                    }
-                }
-            } catch (fallbackError) {
-                console.error("Fallback image model also failed", fallbackError);
-            }
-        }
-        return null; 
     }
 };
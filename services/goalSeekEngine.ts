@@ -0,0 +1,142 @@
+
+import { DealData, LBOAssumptions } from "../types";
+import { LBOResult, OperatingProjection, adjustProjection, extendProjection, extractOperatingProjection, reportedEbitda, resolveLBOAssumptions, runLBO } from "./lboEngine";
+import { applyDebtOverrides } from "./debtEngine";
+import { formatMoney, MoneyBasis } from "./fxEngine";
+
+export type GoalSeekMetric = 'irr' | 'moic';
+// fixed: debt quantum stays at the base case as price moves; scaled: leverage turns move with price (constant debt / EV)
+export type FinancingMode = 'fixed' | 'scaled';
+
+export interface GoalSeekTarget {
+    metric: GoalSeekMetric;
+    value: number; // % IRR or x MOIC
+}
+
+export interface GoalSeekResult {
+    target: GoalSeekTarget;
+    financing: FinancingMode;
+    base: {
+        entryMultiple: number;
+        enterpriseValue: number;
+        exitMultiple: number;
+        ebitdaCagr: number; // %
+        irr: number; // %
+        moic: number;
+    };
+    // null when the target cannot be reached inside the solver bounds
+    maxEntryMultiple: number | null;
+    maxEnterpriseValue: number | null;
+    leverageAtMax: number | null;
+    equityAtMax: number | null;
+    requiredExitMultiple: number | null;
+    requiredEbitdaCagr: number | null; // %
+}
+
+export const DEFAULT_MOIC_TARGET = 3.0;
+
+// Search ranges; a target outside these is reported as unreachable
+const ENTRY_BOUNDS: [number, number] = [0.5, 40];
+const EXIT_BOUNDS: [number, number] = [0.5, 40];
+const CAGR_BOUNDS: [number, number] = [-30, 80];
+
+const round = (value: number, decimals: number = 1): number => {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+};
+
+const metricOf = (result: LBOResult, metric: GoalSeekMetric) => metric === 'irr' ? result.irr * 100 : result.moic;
+
+/**
+ * Bisection on a monotonic function. Returns the input where f crosses the target, or null if
+ * the target is not bracketed by the bounds.
+ */
+const bisect = (f: (x: number) => number, [lo, hi]: [number, number], target: number, increasing: boolean): number | null => {
+    const gap = (x: number) => increasing ? f(x) - target : target - f(x);
+    let a = lo;
+    let b = hi;
+    if (gap(a) > 0 || gap(b) < 0) return null;
+    for (let i = 0; i < 60 && b - a > 1e-4; i++) {
+        const mid = (a + b) / 2;
+        if (gap(mid) < 0) a = mid;
+        else b = mid;
+    }
+    return (a + b) / 2;
+};
+
+const ebitdaCagr = (projection: OperatingProjection, years: number): number => {
+    const start = projection.ebitda[0];
+    const end = projection.ebitda[years];
+    return start > 0 && end > 0 && years > 0 ? (Math.pow(end / start, 1 / years) - 1) * 100 : 0;
+};
+
+/**
+ * Entry price at the given multiple, with debt either held or scaled to the new price.
+ */
+const priceAt = (base: LBOAssumptions, entryMultiple: number, financing: FinancingMode): LBOAssumptions =>
+    financing === 'scaled' && base.entryMultiple > 0
+        ? applyDebtOverrides(base, { entryMultiple, leverageMultiple: base.leverageMultiple * entryMultiple / base.entryMultiple })
+        : { ...base, entryMultiple };
+
+/**
+ * Solves the deal's LBO backwards: the most we can pay for the target return, and the exit
+ * multiple or EBITDA growth the current price requires.
+ */
+export const runGoalSeek = (data: DealData, target: GoalSeekTarget, financing: FinancingMode = 'fixed'): GoalSeekResult => {
+    const assumptions = resolveLBOAssumptions(data);
+    const projection = extendProjection(extractOperatingProjection(data), assumptions.holdPeriod);
+    const baseResult = runLBO(assumptions, projection);
+    const evaluate = (a: LBOAssumptions, p: OperatingProjection = projection) => metricOf(runLBO(a, p), target.metric);
+
+    // With debt held fixed, a price at or below the debt quantum leaves no equity and the return is undefined
+    const entryBounds: [number, number] = financing === 'fixed'
+        ? [Math.max(ENTRY_BOUNDS[0], assumptions.leverageMultiple + 0.5), ENTRY_BOUNDS[1]]
+        : ENTRY_BOUNDS;
+    const maxEntryMultiple = bisect(m => evaluate(priceAt(assumptions, m, financing)), entryBounds, target.value, false);
+    const atMax = maxEntryMultiple !== null ? runLBO(priceAt(assumptions, maxEntryMultiple, financing), projection) : null;
+
+    const requiredExitMultiple = bisect(m => evaluate({ ...assumptions, exitMultiple: m }), EXIT_BOUNDS, target.value, true);
+
+    // EBITDA grows at a flat CAGR from LTM (revenue at that rate, margin held at LTM)
+    const ltmMargin = projection.revenue[0] ? reportedEbitda(projection, 0) / projection.revenue[0] * 100 : 0;
+    const requiredEbitdaCagr = ltmMargin > 0
+        ? bisect(g => evaluate(assumptions, adjustProjection(projection, { revenueGrowth: g, ebitdaMargin: ltmMargin })), CAGR_BOUNDS, target.value, true)
+        : null;
+
+    return {
+        target,
+        financing,
+        base: {
+            entryMultiple: assumptions.entryMultiple,
+            enterpriseValue: round(baseResult.entryEnterpriseValue),
+            exitMultiple: assumptions.exitMultiple,
+            ebitdaCagr: round(ebitdaCagr(projection, assumptions.holdPeriod)),
+            irr: round(baseResult.irr * 100),
+            moic: round(baseResult.moic, 2)
+        },
+        maxEntryMultiple: maxEntryMultiple !== null ? round(maxEntryMultiple, 2) : null,
+        maxEnterpriseValue: atMax ? round(atMax.entryEnterpriseValue) : null,
+        leverageAtMax: atMax ? round(atMax.entryDebt / atMax.entryEbitda, 2) : null,
+        equityAtMax: atMax ? round(atMax.entryEquity) : null,
+        requiredExitMultiple: requiredExitMultiple !== null ? round(requiredExitMultiple, 2) : null,
+        requiredEbitdaCagr: requiredEbitdaCagr !== null ? round(requiredEbitdaCagr) : null
+    };
+};
+
+export const formatGoalSeekTarget = (target: GoalSeekTarget): string =>
+    target.metric === 'irr' ? `${target.value.toFixed(1)}% IRR` : `${target.value.toFixed(2)}x MOIC`;
+
+/**
+ * One-line summary for prompts; the EV is in the deal's currency and scale.
+ */
+export const formatGoalSeek = (result: GoalSeekResult, basis: MoneyBasis = {}): string => {
+    const na = 'not reachable';
+    const entry = result.maxEntryMultiple !== null
+        ? `max entry ${result.maxEntryMultiple.toFixed(2)}x LTM EBITDA (${formatMoney(result.maxEnterpriseValue!, basis)} EV, ${result.leverageAtMax!.toFixed(2)}x leverage)`
+        : `max entry ${na}`;
+    const exit = result.requiredExitMultiple !== null ? `${result.requiredExitMultiple.toFixed(2)}x` : na;
+    const cagr = result.requiredEbitdaCagr !== null ? `${result.requiredEbitdaCagr.toFixed(1)}%` : na;
+    return `To hit ${formatGoalSeekTarget(result.target)} (financing ${result.financing === 'fixed' ? 'held fixed' : 'scaled with price'}): ${entry}; ` +
+        `at the current ${result.base.entryMultiple.toFixed(2)}x entry, required exit multiple ${exit} (plan ${result.base.exitMultiple.toFixed(2)}x) ` +
+        `and required EBITDA CAGR ${cagr} (plan ${result.base.ebitdaCagr.toFixed(1)}%).`;
+};
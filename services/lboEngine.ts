@@ -0,0 +1,592 @@
+
+import { DealData, FinancialRow, FinancialSection, LBOAssumptions, LBODetailed, ValueCreationBridge } from "../types";
+import { applyDebtOverrides, DEFAULT_BASE_RATE, deriveDebtTotals, getEffectiveTranches, trancheCashRate } from "./debtEngine";
+import { formatMoney, MoneyBasis } from "./fxEngine";
+import { addBackSchedule, diligenceAdjustedEbitda } from "./qoeEngine";
+
+// Defaults used when a deal predates lboAssumptions or the agent omitted a field
+export const DEFAULT_LBO_ASSUMPTIONS: LBOAssumptions = {
+    entryMultiple: 8.0,
+    exitMultiple: 8.0,
+    leverageMultiple: 4.5,
+    interestRate: 9.0,
+    amortizationRate: 5.0,
+    cashSweepPct: 100,
+    holdPeriod: 5,
+    transactionFeesPct: 2.0,
+    taxRate: 25
+};
+
+// Fallback ratios when the 3-statement model does not carry the line item
+const DEFAULT_CAPEX_PCT_REVENUE = 0.03;
+const DEFAULT_DA_PCT_REVENUE = 0.025;
+
+export interface OperatingProjection {
+    years: string[]; // [LTM, Year 1, ...]
+    revenue: number[];
+    ebitda: number[];
+    depreciation: number[];
+    capex: number[]; // positive = spend
+    nwcChange: number[]; // cash flow sign convention: negative = investment in working capital
+    addBacks?: number[]; // accepted QoE adjustments already included in ebitda
+}
+
+export interface OperatingOverrides {
+    revenueGrowth?: number; // % growth applied to every projected year
+    ebitdaMargin?: number; // % of revenue in every projected year
+}
+
+export interface TrancheScheduleYear {
+    id: string;
+    name: string;
+    openingBalance: number;
+    cashInterest: number;
+    pikInterest: number;
+    draw: number;
+    mandatoryRepayment: number;
+    optionalRepayment: number;
+    closingBalance: number;
+}
+
+export interface DebtScheduleYear {
+    year: string;
+    ebitda: number;
+    openingDebt: number;
+    interest: number; // cash interest
+    pikInterest: number; // accrued to principal, tax deductible
+    taxes: number;
+    capex: number;
+    nwcChange: number;
+    freeCashFlow: number; // levered FCF before debt repayment
+    mandatoryRepayment: number;
+    optionalRepayment: number;
+    revolverDraw: number;
+    closingDebt: number;
+    cash: number;
+    tranches: TrancheScheduleYear[];
+}
+
+export interface LBOResult {
+    assumptions: LBOAssumptions;
+    entryEbitda: number;
+    entryEnterpriseValue: number;
+    transactionFees: number;
+    financingFees: number;
+    entryDebt: number;
+    entryEquity: number;
+    sources: { label: string; value: number }[];
+    uses: { label: string; value: number }[];
+    schedule: DebtScheduleYear[];
+    exitEbitda: number;
+    exitEnterpriseValue: number;
+    exitDebt: number;
+    exitCash: number;
+    exitEquity: number;
+    irr: number; // decimal, e.g. 0.245
+    moic: number;
+}
+
+// --- Helpers ---
+
+const round = (value: number, decimals: number = 1): number => {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+};
+
+// Ratio rows (margins, growth, %) share labels with the line items they describe
+export const RATIO_LABEL = /margin|%|growth|multiple|ratio/i;
+
+export const findFinancialRow = (section: FinancialSection | undefined, include: RegExp, exclude: RegExp = RATIO_LABEL): FinancialRow | undefined =>
+    section?.rows.find(r => include.test(r.label) && !exclude.test(r.label));
+
+const findRow = (section: FinancialSection | undefined, include: RegExp, exclude?: RegExp): number[] | undefined =>
+    findFinancialRow(section, include, exclude)?.values;
+
+/**
+ * Periodic IRR for a series of cash flows (t = 0, 1, 2 ...). Returns NaN if no sign change.
+ */
+export const calculateIRR = (cashFlows: number[]): number => {
+    const npv = (rate: number) => cashFlows.reduce((acc, cf, t) => acc + cf / Math.pow(1 + rate, t), 0);
+    let low = -0.99;
+    let high = 10;
+    let npvLow = npv(low);
+    if (npvLow * npv(high) > 0) return NaN;
+
+    for (let i = 0; i < 200; i++) {
+        const mid = (low + high) / 2;
+        const npvMid = npv(mid);
+        if (Math.abs(npvMid) < 1e-9) return mid;
+        if (npvLow * npvMid < 0) {
+            high = mid;
+        } else {
+            low = mid;
+            npvLow = npvMid;
+        }
+    }
+    return (low + high) / 2;
+};
+
+/**
+ * Normalizes agent-proposed or user-edited assumptions, falling back to the deal's headline
+ * multiples and then to house defaults.
+ */
+export const resolveLBOAssumptions = (data: DealData): LBOAssumptions => {
+    const proposed: Partial<LBOAssumptions> = data.lboAssumptions || {};
+    const pick = (value: any, fallback: number) => (typeof value === 'number' && isFinite(value) ? value : fallback);
+
+    const entryFallback = data.lboModel?.entryMultiple || data.askingMultiple || DEFAULT_LBO_ASSUMPTIONS.entryMultiple;
+    const entryMultiple = pick(proposed.entryMultiple, entryFallback);
+    const baseRate = pick(proposed.baseRate, DEFAULT_BASE_RATE);
+    const tranches = proposed.tranches && proposed.tranches.length > 0 ? proposed.tranches : undefined;
+
+    const resolved: LBOAssumptions = {
+        entryMultiple,
+        exitMultiple: pick(proposed.exitMultiple, data.lboModel?.exitMultiple || entryMultiple),
+        leverageMultiple: pick(proposed.leverageMultiple, DEFAULT_LBO_ASSUMPTIONS.leverageMultiple),
+        interestRate: pick(proposed.interestRate, DEFAULT_LBO_ASSUMPTIONS.interestRate),
+        amortizationRate: pick(proposed.amortizationRate, DEFAULT_LBO_ASSUMPTIONS.amortizationRate),
+        cashSweepPct: pick(proposed.cashSweepPct, DEFAULT_LBO_ASSUMPTIONS.cashSweepPct),
+        holdPeriod: Math.max(1, Math.round(pick(proposed.holdPeriod, DEFAULT_LBO_ASSUMPTIONS.holdPeriod))),
+        transactionFeesPct: pick(proposed.transactionFeesPct, DEFAULT_LBO_ASSUMPTIONS.transactionFeesPct),
+        taxRate: pick(proposed.taxRate, DEFAULT_LBO_ASSUMPTIONS.taxRate),
+        baseRate
+    };
+
+    // A tranche structure is the source of truth for leverage, cost of debt and amortization
+    return tranches ? { ...resolved, tranches, ...deriveDebtTotals(tranches, baseRate) } : resolved;
+};
+
+/**
+ * Pulls the operating line items the LBO needs out of the 3-statement model.
+ * Labels are free text from the Associate agent, so rows are matched by pattern.
+ */
+export const extractOperatingProjection = (data: DealData): OperatingProjection => {
+    const models = data.financialModels;
+    const years = models?.years?.length ? models.years : ["LTM"];
+    const length = years.length;
+
+    const fit = (values: number[] | undefined, fallback: (i: number) => number): number[] =>
+        Array.from({ length }, (_, i) => {
+            const v = values?.[i];
+            return typeof v === 'number' && isFinite(v) ? v : fallback(i);
+        });
+
+    const revenueRow = findRow(models?.incomeStatement, /revenue|sales/i, RATIO_LABEL);
+    const revenue = fit(revenueRow, () => data.revenue || 0);
+
+    const ebitdaRow = findRow(models?.incomeStatement, /ebitda/i, RATIO_LABEL);
+    const ebitda = fit(ebitdaRow, () => data.ebitda || 0);
+
+    const daRow = findRow(models?.incomeStatement, /depreciation|d&a|amortization/i, RATIO_LABEL)
+        || findRow(models?.cashFlow, /depreciation|d&a|amortization/i, RATIO_LABEL);
+    const depreciation = fit(daRow?.map(Math.abs), i => revenue[i] * DEFAULT_DA_PCT_REVENUE);
+
+    const capexRow = findRow(models?.cashFlow, /capex|capital expenditure/i, RATIO_LABEL);
+    const capex = fit(capexRow?.map(Math.abs), i => revenue[i] * DEFAULT_CAPEX_PCT_REVENUE);
+
+    const nwcRow = findRow(models?.cashFlow, /working capital|nwc/i, RATIO_LABEL);
+    const nwcChange = fit(nwcRow, () => 0);
+
+    // Guard against a missing LTM anchor
+    if (!ebitda[0]) ebitda[0] = data.ebitda || 0;
+    if (!revenue[0]) revenue[0] = data.revenue || 0;
+
+    // Diligence-adjusted EBITDA: the statements stay as reported, accepted add-backs layer on top
+    const addBacks = addBackSchedule(data.addBacks, length);
+    if (addBacks.some(a => a !== 0)) {
+        return { years, revenue, ebitda: ebitda.map((v, i) => v + addBacks[i]), depreciation, capex, nwcChange, addBacks };
+    }
+    return { years, revenue, ebitda, depreciation, capex, nwcChange };
+};
+
+/**
+ * EBITDA before QoE add-backs for a projection period.
+ */
+export const reportedEbitda = (projection: OperatingProjection, t: number): number =>
+    projection.ebitda[t] - (projection.addBacks?.[t] ?? 0);
+
+/**
+ * Extends the projection to cover the hold period by carrying forward the last
+ * observed growth rate and line-item ratios.
+ */
+export const extendProjection = (projection: OperatingProjection, periods: number): OperatingProjection => {
+    const needed = periods + 1;
+    if (projection.years.length >= needed) return projection;
+
+    const out: OperatingProjection = {
+        years: [...projection.years],
+        revenue: [...projection.revenue],
+        ebitda: [...projection.ebitda],
+        depreciation: [...projection.depreciation],
+        capex: [...projection.capex],
+        nwcChange: [...projection.nwcChange],
+        ...(projection.addBacks ? { addBacks: [...projection.addBacks] } : {})
+    };
+
+    const last = out.years.length - 1;
+    const prev = Math.max(0, last - 1);
+    const growth = out.revenue[prev] ? out.revenue[last] / out.revenue[prev] - 1 : 0;
+    const base = out.revenue[last] || 1;
+    const margin = out.revenue[last] ? out.ebitda[last] / base : 1;
+    const daRatio = out.depreciation[last] / base;
+    const capexRatio = out.capex[last] / base;
+    const nwcRatio = out.nwcChange[last] / base;
+
+    for (let i = out.years.length; i < needed; i++) {
+        const revenue = out.revenue[i - 1] * (1 + growth);
+        out.years.push(`Year ${i}`);
+        out.revenue.push(revenue);
+        out.ebitda.push(out.revenue[last] ? revenue * margin : out.ebitda[i - 1] * (1 + growth));
+        out.depreciation.push(revenue * daRatio);
+        out.capex.push(revenue * capexRatio);
+        out.nwcChange.push(revenue * nwcRatio);
+        out.addBacks?.push(out.addBacks[last]);
+    }
+    return out;
+};
+
+/**
+ * Implied drivers of a projection: revenue CAGR and final-year EBITDA margin (both %).
+ */
+export const getProjectionDrivers = (projection: OperatingProjection): Required<OperatingOverrides> => {
+    const last = projection.years.length - 1;
+    const start = projection.revenue[0];
+    const end = projection.revenue[last];
+    const revenueGrowth = last > 0 && start > 0 && end > 0 ? (Math.pow(end / start, 1 / last) - 1) * 100 : 0;
+    // Margin on reported EBITDA, so feeding it back through adjustProjection reproduces the base case
+    const ebitdaMargin = end ? reportedEbitda(projection, last) / end * 100 : 0;
+    return { revenueGrowth: round(revenueGrowth), ebitdaMargin: round(ebitdaMargin) };
+};
+
+/**
+ * Re-cuts the projection at a flat growth rate and/or margin. Line items that scale with
+ * revenue (D&A, CapEx, NWC) keep their original ratio to revenue.
+ */
+export const adjustProjection = (projection: OperatingProjection, overrides: OperatingOverrides): OperatingProjection => {
+    if (overrides.revenueGrowth === undefined && overrides.ebitdaMargin === undefined) return projection;
+
+    const out: OperatingProjection = {
+        years: [...projection.years],
+        revenue: [...projection.revenue],
+        ebitda: [...projection.ebitda],
+        depreciation: [...projection.depreciation],
+        capex: [...projection.capex],
+        nwcChange: [...projection.nwcChange],
+        ...(projection.addBacks ? { addBacks: [...projection.addBacks] } : {})
+    };
+
+    for (let t = 1; t < out.years.length; t++) {
+        const original = projection.revenue[t];
+        const revenue = overrides.revenueGrowth !== undefined ? out.revenue[t - 1] * (1 + overrides.revenueGrowth / 100) : original;
+        const scale = original ? revenue / original : 1;
+        out.revenue[t] = revenue;
+        const addBack = projection.addBacks?.[t] ?? 0;
+        out.ebitda[t] = (overrides.ebitdaMargin !== undefined ? revenue * overrides.ebitdaMargin / 100 : reportedEbitda(projection, t) * scale) + addBack;
+        out.depreciation[t] = projection.depreciation[t] * scale;
+        out.capex[t] = projection.capex[t] * scale;
+        out.nwcChange[t] = projection.nwcChange[t] * scale;
+    }
+    return out;
+};
+
+/**
+ * Core LBO: Sources & Uses, annual tranche-by-tranche debt schedule and sponsor returns.
+ * Interest is charged on opening balances to avoid circularity. Shortfalls are funded from
+ * the revolver; excess cash is swept in ascending sweepPriority.
+ */
+export const runLBO = (assumptions: LBOAssumptions, baseProjection: OperatingProjection): LBOResult => {
+    const projection = extendProjection(baseProjection, assumptions.holdPeriod);
+    const baseRate = assumptions.baseRate ?? DEFAULT_BASE_RATE;
+    const tranches = getEffectiveTranches(assumptions);
+
+    const entryEbitda = projection.ebitda[0];
+    const entryEnterpriseValue = entryEbitda * assumptions.entryMultiple;
+    const transactionFees = entryEnterpriseValue * assumptions.transactionFeesPct / 100;
+
+    // Debt cannot exceed total uses; scale every tranche down pro rata if it would
+    const requested = tranches.map(t => entryEbitda * t.amountMultiple);
+    const requestedFees = tranches.reduce((acc, t, i) => acc + requested[i] * t.upfrontFeePct / 100, 0);
+    const requestedDebt = requested.reduce((acc, v) => acc + v, 0);
+    const fundingScale = requestedDebt - requestedFees > entryEnterpriseValue + transactionFees
+        ? (entryEnterpriseValue + transactionFees) / (requestedDebt - requestedFees)
+        : 1;
+
+    const state = tranches.map((t, i) => {
+        const funded = requested[i] * fundingScale;
+        return {
+            tranche: t,
+            funded,
+            balance: funded,
+            commitment: t.type === 'Revolver' ? Math.max(funded, entryEbitda * (t.commitmentMultiple || 0)) : funded
+        };
+    });
+
+    const financingFees = state.reduce((acc, s) => acc + s.funded * s.tranche.upfrontFeePct / 100, 0);
+    const entryDebt = state.reduce((acc, s) => acc + s.funded, 0);
+    const entryEquity = entryEnterpriseValue + transactionFees + financingFees - entryDebt;
+
+    const sweepOrder = state
+        .filter(s => s.tranche.sweepPriority > 0)
+        .sort((a, b) => a.tranche.sweepPriority - b.tranche.sweepPriority);
+
+    const schedule: DebtScheduleYear[] = [];
+    let cash = 0;
+
+    for (let t = 1; t <= assumptions.holdPeriod; t++) {
+        const ebitda = projection.ebitda[t];
+        const openingDebt = state.reduce((acc, s) => acc + s.balance, 0);
+
+        const rows: TrancheScheduleYear[] = state.map(s => {
+            const pikCoupon = s.balance * (s.tranche.pikRate || 0) / 100;
+            const cashCoupon = s.balance * trancheCashRate(s.tranche, baseRate) / 100;
+            return {
+                id: s.tranche.id,
+                name: s.tranche.name,
+                openingBalance: s.balance,
+                cashInterest: cashCoupon + (s.tranche.pikToggle ? 0 : pikCoupon),
+                pikInterest: s.tranche.pikToggle ? pikCoupon : 0,
+                draw: 0,
+                mandatoryRepayment: Math.min(s.balance, s.funded * s.tranche.amortizationRate / 100),
+                optionalRepayment: 0,
+                closingBalance: 0
+            };
+        });
+
+        const interest = rows.reduce((acc, r) => acc + r.cashInterest, 0);
+        const pikInterest = rows.reduce((acc, r) => acc + r.pikInterest, 0);
+        const taxableIncome = ebitda - projection.depreciation[t] - interest - pikInterest;
+        const taxes = Math.max(0, taxableIncome * assumptions.taxRate / 100);
+        const capex = projection.capex[t];
+        const nwcChange = projection.nwcChange[t];
+        const freeCashFlow = ebitda - interest - taxes - capex + nwcChange;
+        const mandatoryRepayment = rows.reduce((acc, r) => acc + r.mandatoryRepayment, 0);
+
+        // Cover any shortfall with undrawn revolver capacity
+        let shortfall = Math.max(0, -(cash + freeCashFlow - mandatoryRepayment));
+        state.forEach((s, i) => {
+            if (shortfall <= 0 || s.tranche.type !== 'Revolver') return;
+            const draw = Math.min(shortfall, Math.max(0, s.commitment - (s.balance - rows[i].mandatoryRepayment)));
+            rows[i].draw = draw;
+            shortfall -= draw;
+        });
+        const revolverDraw = rows.reduce((acc, r) => acc + r.draw, 0);
+
+        let sweep = Math.max(0, cash + freeCashFlow - mandatoryRepayment + revolverDraw) * assumptions.cashSweepPct / 100;
+        sweepOrder.forEach(s => {
+            const row = rows[state.indexOf(s)];
+            const outstanding = row.openingBalance + row.draw - row.mandatoryRepayment;
+            const paid = Math.min(outstanding, sweep);
+            row.optionalRepayment = paid;
+            sweep -= paid;
+        });
+        const optionalRepayment = rows.reduce((acc, r) => acc + r.optionalRepayment, 0);
+
+        rows.forEach((row, i) => {
+            row.closingBalance = row.openingBalance + row.draw - row.mandatoryRepayment - row.optionalRepayment + row.pikInterest;
+            state[i].balance = row.closingBalance;
+        });
+
+        cash = cash + freeCashFlow + revolverDraw - mandatoryRepayment - optionalRepayment;
+
+        schedule.push({
+            year: projection.years[t],
+            ebitda,
+            openingDebt,
+            interest,
+            pikInterest,
+            taxes,
+            capex,
+            nwcChange,
+            freeCashFlow,
+            mandatoryRepayment,
+            optionalRepayment,
+            revolverDraw,
+            closingDebt: state.reduce((acc, s) => acc + s.balance, 0),
+            cash,
+            tranches: rows
+        });
+    }
+
+    const exitDebt = state.reduce((acc, s) => acc + s.balance, 0);
+    const exitEbitda = projection.ebitda[assumptions.holdPeriod];
+    const exitEnterpriseValue = exitEbitda * assumptions.exitMultiple;
+    const exitEquity = Math.max(0, exitEnterpriseValue - exitDebt + cash);
+
+    const moic = entryEquity > 0 ? exitEquity / entryEquity : 0;
+    const irr = entryEquity > 0 && exitEquity > 0 ? Math.pow(moic, 1 / assumptions.holdPeriod) - 1 : -1;
+
+    return {
+        assumptions,
+        entryEbitda,
+        entryEnterpriseValue,
+        transactionFees,
+        financingFees,
+        entryDebt,
+        entryEquity,
+        sources: [
+            ...state.filter(s => s.funded > 0).map(s => ({ label: s.tranche.name, value: round(s.funded) })),
+            { label: "Sponsor Equity", value: round(entryEquity) }
+        ],
+        uses: [
+            { label: "Purchase Enterprise Value", value: round(entryEnterpriseValue) },
+            { label: "Transaction Fees", value: round(transactionFees) },
+            ...(financingFees > 0 ? [{ label: "Financing Fees", value: round(financingFees) }] : [])
+        ],
+        schedule,
+        exitEbitda,
+        exitEnterpriseValue,
+        exitDebt,
+        exitCash: cash,
+        exitEquity,
+        irr,
+        moic
+    };
+};
+
+/**
+ * Runs the engine against a deal's own assumptions and 3-statement model.
+ */
+export const computeDealLBO = (data: DealData, overrides?: Partial<LBOAssumptions>, operating?: OperatingOverrides): LBOResult => {
+    const assumptions = applyDebtOverrides(resolveLBOAssumptions(data), overrides || {});
+    const projection = extendProjection(extractOperatingProjection(data), assumptions.holdPeriod);
+    return runLBO(assumptions, operating ? adjustProjection(projection, operating) : projection);
+};
+
+/**
+ * Converts an engine result to the display/export shape used by LBOView and the CSV export.
+ */
+export const toLBODetailed = (result: LBOResult): LBODetailed => {
+    const a = result.assumptions;
+    const s = result.schedule;
+    const structured = !!a.tranches && a.tranches.length > 0;
+    const baseRate = a.baseRate ?? DEFAULT_BASE_RATE;
+    const hasPik = s.some(y => y.pikInterest > 0);
+    const hasRevolverDraw = s.some(y => y.revolverDraw > 0);
+
+    const trancheTerms = structured ? a.tranches!.map(t => {
+        const coupon = t.rateType === 'floating' ? `Base + ${t.rate.toFixed(2)}%` : `${t.rate.toFixed(2)}%`;
+        const pik = t.pikRate ? ` + ${t.pikRate.toFixed(1)}% ${t.pikToggle ? 'PIK' : 'cash'}` : '';
+        return { label: t.name, value: `${t.amountMultiple.toFixed(2)}x @ ${coupon}${pik}` };
+    }) : [];
+
+    const trancheBalances = structured
+        ? a.tranches!.map((t, i) => ({ label: `${t.name} Balance`, values: s.map(y => round(y.tranches[i]?.closingBalance ?? 0)) }))
+        : [];
+
+    return {
+        assumptions: [
+            { label: "Entry Multiple", value: `${a.entryMultiple.toFixed(1)}x` },
+            { label: "Exit Multiple", value: `${a.exitMultiple.toFixed(1)}x` },
+            { label: "Total Leverage", value: `${a.leverageMultiple.toFixed(1)}x` },
+            { label: structured ? "Blended Cost of Debt" : "Interest Rate", value: `${a.interestRate.toFixed(1)}%` },
+            ...(structured ? [{ label: "Base Rate", value: `${baseRate.toFixed(2)}%` }] : []),
+            { label: "Annual Amortization", value: `${a.amortizationRate.toFixed(1)}%` },
+            { label: "Cash Sweep", value: `${a.cashSweepPct.toFixed(0)}%` },
+            { label: "Hold Period", value: `${a.holdPeriod} yrs` },
+            { label: "Transaction Fees", value: `${a.transactionFeesPct.toFixed(1)}%` },
+            { label: "Tax Rate", value: `${a.taxRate.toFixed(0)}%` },
+            ...trancheTerms
+        ],
+        sources: result.sources,
+        uses: result.uses,
+        debtSchedule: {
+            title: "Debt Schedule",
+            rows: [
+                { label: "EBITDA", values: s.map(y => round(y.ebitda)) },
+                { label: "Opening Debt", values: s.map(y => round(y.openingDebt)) },
+                { label: "Interest Expense", values: s.map(y => round(-y.interest)) },
+                ...(hasPik ? [{ label: "PIK Interest (non-cash)", values: s.map(y => round(y.pikInterest)) }] : []),
+                { label: "Cash Taxes", values: s.map(y => round(-y.taxes)) },
+                { label: "CapEx", values: s.map(y => round(-y.capex)) },
+                { label: "Change in NWC", values: s.map(y => round(y.nwcChange)) },
+                { label: "Free Cash Flow", values: s.map(y => round(y.freeCashFlow)) },
+                ...(hasRevolverDraw ? [{ label: "Revolver Draw", values: s.map(y => round(y.revolverDraw)) }] : []),
+                { label: "Mandatory Amortization", values: s.map(y => round(-y.mandatoryRepayment)) },
+                { label: "Cash Sweep", values: s.map(y => round(-y.optionalRepayment)) },
+                ...trancheBalances,
+                { label: "Closing Debt", values: s.map(y => round(y.closingDebt)) },
+                { label: "Cash Balance", values: s.map(y => round(y.cash)) },
+                { label: "Net Debt / EBITDA", values: s.map(y => round(y.ebitda ? (y.closingDebt - y.cash) / y.ebitda : 0)) }
+            ]
+        },
+        projectedReturns: {
+            title: "Returns Analysis",
+            rows: [
+                { label: "Implied Enterprise Value", values: s.map(y => round(y.ebitda * a.exitMultiple)) },
+                { label: "Less: Net Debt", values: s.map(y => round(-(y.closingDebt - y.cash))) },
+                { label: "Equity Value", values: s.map(y => round(Math.max(0, y.ebitda * a.exitMultiple - y.closingDebt + y.cash))) },
+                { label: "MOIC (x)", values: s.map(y => round(result.entryEquity > 0 ? Math.max(0, y.ebitda * a.exitMultiple - y.closingDebt + y.cash) / result.entryEquity : 0, 2)) }
+            ]
+        }
+    };
+};
+
+/**
+ * Headline metrics stored on DealData.lboModel (IRR as a percentage).
+ */
+export const toLBOSummary = (result: LBOResult): DealData['lboModel'] => ({
+    entryMultiple: round(result.assumptions.entryMultiple),
+    exitMultiple: round(result.assumptions.exitMultiple),
+    irr: round(result.irr * 100),
+    moic: round(result.moic, 2),
+    debttoEquity: round(result.entryEquity > 0 ? result.entryDebt / result.entryEquity : 0, 2)
+});
+
+/**
+ * Splits the sponsor's equity gain into EBITDA growth, multiple expansion and deleveraging.
+ * Fees paid at close and any exit-equity floor are reported separately so the bridge ties.
+ */
+export const toValueCreation = (result: LBOResult): ValueCreationBridge => {
+    const entryMultiple = result.assumptions.entryMultiple;
+    const ebitdaGrowth = (result.exitEbitda - result.entryEbitda) * entryMultiple;
+    const multipleExpansion = (result.assumptions.exitMultiple - entryMultiple) * result.exitEbitda;
+    const deleveraging = result.entryDebt - result.exitDebt + result.exitCash;
+    const feesAndExpenses = -(result.transactionFees + result.financingFees);
+    const other = result.exitEquity - result.entryEquity - ebitdaGrowth - multipleExpansion - deleveraging - feesAndExpenses;
+
+    return {
+        entryEquity: round(result.entryEquity),
+        exitEquity: round(result.exitEquity),
+        ebitdaGrowth: round(ebitdaGrowth),
+        multipleExpansion: round(multipleExpansion),
+        deleveraging: round(deleveraging),
+        feesAndExpenses: round(feesAndExpenses),
+        other: round(other)
+    };
+};
+
+/**
+ * Plain-text bridge for prompts, with each driver's share of the gross value created. Figures
+ * are in the deal's currency and scale.
+ */
+export const formatValueCreation = (bridge: ValueCreationBridge, basis: MoneyBasis = {}): string => {
+    const money = (value: number) => formatMoney(value, basis);
+    const drivers = [
+        { label: "EBITDA Growth", value: bridge.ebitdaGrowth },
+        { label: "Multiple Expansion / (Contraction)", value: bridge.multipleExpansion },
+        { label: "Debt Paydown & Cash Build", value: bridge.deleveraging }
+    ];
+    const gross = drivers.reduce((acc, d) => acc + Math.max(0, d.value), 0);
+    return [
+        `- Entry Equity: ${money(bridge.entryEquity)}`,
+        ...drivers.map(d => `- ${d.label}: ${money(d.value)}${gross > 0 && d.value > 0 ? ` (${Math.round(d.value / gross * 100)}% of value created)` : ''}`),
+        `- Fees & Expenses at Close: ${money(bridge.feesAndExpenses)}`,
+        ...(Math.abs(bridge.other) >= 0.1 ? [`- Other: ${money(bridge.other)}`] : []),
+        `- Exit Equity: ${money(bridge.exitEquity)}`
+    ].join('\n');
+};
+
+/**
+ * Recomputes all LBO outputs on a deal from its assumptions.
+ */
+export const applyLBOEngine = (data: DealData): DealData => {
+    const result = computeDealLBO(data);
+    return {
+        ...data,
+        adjustedEbitda: diligenceAdjustedEbitda(data.ebitda, data.addBacks),
+        lboAssumptions: result.assumptions,
+        lboDetailed: toLBODetailed(result),
+        lboModel: toLBOSummary(result),
+        valueCreation: toValueCreation(result)
+    };
+};
@@ -0,0 +1,132 @@
+
+import { LLMProviderId, LLMSettings, ModelTier } from "../types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAIProvider } from "./openAIProvider";
+import { createMockProvider } from "./mockProvider";
+import { withRecording } from "./traceRecorder";
+import { withResilience } from "./requestLayer";
+
+// Vendor-neutral schema vocabulary; the values match Gemini's Type enum
+export const SchemaType = {
+    STRING: 'STRING',
+    NUMBER: 'NUMBER',
+    INTEGER: 'INTEGER',
+    BOOLEAN: 'BOOLEAN',
+    ARRAY: 'ARRAY',
+    OBJECT: 'OBJECT'
+} as const;
+
+export interface JsonSchema {
+    type: typeof SchemaType[keyof typeof SchemaType];
+    description?: string;
+    enum?: string[];
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    required?: string[];
+    minimum?: number; // numeric bounds, enforced again on the parsed output
+    maximum?: number;
+}
+
+// A prompt is plain text or multimodal parts (text plus base64 documents and images)
+export interface LLMPart {
+    text?: string;
+    inlineData?: { mimeType: string; data: string };
+    document?: string; // name of the uploaded file a text part was read from; traces keep only its fingerprint
+}
+
+export interface TextRequest {
+    tier: Exclude<ModelTier, 'image'>;
+    prompt: string | LLMPart[];
+    thinkingBudget?: number; // tokens; ignored by providers without a thinking mode
+    maxOutputTokens?: number;
+    signal?: AbortSignal; // set by the request layer to cancel a timed-out attempt
+}
+
+export interface JsonRequest extends TextRequest {
+    schema: JsonSchema;
+}
+
+export interface GroundedRequest extends TextRequest {
+    // Shape hint only: providers that cannot constrain grounded output rely on the prompt
+    schema?: JsonSchema;
+}
+
+export interface GroundedResult {
+    text: string;
+    sources: string[]; // URLs the answer was grounded on
+}
+
+export interface ImageRequest {
+    prompt: string;
+    aspectRatio: '1:1' | '16:9';
+    signal?: AbortSignal;
+}
+
+/**
+ * What the agents need from a model vendor. Implementations return raw text for JSON so the
+ * caller's repair and parsing stay in one place.
+ */
+export interface LLMProvider {
+    id: LLMProviderId | 'replay';
+    label: string;
+    generateText(request: TextRequest): Promise<string>;
+    generateJSON(request: JsonRequest): Promise<string>;
+    searchGrounded(request: GroundedRequest): Promise<GroundedResult>;
+    generateImage(request: ImageRequest): Promise<string | null>; // data URL
+    searchMaps(prompt: string, signal?: AbortSignal): Promise<string[]>; // map links
+}
+
+export const LLM_PROVIDERS: Record<LLMProviderId, string> = {
+    gemini: 'Google Gemini',
+    openai: 'OpenAI-compatible / local endpoint',
+    mock: 'Offline mock (deterministic)'
+};
+
+const isProviderId = (value: any): value is LLMProviderId => Object.keys(LLM_PROVIDERS).includes(value);
+
+/**
+ * Saved settings filled from the environment: LLM_PROVIDER picks the vendor, LLM_BASE_URL and
+ * LLM_API_KEY configure an OpenAI-compatible endpoint.
+ */
+export const resolveLLMSettings = (settings?: Partial<LLMSettings>): LLMSettings => {
+    const envProvider = process.env.LLM_PROVIDER;
+    const provider = isProviderId(settings?.provider) ? settings!.provider : isProviderId(envProvider) ? envProvider : 'gemini';
+    const models = Object.fromEntries(Object.entries(settings?.models || {}).filter(([, model]) => typeof model === 'string' && model.trim()));
+    return {
+        provider,
+        baseUrl: settings?.baseUrl?.trim() || process.env.LLM_BASE_URL || undefined,
+        apiKey: settings?.apiKey?.trim() || undefined,
+        models
+    };
+};
+
+export const createProvider = (settings: LLMSettings): LLMProvider => {
+    switch (settings.provider) {
+        case 'openai': return createOpenAIProvider(settings);
+        case 'mock': return createMockProvider();
+        default: return createGeminiProvider(settings);
+    }
+};
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Switches every agent to the configured vendor, behind the request layer's retries and limits.
+ * Called when the Firm Mandate is saved.
+ */
+export const configureProvider = (settings?: Partial<LLMSettings>): LLMProvider => {
+    activeProvider = withRecording(withResilience(createProvider(resolveLLMSettings(settings))));
+    return activeProvider;
+};
+
+export const getProvider = (): LLMProvider => activeProvider || configureProvider();
+
+/**
+ * Swaps in a provider (a trace replay) and returns the one it replaced so it can be restored.
+ * Wrap it with withRecording to keep capturing calls.
+ */
+export const setProvider = (provider: LLMProvider): LLMProvider => {
+    const previous = getProvider();
+    activeProvider = provider;
+    return previous;
+};
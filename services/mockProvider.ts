@@ -0,0 +1,133 @@
+
+import { GroundedRequest, ImageRequest, JsonRequest, JsonSchema, LLMPart, LLMProvider, TextRequest } from "./llmProvider";
+import { recordUsage } from "./usageMeter";
+
+const COMPANY_NAMES = [
+    'Northwind Analytics', 'Harbor Ridge Health', 'Summit Fleet Services', 'Cobalt Ledger Software',
+    'Meridian Lab Supply', 'Granite Peak Logistics', 'Bluewater Dental Partners', 'Ironbridge Controls'
+];
+
+// Plausible ranges by field name so engines fed by the mock produce sensible models
+const NUMBER_RULES: { pattern: RegExp; min: number; max: number; decimals: number }[] = [
+    { pattern: /^leverageMultiple$/i, min: 4, max: 5.5, decimals: 1 },
+    { pattern: /^(amount|commitment)Multiple$/i, min: 0.5, max: 2.5, decimals: 1 },
+    { pattern: /^exitMultiple$/i, min: 10, max: 12, decimals: 1 },
+    { pattern: /multiple/i, min: 8, max: 10, decimals: 1 },
+    { pattern: /^taxRate$/i, min: 21, max: 27, decimals: 0 },
+    { pattern: /holdPeriod|years?$/i, min: 4, max: 6, decimals: 0 },
+    { pattern: /priority/i, min: 0, max: 3, decimals: 0 },
+    { pattern: /rate|pct|percent|margin|growth|floor|yield/i, min: 1, max: 10, decimals: 1 },
+    { pattern: /^ebitda$/i, min: 15, max: 60, decimals: 1 },
+    { pattern: /revenue|sales/i, min: 80, max: 300, decimals: 1 },
+    { pattern: /value|capital|size/i, min: 100, max: 600, decimals: 1 }
+];
+
+// FNV-1a, so the same prompt always produces the same response
+const hashString = (text: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// mulberry32
+const seededRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const promptText = (prompt: string | LLMPart[]): string =>
+    typeof prompt === 'string' ? prompt : prompt.map(p => p.text || p.inlineData?.data.slice(0, 64) || '').join('\n');
+
+// Roughly four characters per token, so the spend views have something to show offline
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const digest = (prompt: string | LLMPart[]) => hashString(promptText(prompt)).toString(16).padStart(8, '0');
+
+/**
+ * A value of the schema's shape. Arrays hold three items, or six for period-indexed fields.
+ */
+const fromSchema = (schema: JsonSchema, random: () => number, prompt: string, key: string = ''): any => {
+    const pick = <T,>(list: T[]): T => list[Math.floor(random() * list.length)];
+    // Keep the company an earlier mock answer put forward so a pipeline run follows one target
+    const mentioned = COMPANY_NAMES.filter(name => prompt.includes(name)).sort((a, b) => prompt.indexOf(a) - prompt.indexOf(b));
+    switch (schema.type) {
+        case 'OBJECT':
+            return Object.fromEntries(Object.entries(schema.properties || {}).map(([name, value]) => [name, fromSchema(value, random, prompt, name)]));
+        case 'ARRAY': {
+            if (/^years$/i.test(key)) return ['LTM', 'Year 1', 'Year 2', 'Year 3', 'Year 4', 'Year 5'];
+            const length = /^values$/i.test(key) ? 6 : 3;
+            return Array.from({ length }, () => fromSchema(schema.items || { type: 'STRING' }, random, prompt, key));
+        }
+        case 'NUMBER':
+        case 'INTEGER': {
+            const rule = NUMBER_RULES.find(r => r.pattern.test(key)) || { min: 10, max: 100, decimals: 1 };
+            const value = Math.min(schema.maximum ?? Infinity, Math.max(schema.minimum ?? -Infinity, rule.min + random() * (rule.max - rule.min)));
+            return schema.type === 'INTEGER' ? Math.round(value) : Number(value.toFixed(rule.decimals));
+        }
+        case 'BOOLEAN':
+            return random() < 0.5;
+        default:
+            if (schema.enum?.length) return pick(schema.enum);
+            if (/date/i.test(key)) return '2024-12-31';
+            if (/url|uri|reference|source/i.test(key)) return `https://example.com/mock/${Math.floor(random() * 1e6)}`;
+            if (/^(name|companyName|company|target)$/i.test(key) && mentioned.length) return mentioned[0];
+            if (!key || /^(name|companyName|company|target)s?$/i.test(key)) return pick(COMPANY_NAMES);
+            return `Mock ${key} ${Math.floor(random() * 1000)}`;
+    }
+};
+
+/**
+ * Deterministic, network-free provider for demos and tests. Text answers quote the request,
+ * JSON answers follow the schema with values seeded from the prompt.
+ */
+export const createMockProvider = (): LLMProvider => {
+    const generateText = async (request: TextRequest): Promise<string> => {
+        const firstLine = promptText(request.prompt).split('\n').map(l => l.trim()).find(l => l) || '';
+        const text = [
+            '### Offline Mock Response',
+            `- **Request**: "${firstLine.slice(0, 200)}"`,
+            `- **Digest**: \`${digest(request.prompt)}\``,
+            '',
+            'Generated by the offline mock provider. Switch the model provider in the Firm Mandate for a live analysis.'
+        ].join('\n');
+        recordUsage('mock', { inputTokens: estimateTokens(promptText(request.prompt)), outputTokens: estimateTokens(text) });
+        return text;
+    };
+
+    const generateJSON = async (request: JsonRequest): Promise<string> => {
+        const text = promptText(request.prompt);
+        const json = JSON.stringify(fromSchema(request.schema, seededRandom(hashString(text)), text));
+        recordUsage('mock', { inputTokens: estimateTokens(text), outputTokens: estimateTokens(json) });
+        return json;
+    };
+
+    const searchGrounded = async (request: GroundedRequest) => ({
+        text: request.schema ? await generateJSON({ ...request, schema: request.schema }) : await generateText(request),
+        sources: [`https://example.com/mock/${digest(request.prompt)}`]
+    });
+
+    const generateImage = async (request: ImageRequest): Promise<string | null> => {
+        const random = seededRandom(hashString(request.prompt));
+        const [width, height] = request.aspectRatio === '16:9' ? [1600, 900] : [1024, 1024];
+        const hue = Math.floor(random() * 360);
+        const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+            `<rect width="100%" height="100%" fill="#0a0a0a"/>` +
+            `<circle cx="${width / 2}" cy="${height / 2}" r="${Math.min(width, height) / 4}" fill="none" stroke="#d4af37" stroke-width="12"/>` +
+            `<circle cx="${width / 2}" cy="${height / 2}" r="${Math.min(width, height) / 8}" fill="hsl(${hue},60%,45%)"/>` +
+            `</svg>`;
+        recordUsage('mock', { inputTokens: estimateTokens(request.prompt), images: 1 });
+        return `data:image/svg+xml;base64,${btoa(svg)}`;
+    };
+
+    const searchMaps = async (prompt: string): Promise<string[]> => {
+        recordUsage('mock', { inputTokens: estimateTokens(prompt) });
+        return [`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(prompt)}`];
+    };
+
+    return { id: 'mock', label: 'Offline mock (deterministic)', generateText, generateJSON, searchGrounded, generateImage, searchMaps };
+};
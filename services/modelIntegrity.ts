@@ -0,0 +1,197 @@
+
+import { DealData, FinancialSection, FinancialStatementKey, ModelCheckId, ModelHealth, ModelIntegrityIssue } from "../types";
+import { findFinancialRow, RATIO_LABEL } from "./lboEngine";
+
+type FinancialModels = NonNullable<DealData['financialModels']>;
+type CheckResult = ModelHealth['checks'][number];
+
+// Statements are rounded to one decimal ($M), so allow small rounding drift
+const TOLERANCE_ABS = 0.15;
+const TOLERANCE_PCT = 0.005;
+
+const CHECK_LABELS: Record<ModelCheckId, string> = {
+    rowLength: 'Row lengths match years',
+    balanceSheet: 'Balance sheet balances',
+    cashTie: 'Ending cash ties to balance sheet',
+    ebitdaBuild: 'EBITDA = Revenue - OpEx'
+};
+
+const STATEMENTS: FinancialStatementKey[] = ['incomeStatement', 'balanceSheet', 'cashFlow'];
+
+const ties = (actual: number, expected: number): boolean =>
+    Math.abs(actual - expected) <= Math.max(TOLERANCE_ABS, Math.abs(expected) * TOLERANCE_PCT);
+
+const fmt = (value: number): string => value.toFixed(1);
+
+const valueAt = (values: number[] | undefined, i: number): number | undefined => {
+    const v = values?.[i];
+    return typeof v === 'number' && isFinite(v) ? v : undefined;
+};
+
+const checkRowLengths = (models: FinancialModels, issues: ModelIntegrityIssue[]): CheckResult => {
+    const expected = models.years.length;
+    let failures = 0;
+    STATEMENTS.forEach(statement => {
+        models[statement].rows.forEach(row => {
+            if (row.values.length === expected) return;
+            failures++;
+            issues.push({
+                check: 'rowLength',
+                statement,
+                rowLabel: row.label,
+                message: `${row.values.length} values for ${expected} years`
+            });
+        });
+    });
+    return {
+        id: 'rowLength',
+        label: CHECK_LABELS.rowLength,
+        status: failures ? 'fail' : 'pass',
+        detail: failures ? `${failures} row(s) do not match ${expected} years` : `All rows have ${expected} values`
+    };
+};
+
+const checkBalanceSheet = (models: FinancialModels, issues: ModelIntegrityIssue[]): CheckResult => {
+    const bs = models.balanceSheet;
+    const assets = findFinancialRow(bs, /total assets/i);
+    const combined = findFinancialRow(bs, /total liabilities\s*(and|&|\+)\s*(shareholders'?|stockholders'?|owners'?)?\s*equity/i);
+    const liabilities = findFinancialRow(bs, /total liabilities/i, /equity|%/i);
+    const equity = findFinancialRow(bs, /total (shareholders'?|stockholders'?|owners'?)?\s*equity|^equity$/i, /liabilities|%/i);
+
+    if (!assets || (!combined && !(liabilities && equity))) {
+        return { id: 'balanceSheet', label: CHECK_LABELS.balanceSheet, status: 'skipped', detail: 'Total Assets or Total Liabilities & Equity not found' };
+    }
+
+    let failures = 0;
+    models.years.forEach((year, i) => {
+        const a = valueAt(assets.values, i);
+        const le = combined
+            ? valueAt(combined.values, i)
+            : (valueAt(liabilities!.values, i) ?? NaN) + (valueAt(equity!.values, i) ?? NaN);
+        if (a === undefined || le === undefined || isNaN(le) || ties(a, le)) return;
+        failures++;
+        const message = `${year}: Assets ${fmt(a)} vs Liabilities + Equity ${fmt(le)} (diff ${fmt(a - le)})`;
+        issues.push({ check: 'balanceSheet', statement: 'balanceSheet', rowLabel: assets.label, yearIndex: i, message });
+        (combined ? [combined] : [liabilities!, equity!]).forEach(row =>
+            issues.push({ check: 'balanceSheet', statement: 'balanceSheet', rowLabel: row.label, yearIndex: i, message })
+        );
+    });
+
+    return {
+        id: 'balanceSheet',
+        label: CHECK_LABELS.balanceSheet,
+        status: failures ? 'fail' : 'pass',
+        detail: failures ? `Out of balance in ${failures} period(s)` : 'Assets = Liabilities + Equity in every period'
+    };
+};
+
+const checkCashTie = (models: FinancialModels, issues: ModelIntegrityIssue[]): CheckResult => {
+    const endingCash = findFinancialRow(models.cashFlow, /ending cash|cash at end|end of (the )?(period|year) cash|closing cash/i);
+    const bsCash = findFinancialRow(models.balanceSheet, /^cash\b|cash (and|&) (cash )?equivalents/i, /flow|%|restricted/i);
+
+    if (!endingCash || !bsCash) {
+        return { id: 'cashTie', label: CHECK_LABELS.cashTie, status: 'skipped', detail: 'Ending cash or balance sheet cash row not found' };
+    }
+
+    let failures = 0;
+    models.years.forEach((year, i) => {
+        const cf = valueAt(endingCash.values, i);
+        const bs = valueAt(bsCash.values, i);
+        if (cf === undefined || bs === undefined || ties(cf, bs)) return;
+        failures++;
+        const message = `${year}: Cash flow ending cash ${fmt(cf)} vs balance sheet cash ${fmt(bs)}`;
+        issues.push({ check: 'cashTie', statement: 'cashFlow', rowLabel: endingCash.label, yearIndex: i, message });
+        issues.push({ check: 'cashTie', statement: 'balanceSheet', rowLabel: bsCash.label, yearIndex: i, message });
+    });
+
+    return {
+        id: 'cashTie',
+        label: CHECK_LABELS.cashTie,
+        status: failures ? 'fail' : 'pass',
+        detail: failures ? `Cash does not tie in ${failures} period(s)` : 'Ending cash ties in every period'
+    };
+};
+
+/**
+ * Operating cost lines in order of preference: a total, a single OpEx line, then SG&A + R&D components.
+ */
+const findOperatingCosts = (is: FinancialSection): number[] | undefined => {
+    const total = findFinancialRow(is, /total (operating expenses|opex)/i);
+    if (total) return total.values;
+    const single = findFinancialRow(is, /operating expenses|opex/i, /ebitda|income|profit|%|margin/i);
+    if (single) return single.values;
+    const components = is.rows.filter(r => /sg&a|selling|general|administrative|r&d|research/i.test(r.label) && !RATIO_LABEL.test(r.label));
+    if (components.length === 0) return undefined;
+    return components[0].values.map((_, i) => components.reduce((acc, r) => acc + Math.abs(r.values[i] || 0), 0));
+};
+
+const checkEbitdaBuild = (models: FinancialModels, issues: ModelIntegrityIssue[]): CheckResult => {
+    const is = models.incomeStatement;
+    const ebitda = findFinancialRow(is, /ebitda/i);
+    const revenue = findFinancialRow(is, /revenue|sales/i, /cost|%|margin|growth/i);
+    const grossProfit = findFinancialRow(is, /gross profit/i);
+    const cogs = findFinancialRow(is, /cogs|cost of (goods|revenue|sales)/i);
+    const depreciation = findFinancialRow(is, /depreciation|d&a|amortization/i);
+    const opex = findOperatingCosts(is);
+
+    if (!ebitda || !revenue || !opex) {
+        return { id: 'ebitdaBuild', label: CHECK_LABELS.ebitdaBuild, status: 'skipped', detail: 'Revenue, EBITDA or OpEx row not found' };
+    }
+
+    let failures = 0;
+    models.years.forEach((year, i) => {
+        const actual = valueAt(ebitda.values, i);
+        const rev = valueAt(revenue.values, i);
+        const costs = valueAt(opex, i);
+        if (actual === undefined || rev === undefined || costs === undefined) return;
+
+        // Gross profit already nets COGS; otherwise deduct COGS explicitly when the model has it
+        const gp = valueAt(grossProfit?.values, i);
+        const cogsValue = Math.abs(valueAt(cogs?.values, i) ?? 0);
+        const expected = (gp ?? rev - cogsValue) - Math.abs(costs);
+        // Agents often fold D&A into OpEx; accept either presentation
+        const da = Math.abs(valueAt(depreciation?.values, i) ?? 0);
+        if (ties(actual, expected) || (da > 0 && ties(actual, expected + da))) return;
+
+        failures++;
+        issues.push({
+            check: 'ebitdaBuild',
+            statement: 'incomeStatement',
+            rowLabel: ebitda.label,
+            yearIndex: i,
+            message: `${year}: EBITDA ${fmt(actual)} vs Revenue - OpEx ${fmt(expected)}`
+        });
+    });
+
+    return {
+        id: 'ebitdaBuild',
+        label: CHECK_LABELS.ebitdaBuild,
+        status: failures ? 'fail' : 'pass',
+        detail: failures ? `EBITDA does not build in ${failures} period(s)` : 'EBITDA builds from Revenue less OpEx'
+    };
+};
+
+/**
+ * Runs the three-statement integrity checks. Checks whose line items cannot be found are
+ * reported as skipped rather than failed.
+ */
+export const checkModelIntegrity = (models: FinancialModels): ModelHealth => {
+    const issues: ModelIntegrityIssue[] = [];
+    const checks = [
+        checkRowLengths(models, issues),
+        checkBalanceSheet(models, issues),
+        checkCashTie(models, issues),
+        checkEbitdaBuild(models, issues)
+    ];
+    const status = checks.some(c => c.status === 'fail') ? 'fail' : checks.some(c => c.status === 'skipped') ? 'warn' : 'pass';
+    return { status, checks, issues };
+};
+
+/**
+ * Attaches a fresh health report to a deal whenever it carries financial models.
+ */
+export const withModelHealth = (data: DealData): DealData =>
+    data.financialModels ? { ...data, modelHealth: checkModelIntegrity(data.financialModels) } : data;
+
+export const getStatementIssues = (health: ModelHealth | undefined, statement: FinancialStatementKey): ModelIntegrityIssue[] =>
+    health ? health.issues.filter(i => i.statement === statement) : [];
@@ -0,0 +1,22 @@
+
+import { DealData } from "../types";
+import { MonteCarloConfig, MonteCarloResult, runMonteCarlo } from "./monteCarloEngine";
+
+export type MonteCarloWorkerRequest = { data: DealData; config: MonteCarloConfig };
+export type MonteCarloWorkerResponse =
+    | { type: 'progress'; fraction: number }
+    | { type: 'result'; result: MonteCarloResult }
+    | { type: 'error'; message: string };
+
+const ctx = self as unknown as Worker;
+
+ctx.addEventListener('message', (event: MessageEvent<MonteCarloWorkerRequest>) => {
+    try {
+        const result = runMonteCarlo(event.data.data, event.data.config, (fraction) =>
+            ctx.postMessage({ type: 'progress', fraction } as MonteCarloWorkerResponse)
+        );
+        ctx.postMessage({ type: 'result', result } as MonteCarloWorkerResponse);
+    } catch (e) {
+        ctx.postMessage({ type: 'error', message: e instanceof Error ? e.message : String(e) } as MonteCarloWorkerResponse);
+    }
+});
@@ -0,0 +1,49 @@
+
+import { DealData } from "../types";
+import { MonteCarloConfig, MonteCarloResult, runMonteCarlo } from "./monteCarloEngine";
+import type { MonteCarloWorkerResponse } from "./monteCarlo.worker";
+
+export interface MonteCarloRun {
+    promise: Promise<MonteCarloResult>;
+    cancel: () => void;
+}
+
+/**
+ * Runs the simulation off the main thread. Falls back to an in-thread run where Web Workers
+ * are unavailable (e.g. server-side rendering or tests).
+ */
+export const startMonteCarlo = (data: DealData, config: MonteCarloConfig, onProgress?: (fraction: number) => void): MonteCarloRun => {
+    if (typeof Worker === 'undefined') {
+        return { promise: Promise.resolve().then(() => runMonteCarlo(data, config, onProgress)), cancel: () => {} };
+    }
+
+    const worker = new Worker(new URL('./monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+    let rejectRun: (reason: Error) => void = () => {};
+
+    const promise = new Promise<MonteCarloResult>((resolve, reject) => {
+        rejectRun = reject;
+        worker.onmessage = (event: MessageEvent<MonteCarloWorkerResponse>) => {
+            const message = event.data;
+            if (message.type === 'progress') {
+                onProgress?.(message.fraction);
+                return;
+            }
+            worker.terminate();
+            if (message.type === 'result') resolve(message.result);
+            else reject(new Error(message.message));
+        };
+        worker.onerror = (event) => {
+            worker.terminate();
+            reject(new Error(event.message || 'Monte Carlo worker failed'));
+        };
+        worker.postMessage({ data, config });
+    });
+
+    return {
+        promise,
+        cancel: () => {
+            worker.terminate();
+            rejectRun(new Error('Simulation cancelled'));
+        }
+    };
+};
@@ -0,0 +1,198 @@
+
+import { DealData } from "../types";
+import { adjustProjection, extendProjection, extractOperatingProjection, getProjectionDrivers, resolveLBOAssumptions, runLBO } from "./lboEngine";
+import { applyDebtOverrides } from "./debtEngine";
+
+export type MonteCarloVariable = 'revenueGrowth' | 'ebitdaMargin' | 'exitMultiple' | 'interestRate';
+export type DistributionKind = 'normal' | 'triangular' | 'uniform';
+
+// normal: spread = std dev; triangular / uniform: mean ± spread
+export interface VariableDistribution {
+    kind: DistributionKind;
+    mean: number;
+    spread: number;
+}
+
+export interface MonteCarloConfig {
+    iterations: number;
+    seed: number;
+    hurdleRate: number; // % IRR
+    distributions: Record<MonteCarloVariable, VariableDistribution>;
+}
+
+export interface HistogramBin {
+    start: number;
+    end: number;
+    count: number;
+    belowHurdle: boolean;
+}
+
+export interface PercentileBand {
+    percentile: number;
+    irr: number; // %
+    moic: number;
+}
+
+export interface MonteCarloResult {
+    iterations: number;
+    hurdleRate: number;
+    meanIrr: number; // %
+    meanMoic: number;
+    probBelowHurdle: number; // 0-1
+    probCapitalLoss: number; // 0-1, MOIC < 1.0x
+    bands: PercentileBand[];
+    irrHistogram: HistogramBin[];
+    moicHistogram: HistogramBin[];
+}
+
+export const DEFAULT_HURDLE_RATE = 20;
+export const MONTE_CARLO_ITERATIONS = [1000, 2500, 5000, 10000];
+export const PERCENTILES = [5, 10, 25, 50, 75, 90, 95];
+
+export const MONTE_CARLO_VARIABLES: Record<MonteCarloVariable, { label: string; suffix: string; step: number }> = {
+    revenueGrowth: { label: 'Revenue Growth', suffix: '%', step: 0.5 },
+    ebitdaMargin: { label: 'EBITDA Margin', suffix: '%', step: 0.5 },
+    exitMultiple: { label: 'Exit Multiple', suffix: 'x', step: 0.25 },
+    interestRate: { label: 'Cost of Debt', suffix: '%', step: 0.25 }
+};
+
+// Hard bounds so a wide normal cannot produce nonsensical draws
+const VARIABLE_BOUNDS: Record<MonteCarloVariable, [number, number]> = {
+    revenueGrowth: [-50, 100],
+    ebitdaMargin: [-20, 90],
+    exitMultiple: [1, 40],
+    interestRate: [0, 30]
+};
+
+/**
+ * Distributions centred on the deal's base case.
+ */
+export const buildDefaultMonteCarloConfig = (data: DealData, hurdleRate: number = DEFAULT_HURDLE_RATE): MonteCarloConfig => {
+    const assumptions = resolveLBOAssumptions(data);
+    const drivers = getProjectionDrivers(extendProjection(extractOperatingProjection(data), assumptions.holdPeriod));
+    return {
+        iterations: 5000,
+        seed: 42,
+        hurdleRate,
+        distributions: {
+            revenueGrowth: { kind: 'normal', mean: drivers.revenueGrowth, spread: 3 },
+            ebitdaMargin: { kind: 'normal', mean: drivers.ebitdaMargin, spread: 2 },
+            exitMultiple: { kind: 'triangular', mean: assumptions.exitMultiple, spread: 1.5 },
+            interestRate: { kind: 'uniform', mean: assumptions.interestRate, spread: 1.5 }
+        }
+    };
+};
+
+/**
+ * Seeded PRNG (mulberry32) so a given config always reproduces the same distribution.
+ */
+const createRandom = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const sample = (dist: VariableDistribution, random: () => number): number => {
+    const { mean, spread } = dist;
+    switch (dist.kind) {
+        case 'uniform':
+            return mean - spread + random() * 2 * spread;
+        case 'triangular': {
+            // Symmetric triangle on [mean - spread, mean + spread]
+            const u = random();
+            const offset = u < 0.5 ? Math.sqrt(2 * u) - 1 : 1 - Math.sqrt(2 * (1 - u));
+            return mean + offset * spread;
+        }
+        case 'normal':
+        default: {
+            const u1 = Math.max(random(), 1e-12);
+            const u2 = random();
+            return mean + spread * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+        }
+    }
+};
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.min(max, Math.max(min, value));
+
+const percentile = (sorted: number[], p: number): number => {
+    if (sorted.length === 0) return 0;
+    const index = (p / 100) * (sorted.length - 1);
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+export const buildHistogram = (values: number[], binCount: number, threshold: number): HistogramBin[] => {
+    if (values.length === 0) return [];
+    // Trim the extreme 1% on each side so a few outliers don't flatten the chart
+    const sorted = [...values].sort((a, b) => a - b);
+    const min = percentile(sorted, 1);
+    const max = percentile(sorted, 99);
+    const width = (max - min) / binCount || 1;
+    const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+        start: min + i * width,
+        end: min + (i + 1) * width,
+        count: 0,
+        belowHurdle: min + (i + 0.5) * width < threshold
+    }));
+    values.forEach(v => {
+        const i = Math.min(binCount - 1, Math.max(0, Math.floor((v - min) / width)));
+        bins[i].count++;
+    });
+    return bins;
+};
+
+const round = (value: number, decimals: number = 1): number => {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+};
+
+/**
+ * Runs the deal's LBO under randomly drawn operating and exit assumptions.
+ * onProgress is called with the fraction complete every few hundred draws.
+ */
+export const runMonteCarlo = (data: DealData, config: MonteCarloConfig, onProgress?: (fraction: number) => void): MonteCarloResult => {
+    const random = createRandom(config.seed);
+    const base = resolveLBOAssumptions(data);
+    const projection = extendProjection(extractOperatingProjection(data), base.holdPeriod);
+    const d = config.distributions;
+
+    const irrs: number[] = [];
+    const moics: number[] = [];
+
+    for (let i = 0; i < config.iterations; i++) {
+        const assumptions = applyDebtOverrides(base, {
+            exitMultiple: clamp(sample(d.exitMultiple, random), VARIABLE_BOUNDS.exitMultiple),
+            interestRate: clamp(sample(d.interestRate, random), VARIABLE_BOUNDS.interestRate)
+        });
+        const operating = {
+            revenueGrowth: clamp(sample(d.revenueGrowth, random), VARIABLE_BOUNDS.revenueGrowth),
+            ebitdaMargin: clamp(sample(d.ebitdaMargin, random), VARIABLE_BOUNDS.ebitdaMargin)
+        };
+        const result = runLBO(assumptions, adjustProjection(projection, operating));
+        irrs.push(result.irr * 100);
+        moics.push(result.moic);
+        if (onProgress && (i + 1) % 250 === 0) onProgress((i + 1) / config.iterations);
+    }
+
+    const sortedIrr = [...irrs].sort((a, b) => a - b);
+    const sortedMoic = [...moics].sort((a, b) => a - b);
+    const n = Math.max(1, irrs.length);
+
+    return {
+        iterations: irrs.length,
+        hurdleRate: config.hurdleRate,
+        meanIrr: round(irrs.reduce((a, b) => a + b, 0) / n),
+        meanMoic: round(moics.reduce((a, b) => a + b, 0) / n, 2),
+        probBelowHurdle: irrs.filter(v => v < config.hurdleRate).length / n,
+        probCapitalLoss: moics.filter(v => v < 1).length / n,
+        bands: PERCENTILES.map(p => ({ percentile: p, irr: round(percentile(sortedIrr, p)), moic: round(percentile(sortedMoic, p), 2) })),
+        irrHistogram: buildHistogram(irrs, 30, config.hurdleRate),
+        moicHistogram: buildHistogram(moics, 30, 1)
+    };
+};
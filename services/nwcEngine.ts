@@ -0,0 +1,304 @@
+
+import * as XLSX from "xlsx";
+import { NwcMonth, UnitScale, WorkingCapitalData } from "../types";
+import { formatMoney, MoneyBasis, scaleFactor } from "./fxEngine";
+import { toIsoDate } from "./precedentEngine";
+
+type NwcLine = Exclude<keyof NwcMonth, 'period'>;
+
+export interface NwcSeasonality {
+    month: number; // 1-12
+    label: string; // "Jan"
+    average: number; // $M mean NWC in that calendar month across the years loaded
+    index: number; // average over the overall mean; 1.0 = typical month
+}
+
+export interface NwcPeg {
+    peg: number; // $M trailing twelve-month average
+    collar: number; // $M either side of the peg
+    low: number; // peg - collar
+    high: number; // peg + collar
+    basis: string; // months the peg averages, e.g. "2023-07 to 2024-06"
+}
+
+export interface NwcPriceImpact {
+    closingNwc: number; // $M
+    delta: number; // closing minus peg
+    adjustment: number; // $M added to (negative: deducted from) the purchase price
+    withinCollar: boolean;
+}
+
+export interface NwcAnalysis {
+    monthly: (NwcMonth & { nwc: number })[];
+    trailing: { months: number; average: number }[]; // 3, 6 and 12-month averages
+    min: { period: string; nwc: number };
+    max: { period: string; nwc: number };
+    seasonality: NwcSeasonality[];
+    peg: NwcPeg;
+    pegPctRevenue: number | null; // peg as % of LTM revenue
+    priceImpact: NwcPriceImpact | null;
+}
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Label patterns for each trade working capital line; the first matching row wins. Debt-like and
+// tax balances sit outside the peg.
+const LINE_PATTERNS: Record<NwcLine, RegExp> = {
+    receivables: /^(?!.*(note|loan|tax|related)).*(receivable|\ba\/?r\b|debtors)/i,
+    inventory: /inventor/i,
+    payables: /^(?!.*(accru|note|loan|debt|tax|interest|dividend)).*(payable|\ba\/?p\b|creditors)/i,
+    accruedLiabilities: /^(?!.*(interest|tax)).*accru/i
+};
+
+const NWC_LINES = Object.keys(LINE_PATTERNS) as NwcLine[];
+
+const round = (value: number, decimals: number = 2): number => {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+};
+
+const toNumber = (value: any): number => {
+    if (typeof value === 'number') return value;
+    const text = String(value ?? '').trim();
+    // Accounting negatives: (1,234)
+    const negative = /^\(.*\)$/.test(text);
+    const parsed = parseFloat(text.replace(/[$,()\s]/g, ''));
+    return isFinite(parsed) ? (negative ? -parsed : parsed) : NaN;
+};
+
+/**
+ * Month-end header cell as YYYY-MM: dates, Excel serials and labels like "Jan-24", "Jan 2024",
+ * "2024-01" or "01/2024". Plain years and other numbers are not months.
+ */
+export const toMonth = (value: any): string | null => {
+    if (value instanceof Date || (typeof value === 'number' && value > 20000 && value < 80000)) {
+        return toIsoDate(value)?.slice(0, 7) ?? null;
+    }
+    const text = String(value ?? '').trim();
+    if (!text || typeof value === 'number') return null;
+
+    let match = text.match(/^([a-z]{3})[a-z]*\.?[\s\-'\/]*(\d{2}|\d{4})$/i);
+    if (match) {
+        const month = MONTH_LABELS.findIndex(m => m.toLowerCase() === match![1].toLowerCase());
+        if (month < 0) return null;
+        const year = match[2].length === 2 ? 2000 + Number(match[2]) : Number(match[2]);
+        return `${year}-${String(month + 1).padStart(2, '0')}`;
+    }
+    match = text.match(/^(\d{4})[-\/](\d{1,2})(?:[-\/]\d{1,2})?$/);
+    if (match && Number(match[2]) >= 1 && Number(match[2]) <= 12) return `${match[1]}-${match[2].padStart(2, '0')}`;
+    match = text.match(/^(\d{1,2})[-\/](\d{4})$/);
+    if (match && Number(match[1]) >= 1 && Number(match[1]) <= 12) return `${match[2]}-${match[1].padStart(2, '0')}`;
+    match = text.match(/^(\d{1,2})\/\d{1,2}\/(\d{2}|\d{4})$/);
+    if (match && Number(match[1]) >= 1 && Number(match[1]) <= 12) {
+        const year = match[2].length === 2 ? 2000 + Number(match[2]) : Number(match[2]);
+        return `${year}-${match[1].padStart(2, '0')}`;
+    }
+    return null;
+};
+
+const lineOf = (label: any): NwcLine | null => {
+    const text = String(label ?? '').trim();
+    if (!text || /total|net working|change in|days|%/i.test(text)) return null;
+    return NWC_LINES.find(line => LINE_PATTERNS[line].test(text)) || null;
+};
+
+/**
+ * Scale from a units note near the top of the sheet ("$000s", "in thousands", "in dollars").
+ * Null without one: the size of the figures says nothing reliable about a business's size,
+ * so the panel asks the user instead.
+ */
+const unitNote = (rows: any[][]): UnitScale | null => {
+    const text = rows.slice(0, 6).flat().map(c => String(c ?? '').toLowerCase()).join(' ');
+    if (/thousand|\$\s*0{3}s?\b|\(\$?k\)|\$k\b/.test(text)) return 'thousands';
+    if (/million|\$\s*mm?\b|\(\$?mm?\)/.test(text)) return 'millions';
+    if (/in (whole |actual )?dollars|\$\s*actuals?\b/.test(text)) return 'units';
+    return null;
+};
+
+type RawMonths = Map<string, Partial<Record<NwcLine, number>>>;
+
+// Months across the columns, line items down the rows
+const readWide = (rows: any[][]): RawMonths | null => {
+    const headerIndex = rows.findIndex(row => row.filter(c => toMonth(c)).length >= 3);
+    if (headerIndex < 0) return null;
+    const header = rows[headerIndex].map(toMonth);
+    const months: RawMonths = new Map();
+
+    rows.slice(headerIndex + 1).forEach(row => {
+        const labelCell = row.find((c, i) => !header[i] && typeof c === 'string' && c.trim());
+        const line = lineOf(labelCell);
+        if (!line) return;
+        header.forEach((period, i) => {
+            if (!period) return;
+            const value = toNumber(row[i]);
+            if (!isFinite(value)) return;
+            const month = months.get(period) || {};
+            if (month[line] === undefined) month[line] = value;
+            months.set(period, month);
+        });
+    });
+    return months;
+};
+
+// One month per row, line items across the columns
+const readLong = (rows: any[][]): RawMonths | null => {
+    const headerIndex = rows.findIndex(row => row.filter(lineOf).length >= 2);
+    if (headerIndex < 0) return null;
+    const columns = rows[headerIndex].map(lineOf);
+    const months: RawMonths = new Map();
+
+    rows.slice(headerIndex + 1).forEach(row => {
+        const period = row.map((c, i) => columns[i] ? null : toMonth(c)).find(Boolean);
+        if (!period) return;
+        const month: Partial<Record<NwcLine, number>> = {};
+        columns.forEach((line, i) => {
+            const value = toNumber(row[i]);
+            if (line && isFinite(value) && month[line] === undefined) month[line] = value;
+        });
+        months.set(period, month);
+    });
+    return months;
+};
+
+const toMonths = (raw: RawMonths, scale: UnitScale): NwcMonth[] => {
+    const factor = scaleFactor(scale, 'millions');
+    return Array.from(raw.entries())
+        .filter(([, m]) => m.receivables !== undefined && m.payables !== undefined)
+        .map(([period, m]) => ({
+            period,
+            receivables: round(Math.abs(m.receivables || 0) * factor, 6),
+            inventory: round(Math.abs(m.inventory || 0) * factor, 6),
+            // Liabilities are stored positive whichever sign convention the sheet uses
+            payables: round(Math.abs(m.payables || 0) * factor, 6),
+            accruedLiabilities: round(Math.abs(m.accruedLiabilities || 0) * factor, 6)
+        }))
+        .sort((a, b) => a.period.localeCompare(b.period));
+};
+
+/**
+ * Monthly trade working capital from an uploaded balance sheet workbook. Every sheet is tried in
+ * either orientation; the one with the most months carrying both receivables and payables wins.
+ * Null when no sheet has at least three such months.
+ */
+export const parseMonthlyBalanceSheet = (workbook: XLSX.WorkBook, sourceName: string): WorkingCapitalData | null => {
+    let best: WorkingCapitalData | null = null;
+    workbook.SheetNames.forEach(sheetName => {
+        const rows = XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[sheetName], { header: 1, defval: '' });
+        const note = unitNote(rows);
+        [readWide(rows), readLong(rows)].forEach(raw => {
+            if (!raw) return;
+            const months = toMonths(raw, note || 'millions');
+            if (months.length >= 3 && months.length > (best?.months.length || 0)) {
+                best = { source: `${sourceName} / ${sheetName}`, months, sheetScale: note || 'millions', sheetScaleSource: note ? 'note' : 'assumed' };
+            }
+        });
+    });
+    return best;
+};
+
+/**
+ * Re-reads the loaded months as quoted in another scale (the user's pick over the units note or
+ * the millions assumption). Closing NWC and collar are entered in millions and stay as they are.
+ */
+export const rescaleWorkingCapital = (data: WorkingCapitalData, sheetScale: UnitScale): WorkingCapitalData => {
+    const factor = scaleFactor(sheetScale, data.sheetScale || 'millions');
+    const scale = (value: number) => round(value * factor, 6);
+    return {
+        ...data,
+        sheetScale,
+        sheetScaleSource: 'user',
+        months: data.months.map(m => ({
+            period: m.period,
+            receivables: scale(m.receivables),
+            inventory: scale(m.inventory),
+            payables: scale(m.payables),
+            accruedLiabilities: scale(m.accruedLiabilities)
+        }))
+    };
+};
+
+export const monthlyNwc = (month: NwcMonth): number =>
+    month.receivables + month.inventory - month.payables - month.accruedLiabilities;
+
+const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+const stdev = (values: number[]) => {
+    const m = mean(values);
+    return values.length > 1 ? Math.sqrt(values.reduce((acc, v) => acc + (v - m) ** 2, 0) / (values.length - 1)) : 0;
+};
+
+/**
+ * Purchase price adjustment for a closing NWC. Inside the collar nothing moves; outside it the
+ * price moves dollar-for-dollar by the excess over the collar edge.
+ */
+export const nwcPriceImpact = (peg: NwcPeg, closingNwc: number): NwcPriceImpact => {
+    const adjustment = closingNwc > peg.high ? closingNwc - peg.high : closingNwc < peg.low ? closingNwc - peg.low : 0;
+    return {
+        closingNwc,
+        delta: round(closingNwc - peg.peg),
+        adjustment: round(adjustment),
+        withinCollar: adjustment === 0
+    };
+};
+
+/**
+ * Trailing NWC, seasonality and the proposed peg. The peg is the average of the last twelve
+ * month-ends (fewer if that is all there is) so it captures a full seasonal cycle.
+ */
+export const analyzeWorkingCapital = (data: WorkingCapitalData, ltmRevenue?: number): NwcAnalysis | null => {
+    const monthly = [...data.months]
+        .sort((a, b) => a.period.localeCompare(b.period))
+        .map(m => ({ ...m, nwc: round(monthlyNwc(m)) }));
+    if (monthly.length === 0) return null;
+
+    const last = (n: number) => monthly.slice(-n).map(m => m.nwc);
+    const ttm = monthly.slice(-12);
+    const pegValue = round(mean(ttm.map(m => m.nwc)));
+    const collar = round(data.collar ?? stdev(ttm.map(m => m.nwc)));
+    const peg: NwcPeg = {
+        peg: pegValue,
+        collar,
+        low: round(pegValue - collar),
+        high: round(pegValue + collar),
+        basis: ttm.length > 1 ? `${ttm[0].period} to ${ttm[ttm.length - 1].period}` : ttm[0].period
+    };
+
+    const overall = mean(monthly.map(m => m.nwc));
+    const seasonality: NwcSeasonality[] = MONTH_LABELS
+        .map((label, i) => {
+            const values = monthly.filter(m => Number(m.period.slice(5, 7)) === i + 1).map(m => m.nwc);
+            if (values.length === 0) return null;
+            const average = mean(values);
+            return { month: i + 1, label, average: round(average), index: overall !== 0 ? round(average / overall, 3) : 1 };
+        })
+        .filter((s): s is NwcSeasonality => s !== null);
+
+    const byNwc = [...ttm].sort((a, b) => a.nwc - b.nwc);
+
+    return {
+        monthly,
+        trailing: [3, 6, 12].filter(n => n <= monthly.length).map(n => ({ months: n, average: round(mean(last(n))) })),
+        min: { period: byNwc[0].period, nwc: byNwc[0].nwc },
+        max: { period: byNwc[byNwc.length - 1].period, nwc: byNwc[byNwc.length - 1].nwc },
+        seasonality,
+        peg,
+        pegPctRevenue: ltmRevenue && ltmRevenue > 0 ? round(pegValue / ltmRevenue * 100, 1) : null,
+        priceImpact: data.closingNwc !== undefined ? nwcPriceImpact(peg, data.closingNwc) : null
+    };
+};
+
+/**
+ * One-line summary for prompts. Balances are always in millions, so only the currency is taken
+ * from the deal.
+ */
+export const formatNwcAnalysis = (analysis: NwcAnalysis, basis: MoneyBasis = {}): string => {
+    const money = (value: number) => formatMoney(value, { currency: basis.currency });
+    return `Proposed NWC peg ${money(analysis.peg.peg)} (TTM average ${analysis.peg.basis}) with a ±${money(analysis.peg.collar)} collar; ` +
+        `TTM range ${money(analysis.min.nwc)} (${analysis.min.period}) to ${money(analysis.max.nwc)} (${analysis.max.period}).` +
+        (analysis.priceImpact
+            ? ` Closing NWC of ${money(analysis.priceImpact.closingNwc)} ` +
+              (analysis.priceImpact.withinCollar
+                  ? 'is inside the collar: no price adjustment.'
+                  : `${analysis.priceImpact.adjustment > 0 ? 'adds' : 'deducts'} ${money(Math.abs(analysis.priceImpact.adjustment))} ${analysis.priceImpact.adjustment > 0 ? 'to' : 'from'} the purchase price.`)
+            : '');
+};
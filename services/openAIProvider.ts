@@ -0,0 +1,119 @@
+
+import { LLMSettings, ModelTier } from "../types";
+import { GroundedRequest, ImageRequest, JsonRequest, JsonSchema, LLMPart, LLMProvider, TextRequest } from "./llmProvider";
+import { classifyError, LLMError } from "./requestLayer";
+import { recordUsage } from "./usageMeter";
+
+export const OPENAI_MODELS: Record<ModelTier, string> = {
+    reasoning: 'gpt-4o',
+    fast: 'gpt-4o-mini',
+    image: 'gpt-image-1'
+};
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+const IMAGE_SIZES: Record<ImageRequest['aspectRatio'], string> = { '1:1': '1024x1024', '16:9': '1536x1024' };
+
+/**
+ * Gemini-style schema to standard JSON Schema: lower-case type names, everything else as is.
+ */
+const toJsonSchema = (schema: JsonSchema): any => ({
+    type: schema.type.toLowerCase(),
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.enum ? { enum: schema.enum } : {}),
+    ...(schema.properties ? { properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])) } : {}),
+    ...(schema.items ? { items: toJsonSchema(schema.items) } : {}),
+    ...(schema.required ? { required: schema.required } : {}),
+    ...(schema.minimum !== undefined ? { minimum: schema.minimum } : {}),
+    ...(schema.maximum !== undefined ? { maximum: schema.maximum } : {})
+});
+
+// Images go inline as data URLs; other binaries (PDFs) are not accepted by chat endpoints
+const toContent = (prompt: string | LLMPart[]) => {
+    if (typeof prompt === 'string') return prompt;
+    return prompt.map(part => {
+        if (part.inlineData?.mimeType.startsWith('image/')) {
+            return { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } };
+        }
+        if (part.inlineData) {
+            return { type: 'text', text: `[Attachment of type ${part.inlineData.mimeType} omitted: not supported by this provider]` };
+        }
+        return { type: 'text', text: part.text || '' };
+    });
+};
+
+/**
+ * Any endpoint speaking the OpenAI REST API: OpenAI itself, Azure-style proxies or a local
+ * server (Ollama, LM Studio, vLLM). Web search and maps have no portable equivalent, so those
+ * calls answer from the model alone with no sources.
+ */
+export const createOpenAIProvider = (settings: LLMSettings): LLMProvider => {
+    const baseUrl = (settings.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    const apiKey = settings.apiKey || process.env.LLM_API_KEY;
+    const model = (tier: ModelTier) => settings.models?.[tier] || OPENAI_MODELS[tier];
+
+    const post = async (path: string, body: any, signal?: AbortSignal): Promise<any> => {
+        const response = await fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            signal,
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+            },
+            body: JSON.stringify(body)
+        });
+        if (!response.ok) {
+            const message = `${response.status} ${response.statusText}: ${(await response.text()).slice(0, 300)}`;
+            throw new LLMError(classifyError({ status: response.status, message }).code, message, response.status);
+        }
+        return response.json();
+    };
+
+    const complete = async (request: TextRequest, extra: any = {}): Promise<string> => {
+        const json = await post('/chat/completions', {
+            model: model(request.tier),
+            messages: [{ role: 'user', content: toContent(request.prompt) }],
+            ...(request.maxOutputTokens ? { max_tokens: request.maxOutputTokens } : {}),
+            ...extra
+        }, request.signal);
+        // Reasoning models count their thinking inside completion_tokens
+        const thinkingTokens = json.usage?.completion_tokens_details?.reasoning_tokens || 0;
+        recordUsage(json.model || model(request.tier), {
+            inputTokens: json.usage?.prompt_tokens || 0,
+            outputTokens: (json.usage?.completion_tokens || 0) - thinkingTokens,
+            thinkingTokens
+        });
+        const choice = json.choices?.[0];
+        if (choice?.finish_reason === 'content_filter') throw new LLMError('safety', 'Response blocked by the content filter');
+        return choice?.message?.content || "";
+    };
+
+    const generateJSON = (request: JsonRequest) => complete(request, {
+        response_format: { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(request.schema) } }
+    });
+
+    const searchGrounded = async (request: GroundedRequest) => ({ text: await complete(request), sources: [] });
+
+    const generateImage = async (request: ImageRequest): Promise<string | null> => {
+        const json = await post('/images/generations', {
+            model: model('image'),
+            prompt: request.prompt,
+            size: IMAGE_SIZES[request.aspectRatio],
+            n: 1
+        }, request.signal);
+        recordUsage(model('image'), { inputTokens: json.usage?.input_tokens || 0, images: json.data?.length || 0 });
+        const image = json.data?.[0];
+        if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+        return image?.url || null;
+    };
+
+    return {
+        id: 'openai',
+        label: `OpenAI-compatible (${baseUrl})`,
+        generateText: request => complete(request),
+        generateJSON,
+        searchGrounded,
+        generateImage,
+        searchMaps: async () => []
+    };
+};
@@ -0,0 +1,187 @@
+
+import { DealRoom, FirmProfile, PortfolioCompany } from "../types";
+import { computeDealLBO } from "./lboEngine";
+import { companyCashFlows } from "./fundMetricsEngine";
+import { resolveFundTerms } from "./waterfallEngine";
+import { DEFAULT_CURRENCY, convertMoney, portfolioInReporting, resolveFxTable } from "./fxEngine";
+
+export interface MoneyRange {
+    low: number; // $M
+    high: number; // $M
+}
+
+export interface PacingHolding {
+    name: string;
+    initial: number; // $M first call
+    followOns: number; // $M later calls
+    reserved: number; // $M reserve still held for this company
+}
+
+export interface PacingPosition {
+    deployed: number; // $M
+    reserved: number; // $M outstanding follow-on reserves
+    available: number; // $M left for new platforms
+    remainingPlatforms: number; // at the mid check size, reserves included
+}
+
+export interface PipelineImpact {
+    dealId: string;
+    name: string;
+    equityCheck: number; // $M sponsor equity from the LBO
+    reserve: number; // $M follow-on reserve it would carry
+    withinCheckSize: boolean;
+}
+
+export interface PacingResult {
+    fund: string;
+    committed: number; // $M
+    feeReserve: number; // $M management fees over the investment period
+    investable: number; // $M
+    checkSize: MoneyRange & { mid: number };
+    reserveRatio: number; // %
+    current: PacingPosition;
+    proForma: PacingPosition; // if every IC Review deal closed
+    remainingPlatformsRange: MoneyRange; // platforms that fit at the top and bottom of the check range
+    holdings: PacingHolding[];
+    pipeline: PipelineImpact[];
+    investmentPeriodEnd: string | null; // YYYY-MM-DD
+    yearsLeft: number;
+    dealsPerYear: number | null; // platforms a year needed to deploy on schedule
+}
+
+export const DEFAULT_RESERVE_RATIO = 30;
+export const DEFAULT_INVESTMENT_PERIOD = 5;
+
+const YEAR_MS = 365.25 * 24 * 3600 * 1000;
+
+const round = (value: number, decimals: number = 1): number => {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+};
+
+/**
+ * Dollar amounts as written in the mandate ("$500M", "$1.2B", "750k") in $M.
+ */
+export const parseMoney = (text: string): number | null => {
+    const match = text.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(b|bn|m|mm|k)?/i);
+    if (!match) return null;
+    const value = parseFloat(match[1]);
+    const unit = (match[2] || 'm').toLowerCase();
+    return unit.startsWith('b') ? value * 1000 : unit === 'k' ? value / 1000 : value;
+};
+
+/**
+ * "$10M - $50M" -> 10..50; a single figure or "> $10M" gives a point range.
+ */
+export const parseMoneyRange = (text: string): MoneyRange | null => {
+    const parts = (text || '').split(/\s*(?:-|–|to)\s*/i).map(parseMoney).filter((v): v is number => v !== null);
+    if (parts.length === 0) return null;
+    return { low: Math.min(...parts), high: Math.max(...parts) };
+};
+
+/**
+ * The fund being deployed, from "Deploying Fund III" style stages; null for a single-fund firm.
+ */
+export const currentFundLabel = (profile: FirmProfile): string | null => {
+    const match = (profile.fundraisingStage || '').match(/fund\s+[ivxlc\d]+\b/i);
+    return match ? match[0].replace(/\s+/g, ' ') : null;
+};
+
+const inFund = (company: PortfolioCompany, label: string | null) =>
+    !label || new RegExp(`\\b${label.replace(/\s/g, '\\s+')}\\b`, 'i').test(company.fund || '');
+
+const position = (investable: number, deployed: number, reserved: number, platformCost: number): PacingPosition => {
+    const available = Math.max(0, investable - deployed - reserved);
+    return {
+        deployed: round(deployed),
+        reserved: round(reserved),
+        available: round(available),
+        remainingPlatforms: platformCost > 0 ? Math.floor(available / platformCost) : 0
+    };
+};
+
+/**
+ * Committed vs deployed vs reserved capital for the fund in deployment. Each platform carries a
+ * follow-on reserve of reserveRatio% of its first check, released as follow-ons are called.
+ * Everything is in the fund's reporting currency, which the mandate's fund and check sizes use.
+ */
+export const computePacing = (profile: FirmProfile, portfolio: PortfolioCompany[], deals: DealRoom[] = [], asOf: Date = new Date()): PacingResult => {
+    const label = currentFundLabel(profile);
+    const committed = parseMoney(profile.fundSize || '') || 0;
+    const range = parseMoneyRange(profile.checkSize) || { low: 0, high: 0 };
+    const checkSize = { ...range, mid: (range.low + range.high) / 2 };
+    const reserveRatio = profile.reserveRatio ?? DEFAULT_RESERVE_RATIO;
+    const investmentPeriod = profile.investmentPeriod ?? DEFAULT_INVESTMENT_PERIOD;
+    const reserveShare = reserveRatio / 100;
+
+    const feeReserve = committed * resolveFundTerms(profile.fundTerms).managementFee / 100 * investmentPeriod;
+    const investable = Math.max(0, committed - feeReserve);
+
+    const reporting = profile.reportingCurrency || DEFAULT_CURRENCY;
+    const fx = resolveFxTable(profile.fxRates);
+
+    const starts: number[] = [];
+    const holdings: PacingHolding[] = portfolioInReporting(portfolio, reporting, fx)
+        .filter(p => inFund(p, label))
+        .map(p => {
+            const calls = companyCashFlows(p)
+                .filter(f => f.type === 'call')
+                .sort((a, b) => a.date.localeCompare(b.date));
+            if (calls.length === 0) return null;
+            const start = new Date(calls[0].date).getTime();
+            if (!isNaN(start)) starts.push(start);
+            const initial = calls[0].amount;
+            const followOns = calls.slice(1).reduce((acc, f) => acc + f.amount, 0);
+            // Exited companies release whatever reserve they did not use
+            const reserved = p.investmentStatus === 'Exited' ? 0 : Math.max(0, initial * reserveShare - followOns);
+            return { name: p.name, initial: round(initial), followOns: round(followOns), reserved: round(reserved) };
+        })
+        .filter((h): h is PacingHolding => h !== null);
+
+    const deployed = holdings.reduce((acc, h) => acc + h.initial + h.followOns, 0);
+    const reserved = holdings.reduce((acc, h) => acc + h.reserved, 0);
+    const platformCost = (check: number) => check * (1 + reserveShare);
+
+    const pipeline: PipelineImpact[] = deals
+        .filter(d => d.stage === 'IC Review' && d.data.ebitda > 0)
+        .map(d => {
+            // Sized at spot: the check is written at today's rate
+            const equityCheck = convertMoney(computeDealLBO(d.data).entryEquity, d.data, reporting, fx);
+            return {
+                dealId: d.id,
+                name: d.data.companyName || d.title,
+                equityCheck: round(equityCheck),
+                reserve: round(equityCheck * reserveShare),
+                withinCheckSize: equityCheck >= range.low && equityCheck <= range.high
+            };
+        })
+        .filter(p => p.equityCheck > 0);
+
+    const pipelineEquity = pipeline.reduce((acc, p) => acc + p.equityCheck, 0);
+    const pipelineReserve = pipeline.reduce((acc, p) => acc + p.reserve, 0);
+    const current = position(investable, deployed, reserved, platformCost(checkSize.mid));
+    const proForma = position(investable, deployed + pipelineEquity, reserved + pipelineReserve, platformCost(checkSize.mid));
+
+    const periodEnd = starts.length > 0 ? new Date(Math.min(...starts) + investmentPeriod * YEAR_MS) : null;
+    const yearsLeft = periodEnd ? Math.max(0, (periodEnd.getTime() - asOf.getTime()) / YEAR_MS) : investmentPeriod;
+
+    return {
+        fund: label || profile.fundName,
+        committed: round(committed),
+        feeReserve: round(feeReserve),
+        investable: round(investable),
+        checkSize,
+        reserveRatio,
+        current,
+        proForma,
+        remainingPlatformsRange: {
+            low: range.high > 0 ? Math.floor(current.available / platformCost(range.high)) : 0,
+            high: range.low > 0 ? Math.floor(current.available / platformCost(range.low)) : current.remainingPlatforms
+        },
+        holdings,
+        pipeline,
+        investmentPeriodEnd: periodEnd ? periodEnd.toISOString().slice(0, 10) : null,
+        yearsLeft: round(yearsLeft),
+        dealsPerYear: yearsLeft > 0 ? round(current.remainingPlatforms / yearsLeft) : null
+    };
+};
@@ -0,0 +1,51 @@
+
+import { PrecedentDealType, PrecedentTransaction } from "../types";
+
+// Illustrative precedent set bundled with the app ($M). Names and figures are representative of
+// lower mid-market pricing, not actual transactions - import a sourced dataset for live work.
+export const BUNDLED_PRECEDENTS_AS_OF = "Bundled sample (illustrative)";
+
+const deal = (id: string, date: string, acquirer: string, target: string, sector: string, dealType: PrecedentDealType, enterpriseValue: number, evEbitda: number, controlPremium?: number): PrecedentTransaction => ({
+    id, date, acquirer, target, sector, dealType, enterpriseValue, evEbitda, controlPremium
+});
+
+export const BUNDLED_PRECEDENTS: PrecedentTransaction[] = [
+    // Healthcare Services
+    deal("hc-1", "2026-03-12", "Summit Health Partners", "Coastal Dental Group", "Healthcare Services", "Sponsor", 185, 12.5),
+    deal("hc-2", "2025-09-04", "Meridian Care (Strategic)", "Lakeside Physical Therapy", "Healthcare Services", "Strategic", 96, 11.0),
+    deal("hc-3", "2025-01-21", "Harbor Point Capital", "Pinnacle Home Health", "Healthcare Services", "Sponsor", 240, 13.2),
+    deal("hc-4", "2024-06-18", "Northstar Medical", "Valley Imaging Centers", "Healthcare Services", "Add-On", 62, 9.5),
+    deal("hc-5", "2023-10-30", "Crestline Partners", "CareBridge Staffing Inc.", "Healthcare Services", "Take-Private", 410, 10.8, 32),
+    deal("hc-6", "2022-04-07", "Oakmont Equity", "Premier Vet Clinics", "Healthcare Services", "Sponsor", 150, 15.0),
+    deal("hc-7", "2020-08-14", "Unity Health Systems", "Redwood Behavioral", "Healthcare Services", "Strategic", 120, 11.8),
+
+    // Industrials
+    deal("in-1", "2026-05-27", "Ironbridge Capital", "Precision Flow Controls", "Industrials", "Sponsor", 220, 9.8),
+    deal("in-2", "2025-07-15", "Atlas Industrial Group", "Midwest Fastener Supply", "Industrials", "Strategic", 140, 8.5),
+    deal("in-3", "2024-11-02", "Granite Peak Partners", "ThermoServ HVAC", "Industrials", "Add-On", 75, 8.0),
+    deal("in-4", "2024-02-20", "Keystone Holdings", "Allied Test & Calibration Corp.", "Industrials", "Take-Private", 330, 10.5, 28),
+    deal("in-5", "2022-09-09", "Forge Equity", "Delta Machining Solutions", "Industrials", "Sponsor", 88, 7.2),
+    deal("in-6", "2021-03-25", "Continental Tools", "Apex Hydraulics", "Industrials", "Strategic", 260, 11.4),
+
+    // B2B Software
+    deal("sw-1", "2026-06-03", "Vector Growth Equity", "LedgerLoop", "B2B Software", "Sponsor", 310, 18.5),
+    deal("sw-2", "2025-11-19", "Cloudline Systems", "FieldForce Scheduling", "B2B Software", "Strategic", 145, 21.0),
+    deal("sw-3", "2025-03-06", "Bluewater Software Partners", "ComplyStack Inc.", "B2B Software", "Take-Private", 520, 16.8, 41),
+    deal("sw-4", "2024-08-22", "Vector Growth Equity", "RouteWise", "B2B Software", "Add-On", 58, 14.0),
+    deal("sw-5", "2023-05-11", "Northbeam Capital", "PracticePro EHR", "B2B Software", "Sponsor", 190, 17.2),
+    deal("sw-6", "2021-12-01", "Orbit Technologies", "DataHarbor Analytics", "B2B Software", "Strategic", 275, 24.5),
+
+    // Business Services
+    deal("bs-1", "2026-02-10", "Lantern Capital", "Sterling Facility Services", "Business Services", "Sponsor", 160, 9.0),
+    deal("bs-2", "2025-05-29", "Evergreen Partners", "ClearPath Compliance", "Business Services", "Add-On", 48, 8.2),
+    deal("bs-3", "2024-04-16", "Global Advisory Corp.", "Brightline Consulting", "Business Services", "Strategic", 115, 10.4),
+    deal("bs-4", "2023-01-26", "Cobalt Equity", "Metro Security Solutions Inc.", "Business Services", "Take-Private", 285, 9.6, 26),
+    deal("bs-5", "2020-10-05", "Lantern Capital", "Pacific Records Management", "Business Services", "Sponsor", 95, 8.8),
+
+    // Consumer
+    deal("co-1", "2026-04-08", "Brightside Brands", "Summit Outdoor Co.", "Consumer", "Strategic", 205, 11.5),
+    deal("co-2", "2025-08-12", "Maple Street Capital", "FreshBowl Restaurants", "Consumer", "Sponsor", 130, 9.2),
+    deal("co-3", "2024-09-30", "Harborview Consumer Partners", "Peak Fitness Franchising Inc.", "Consumer", "Take-Private", 350, 12.8, 35),
+    deal("co-4", "2023-03-17", "Maple Street Capital", "Urban Pet Supply", "Consumer", "Add-On", 42, 8.0),
+    deal("co-5", "2021-06-22", "Evolve Brands", "Trailhead Apparel", "Consumer", "Strategic", 170, 13.5)
+];
@@ -0,0 +1,154 @@
+
+import * as XLSX from "xlsx";
+import { CompsStats, DealData, PrecedentDealType, PrecedentFilter, PrecedentTransaction } from "../types";
+import { computeStats, sectorFit, toNumber } from "./compsEngine";
+import { BUNDLED_PRECEDENTS, BUNDLED_PRECEDENTS_AS_OF } from "./precedentDataset";
+
+export interface PrecedentStore {
+    asOf: string;
+    transactions: PrecedentTransaction[];
+}
+
+export interface PrecedentStats {
+    evEbitda: CompsStats;
+    controlPremium: CompsStats; // public targets only
+    totalValue: number; // $M
+}
+
+const STORAGE_KEY = 'didi_precedents';
+
+export const PRECEDENT_DEAL_TYPES: PrecedentDealType[] = ['Strategic', 'Sponsor', 'Add-On', 'Take-Private'];
+export const PRECEDENT_LOOKBACK_YEARS = [3, 5, 10, 0];
+export const DEFAULT_LOOKBACK_YEARS = 5;
+
+// Header aliases accepted when importing a precedents sheet
+const COLUMN_ALIASES: Record<keyof Omit<PrecedentTransaction, 'id'>, string[]> = {
+    date: ['date', 'announced', 'announcement date', 'close date', 'closed'],
+    acquirer: ['acquirer', 'buyer', 'sponsor', 'bidder'],
+    target: ['target', 'company', 'target name', 'name'],
+    sector: ['sector', 'industry'],
+    dealType: ['deal type', 'type', 'buyer type', 'transaction type'],
+    enterpriseValue: ['ev', 'enterprise value', 'tev', 'transaction value', 'deal value'],
+    evEbitda: ['ev/ebitda', 'ev ebitda', 'ebitda multiple', 'multiple', 'tev/ebitda'],
+    controlPremium: ['control premium', 'premium', 'premium paid']
+};
+
+export const getBundledPrecedents = (): PrecedentStore => ({ asOf: BUNDLED_PRECEDENTS_AS_OF, transactions: BUNDLED_PRECEDENTS });
+
+/**
+ * The imported precedent store if one was saved, otherwise the bundled sample.
+ */
+export const loadPrecedents = (): PrecedentStore => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (saved) {
+            const parsed = JSON.parse(saved);
+            if (Array.isArray(parsed?.transactions) && parsed.transactions.length > 0) return parsed;
+        }
+    } catch (e) { }
+    return getBundledPrecedents();
+};
+
+export const savePrecedents = (store: PrecedentStore | null) => {
+    try {
+        if (store) localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+        else localStorage.removeItem(STORAGE_KEY);
+    } catch (e) { }
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toIsoDate = (value: any): string | null => {
+    // Date cells the reader didn't convert arrive as Excel serial numbers
+    if (typeof value === 'number') {
+        const parsed = XLSX.SSF.parse_date_code(value);
+        return parsed ? `${parsed.y}-${pad(parsed.m)}-${pad(parsed.d)}` : null;
+    }
+    const date = value instanceof Date ? value : new Date(String(value ?? ''));
+    if (isNaN(date.getTime())) return null;
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const toDealType = (value: any): PrecedentDealType => {
+    const text = String(value ?? '').toLowerCase();
+    if (text.includes('add')) return 'Add-On';
+    if (text.includes('take') || text.includes('public')) return 'Take-Private';
+    if (text.includes('sponsor') || text.includes('financial') || text.includes('equity') || text === 'pe') return 'Sponsor';
+    return 'Strategic';
+};
+
+/**
+ * Reads the first sheet of a CSV/XLSX precedents file. Rows need a parseable date, a target
+ * and a positive EV/EBITDA; everything else is optional.
+ */
+export const parsePrecedentWorkbook = (buffer: ArrayBuffer, sourceName: string): PrecedentStore => {
+    const workbook = XLSX.read(buffer, { type: 'array', cellDates: true });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const rows = XLSX.utils.sheet_to_json<Record<string, any>>(sheet, { defval: '' });
+
+    const transactions: PrecedentTransaction[] = [];
+    rows.forEach((row, i) => {
+        const normalized: Record<string, any> = {};
+        Object.keys(row).forEach(key => { normalized[key.toLowerCase().replace(/\(.*?\)/g, '').replace(/[_$%]/g, ' ').replace(/\s+/g, ' ').trim()] = row[key]; });
+        const read = (field: keyof typeof COLUMN_ALIASES) => {
+            const alias = COLUMN_ALIASES[field].find(a => normalized[a] !== undefined && normalized[a] !== '');
+            return alias ? normalized[alias] : undefined;
+        };
+
+        const date = toIsoDate(read('date'));
+        const target = String(read('target') ?? '').trim();
+        const evEbitda = toNumber(read('evEbitda'));
+        if (!date || !target || !(evEbitda > 0)) return;
+
+        // Percent-formatted cells ("32%") are read as fractions
+        const rawPremium = toNumber(read('controlPremium'));
+        const premium = rawPremium > 0 && rawPremium < 1 ? rawPremium * 100 : rawPremium;
+        transactions.push({
+            id: `imp-${i}`,
+            date,
+            acquirer: String(read('acquirer') ?? '').trim() || 'Undisclosed',
+            target,
+            sector: String(read('sector') ?? '').trim() || 'Other',
+            dealType: toDealType(read('dealType')),
+            enterpriseValue: toNumber(read('enterpriseValue')) || 0,
+            evEbitda,
+            controlPremium: isFinite(premium) ? premium : undefined
+        });
+    });
+
+    if (transactions.length === 0) throw new Error("No precedent transactions found. Expected columns: Date, Acquirer, Target, Sector, Deal Type, EV, EV/EBITDA, Control Premium.");
+    return { asOf: `Imported: ${sourceName}`, transactions };
+};
+
+/**
+ * Starts from the deal's own sector over the standard look-back, all deal types.
+ */
+export const resolvePrecedentFilter = (data: Pick<DealData, 'sector' | 'precedentFilter'>): PrecedentFilter =>
+    data.precedentFilter || { sector: data.sector && data.sector !== 'TBD' ? data.sector : '', years: DEFAULT_LOOKBACK_YEARS, dealTypes: [] };
+
+export const filterPrecedents = (transactions: PrecedentTransaction[], filter: PrecedentFilter, asOf: Date = new Date()): PrecedentTransaction[] => {
+    const cutoff = new Date(asOf);
+    cutoff.setFullYear(cutoff.getFullYear() - filter.years);
+    const cutoffIso = toIsoDate(cutoff)!;
+
+    return transactions
+        .filter(t => !filter.sector || sectorFit(filter.sector, t.sector) > 0)
+        .filter(t => filter.years <= 0 || t.date >= cutoffIso)
+        .filter(t => filter.dealTypes.length === 0 || filter.dealTypes.includes(t.dealType))
+        .sort((a, b) => b.date.localeCompare(a.date));
+};
+
+export const computePrecedentStats = (transactions: PrecedentTransaction[]): PrecedentStats => ({
+    evEbitda: computeStats(transactions.map(t => t.evEbitda)),
+    controlPremium: computeStats(transactions.filter(t => typeof t.controlPremium === 'number').map(t => t.controlPremium!)),
+    totalValue: Math.round(transactions.reduce((acc, t) => acc + (t.enterpriseValue || 0), 0))
+});
+
+/**
+ * Precedents matching the deal's saved filter, with their statistics.
+ */
+export const computeDealPrecedents = (data: DealData, store: PrecedentStore = loadPrecedents()) => {
+    const filter = resolvePrecedentFilter(data);
+    const transactions = filterPrecedents(store.transactions, filter);
+    return { filter, transactions, stats: computePrecedentStats(transactions) };
+};
@@ -0,0 +1,77 @@
+
+import { CellProvenance, FinancialRow, FinancialSection, ProvenanceSource } from "../types";
+
+export const PROVENANCE_META: Record<ProvenanceSource, { label: string; description: string }> = {
+    reported: { label: 'Reported', description: 'Published by the company, a filing or a press release' },
+    extracted: { label: 'Extracted', description: 'Read from an uploaded document' },
+    estimated: { label: 'Estimated', description: 'Derived from a proxy or sector benchmark' },
+    assumed: { label: 'Assumed', description: 'Analyst or scenario assumption' },
+    calculated: { label: 'Calculated', description: 'Computed by the model engines' }
+};
+
+export const PROVENANCE_SOURCES = Object.keys(PROVENANCE_META) as ProvenanceSource[];
+
+// Model output that is not one of the five sources is treated as the weakest claim
+const toSource = (value: any): ProvenanceSource => {
+    const text = String(value ?? '').toLowerCase();
+    return PROVENANCE_SOURCES.find(s => text.startsWith(s.slice(0, 5))) || 'assumed';
+};
+
+const toProvenance = (raw: any): CellProvenance => {
+    const reference = typeof raw?.reference === 'string' && raw.reference.trim() ? raw.reference.trim() : undefined;
+    const method = typeof raw?.method === 'string' && raw.method.trim() ? raw.method.trim() : undefined;
+    return { source: toSource(raw?.source), ...(reference ? { reference } : {}), ...(method ? { method } : {}) };
+};
+
+/**
+ * Aligns a row's provenance with its values. A single entry covers the whole row; missing
+ * cells stay untagged rather than inheriting a neighbour's claim.
+ */
+export const normalizeRowProvenance = (row: FinancialRow): FinancialRow => {
+    if (!Array.isArray(row.provenance) || row.provenance.length === 0) {
+        const { provenance, ...rest } = row;
+        return rest;
+    }
+    const entries = row.provenance.map(raw => raw ? toProvenance(raw) : null);
+    const provenance = row.values.map((_, i) => (entries.length === 1 ? entries[0] : entries[i]) ?? null);
+    return { ...row, provenance: provenance.filter(Boolean).length ? provenance : undefined };
+};
+
+export const normalizeSectionProvenance = (section: FinancialSection): FinancialSection => ({
+    ...section,
+    rows: (section.rows || []).map(normalizeRowProvenance)
+});
+
+export const cellProvenance = (row: FinancialRow, index: number): CellProvenance | undefined => row.provenance?.[index] ?? undefined;
+
+/**
+ * Hover text for a cell: source, then reference and method where known.
+ */
+export const describeProvenance = (provenance: CellProvenance): string =>
+    [
+        PROVENANCE_META[provenance.source].label,
+        provenance.reference ? `Source: ${provenance.reference}` : null,
+        provenance.method ? `Method: ${provenance.method}` : null
+    ].filter(Boolean).join('\n');
+
+/**
+ * Cell counts by source across the sections, plus cells with no provenance.
+ */
+export const summarizeProvenance = (sections: FinancialSection[]): Record<ProvenanceSource | 'untagged', number> => {
+    const counts = { reported: 0, extracted: 0, estimated: 0, assumed: 0, calculated: 0, untagged: 0 };
+    sections.forEach(section => section.rows.forEach(row => row.values.forEach((_, i) => {
+        const p = cellProvenance(row, i);
+        counts[p ? p.source : 'untagged']++;
+    })));
+    return counts;
+};
+
+/**
+ * Marks the cells a scenario overwrote as assumptions, keeping the rest of the row's sources.
+ */
+export const overrideProvenance = (row: FinancialRow, values: number[], method: string): FinancialRow['provenance'] => {
+    // Tolerance absorbs the engine's rounding of untouched cells
+    const changed = values.map((v, i) => Math.abs(v - (row.values[i] ?? 0)) > 1e-3 * Math.max(1, Math.abs(row.values[i] ?? 0)));
+    if (!changed.some(Boolean)) return row.provenance;
+    return values.map((_, i) => changed[i] ? { source: 'assumed', method } : row.provenance?.[i] ?? null);
+};
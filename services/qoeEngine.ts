@@ -0,0 +1,140 @@
+
+import { AddBackCategory, AddBackStatus, EbitdaAddBack } from "../types";
+import { formatMoney, MoneyBasis } from "./fxEngine";
+
+export interface QoECategoryTotal {
+    category: AddBackCategory;
+    claimed: number; // $M, everything management put forward
+    accepted: number; // $M
+}
+
+export interface QoESummary {
+    reported: number; // $M LTM EBITDA
+    managementAdjusted: number; // reported plus every add-back claimed
+    diligenceAdjusted: number; // reported plus accepted add-backs only
+    byStatus: Record<AddBackStatus, number>; // $M
+    byCategory: QoECategoryTotal[];
+    haircut: number; // $M of claimed add-backs not (yet) accepted
+}
+
+export const ADD_BACK_CATEGORIES: AddBackCategory[] = [
+    'Owner Compensation', 'One-Time / Non-Recurring', 'Run-Rate Synergies', 'Pro Forma Acquisition', 'Pricing / Run-Rate Revenue', 'Other'
+];
+
+export const ADD_BACK_STATUSES: AddBackStatus[] = ['proposed', 'accepted', 'challenged', 'rejected'];
+
+// One-offs depress the LTM only; the other categories persist into the projection
+const ONE_TIME_CATEGORIES: AddBackCategory[] = ['One-Time / Non-Recurring'];
+
+const round = (value: number, decimals: number = 2): number => {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+};
+
+const toCategory = (value: any): AddBackCategory => {
+    const text = String(value ?? '').toLowerCase();
+    if (text.includes('owner') || text.includes('compensation') || text.includes('salary')) return 'Owner Compensation';
+    if (text.includes('one-time') || text.includes('one time') || text.includes('non-recurring') || text.includes('legal')) return 'One-Time / Non-Recurring';
+    if (text.includes('synerg') || text.includes('cost saving')) return 'Run-Rate Synergies';
+    if (text.includes('acquisition') || text.includes('pro forma') || text.includes('m&a')) return 'Pro Forma Acquisition';
+    if (text.includes('pricing') || text.includes('revenue') || text.includes('contract')) return 'Pricing / Run-Rate Revenue';
+    return 'Other';
+};
+
+export const defaultRunRate = (category: AddBackCategory) => !ONE_TIME_CATEGORIES.includes(category);
+
+export const createAddBack = (fields: Partial<EbitdaAddBack> = {}): EbitdaAddBack => {
+    const category = fields.category || 'Other';
+    return {
+        id: fields.id || Math.random().toString(36).substring(2, 9),
+        description: fields.description || 'New adjustment',
+        category,
+        amount: fields.amount ?? 0,
+        runRate: fields.runRate ?? defaultRunRate(category),
+        supportDocument: fields.supportDocument,
+        status: fields.status || 'proposed',
+        note: fields.note
+    };
+};
+
+/**
+ * Cleans agent-proposed add-backs. Anything without a description or a finite amount is dropped.
+ */
+export const sanitizeAddBacks = (raw: any): EbitdaAddBack[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw
+        .filter(a => a && typeof a.description === 'string' && a.description.trim() && isFinite(Number(a.amount)))
+        .map(a => {
+            const category = ADD_BACK_CATEGORIES.includes(a.category) ? a.category : toCategory(a.category || a.description);
+            return createAddBack({
+                id: typeof a.id === 'string' ? a.id : undefined,
+                description: a.description.trim(),
+                category,
+                amount: Number(a.amount),
+                runRate: typeof a.runRate === 'boolean' ? a.runRate : undefined,
+                supportDocument: typeof a.supportDocument === 'string' && a.supportDocument.trim() ? a.supportDocument.trim() : undefined,
+                status: ADD_BACK_STATUSES.includes(a.status) ? a.status : 'proposed',
+                note: typeof a.note === 'string' ? a.note : undefined
+            });
+        });
+};
+
+/**
+ * Adds new proposals to an existing list, skipping ones already tracked under the same
+ * description and amount so a re-run does not duplicate the bridge.
+ */
+export const mergeAddBacks = (existing: EbitdaAddBack[], proposed: EbitdaAddBack[]): EbitdaAddBack[] => {
+    const key = (a: EbitdaAddBack) => `${a.description.toLowerCase().replace(/\s+/g, ' ')}|${round(a.amount, 1)}`;
+    const seen = new Set(existing.map(key));
+    return [...existing, ...proposed.filter(a => !seen.has(key(a)))];
+};
+
+/**
+ * EBITDA adjustment per period from accepted add-backs: all of them in the LTM, run-rate ones
+ * in every projection year.
+ */
+export const addBackSchedule = (addBacks: EbitdaAddBack[] | undefined, periods: number): number[] => {
+    const accepted = (addBacks || []).filter(a => a.status === 'accepted' && isFinite(a.amount));
+    return Array.from({ length: periods }, (_, i) =>
+        accepted.filter(a => i === 0 || a.runRate).reduce((acc, a) => acc + a.amount, 0)
+    );
+};
+
+/**
+ * Headline LTM EBITDA with accepted add-backs, or undefined while diligence has accepted none
+ * so callers fall back to the reported figure.
+ */
+export const diligenceAdjustedEbitda = (reported: number, addBacks?: EbitdaAddBack[]): number | undefined => {
+    const accepted = addBackSchedule(addBacks, 1)[0];
+    return (addBacks || []).some(a => a.status === 'accepted') ? round(reported + accepted) : undefined;
+};
+
+export const computeQoE = (reported: number, addBacks: EbitdaAddBack[] = []): QoESummary => {
+    const sum = (list: EbitdaAddBack[]) => list.reduce((acc, a) => acc + (isFinite(a.amount) ? a.amount : 0), 0);
+    const byStatus = ADD_BACK_STATUSES.reduce((acc, status) => ({ ...acc, [status]: round(sum(addBacks.filter(a => a.status === status))) }), {} as Record<AddBackStatus, number>);
+    const claimed = sum(addBacks);
+
+    return {
+        reported: round(reported),
+        managementAdjusted: round(reported + claimed),
+        diligenceAdjusted: round(reported + byStatus.accepted),
+        byStatus,
+        byCategory: ADD_BACK_CATEGORIES
+            .map(category => {
+                const list = addBacks.filter(a => a.category === category);
+                return { category, claimed: round(sum(list)), accepted: round(sum(list.filter(a => a.status === 'accepted'))) };
+            })
+            .filter(c => c.claimed !== 0 || c.accepted !== 0),
+        haircut: round(claimed - byStatus.accepted)
+    };
+};
+
+/**
+ * One-line bridge for prompts, in the deal's currency and scale.
+ */
+export const formatQoE = (summary: QoESummary, basis: MoneyBasis = {}): string => {
+    const money = (value: number) => formatMoney(value, basis);
+    return `Reported LTM EBITDA ${money(summary.reported)}; management-adjusted ${money(summary.managementAdjusted)}; ` +
+        `diligence-adjusted (accepted add-backs only) ${money(summary.diligenceAdjusted)}. ` +
+        `Challenged ${money(summary.byStatus.challenged)}, rejected ${money(summary.byStatus.rejected)}, unreviewed ${money(summary.byStatus.proposed)}.`;
+};
@@ -0,0 +1,185 @@
+
+import { AppErrorCode, ModelTier } from "../types";
+import { LLMProvider } from "./llmProvider";
+
+/**
+ * An agent call failure with its classification. Providers throw it when they know the cause;
+ * anything else is classified from the status and message on the way out.
+ */
+export class LLMError extends Error {
+    code: AppErrorCode;
+    status?: number;
+    attempts?: number;
+
+    constructor(code: AppErrorCode, message: string, status?: number) {
+        super(message);
+        this.name = 'LLMError';
+        this.code = code;
+        this.status = status;
+    }
+}
+
+export interface TierPolicy {
+    concurrency: number; // calls in flight at once
+    requestsPerMinute: number;
+    timeoutMs: number; // per attempt
+}
+
+// Conservative defaults that sit inside free-tier Gemini limits
+export const REQUEST_POLICY: Record<ModelTier, TierPolicy> = {
+    reasoning: { concurrency: 2, requestsPerMinute: 10, timeoutMs: 180000 },
+    fast: { concurrency: 4, requestsPerMinute: 30, timeoutMs: 60000 },
+    image: { concurrency: 1, requestsPerMinute: 6, timeoutMs: 120000 }
+};
+
+export const RETRY_POLICY = { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 20000 };
+
+const RETRYABLE: AppErrorCode[] = ['quota', 'timeout', 'unavailable', 'network'];
+
+const CODES: AppErrorCode[] = ['quota', 'auth', 'safety', 'malformed_output', 'timeout', 'unavailable', 'network', 'replay_miss', 'budget', 'unknown'];
+
+// Checked in order; the first match wins
+const MESSAGE_RULES: { code: AppErrorCode; pattern: RegExp }[] = [
+    { code: 'replay_miss', pattern: /Replay miss/i },
+    { code: 'quota', pattern: /RESOURCE_EXHAUSTED|quota|rate.?limit|too many requests/i },
+    { code: 'auth', pattern: /PERMISSION_DENIED|UNAUTHENTICATED|API key|api_key|unauthori[sz]ed|forbidden/i },
+    { code: 'safety', pattern: /SAFETY|blocked|content.?filter|PROHIBITED_CONTENT|BLOCKLIST/i },
+    { code: 'malformed_output', pattern: /JSON Parse|Unexpected token|not valid JSON|Empty response|is not an array/i },
+    { code: 'timeout', pattern: /timed? ?out|DEADLINE_EXCEEDED|AbortError|aborted/i },
+    { code: 'unavailable', pattern: /\bUNAVAILABLE\b|overloaded|"status":\s*"INTERNAL"|Bad Gateway/i },
+    { code: 'network', pattern: /Failed to fetch|NetworkError|fetch failed|ECONNREFUSED|ENOTFOUND|ECONNRESET/i }
+];
+
+// What the user can do about each kind of failure, shown in the System Log
+export const ERROR_GUIDANCE: Record<AppErrorCode, { label: string; hint: string }> = {
+    quota: { label: 'QUOTA', hint: 'Rate limit or quota exhausted after retries. Wait a minute, or raise the API quota for the key.' },
+    auth: { label: 'AUTH', hint: 'The API key was rejected or lacks access to the model. Check it in the Firm Mandate or .env file.' },
+    safety: { label: 'SAFETY BLOCK', hint: 'The provider refused the prompt or answer. Rephrase the request or remove sensitive document content.' },
+    malformed_output: { label: 'MALFORMED OUTPUT', hint: 'The model answered in an unusable shape. Retry, or use a stronger reasoning model.' },
+    timeout: { label: 'TIMEOUT', hint: 'No answer in time even after retries. Retry with a smaller document set or check the endpoint.' },
+    unavailable: { label: 'UNAVAILABLE', hint: 'The provider is overloaded or down. Retry shortly or switch provider.' },
+    network: { label: 'NETWORK', hint: 'The provider could not be reached. Check the connection or the base URL.' },
+    replay_miss: { label: 'REPLAY MISS', hint: 'The code took a path the recording does not cover. Record the trace again.' },
+    budget: { label: 'BUDGET', hint: 'The deal passed its spend cap. Raise the cap or switch it to warn-only in the Firm Mandate.' },
+    unknown: { label: 'ERROR', hint: 'Unclassified failure. See the message and stack below.' }
+};
+
+const STATUS_CODES: Record<number, AppErrorCode> = { 401: 'auth', 403: 'auth', 408: 'timeout', 429: 'quota', 500: 'unavailable', 502: 'unavailable', 503: 'unavailable', 504: 'timeout' };
+
+export const classifyError = (error: any): { code: AppErrorCode; retryable: boolean } => {
+    const known = error instanceof LLMError || CODES.includes(error?.code) ? error.code as AppErrorCode : null;
+    const message = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+    const status = typeof error?.status === 'number' ? error.status : Number(message.match(/"code":\s*(\d{3})/)?.[1]);
+    const code = known
+        || STATUS_CODES[status]
+        || MESSAGE_RULES.find(r => r.pattern.test(message))?.code
+        || 'unknown';
+    return { code, retryable: RETRYABLE.includes(code) };
+};
+
+/**
+ * Re-throws a failure under an agent's label ("Scouting Failed: ...") keeping its classification.
+ */
+export const agentError = (label: string, error: unknown): LLMError => {
+    const { code } = classifyError(error);
+    const wrapped = new LLMError(code, `${label}: ${error instanceof Error ? error.message : String(error)}`, (error as any)?.status);
+    wrapped.attempts = (error as any)?.attempts;
+    return wrapped;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Exponential backoff with full jitter: anywhere up to base x 2^attempt, capped.
+ */
+export const backoffDelay = (attempt: number, policy = RETRY_POLICY): number =>
+    Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+
+/**
+ * Concurrency slots plus a sliding one-minute request window.
+ */
+const createLimiter = (policy: TierPolicy) => {
+    let active = 0;
+    let started: number[] = [];
+    const waiting: (() => void)[] = [];
+
+    const acquire = async () => {
+        while (true) {
+            const now = Date.now();
+            started = started.filter(t => now - t < 60000);
+            if (active < policy.concurrency && started.length < policy.requestsPerMinute) {
+                active++;
+                started.push(now);
+                return;
+            }
+            if (active >= policy.concurrency) await new Promise<void>(resolve => waiting.push(resolve));
+            else await sleep(started[0] + 60000 - now);
+        }
+    };
+
+    const release = () => {
+        active--;
+        waiting.shift()?.();
+    };
+
+    return { acquire, release };
+};
+
+const withTimeout = async <T,>(task: (signal: AbortSignal) => Promise<T>, ms: number): Promise<T> => {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            controller.abort();
+            reject(new LLMError('timeout', `No response within ${Math.round(ms / 1000)}s`));
+        }, ms);
+    });
+    try {
+        return await Promise.race([task(controller.signal), timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+/**
+ * Wraps a provider so every call queues for its tier's limits, times out, and retries transient
+ * failures (quota, timeout, unavailable, network) with backoff. What finally escapes is an
+ * LLMError carrying its code and the number of attempts.
+ */
+export const withResilience = (provider: LLMProvider, policy: Record<ModelTier, TierPolicy> = REQUEST_POLICY): LLMProvider => {
+    const limiters: Record<ModelTier, ReturnType<typeof createLimiter>> = {
+        reasoning: createLimiter(policy.reasoning),
+        fast: createLimiter(policy.fast),
+        image: createLimiter(policy.image)
+    };
+
+    const execute = async <T,>(tier: ModelTier, task: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+        for (let attempt = 0; ; attempt++) {
+            await limiters[tier].acquire();
+            try {
+                return await withTimeout(task, policy[tier].timeoutMs);
+            } catch (error) {
+                const { code, retryable } = classifyError(error);
+                if (!retryable || attempt >= RETRY_POLICY.maxRetries) {
+                    const failure = error instanceof LLMError ? error : new LLMError(code, error instanceof Error ? error.message : String(error), (error as any)?.status);
+                    failure.attempts = attempt + 1;
+                    throw failure;
+                }
+                console.warn(`${provider.label} ${tier} call failed (${code}), retry ${attempt + 1}/${RETRY_POLICY.maxRetries}`);
+            } finally {
+                limiters[tier].release();
+            }
+            await sleep(backoffDelay(attempt));
+        }
+    };
+
+    return {
+        id: provider.id,
+        label: provider.label,
+        generateText: request => execute(request.tier, signal => provider.generateText({ ...request, signal })),
+        generateJSON: request => execute(request.tier, signal => provider.generateJSON({ ...request, signal })),
+        searchGrounded: request => execute(request.tier, signal => provider.searchGrounded({ ...request, signal })),
+        generateImage: request => execute('image', signal => provider.generateImage({ ...request, signal })),
+        searchMaps: (prompt, signal) => execute('fast', attemptSignal => provider.searchMaps(prompt, signal || attemptSignal))
+    };
+};
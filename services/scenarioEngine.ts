@@ -0,0 +1,167 @@
+
+import { DealData, DealScenario, ScenarioOverrides } from "../types";
+import {
+    adjustProjection, computeDealLBO, extendProjection, extractOperatingProjection,
+    findFinancialRow, getProjectionDrivers, LBOResult, reportedEbitda, resolveLBOAssumptions, toLBODetailed, toLBOSummary, toValueCreation
+} from "./lboEngine";
+import { formatMoney, MoneyBasis } from "./fxEngine";
+import { overrideProvenance } from "./provenance";
+
+export const BASE_SCENARIO_ID = 'base';
+
+export interface ScenarioSummary {
+    scenario: DealScenario;
+    revenueGrowth: number;
+    ebitdaMargin: number;
+    exitMultiple: number;
+    interestRate: number;
+    exitEbitda: number;
+    exitEquity: number;
+    irr: number; // %
+    moic: number;
+}
+
+const round = (value: number, decimals: number = 1): number => {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+};
+
+/**
+ * Base / upside / downside cases as shifts from the deal's own drivers, so they move with
+ * later edits to the base case.
+ */
+export const buildDefaultScenarios = (): DealScenario[] => [
+    { id: BASE_SCENARIO_ID, name: 'Base Case', kind: 'base', overrides: {} },
+    { id: 'upside', name: 'Upside Case', kind: 'upside', overrides: {}, shifts: { revenueGrowth: 3, ebitdaMargin: 2, exitMultiple: 1 } },
+    { id: 'downside', name: 'Downside Case', kind: 'downside', overrides: {}, shifts: { revenueGrowth: -5, ebitdaMargin: -3, exitMultiple: -1.5, interestRate: 2 } }
+];
+
+export const resolveScenarios = (data: DealData): DealScenario[] =>
+    data.scenarios && data.scenarios.length > 0 ? data.scenarios : buildDefaultScenarios();
+
+/**
+ * The base case's scenario drivers: growth and margin over the projection as extended to the
+ * hold period (what the LBO runs on), exit multiple and cost of debt from the LBO assumptions.
+ */
+export const baseScenarioValues = (data: DealData): Required<ScenarioOverrides> => {
+    const assumptions = resolveLBOAssumptions(data);
+    const drivers = getProjectionDrivers(extendProjection(extractOperatingProjection(data), assumptions.holdPeriod));
+    return { ...drivers, exitMultiple: assumptions.exitMultiple, interestRate: assumptions.interestRate };
+};
+
+/**
+ * Absolute drivers for a scenario against the current base case: shifts are applied to the
+ * base values and pinned overrides win over both.
+ */
+export const resolveScenarioOverrides = (data: DealData, scenario: DealScenario): ScenarioOverrides => {
+    const shifts = scenario.shifts || {};
+    if (Object.keys(shifts).length === 0) return scenario.overrides;
+    const base = baseScenarioValues(data);
+    const shifted: ScenarioOverrides = {};
+    (Object.keys(shifts) as (keyof ScenarioOverrides)[]).forEach(key => {
+        if (shifts[key] !== undefined) shifted[key] = round(base[key] + shifts[key]!, 2);
+    });
+    if (shifted.exitMultiple !== undefined) shifted.exitMultiple = Math.max(1, shifted.exitMultiple);
+    return { ...shifted, ...scenario.overrides };
+};
+
+const splitOverrides = (overrides: ScenarioOverrides) => ({
+    lbo: {
+        ...(overrides.exitMultiple !== undefined ? { exitMultiple: overrides.exitMultiple } : {}),
+        ...(overrides.interestRate !== undefined ? { interestRate: overrides.interestRate } : {})
+    },
+    operating: {
+        ...(overrides.revenueGrowth !== undefined ? { revenueGrowth: overrides.revenueGrowth } : {}),
+        ...(overrides.ebitdaMargin !== undefined ? { ebitdaMargin: overrides.ebitdaMargin } : {})
+    }
+});
+
+export const computeScenarioLBO = (data: DealData, scenario: DealScenario): LBOResult => {
+    const { lbo, operating } = splitOverrides(resolveScenarioOverrides(data, scenario));
+    return computeDealLBO(data, lbo, operating);
+};
+
+/**
+ * Returns a copy of the deal as seen under a scenario: income statement revenue/EBITDA
+ * re-cut, LBO assumptions overridden and every LBO output recomputed.
+ */
+export const applyScenario = (data: DealData, scenario: DealScenario | undefined): DealData => {
+    if (!scenario || scenario.kind === 'base') return data;
+    const overrides = resolveScenarioOverrides(data, scenario);
+    if (Object.keys(overrides).length === 0) return data;
+
+    const { operating } = splitOverrides(overrides);
+    const result = computeScenarioLBO(data, scenario);
+    const scenarioData: DealData = {
+        ...data,
+        lboAssumptions: result.assumptions,
+        lboDetailed: toLBODetailed(result),
+        lboModel: toLBOSummary(result),
+        valueCreation: toValueCreation(result)
+    };
+
+    const models = data.financialModels;
+    if (models && Object.keys(operating).length > 0) {
+        const projection = adjustProjection(extractOperatingProjection(data), operating);
+        const revenueRow = findFinancialRow(models.incomeStatement, /revenue|sales/i);
+        const ebitdaRow = findFinancialRow(models.incomeStatement, /ebitda/i);
+        const marginRow = models.incomeStatement.rows.find(r => /ebitda/i.test(r.label) && /margin|%/i.test(r.label));
+
+        scenarioData.financialModels = {
+            ...models,
+            incomeStatement: {
+                ...models.incomeStatement,
+                rows: models.incomeStatement.rows.map(row => {
+                    const override = (values: number[]) => ({ ...row, values, provenance: overrideProvenance(row, values, `Scenario: ${scenario.name}`) });
+                    if (row === revenueRow) return override(row.values.map((v, i) => round(projection.revenue[i] ?? v)));
+                    // Rows stay on a reported basis; QoE add-backs are layered on again when the model is read
+                    if (row === ebitdaRow) return override(row.values.map((v, i) => i < projection.years.length ? round(reportedEbitda(projection, i)) : v));
+                    if (row === marginRow) {
+                        // Margin rows come back either as 0.2 or 20
+                        const scale = row.values.every(v => Math.abs(v) <= 1) ? 1 : 100;
+                        return override(row.values.map((v, i) => projection.revenue[i] ? round(reportedEbitda(projection, i) / projection.revenue[i] * scale, 3) : v));
+                    }
+                    return row;
+                })
+            }
+        };
+    }
+
+    return scenarioData;
+};
+
+export const summarizeScenario = (data: DealData, scenario: DealScenario): ScenarioSummary => {
+    const result = computeScenarioLBO(data, scenario);
+    const overrides = resolveScenarioOverrides(data, scenario);
+    const { operating } = splitOverrides(overrides);
+    const projection = adjustProjection(extendProjection(extractOperatingProjection(data), result.assumptions.holdPeriod), operating);
+    const drivers = getProjectionDrivers(projection);
+
+    return {
+        scenario,
+        revenueGrowth: overrides.revenueGrowth ?? drivers.revenueGrowth,
+        ebitdaMargin: overrides.ebitdaMargin ?? drivers.ebitdaMargin,
+        exitMultiple: result.assumptions.exitMultiple,
+        interestRate: result.assumptions.interestRate,
+        exitEbitda: round(result.exitEbitda),
+        exitEquity: round(result.exitEquity),
+        irr: round(result.irr * 100),
+        moic: round(result.moic, 2)
+    };
+};
+
+export const summarizeScenarios = (data: DealData): ScenarioSummary[] =>
+    resolveScenarios(data).map(s => summarizeScenario(data, s));
+
+/**
+ * Plain-text scenario table for prompts and memo exports, in the deal's currency and scale.
+ */
+export const formatScenarioSummaries = (summaries: ScenarioSummary[], basis: MoneyBasis = {}): string =>
+    summaries.map(s =>
+        `- ${s.scenario.name}: IRR ${s.irr}%, MOIC ${s.moic}x, Exit Equity ${formatMoney(s.exitEquity, basis)} ` +
+        `(Rev Growth ${s.revenueGrowth}%, EBITDA Margin ${s.ebitdaMargin}%, Exit ${s.exitMultiple}x, Cost of Debt ${s.interestRate}%)`
+    ).join('\n');
+
+export const findDownsideSummary = (summaries: ScenarioSummary[]): ScenarioSummary | undefined =>
+    summaries.find(s => s.scenario.kind === 'downside');
+
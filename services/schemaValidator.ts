@@ -0,0 +1,381 @@
+
+import { ValidationReport } from "../types";
+import { getProvider, JsonRequest, JsonSchema, SchemaType } from "./llmProvider";
+import { LLMError } from "./requestLayer";
+
+// Robust JSON Repair for Truncated Responses
+const repairJSON = (jsonString: string): string => {
+    let repaired = jsonString.trim();
+    
+    // 1. Check if it ends with a dangling comma (common before a truncation)
+    if (repaired.endsWith(',')) {
+        repaired = repaired.slice(0, -1);
+    }
+
+    // 2. Check for unclosed strings
+    // Count quotes that aren't escaped
+    let quoteCount = 0;
+    for (let i = 0; i < repaired.length; i++) {
+        if (repaired[i] === '"' && (i === 0 || repaired[i-1] !== '\\')) {
+            quoteCount++;
+        }
+    }
+    if (quoteCount % 2 !== 0) {
+        repaired += '"';
+    }
+
+    // 3. Balance Braces/Brackets using a stack
+    const stack: string[] = [];
+    // We only care about structural characters outside of strings, but complex parsing is hard.
+    // Simple approach: Iterate chars. If inside string, ignore structure.
+    
+    let insideString = false;
+    for (let i = 0; i < repaired.length; i++) {
+        const char = repaired[i];
+        if (char === '"' && (i === 0 || repaired[i-1] !== '\\')) {
+            insideString = !insideString;
+            continue;
+        }
+        
+        if (!insideString) {
+            if (char === '{') stack.push('}');
+            else if (char === '[') stack.push(']');
+            else if (char === '}' || char === ']') {
+                // If we encounter a closer, pop the expected closer from stack to verify
+                // If stack is empty or mismatch, it's just malformed, but we continue
+                if (stack.length > 0 && stack[stack.length - 1] === char) {
+                    stack.pop();
+                }
+            }
+        }
+    }
+
+    // Append all missing closers in reverse order
+    while (stack.length > 0) {
+        repaired += stack.pop();
+    }
+
+    return repaired;
+};
+
+// Helper to clean and parse JSON that might contain markdown blocks or extra whitespace.
+// repaired is set when the text only parsed after patching, usually because it was cut off.
+export const parseJSON = (text: string): { value: any; repaired: boolean } => {
+    if (!text) return { value: {}, repaired: false };
+    // Remove markdown code blocks if present (e.g. ```json ... ```)
+    let cleanText = text.replace(/```json/g, '').replace(/```/g, '').trim();
+    
+    // Attempt to find the first '{' and last '}' (or '[' and ']') to handle preamble/postscript text
+    const firstCurly = cleanText.indexOf('{');
+    const firstSquare = cleanText.indexOf('[');
+
+    let start = -1;
+    if (firstCurly !== -1 && (firstSquare === -1 || firstCurly < firstSquare)) {
+        start = firstCurly;
+    } else if (firstSquare !== -1) {
+        start = firstSquare;
+    }
+
+    if (start !== -1) {
+        cleanText = cleanText.substring(start);
+    }
+    
+    try {
+        return { value: JSON.parse(cleanText), repaired: false };
+    } catch (e) {
+        // First failure: Try simple repair (trimming trailing chars)
+        try {
+            const repaired = repairJSON(cleanText);
+            return { value: JSON.parse(repaired), repaired: true };
+        } catch (repairError) {
+             console.error("JSON Parse Error on text:", text);
+             console.error("Repaired Attempt:", repairJSON(cleanText));
+             throw new LLMError('malformed_output', `JSON Parse Failed: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }
+};
+
+const cleanAndParseJSON = (text: string): any => parseJSON(text).value;
+
+// Fields put back to the model in one correction request; the rest are dropped
+const MAX_REASK_FIELDS = 25;
+
+type PathSegment = string | number;
+
+interface FoundIssue {
+    segments: PathSegment[];
+    schema: JsonSchema;
+    required: boolean;
+    problem: string;
+    received: string;
+}
+
+const formatPath = (segments: PathSegment[]): string =>
+    segments.reduce<string>((path, segment) => typeof segment === 'number' ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment, '') || '(root)';
+
+const preview = (value: any): string => {
+    if (value === undefined) return 'nothing';
+    const text = JSON.stringify(value) ?? String(value);
+    return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+};
+
+const kindOf = (value: any): string => value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const collectIssues = (value: any, schema: JsonSchema, segments: PathSegment[], required: boolean, issues: FoundIssue[]) => {
+    const fail = (problem: string) => issues.push({ segments, schema, required, problem, received: preview(value) });
+
+    if (value === undefined || value === null) {
+        if (required) fail('required field is missing');
+        return;
+    }
+    switch (schema.type) {
+        case SchemaType.OBJECT:
+            if (kindOf(value) !== 'object') return fail(`expected an object, got ${kindOf(value)}`);
+            for (const [key, child] of Object.entries(schema.properties || {})) {
+                collectIssues(value[key], child, [...segments, key], !!schema.required?.includes(key), issues);
+            }
+            return;
+        case SchemaType.ARRAY:
+            if (!Array.isArray(value)) return fail(`expected an array, got ${kindOf(value)}`);
+            value.forEach((item, index) => collectIssues(item, schema.items || { type: SchemaType.STRING }, [...segments, index], true, issues));
+            return;
+        case SchemaType.NUMBER:
+        case SchemaType.INTEGER:
+            if (typeof value !== 'number' || !Number.isFinite(value)) return fail(`expected a number, got ${kindOf(value)}`);
+            if (schema.type === SchemaType.INTEGER && !Number.isInteger(value)) return fail('expected a whole number');
+            if (schema.minimum !== undefined && value < schema.minimum) return fail(`must be at least ${schema.minimum}`);
+            if (schema.maximum !== undefined && value > schema.maximum) return fail(`must be at most ${schema.maximum}`);
+            return;
+        case SchemaType.BOOLEAN:
+            if (typeof value !== 'boolean') fail(`expected true or false, got ${kindOf(value)}`);
+            return;
+        default:
+            if (typeof value !== 'string') return fail(`expected text, got ${kindOf(value)}`);
+            if (schema.enum && !schema.enum.includes(value)) fail(`must be one of ${schema.enum.join(', ')}`);
+    }
+};
+
+const setAt = (root: any, segments: PathSegment[], value: any) => {
+    let node = root;
+    segments.slice(0, -1).forEach((segment, i) => {
+        if (node[segment] === undefined || node[segment] === null) node[segment] = typeof segments[i + 1] === 'number' ? [] : {};
+        node = node[segment];
+    });
+    node[segments[segments.length - 1]] = value;
+};
+
+const getAt = (root: any, segments: PathSegment[]): any => segments.reduce((node, segment) => node?.[segment], root);
+
+/**
+ * Substitutes for fields that are still invalid after the re-ask, keyed by path ("ebitda",
+ * "lboAssumptions"). A fallback covers the field and everything under it; undefined removes the
+ * field so the caller's own defaults apply.
+ */
+export type ValidationFallbacks = Record<string, any>;
+
+const isOutOfRange = (value: any, schema: JsonSchema) =>
+    typeof value === 'number' && Number.isFinite(value)
+    && ((schema.minimum !== undefined && value < schema.minimum) || (schema.maximum !== undefined && value > schema.maximum));
+
+const clamp = (value: number, schema: JsonSchema) =>
+    Math.min(schema.maximum ?? Infinity, Math.max(schema.minimum ?? -Infinity, value));
+
+// The issue's own path or nearest enclosing one that has a fallback
+const fallbackPath = (segments: PathSegment[], fallbacks: ValidationFallbacks): PathSegment[] | null => {
+    for (let end = segments.length; end > 0; end--) {
+        if (formatPath(segments.slice(0, end)) in fallbacks) return segments.slice(0, end);
+    }
+    return null;
+};
+
+const applyFallback = (root: any, segments: PathSegment[], fallback: any) => {
+    if (fallback === undefined) {
+        const parent = getAt(root, segments.slice(0, -1));
+        if (parent && typeof parent === 'object') delete parent[segments[segments.length - 1]];
+    } else {
+        setAt(root, segments, JSON.parse(JSON.stringify(fallback)));
+    }
+};
+
+// Required fields outside any array element: nothing to fall back on
+const isFatal = (issue: FoundIssue) => issue.required && !issue.segments.some(segment => typeof segment === 'number');
+
+/**
+ * Removes values that are still invalid so downstream defaults apply. An optional field is
+ * deleted; a required one takes its array element with it (the enclosing row or item rather
+ * than one number of a period series, which would shift the columns).
+ */
+const dropInvalid = (root: any, issues: FoundIssue[]) => {
+    const elements: PathSegment[][] = [];
+    for (const issue of issues) {
+        if (!issue.required) {
+            const parent = getAt(root, issue.segments.slice(0, -1));
+            if (parent && typeof parent === 'object') delete parent[issue.segments[issue.segments.length - 1]];
+            continue;
+        }
+        const indices = issue.segments.map((segment, i) => typeof segment === 'number' ? i : -1).filter(i => i >= 0);
+        const end = [...indices].reverse().find(i => kindOf(getAt(root, issue.segments.slice(0, i + 1))) === 'object') ?? indices[indices.length - 1];
+        elements.push(issue.segments.slice(0, end + 1));
+    }
+    // Deepest and last elements first so earlier indices stay valid
+    const unique = Array.from(new Map(elements.map(segments => [formatPath(segments), segments])).values())
+        .sort((a, b) => b.length - a.length || (b[b.length - 1] as number) - (a[a.length - 1] as number));
+    for (const segments of unique) {
+        const list = getAt(root, segments.slice(0, -1));
+        if (Array.isArray(list)) list.splice(segments[segments.length - 1] as number, 1);
+    }
+};
+
+const fieldKey = (segments: PathSegment[], taken: Set<string>): string => {
+    const base = segments.map(String).join('_') || 'value';
+    let key = base;
+    for (let n = 2; taken.has(key); n++) key = `${base}_${n}`;
+    taken.add(key);
+    return key;
+};
+
+/**
+ * Asks the model again for just the failing fields, with the original context, and writes the
+ * answers back into the response.
+ */
+const reask = async (request: JsonRequest, root: any, issues: FoundIssue[]): Promise<any> => {
+    const taken = new Set<string>();
+    const keys = issues.map(issue => fieldKey(issue.segments, taken));
+    const instruction = `CORRECTION REQUEST: Part of your previous answer failed validation. Return ONLY corrected values for these fields, keyed as shown, consistent with the rest of your answer:
+${issues.map((issue, i) => `- ${keys[i]} (${formatPath(issue.segments)}): ${issue.problem}; you returned ${issue.received}`).join('\n')}`;
+
+    const response = await getProvider().generateJSON({
+        tier: request.tier,
+        prompt: typeof request.prompt === 'string' ? `${request.prompt}\n\n${instruction}` : [...request.prompt, { text: instruction }],
+        schema: {
+            type: SchemaType.OBJECT,
+            properties: Object.fromEntries(issues.map((issue, i) => [keys[i], { ...issue.schema, description: `${formatPath(issue.segments)}: ${issue.problem}` }])),
+            required: keys
+        }
+    });
+    const corrections = cleanAndParseJSON(response);
+    let result = root;
+    issues.forEach((issue, i) => {
+        const corrected = corrections?.[keys[i]];
+        if (corrected === undefined) return;
+        if (issue.segments.length === 0) result = corrected;
+        else setAt(result, issue.segments, corrected);
+    });
+    return result;
+};
+
+// Reports of each trace's open step; a validation outside a collected step is reported to no one
+const pendingReports = new Map<string, ValidationReport[]>();
+let collectingTrace: string | null = null;
+
+/**
+ * Starts collecting reports for a trace's next step. Runs are exclusive, so every response
+ * validated until takeValidationReports belongs to that step.
+ */
+export const collectValidationReports = (traceId: string) => {
+    collectingTrace = traceId;
+    pendingReports.set(traceId, []);
+};
+
+const fileReport = (report: ValidationReport) => {
+    if (collectingTrace) pendingReports.get(collectingTrace)?.push(report);
+};
+
+/**
+ * The reports of the trace's step since collectValidationReports; stops collecting for it.
+ */
+export const takeValidationReports = (traceId: string): ValidationReport[] => {
+    const reports = pendingReports.get(traceId) || [];
+    pendingReports.delete(traceId);
+    if (collectingTrace === traceId) collectingTrace = null;
+    return reports;
+};
+
+/**
+ * Validates an agent response against its request schema and re-asks the model once for the
+ * fields that failed. Whatever is still invalid is clamped into its bounds, replaced by its
+ * fallback or dropped, in that order; only a required field with none of those fails the call.
+ * Anything other than a clean pass is reported for the System Log.
+ */
+export const ensureValid = async <T,>(agent: string, value: any, request: JsonRequest, repairedJson: boolean = false, fallbacks: ValidationFallbacks = {}): Promise<T> => {
+    const found: FoundIssue[] = [];
+    collectIssues(value, request.schema, [], true, found);
+    if (found.length === 0) {
+        if (repairedJson) fileReport({ agent, repairedJson, reasked: false, issues: [] });
+        return value as T;
+    }
+
+    const report: ValidationReport = { agent, repairedJson, reasked: false, issues: [] };
+    fileReport(report);
+    const asked = found.slice(0, MAX_REASK_FIELDS);
+    let result = value;
+    try {
+        result = await reask(request, value, asked);
+        report.reasked = true;
+    } catch (error) {
+        console.warn(`${agent}: correction request failed`, error);
+    }
+
+    const remaining: FoundIssue[] = [];
+    collectIssues(result, request.schema, [], true, remaining);
+    const stillFailing = new Set(remaining.map(issue => formatPath(issue.segments)));
+    report.issues = found.map(issue => ({
+        path: formatPath(issue.segments),
+        problem: issue.problem,
+        received: issue.received,
+        resolution: stillFailing.has(formatPath(issue.segments)) ? 'dropped' : 'corrected'
+    }));
+    // Corrections can surface new problems (e.g. an object with a bad field); report those too
+    const known = new Set(report.issues.map(issue => issue.path));
+    remaining.filter(issue => !known.has(formatPath(issue.segments))).forEach(issue => report.issues.push({
+        path: formatPath(issue.segments), problem: issue.problem, received: issue.received, resolution: 'dropped'
+    }));
+
+    const resolve = (path: string, resolution: 'clamped' | 'defaulted', applied: string) => report.issues
+        .filter(issue => issue.path === path)
+        .forEach(issue => { issue.resolution = resolution; issue.applied = applied; });
+
+    // Fallbacks first: one can replace a whole object, taking any clampable fields inside it along
+    const clampable = (issue: FoundIssue) => issue.segments.length > 0 && isOutOfRange(getAt(result, issue.segments), issue.schema);
+    const replaced: PathSegment[][] = [];
+    const unhandled = remaining.filter(issue => {
+        const target = fallbackPath(issue.segments, fallbacks);
+        if (!target || clampable(issue)) return true;
+        const fallback = fallbacks[formatPath(target)];
+        if (!replaced.some(r => formatPath(r) === formatPath(target))) {
+            applyFallback(result, target, fallback);
+            replaced.push(target);
+        }
+        resolve(formatPath(issue.segments), 'defaulted', fallback === undefined ? 'standard defaults' : preview(fallback));
+        return false;
+    }).filter(issue => {
+        const within = replaced.find(r => r.every((segment, i) => issue.segments[i] === segment));
+        if (within) {
+            const fallback = fallbacks[formatPath(within)];
+            resolve(formatPath(issue.segments), 'defaulted', fallback === undefined ? 'standard defaults' : preview(fallback));
+            return false;
+        }
+        if (!clampable(issue)) return true;
+        const clamped = clamp(getAt(result, issue.segments), issue.schema);
+        setAt(result, issue.segments, clamped);
+        resolve(formatPath(issue.segments), 'clamped', String(clamped));
+        return false;
+    });
+
+    const fatal = unhandled.filter(isFatal);
+    if (fatal.length > 0) {
+        const paths = new Set(fatal.map(issue => formatPath(issue.segments)));
+        report.issues.forEach(issue => { if (paths.has(issue.path)) issue.resolution = 'unresolved'; });
+        throw new LLMError('malformed_output', `${agent}: ${fatal.map(issue => `${formatPath(issue.segments)} ${issue.problem} (got ${issue.received})`).join('; ')}`);
+    }
+    dropInvalid(result, unhandled);
+    return result as T;
+};
+
+/**
+ * A schema-constrained call whose parsed output is validated (and corrected) before use.
+ */
+export const generateValidated = async <T,>(agent: string, request: JsonRequest, fallbacks?: ValidationFallbacks): Promise<T> => {
+    const { value, repaired } = parseJSON(await getProvider().generateJSON(request));
+    return ensureValid<T>(agent, value, request, repaired, fallbacks);
+};
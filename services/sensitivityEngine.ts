@@ -0,0 +1,118 @@
+
+import { DealData, LBOAssumptions, SensitivityRow } from "../types";
+import { computeDealLBO, extendProjection, extractOperatingProjection, getProjectionDrivers, LBOResult, OperatingOverrides, resolveLBOAssumptions } from "./lboEngine";
+
+export type SensitivityVariable = 'entryMultiple' | 'exitMultiple' | 'leverageMultiple' | 'holdPeriod' | 'revenueGrowth' | 'ebitdaMargin';
+export type SensitivityMetric = 'irr' | 'moic' | 'equityValue';
+
+export interface SensitivityAxis {
+    variable: SensitivityVariable;
+    values: number[];
+}
+
+export interface SensitivityGrid {
+    rowAxis: SensitivityAxis;
+    colAxis: SensitivityAxis;
+    metric: SensitivityMetric;
+    cells: number[][]; // [row][col]; IRR in %, MOIC in x, equity value in $M
+    baseValue: number;
+}
+
+export const SENSITIVITY_VARIABLES: Record<SensitivityVariable, { label: string; suffix: string; step: number; integer?: boolean }> = {
+    entryMultiple: { label: 'Entry Multiple', suffix: 'x', step: 0.5 },
+    exitMultiple: { label: 'Exit Multiple', suffix: 'x', step: 0.5 },
+    leverageMultiple: { label: 'Leverage', suffix: 'x', step: 0.5 },
+    holdPeriod: { label: 'Hold Period', suffix: 'yr', step: 1, integer: true },
+    revenueGrowth: { label: 'Revenue Growth', suffix: '%', step: 2.5 },
+    ebitdaMargin: { label: 'EBITDA Margin', suffix: '%', step: 2.5 }
+};
+
+export const SENSITIVITY_METRICS: Record<SensitivityMetric, { label: string; suffix: string }> = {
+    irr: { label: 'IRR', suffix: '%' },
+    moic: { label: 'MOIC', suffix: 'x' },
+    equityValue: { label: 'Exit Equity Value', suffix: '$M' }
+};
+
+// Row vs column pairs offered in the valuation tab
+export const SENSITIVITY_PRESETS: { label: string; row: SensitivityVariable; col: SensitivityVariable }[] = [
+    { label: 'Entry vs Exit Multiple', row: 'entryMultiple', col: 'exitMultiple' },
+    { label: 'Leverage vs Exit Multiple', row: 'leverageMultiple', col: 'exitMultiple' },
+    { label: 'Revenue Growth vs Margin', row: 'revenueGrowth', col: 'ebitdaMargin' },
+    { label: 'Hold Period vs Exit Multiple', row: 'holdPeriod', col: 'exitMultiple' }
+];
+
+const OPERATING_VARIABLES: SensitivityVariable[] = ['revenueGrowth', 'ebitdaMargin'];
+
+/**
+ * Base-case value of a sensitivity variable for a deal.
+ */
+export const getBaseValue = (data: DealData, variable: SensitivityVariable): number => {
+    const assumptions = resolveLBOAssumptions(data);
+    if (OPERATING_VARIABLES.includes(variable)) {
+        const projection = extendProjection(extractOperatingProjection(data), assumptions.holdPeriod);
+        return getProjectionDrivers(projection)[variable as keyof OperatingOverrides];
+    }
+    return assumptions[variable as keyof LBOAssumptions] as number;
+};
+
+/**
+ * Evenly spaced axis centred on the base value. Count can be any size >= 1.
+ */
+export const buildAxisValues = (variable: SensitivityVariable, center: number, step: number, count: number): number[] => {
+    const meta = SENSITIVITY_VARIABLES[variable];
+    const half = Math.floor((Math.max(1, count) - 1) / 2);
+    const values: number[] = [];
+    for (let i = 0; i < Math.max(1, count); i++) {
+        const raw = center + (i - half) * step;
+        values.push(meta.integer ? Math.round(raw) : Math.round(raw * 100) / 100);
+    }
+    // Hold period and multiples cannot go below their floor
+    return values.filter(v => (meta.integer ? v >= 1 : v >= 0) || variable === 'revenueGrowth');
+};
+
+export const readMetric = (result: LBOResult, metric: SensitivityMetric): number => {
+    switch (metric) {
+        case 'irr': return Math.round(result.irr * 1000) / 10;
+        case 'moic': return Math.round(result.moic * 100) / 100;
+        case 'equityValue': return Math.round(result.exitEquity * 10) / 10;
+    }
+};
+
+const runPoint = (data: DealData, assignments: Partial<Record<SensitivityVariable, number>>): LBOResult => {
+    const lboOverrides: Partial<LBOAssumptions> = {};
+    const operating: OperatingOverrides = {};
+    (Object.keys(assignments) as SensitivityVariable[]).forEach(variable => {
+        const value = assignments[variable] as number;
+        if (OPERATING_VARIABLES.includes(variable)) operating[variable as keyof OperatingOverrides] = value;
+        else (lboOverrides as Record<string, number>)[variable] = value;
+    });
+    return computeDealLBO(data, lboOverrides, operating);
+};
+
+/**
+ * Re-runs the deal's LBO across every row/column combination.
+ */
+export const computeSensitivityGrid = (data: DealData, rowAxis: SensitivityAxis, colAxis: SensitivityAxis, metric: SensitivityMetric): SensitivityGrid => {
+    const cells = rowAxis.values.map(rowValue =>
+        colAxis.values.map(colValue => readMetric(runPoint(data, { [rowAxis.variable]: rowValue, [colAxis.variable]: colValue }), metric))
+    );
+    return { rowAxis, colAxis, metric, cells, baseValue: readMetric(computeDealLBO(data), metric) };
+};
+
+/**
+ * Default entry vs exit IRR grid in the legacy SensitivityRow shape stored on DealData.
+ */
+export const computeDefaultSensitivity = (data: DealData): SensitivityRow[] => {
+    const entry = getBaseValue(data, 'entryMultiple');
+    const exit = getBaseValue(data, 'exitMultiple');
+    const grid = computeSensitivityGrid(
+        data,
+        { variable: 'entryMultiple', values: buildAxisValues('entryMultiple', entry, 1, 3) },
+        { variable: 'exitMultiple', values: buildAxisValues('exitMultiple', exit, 1, 3) },
+        'irr'
+    );
+    return grid.rowAxis.values.map((entryMultiple, r) => ({
+        entryMultiple,
+        exits: grid.colAxis.values.map((multiple, c) => ({ multiple, irr: grid.cells[r][c] }))
+    }));
+};
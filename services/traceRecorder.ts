@@ -0,0 +1,227 @@
+
+import { AgentRole, AttachmentRef, FileAttachment, LLMMethod, RecordedCall, TraceInput, TraceRecording } from "../types";
+import { LLMPart, LLMProvider } from "./llmProvider";
+import { classifyError, LLMError } from "./requestLayer";
+
+// Recordings kept in the browser; older ones can still be exported first
+export const MAX_SAVED_TRACES = 10;
+
+const METHODS: LLMMethod[] = ['generateText', 'generateJSON', 'searchGrounded', 'generateImage', 'searchMaps'];
+
+interface ActiveStep {
+    traceId: string;
+    step: number;
+    name: string;
+    role: AgentRole;
+    calls: number;
+}
+
+const activeTraces = new Map<string, TraceRecording>();
+
+// The app runs one pipeline or replay at a time and its steps in sequence, so provider calls
+// belong to the step that is open; a step opened by another trace is a bug, not a race to absorb
+let currentStep: ActiveStep | null = null;
+
+export const startTrace = (traceId: string, input: TraceInput, provider: string, replayOf?: string) => {
+    activeTraces.set(traceId, { traceId, createdAt: new Date().toISOString(), provider, replayOf, input, steps: [], calls: [] });
+};
+
+export const beginStep = (traceId: string, name: string, role: AgentRole) => {
+    const recording = activeTraces.get(traceId);
+    if (!recording) return;
+    if (currentStep && currentStep.traceId !== traceId) {
+        throw new Error(`Trace ${traceId} cannot open a step while trace ${currentStep.traceId} is running`);
+    }
+    const step = recording.steps.length + 1;
+    recording.steps.push({ step, name, role, status: 'completed' });
+    currentStep = { traceId, step, name, role, calls: 0 };
+};
+
+export const endStep = (traceId: string, failed: boolean = false) => {
+    const recording = activeTraces.get(traceId);
+    const last = recording?.steps[recording.steps.length - 1];
+    if (last && failed) last.status = 'error';
+    if (currentStep?.traceId === traceId) currentStep = null;
+};
+
+/**
+ * Closes the trace and hands back its recording, or null if no step ran.
+ */
+export const finishTrace = (traceId: string): TraceRecording | null => {
+    const recording = activeTraces.get(traceId);
+    activeTraces.delete(traceId);
+    return recording && recording.steps.length > 0 ? recording : null;
+};
+
+// Attachments are stored once on the trace input; requests only note their size, and text
+// read out of a spreadsheet keeps its file name and fingerprint (replay serves by call, not prompt)
+const redactPart = (part: LLMPart): LLMPart => {
+    if (part.inlineData) return { inlineData: { mimeType: part.inlineData.mimeType, data: `[${part.inlineData.data.length} base64 chars]` } };
+    if (part.document && part.text) return { document: part.document, text: `[${part.text.length} chars from ${part.document}, fingerprint ${fingerprint(part.text)}]` };
+    return part;
+};
+
+const redactRequest = (request: any): any => {
+    if (typeof request !== 'object' || request === null || !Array.isArray(request.prompt)) return request;
+    return { ...request, prompt: request.prompt.map(redactPart) };
+};
+
+/**
+ * Wraps a provider so every call made inside an open step is captured on its trace.
+ */
+export const withRecording = (provider: LLMProvider): LLMProvider => {
+    const record = (method: LLMMethod) => async (request: any): Promise<any> => {
+        const step = currentStep;
+        const recording = step && activeTraces.get(step.traceId);
+        if (!step || !recording) return (provider[method] as (r: any) => Promise<any>)(request);
+
+        const call = ++step.calls;
+        const startTime = performance.now();
+        const entry = (fields: Partial<RecordedCall>): RecordedCall => ({
+            step: step.step,
+            stepName: step.name,
+            role: step.role,
+            call,
+            method,
+            request: redactRequest(request),
+            latency: Math.round(performance.now() - startTime),
+            ...fields
+        });
+
+        try {
+            const response = await (provider[method] as (r: any) => Promise<any>)(request);
+            recording.calls.push(entry({ response }));
+            return response;
+        } catch (error) {
+            recording.calls.push(entry({ error: error instanceof Error ? error.message : String(error), code: classifyError(error).code }));
+            throw error;
+        }
+    };
+
+    return {
+        id: provider.id,
+        label: provider.label,
+        generateText: record('generateText'),
+        generateJSON: record('generateJSON'),
+        searchGrounded: record('searchGrounded'),
+        generateImage: record('generateImage'),
+        searchMaps: record('searchMaps')
+    };
+};
+
+/**
+ * Serves a recording back with no network: the n-th call of step k gets the response recorded
+ * for the n-th call of step k, and recorded failures are thrown again. A call the recording
+ * does not have means the code path changed and fails loudly.
+ */
+export const createReplayProvider = (recording: TraceRecording): LLMProvider => {
+    const served = new Map<number, number>();
+
+    const replay = (method: LLMMethod) => async (): Promise<any> => {
+        const step = currentStep;
+        if (!step) throw new LLMError('replay_miss', `Replay miss: ${recording.traceId} got a ${method} call outside a pipeline step`);
+        const call = (served.get(step.step) || 0) + 1;
+        served.set(step.step, call);
+
+        const recorded = recording.calls.find(c => c.step === step.step && c.call === call);
+        if (!recorded || recorded.method !== method) {
+            throw new LLMError('replay_miss', `Replay miss: trace ${recording.traceId} has no ${method} call #${call} in step ${step.step} (${step.name})`);
+        }
+        if (recorded.error) throw new LLMError(recorded.code || classifyError(recorded.error).code, recorded.error);
+        return recorded.response;
+    };
+
+    return {
+        id: 'replay',
+        label: `Replay of ${recording.traceId} (${recording.provider})`,
+        generateText: replay('generateText'),
+        generateJSON: replay('generateJSON'),
+        searchGrounded: replay('searchGrounded'),
+        generateImage: replay('generateImage'),
+        searchMaps: replay('searchMaps')
+    };
+};
+
+// FNV-1a over the data URI; with the length it tells a re-picked file from a different one
+const fingerprint = (data: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < data.length; i++) {
+        hash ^= data.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const toRef = (file: FileAttachment): AttachmentRef => ({ name: file.name, type: file.type, size: file.data.length, fingerprint: fingerprint(file.data) });
+
+const inputAttachments = (input: TraceInput): FileAttachment[] => input.kind === 'deliverable' ? [] : input.attachments || [];
+
+const isInlineImage = (call: RecordedCall) => call.method === 'generateImage' && typeof call.response === 'string' && call.response.startsWith('data:');
+
+/**
+ * The copy kept in browser storage: attachment contents become fingerprints and generated
+ * images are dropped, so a few PDF uploads cannot exhaust the origin quota.
+ */
+export const toStoredTrace = (recording: TraceRecording): TraceRecording => {
+    const attachments = inputAttachments(recording.input).filter(file => file.data);
+    const images = recording.calls.filter(isInlineImage).length;
+    if (attachments.length === 0 && images === 0) return recording;
+    const input = recording.input.kind === 'deliverable'
+        ? recording.input
+        : { ...recording.input, attachments: inputAttachments(recording.input).map(file => ({ ...file, data: '' })) };
+    return {
+        ...recording,
+        input,
+        calls: recording.calls.map(call => isInlineImage(call) ? { ...call, response: null } : call),
+        attachmentRefs: [...(recording.attachmentRefs || []), ...attachments.map(toRef)],
+        imagesOmitted: (recording.imagesOmitted || 0) + images
+    };
+};
+
+/**
+ * Attachments a saved recording needs before it can replay, by name.
+ */
+export const missingAttachments = (recording: TraceRecording): AttachmentRef[] =>
+    inputAttachments(recording.input).some(file => !file.data) ? recording.attachmentRefs || [] : [];
+
+/**
+ * Puts re-selected files back into a saved recording. Throws naming the files that are still
+ * missing or whose contents differ from the recorded run.
+ */
+export const restoreAttachments = (recording: TraceRecording, files: FileAttachment[]): TraceRecording => {
+    const refs = missingAttachments(recording);
+    const restored = refs.map(ref => files.find(file => file.data.length === ref.size && fingerprint(file.data) === ref.fingerprint));
+    const missing = refs.filter((_, i) => !restored[i]).map(ref => ref.name);
+    if (missing.length > 0) throw new Error(`Select the original file${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+    const attachments = restored.map((file, i) => ({ name: refs[i].name, type: refs[i].type, data: file!.data }));
+    const input: TraceInput = recording.input.kind === 'portfolio'
+        ? { ...recording.input, attachments }
+        : recording.input.kind === 'message' ? { ...recording.input, attachments } : recording.input;
+    return { ...recording, input, attachmentRefs: undefined };
+};
+
+export const traceFileName = (recording: TraceRecording) => `trace_${recording.traceId}_${recording.createdAt.slice(0, 10)}.json`;
+
+/**
+ * Validates an imported trace file. Throws with the reason when it is not a recording.
+ */
+export const parseTraceRecording = (text: string): TraceRecording => {
+    const raw = JSON.parse(text);
+    if (!raw || typeof raw.traceId !== 'string') throw new Error("Missing traceId");
+    if (!raw.input || !['message', 'deliverable', 'portfolio'].includes(raw.input.kind)) throw new Error("Missing or unknown trace input");
+    if (!Array.isArray(raw.steps) || !Array.isArray(raw.calls)) throw new Error("Missing steps or calls");
+    const calls = raw.calls.filter((c: any) =>
+        c && Number.isInteger(c.step) && Number.isInteger(c.call) && METHODS.includes(c.method) && ('response' in c || typeof c.error === 'string'));
+    if (calls.length !== raw.calls.length) throw new Error(`${raw.calls.length - calls.length} malformed recorded calls`);
+    return {
+        traceId: raw.traceId,
+        createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : new Date().toISOString(),
+        provider: typeof raw.provider === 'string' ? raw.provider : 'Unknown provider',
+        replayOf: typeof raw.replayOf === 'string' ? raw.replayOf : undefined,
+        input: raw.input,
+        steps: raw.steps,
+        calls,
+        attachmentRefs: Array.isArray(raw.attachmentRefs) ? raw.attachmentRefs : undefined,
+        imagesOmitted: Number.isInteger(raw.imagesOmitted) ? raw.imagesOmitted : undefined
+    };
+};
@@ -0,0 +1,111 @@
+
+import { ModelPrice, SpendBudget, TokenUsage } from "../types";
+
+// List prices in USD per million tokens (standard context) and per image at the size the agents request
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-3-pro-preview': { input: 2, output: 12, image: 0 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5, image: 0 },
+    'gemini-3-pro-image-preview': { input: 2, output: 12, image: 0.134 },
+    'gemini-2.5-flash-image': { input: 0.3, output: 2.5, image: 0.039 },
+    'gpt-4o': { input: 2.5, output: 10, image: 0 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6, image: 0 },
+    'gpt-image-1': { input: 5, output: 0, image: 0.042 },
+    'mock': { input: 0, output: 0, image: 0 }
+};
+
+export const EMPTY_USAGE: TokenUsage = { calls: 0, inputTokens: 0, outputTokens: 0, thinkingTokens: 0, images: 0, cost: 0 };
+
+type UsageCounts = Partial<Pick<TokenUsage, 'inputTokens' | 'outputTokens' | 'thinkingTokens' | 'images'>>;
+
+let prices: Record<string, ModelPrice> = DEFAULT_MODEL_PRICES;
+
+export const configurePricing = (overrides?: Record<string, ModelPrice>) => {
+    prices = { ...DEFAULT_MODEL_PRICES, ...overrides };
+};
+
+/**
+ * Exact model name first, then the longest listed prefix so dated snapshots
+ * (gpt-4o-2024-08-06) price like their family. Unlisted models cost nothing.
+ */
+export const findModelPrice = (model: string): ModelPrice | undefined =>
+    prices[model] ?? Object.keys(prices)
+        .filter(name => model.startsWith(name))
+        .sort((a, b) => b.length - a.length)
+        .map(name => prices[name])[0];
+
+export const priceUsage = (model: string, counts: UsageCounts): TokenUsage => {
+    const price = findModelPrice(model);
+    const usage = { ...EMPTY_USAGE, calls: 1, ...counts };
+    const cost = price
+        ? (usage.inputTokens * price.input + (usage.outputTokens + usage.thinkingTokens) * price.output) / 1e6 + usage.images * price.image
+        : 0;
+    return { ...usage, cost };
+};
+
+export const addUsage = (total: TokenUsage | undefined, usage: TokenUsage): TokenUsage => {
+    const base = total || EMPTY_USAGE;
+    return {
+        calls: base.calls + usage.calls,
+        inputTokens: base.inputTokens + usage.inputTokens,
+        outputTokens: base.outputTokens + usage.outputTokens,
+        thinkingTokens: base.thinkingTokens + usage.thinkingTokens,
+        images: base.images + usage.images,
+        cost: base.cost + usage.cost
+    };
+};
+
+// Spend of each trace's open step; a call answered while no step is metered is billed to no one
+const pending = new Map<string, TokenUsage>();
+let meteredTrace: string | null = null;
+
+/**
+ * Opens the meter for a trace's next step. Runs are exclusive, so every call answered
+ * until takeUsage was made by that step.
+ */
+export const meterStep = (traceId: string) => {
+    meteredTrace = traceId;
+    pending.delete(traceId);
+};
+
+/**
+ * Providers report every answered call here with the model that served it.
+ */
+export const recordUsage = (model: string, counts: UsageCounts) => {
+    if (!meteredTrace) return;
+    pending.set(meteredTrace, addUsage(pending.get(meteredTrace), priceUsage(model, counts)));
+};
+
+/**
+ * What the trace's step spent since meterStep; closes the meter so later calls are not charged to it.
+ */
+export const takeUsage = (traceId: string): TokenUsage | null => {
+    const usage = pending.get(traceId) || null;
+    pending.delete(traceId);
+    if (meteredTrace === traceId) meteredTrace = null;
+    return usage;
+};
+
+/**
+ * Sums usage by a key (agent, trace, deal); items without usage or a key are skipped.
+ */
+export const rollUpUsage = <T,>(items: T[], key: (item: T) => string | undefined, usage: (item: T) => TokenUsage | undefined): Record<string, TokenUsage> => {
+    const totals: Record<string, TokenUsage> = {};
+    for (const item of items) {
+        const k = key(item);
+        const u = usage(item);
+        if (k && u) totals[k] = addUsage(totals[k], u);
+    }
+    return totals;
+};
+
+export type BudgetStatus = 'ok' | 'warn' | 'halt';
+
+export const budgetStatus = (spent: number, budget?: SpendBudget): BudgetStatus =>
+    !budget || !(budget.dealCap > 0) || spent <= budget.dealCap ? 'ok' : budget.action;
+
+export const totalTokens = (usage: TokenUsage) => usage.inputTokens + usage.outputTokens + usage.thinkingTokens;
+
+export const formatTokens = (tokens: number): string =>
+    tokens >= 1e6 ? `${(tokens / 1e6).toFixed(1)}M` : tokens >= 1e3 ? `${(tokens / 1e3).toFixed(1)}k` : `${tokens}`;
+
+export const formatCost = (usd: number): string => usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
@@ -0,0 +1,191 @@
+
+import { DealData, FundTerms, PortfolioCompany, WaterfallMode } from "../types";
+import { computeDealLBO } from "./lboEngine";
+
+export type WaterfallTierName = 'Return of Capital' | 'Preferred Return' | 'GP Catch-Up' | 'Carried Interest';
+
+export interface WaterfallInput {
+    name: string;
+    invested: number; // $M contributed
+    proceeds: number; // $M distributable
+    years: number; // holding period for the preferred return
+}
+
+export interface WaterfallTier {
+    tier: WaterfallTierName;
+    lp: number;
+    gp: number;
+}
+
+export interface WaterfallDealResult extends WaterfallInput {
+    lp: number;
+    gp: number;
+}
+
+export interface WaterfallResult {
+    mode: WaterfallMode;
+    contributed: number;
+    distributions: number;
+    profit: number;
+    tiers: WaterfallTier[];
+    lpTotal: number;
+    gpCarry: number;
+    effectiveCarry: number; // % of profit taken by the GP
+    grossMultiple: number;
+    lpNetMultiple: number;
+    grossIrr: number; // %, on the capital-weighted hold
+    lpNetIrr: number; // %
+    deals: WaterfallDealResult[];
+}
+
+export const DEFAULT_FUND_TERMS: FundTerms = {
+    waterfall: 'european',
+    preferredReturn: 8,
+    carry: 20,
+    catchUp: 100,
+    managementFee: 2
+};
+
+export const WATERFALL_TIERS: WaterfallTierName[] = ['Return of Capital', 'Preferred Return', 'GP Catch-Up', 'Carried Interest'];
+
+const round = (value: number, decimals: number = 1): number => {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+};
+
+export const resolveFundTerms = (terms?: Partial<FundTerms>): FundTerms => {
+    const pick = (value: any, fallback: number) => (typeof value === 'number' && isFinite(value) ? value : fallback);
+    return {
+        waterfall: terms?.waterfall === 'american' ? 'american' : 'european',
+        preferredReturn: Math.max(0, pick(terms?.preferredReturn, DEFAULT_FUND_TERMS.preferredReturn)),
+        carry: Math.min(100, Math.max(0, pick(terms?.carry, DEFAULT_FUND_TERMS.carry))),
+        catchUp: Math.min(100, Math.max(0, pick(terms?.catchUp, DEFAULT_FUND_TERMS.catchUp))),
+        managementFee: Math.max(0, pick(terms?.managementFee, DEFAULT_FUND_TERMS.managementFee))
+    };
+};
+
+/**
+ * Splits one pool of proceeds through the four tiers. The pref compounds annually over the hold.
+ */
+const splitTiers = (invested: number, proceeds: number, years: number, terms: FundTerms): WaterfallTier[] => {
+    let remaining = Math.max(0, proceeds);
+    const take = (amount: number) => {
+        const paid = Math.min(remaining, Math.max(0, amount));
+        remaining -= paid;
+        return paid;
+    };
+
+    const capital = take(invested);
+    const pref = take(invested * (Math.pow(1 + terms.preferredReturn / 100, years) - 1));
+
+    // Catch-up runs until the GP holds carry% of everything paid above capital:
+    // c * X = carry * (pref + X)  =>  X = carry * pref / (c - carry)
+    const c = terms.catchUp / 100;
+    const carry = terms.carry / 100;
+    const catchUpPool = c > carry && pref > 0 ? take(carry * pref / (c - carry)) : 0;
+
+    const residual = take(remaining);
+
+    return [
+        { tier: 'Return of Capital', lp: capital, gp: 0 },
+        { tier: 'Preferred Return', lp: pref, gp: 0 },
+        { tier: 'GP Catch-Up', lp: catchUpPool * (1 - c), gp: catchUpPool * c },
+        { tier: 'Carried Interest', lp: residual * (1 - carry), gp: residual * carry }
+    ];
+};
+
+const sumTiers = (sets: WaterfallTier[][]): WaterfallTier[] =>
+    WATERFALL_TIERS.map((tier, i) => ({
+        tier,
+        lp: sets.reduce((acc, set) => acc + set[i].lp, 0),
+        gp: sets.reduce((acc, set) => acc + set[i].gp, 0)
+    }));
+
+/**
+ * European mode pools every deal before carry is paid; American mode runs each deal on its own,
+ * so a loser does not offset a winner (no clawback is modelled).
+ */
+export const runWaterfall = (inputs: WaterfallInput[], terms: FundTerms): WaterfallResult => {
+    const valid = inputs.filter(i => i.invested > 0 && isFinite(i.proceeds));
+    const contributed = valid.reduce((acc, i) => acc + i.invested, 0);
+    const distributions = valid.reduce((acc, i) => acc + Math.max(0, i.proceeds), 0);
+    const years = contributed > 0 ? valid.reduce((acc, i) => acc + i.invested * i.years, 0) / contributed : 0;
+
+    const perDeal = valid.map(i => splitTiers(i.invested, i.proceeds, i.years, terms));
+    const tiers = terms.waterfall === 'american'
+        ? sumTiers(perDeal)
+        : splitTiers(contributed, distributions, years, terms);
+
+    const lpTotal = tiers.reduce((acc, t) => acc + t.lp, 0);
+    const gpCarry = tiers.reduce((acc, t) => acc + t.gp, 0);
+    const profit = distributions - contributed;
+    const annualize = (multiple: number) => years > 0 && multiple > 0 ? (Math.pow(multiple, 1 / years) - 1) * 100 : 0;
+    const grossMultiple = contributed > 0 ? distributions / contributed : 0;
+    const lpNetMultiple = contributed > 0 ? lpTotal / contributed : 0;
+
+    // Per-deal attribution: American is exact; European allocates the pooled carry pro rata to profit
+    const totalPositiveProfit = valid.reduce((acc, i) => acc + Math.max(0, i.proceeds - i.invested), 0);
+    const deals = valid.map((input, idx) => {
+        const gp = terms.waterfall === 'american'
+            ? perDeal[idx].reduce((acc, t) => acc + t.gp, 0)
+            : totalPositiveProfit > 0 ? gpCarry * Math.max(0, input.proceeds - input.invested) / totalPositiveProfit : 0;
+        return { ...input, lp: round(Math.max(0, input.proceeds) - gp, 2), gp: round(gp, 2) };
+    });
+
+    return {
+        mode: terms.waterfall,
+        contributed: round(contributed, 2),
+        distributions: round(distributions, 2),
+        profit: round(profit, 2),
+        tiers: tiers.map(t => ({ tier: t.tier, lp: round(t.lp, 2), gp: round(t.gp, 2) })),
+        lpTotal: round(lpTotal, 2),
+        gpCarry: round(gpCarry, 2),
+        effectiveCarry: profit > 0 ? round(gpCarry / profit * 100) : 0,
+        grossMultiple: round(grossMultiple, 2),
+        lpNetMultiple: round(lpNetMultiple, 2),
+        grossIrr: round(annualize(grossMultiple)),
+        lpNetIrr: round(annualize(lpNetMultiple)),
+        deals
+    };
+};
+
+/**
+ * The deal's LBO exit as a single waterfall input: sponsor equity in, sponsor equity out.
+ */
+export const dealWaterfallInput = (data: DealData): WaterfallInput => {
+    const result = computeDealLBO(data);
+    return {
+        name: data.companyName,
+        invested: result.entryEquity,
+        proceeds: result.exitEquity,
+        years: result.assumptions.holdPeriod
+    };
+};
+
+const parseDate = (value?: string): Date | null => {
+    if (!value) return null;
+    const trimmed = value.trim();
+    // Bare years ("2019") count from mid-year
+    const date = /^\d{4}$/.test(trimmed) ? new Date(Number(trimmed), 6, 1) : new Date(trimmed);
+    return isNaN(date.getTime()) ? null : date;
+};
+
+export const holdingYears = (entryDate?: string, exitDate?: string, asOf: Date = new Date()): number => {
+    const start = parseDate(entryDate);
+    if (!start) return 0;
+    const end = parseDate(exitDate) || asOf;
+    return Math.max(0, (end.getTime() - start.getTime()) / (365.25 * 24 * 3600 * 1000));
+};
+
+/**
+ * Portfolio companies with a cost basis, valued at realized proceeds plus the current mark.
+ */
+export const portfolioWaterfallInputs = (portfolio: PortfolioCompany[], asOf: Date = new Date()): WaterfallInput[] =>
+    portfolio
+        .filter(p => (p.investedCapital || 0) > 0)
+        .map(p => ({
+            name: p.name,
+            invested: p.investedCapital!,
+            proceeds: p.currentValue ?? p.investedCapital!,
+            years: holdingYears(p.entryDate, p.exitDate, asOf)
+        }));
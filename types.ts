@@ -26,11 +26,31 @@ export interface Agent {
   description: string;
 }
 
+// What went wrong with an agent call, so the log can say what to do about it
+export type AppErrorCode = 'quota' | 'auth' | 'safety' | 'malformed_output' | 'timeout' | 'unavailable' | 'network' | 'replay_miss' | 'budget' | 'unknown';
+
 export interface AppError {
   message: string;
   stack?: string;
-  code?: string;
+  code?: AppErrorCode;
   context?: string;
+  attempts?: number; // provider calls made, retries included
+}
+
+export interface ValidationIssue {
+  path: string; // e.g. lboAssumptions.tranches[1].rate
+  problem: string;
+  received: string; // short preview of what the model returned
+  resolution: 'corrected' | 'clamped' | 'defaulted' | 'dropped' | 'unresolved';
+  applied?: string; // value used in place of the model's for clamped and defaulted fields
+}
+
+// Field-level result of checking one agent response against its schema
+export interface ValidationReport {
+  agent: string;
+  repairedJson: boolean; // output was cut off or malformed and had to be patched to parse
+  reasked: boolean;
+  issues: ValidationIssue[];
 }
 
 export interface LogEntry {
@@ -43,6 +63,8 @@ export interface LogEntry {
   status: AgentStatus;
   latency?: number; // in milliseconds
   errorDetails?: AppError;
+  validation?: ValidationReport[];
+  usage?: TokenUsage; // agent calls made in this step
 }
 
 export interface FileAttachment {
@@ -51,6 +73,50 @@ export interface FileAttachment {
   data: string; // Base64 Data URI
 }
 
+// --- Trace Recording Types ---
+
+export type LLMMethod = 'generateText' | 'generateJSON' | 'searchGrounded' | 'generateImage' | 'searchMaps';
+
+export interface RecordedCall {
+  step: number; // 1-based index of the runStep within the trace
+  stepName: string;
+  role: AgentRole;
+  call: number; // order of the provider call within its step
+  method: LLMMethod;
+  request: any; // provider request as sent
+  response?: any; // provider result; absent when the call failed
+  error?: string;
+  code?: AppErrorCode;
+  latency: number; // ms
+}
+
+// What started the trace, so a replay can invoke the same handler with the same inputs
+export type TraceInput =
+  | { kind: 'message'; text: string; attachments?: FileAttachment[] }
+  | { kind: 'deliverable'; deliverableType: DeliverableType; dealTitle: string; dealId?: string }
+  | { kind: 'portfolio'; attachments: FileAttachment[] };
+
+export interface TraceRecording {
+  traceId: string;
+  createdAt: string; // ISO timestamp
+  provider: string; // label of the provider that answered
+  replayOf?: string; // traceId of the recording this run was replayed from
+  input: TraceInput;
+  steps: { step: number; name: string; role: AgentRole; status: 'completed' | 'error' }[];
+  calls: RecordedCall[];
+  // Set on saved copies, which drop inline payloads to fit browser storage
+  attachmentRefs?: AttachmentRef[]; // input attachments, in order; replay asks for the files again
+  imagesOmitted?: number; // generated images replay as missing
+}
+
+// Identifies an attachment whose contents were not kept
+export interface AttachmentRef {
+  name: string;
+  type: string;
+  size: number; // characters of the data URI
+  fingerprint: string;
+}
+
 export interface Message {
   id: string;
   dealId?: string | null; // Null implies Global/HQ context
@@ -93,9 +159,27 @@ export interface InvestmentMemo {
 
 // --- Financial Modeling Types ---
 
+// reported: published by the company or a filing; extracted: read from an uploaded document;
+// estimated: derived from a proxy or benchmark; assumed: analyst or scenario input; calculated: engine output
+export type ProvenanceSource = 'reported' | 'extracted' | 'estimated' | 'assumed' | 'calculated';
+
+export interface CellProvenance {
+  source: ProvenanceSource;
+  reference?: string; // document name and page, or URL
+  method?: string; // how an estimate or assumption was made
+}
+
+// A single figure cited by the diligence agent
+export interface SourcedMetric extends CellProvenance {
+  metric: string;
+  period?: string; // e.g. "FY2024", "LTM"
+  value: number;
+}
+
 export interface FinancialRow {
   label: string;
   values: number[]; // [LTM, Year 1, Year 2, Year 3, Year 4, Year 5]
+  provenance?: (CellProvenance | null)[]; // parallel to values; null = untagged
 }
 
 export interface FinancialSection {
@@ -103,6 +187,99 @@ export interface FinancialSection {
   rows: FinancialRow[];
 }
 
+// --- Model Integrity Types ---
+
+export type ModelCheckId = 'rowLength' | 'balanceSheet' | 'cashTie' | 'ebitdaBuild';
+export type FinancialStatementKey = 'incomeStatement' | 'balanceSheet' | 'cashFlow';
+
+export interface ModelIntegrityIssue {
+    check: ModelCheckId;
+    statement: FinancialStatementKey;
+    rowLabel: string;
+    yearIndex?: number; // omitted = whole row
+    message: string;
+}
+
+export interface ModelHealth {
+    status: 'pass' | 'warn' | 'fail'; // warn = a check could not run (line item missing)
+    checks: { id: ModelCheckId; label: string; status: 'pass' | 'fail' | 'skipped'; detail: string }[];
+    issues: ModelIntegrityIssue[];
+}
+
+export type DebtTrancheType = 'Revolver' | 'Term Loan A' | 'Term Loan B' | 'Second Lien' | 'Mezzanine' | 'Seller Note';
+
+export interface DebtTranche {
+    id: string;
+    name: string;
+    type: DebtTrancheType;
+    amountMultiple: number; // x LTM EBITDA funded at close (revolver: drawn at close)
+    commitmentMultiple?: number; // revolver capacity, x LTM EBITDA
+    rateType: 'fixed' | 'floating';
+    rate: number; // fixed coupon %, or spread % over the base rate when floating
+    floor?: number; // base rate floor % (floating only)
+    pikRate?: number; // % coupon that can be paid in kind
+    pikToggle?: boolean; // true = PIK portion accrues to principal instead of being paid in cash
+    amortizationRate: number; // % of original principal repaid per year
+    upfrontFeePct: number; // financing fee / OID, % of funded amount
+    sweepPriority: number; // 1 = first to be prepaid from excess cash; 0 = not swept
+}
+
+// Inputs proposed by the Associate agent. All returns math is done by services/lboEngine.
+export interface LBOAssumptions {
+    entryMultiple: number; // EV / LTM EBITDA
+    exitMultiple: number; // EV / Exit-year EBITDA
+    leverageMultiple: number; // Total debt / LTM EBITDA
+    interestRate: number; // % p.a. on opening debt balance
+    amortizationRate: number; // % of original principal repaid per year
+    cashSweepPct: number; // % of excess free cash flow used to prepay debt
+    holdPeriod: number; // years
+    transactionFeesPct: number; // % of entry EV
+    taxRate: number; // %
+    baseRate?: number; // % reference rate (e.g. SOFR) for floating tranches
+    tranches?: DebtTranche[]; // when present, leverage / rate / amortization are derived from them
+}
+
+// --- DCF Types ---
+
+export interface DCFAssumptions {
+    riskFreeRate: number; // %
+    beta: number; // levered equity beta
+    equityRiskPremium: number; // %
+    sizePremium: number; // % small-cap / company-specific premium
+    preTaxCostOfDebt: number; // %
+    taxRate: number; // %
+    debtWeight: number; // % target D / (D + E)
+    terminalMethod: 'gordon' | 'exitMultiple';
+    terminalGrowth: number; // % perpetual growth (Gordon)
+    terminalMultiple: number; // x EV / terminal-year EBITDA
+}
+
+// Maintenance covenants tested on every projected year; an omitted covenant is not tested
+export interface CovenantSet {
+    maxTotalLeverage?: number; // x total debt / EBITDA
+    minInterestCoverage?: number; // x EBITDA / cash interest
+    minFixedChargeCoverage?: number; // x (EBITDA - CapEx - cash taxes) / (cash interest + scheduled amortization)
+    maxCapex?: number; // $M per year
+}
+
+// --- Scenario Types ---
+
+// Absolute values; an omitted field keeps the base case
+export interface ScenarioOverrides {
+    revenueGrowth?: number; // % p.a. across projection years
+    ebitdaMargin?: number; // %
+    exitMultiple?: number;
+    interestRate?: number; // % cost of debt
+}
+
+export interface DealScenario {
+    id: string;
+    name: string;
+    kind: 'base' | 'upside' | 'downside' | 'custom';
+    overrides: ScenarioOverrides; // absolute values, pinned whatever the base case does
+    shifts?: ScenarioOverrides; // deltas from the base case (points, or turns for the multiple), re-applied as it changes
+}
+
 export interface LBODetailed {
     assumptions: { label: string; value: string }[];
     sources: { label: string; value: number }[];
@@ -111,6 +288,74 @@ export interface LBODetailed {
     projectedReturns: FinancialSection;
 }
 
+// Entry-to-exit sponsor equity attribution ($M). Components sum to exitEquity - entryEquity.
+export interface ValueCreationBridge {
+    entryEquity: number;
+    exitEquity: number;
+    ebitdaGrowth: number; // (exit EBITDA - entry EBITDA) x entry multiple
+    multipleExpansion: number; // (exit multiple - entry multiple) x exit EBITDA
+    deleveraging: number; // debt paydown + cash build
+    feesAndExpenses: number; // transaction and financing fees funded at close (negative)
+    other: number; // residual, e.g. exit equity floored at zero
+}
+
+// --- Comparable Companies Types ---
+
+export interface CompanyComp {
+    ticker: string;
+    name: string;
+    sector: string;
+    enterpriseValue: number; // $M
+    revenue: number; // $M LTM
+    ebitda: number; // $M LTM
+    revenueGrowth: number; // % YoY
+    ebitdaMargin: number; // %
+}
+
+export interface CompsPeer extends CompanyComp {
+    included: boolean;
+    similarity: number; // 0-1 sector + size fit used for the screen
+}
+
+export interface CompsStats {
+    count: number;
+    mean: number;
+    median: number;
+    p25: number;
+    p75: number;
+    min: number;
+    max: number;
+}
+
+export interface CompsAnalysis {
+    peers: CompsPeer[];
+    evRevenue: CompsStats;
+    evEbitda: CompsStats;
+    datasetAsOf: string;
+}
+
+// --- Precedent Transactions Types ---
+
+export type PrecedentDealType = 'Strategic' | 'Sponsor' | 'Add-On' | 'Take-Private';
+
+export interface PrecedentTransaction {
+    id: string;
+    date: string; // ISO announcement date, YYYY-MM-DD
+    acquirer: string;
+    target: string;
+    sector: string;
+    dealType: PrecedentDealType;
+    enterpriseValue: number; // $M
+    evEbitda: number; // x LTM EBITDA
+    controlPremium?: number; // % over unaffected price, public targets only
+}
+
+export interface PrecedentFilter {
+    sector: string; // '' = all sectors
+    years: number; // look-back window, 0 = all dates
+    dealTypes: PrecedentDealType[]; // empty = all types
+}
+
 // --- Deliverable Types ---
 export type DeliverableType = 'Teaser' | 'Pitch Deck' | 'CIM' | 'One Pager';
 
@@ -130,6 +375,95 @@ export interface Deliverable {
   createdAt: Date;
 }
 
+// --- Quality of Earnings Types ---
+
+export type AddBackCategory = 'Owner Compensation' | 'One-Time / Non-Recurring' | 'Run-Rate Synergies' | 'Pro Forma Acquisition' | 'Pricing / Run-Rate Revenue' | 'Other';
+// proposed: suggested by management or the agent, not yet diligenced
+export type AddBackStatus = 'proposed' | 'accepted' | 'challenged' | 'rejected';
+
+export interface EbitdaAddBack {
+  id: string;
+  description: string;
+  category: AddBackCategory;
+  amount: number; // $M LTM EBITDA impact; negative for deductions
+  runRate: boolean; // also applies to projection years (false for one-offs already out of the plan)
+  supportDocument?: string; // e.g. "CIM p.42", "QoE report s.3"
+  status: AddBackStatus;
+  note?: string; // diligence comment
+}
+
+// One month-end balance sheet, trade working capital lines only ($M)
+export interface NwcMonth {
+  period: string; // YYYY-MM
+  receivables: number;
+  inventory: number;
+  payables: number;
+  accruedLiabilities: number;
+}
+
+export interface WorkingCapitalData {
+  source: string; // file and sheet the months were read from
+  months: NwcMonth[]; // ascending, in millions
+  sheetScale?: UnitScale; // scale the sheet quotes its figures in
+  sheetScaleSource?: 'note' | 'assumed' | 'user'; // 'assumed': no units note, figures taken as millions until the user picks
+  closingNwc?: number; // $M estimated NWC at close, for the price adjustment
+  collar?: number; // $M either side of the peg; defaults to one standard deviation of trailing NWC
+}
+
+// --- Currency Types ---
+
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'CHF' | 'CAD' | 'AUD' | 'JPY' | 'SEK' | 'NOK' | 'DKK';
+
+// Scale the figures are quoted in; the app's engines work in millions
+export type UnitScale = 'units' | 'thousands' | 'millions' | 'billions';
+
+export interface FxRate {
+  currency: CurrencyCode;
+  date: string; // YYYY-MM-DD the rate applies from
+  rate: number; // USD per one unit of the currency
+}
+
+export interface FxTable {
+  spot: Partial<Record<CurrencyCode, number>>; // USD per unit, used for balances and values today
+  historic: FxRate[]; // dated rates for LTM figures and cost bases
+}
+
+// --- LLM Provider Types ---
+
+export type LLMProviderId = 'gemini' | 'openai' | 'mock';
+
+// Agents ask for a tier, each provider maps it to one of its models
+export type ModelTier = 'reasoning' | 'fast' | 'image';
+
+export interface LLMSettings {
+  provider: LLMProviderId;
+  baseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for a local server
+  apiKey?: string; // overrides the key from the environment
+  models?: Partial<Record<ModelTier, string>>; // overrides the provider's default model per tier
+}
+
+// USD per million tokens; thinking tokens bill at the output rate
+export interface ModelPrice {
+  input: number;
+  output: number;
+  image: number; // USD per generated image
+}
+
+// Tokens and images consumed by one or more agent calls, priced when recorded
+export interface TokenUsage {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  images: number;
+  cost: number; // USD
+}
+
+export interface SpendBudget {
+  dealCap: number; // USD of agent calls per deal
+  action: 'warn' | 'halt';
+}
+
 // --- Firm & Portfolio Types ---
 
 export interface FirmProfile {
@@ -148,12 +482,50 @@ export interface FirmProfile {
   revenueRange: string; // e.g. "$10M - $100M"
   ebitdaRange: string; // e.g. "> $5M"
   profitabilityStatus: 'Profitable' | 'Path to Profitability' | 'Growth at all costs';
+  hurdleRate?: number; // % minimum deal IRR for IC approval
+  fundTerms?: FundTerms;
+
+  // Fund Construction
+  reserveRatio?: number; // % of each platform check held back for follow-ons
+  investmentPeriod?: number; // years from first close in which new platforms are made
+
+  // Currency
+  reportingCurrency?: CurrencyCode; // fund currency every total is shown in; fundSize and checkSize are quoted in it
+  fxRates?: FxTable;
+
+  // Model Provider
+  llm?: LLMSettings;
+  modelPrices?: Record<string, ModelPrice>; // overrides the default price table by model name
+  spendBudget?: SpendBudget;
   
   // Strategy
   fundraisingStage: string; // e.g. "Currently Deploying Fund III"
   strategicNotes: string; // Any specific nuances for the AI
 }
 
+export type WaterfallMode = 'european' | 'american';
+
+export interface FundTerms {
+  waterfall: WaterfallMode; // european = whole fund, american = deal by deal
+  preferredReturn: number; // % p.a. compounding hurdle to LPs
+  carry: number; // % of profits to the GP
+  catchUp: number; // % of distributions to the GP until it holds its carry share (0 = no catch-up)
+  managementFee: number; // % p.a. on paid-in capital
+}
+
+export type CashFlowType = 'call' | 'distribution';
+
+export interface PortfolioCashFlow {
+  date: string; // YYYY-MM-DD
+  type: CashFlowType;
+  amount: number; // $M, positive in both directions
+}
+
+export interface IndexPoint {
+  date: string; // YYYY-MM-DD
+  value: number; // index level
+}
+
 export interface PortfolioCompany {
   id: string;
   name: string;
@@ -167,10 +539,19 @@ export interface PortfolioCompany {
   ownershipPercentage?: number;
   boardSeats?: number;
   
-  // Financials
+  // Financials (in currency / unitScale; default USD millions)
+  currency?: CurrencyCode;
+  unitScale?: UnitScale;
+  ltmDate?: string; // YYYY-MM-DD end of the LTM period
   revenue: number; // LTM
   ebitda: number; // LTM
   grossMargin?: number;
+
+  // Fund position (same currency and scale)
+  investedCapital?: number; // cost basis
+  currentValue?: number; // realized proceeds plus unrealized mark
+  fairValue?: number; // unrealized mark (NAV) as of the latest valuation
+  cashFlows?: PortfolioCashFlow[]; // dated capital calls and distributions
   
   description?: string;
 }
@@ -179,6 +560,10 @@ export interface DealData {
   companyName: string;
   sector: string;
   location?: string;
+  // Every money figure in the deal is quoted in currency / unitScale (default USD millions)
+  currency?: CurrencyCode;
+  unitScale?: UnitScale;
+  ltmDate?: string; // YYYY-MM-DD end of the LTM period
   // Financials High Level
   ebitda: number;
   revenue: number;
@@ -192,6 +577,7 @@ export interface DealData {
     balanceSheet: FinancialSection;
     cashFlow: FinancialSection;
   };
+  modelHealth?: ModelHealth; // set by services/modelIntegrity whenever financialModels changes
 
   // Valuation
   lboModel: {
@@ -201,10 +587,20 @@ export interface DealData {
     moic: number;
     debttoEquity: number;
   };
+  lboAssumptions?: LBOAssumptions;
   lboDetailed?: LBODetailed;
+  valueCreation?: ValueCreationBridge;
+  scenarios?: DealScenario[];
+  covenants?: CovenantSet;
+  dcfAssumptions?: Partial<DCFAssumptions>; // only what the user set; the rest follows the defaults and the LBO
   
   sensitivityAnalysis?: SensitivityRow[]; 
-  comparables?: { name: string; multiple: number }[];
+  comparables?: { name: string; multiple: number }[]; // included peers' EV/EBITDA, derived from comps
+  comps?: CompsAnalysis;
+  precedentFilter?: PrecedentFilter;
+  addBacks?: EbitdaAddBack[]; // quality of earnings bridge from reported to adjusted EBITDA
+  adjustedEbitda?: number; // LTM ebitda plus accepted add-backs; absent while none are accepted
+  workingCapital?: WorkingCapitalData; // monthly balance sheets behind the NWC peg
   
   // Content
   memo: InvestmentMemo;
@@ -231,4 +627,5 @@ export interface DealRoom {
     lastUpdated: Date;
     tags: string[];
     priority: 'High' | 'Medium' | 'Low';
+    usage?: TokenUsage; // agent spend across every pipeline run on this deal
 }